@@ -10,6 +10,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/shadcn/select'
+import { isReplacingTranslationMode } from '@/types/config/translate'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
 import { filterEnabledProvidersConfig, getLLMTranslateProvidersConfig, getNonAPIProvidersConfig, getPureAPIProvidersConfig } from '@/utils/config/helpers'
 import { PROVIDER_ITEMS } from '@/utils/constants/providers'
@@ -21,7 +22,7 @@ export default function TranslateProviderSelector({ className }: { className?: s
   const providersConfig = useAtomValue(configFieldsAtomMap.providersConfig)
   const filteredProvidersConfig = filterEnabledProvidersConfig(providersConfig)
 
-  const isTranslationOnlyMode = translateConfig.mode === 'translationOnly'
+  const isTranslationOnlyMode = isReplacingTranslationMode(translateConfig.mode)
   const nonAPIProviders = getNonAPIProvidersConfig(filteredProvidersConfig)
   const filteredNonAPIProviders = isTranslationOnlyMode
     ? nonAPIProviders.filter(p => p.provider !== 'google')
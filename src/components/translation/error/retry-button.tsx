@@ -3,7 +3,7 @@ import { useAtomValue } from 'jotai'
 import { use } from 'react'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/shadcn/tooltip'
 import { configAtom } from '@/utils/atoms/config'
-import { translateNodesBilingualMode, translateNodeTranslationOnlyMode } from '@/utils/host/translate/node-manipulation'
+import { translateNodesBilingualMode, translateNodesHoverOriginalMode, translateNodesSideBySideMode, translateNodeTranslationOnlyMode } from '@/utils/host/translate/node-manipulation'
 import { ShadowWrapperContext } from '@/utils/react-shadow-host/create-shadow-host'
 
 export function RetryButton({ nodes }: { nodes: ChildNode[] }) {
@@ -19,6 +19,12 @@ export function RetryButton({ nodes }: { nodes: ChildNode[] }) {
     else if (translationMode === 'translationOnly') {
       await translateNodeTranslationOnlyMode(nodes, walkId, config)
     }
+    else if (translationMode === 'sideBySide') {
+      await translateNodesSideBySideMode(nodes, walkId, config)
+    }
+    else if (translationMode === 'hoverOriginal') {
+      await translateNodesHoverOriginalMode(nodes, walkId, config)
+    }
   }
 
   return (
@@ -0,0 +1,139 @@
+import type { TranslateNodesOptions } from '@/utils/host/translate/core/translation-modes'
+import type { TranslatedParagraph } from '@/utils/host/translate/core/translation-state'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtomValue } from 'jotai'
+import { use, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/shadcn/dropdown-menu'
+import { configAtom } from '@/utils/atoms/config'
+import { filterEnabledProvidersConfig, getTranslateProvidersConfig } from '@/utils/config/helpers'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+import { ShadowWrapperContext } from '@/utils/react-shadow-host/create-shadow-host'
+
+export function ParagraphActions({ getParagraph, onRetranslate, onOpenChange }: {
+  getParagraph: () => TranslatedParagraph | undefined
+  onRetranslate: (options?: Pick<TranslateNodesOptions, 'providerIds' | 'promptId'>) => Promise<void>
+  onOpenChange: (open: boolean) => void
+}) {
+  const shadowWrapper = use(ShadowWrapperContext)
+  const config = useAtomValue(configAtom)
+  const [open, setOpen] = useState(false)
+
+  // Read when the menu renders, the affordance moves between paragraphs while it stays mounted
+  const paragraph = open ? getParagraph() : undefined
+  const providers = getTranslateProvidersConfig(filterEnabledProvidersConfig(config.providersConfig))
+  const { patterns } = config.translate.customPromptsConfig
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    onOpenChange(nextOpen)
+  }
+
+  const handleCopy = async () => {
+    if (!paragraph)
+      return
+    try {
+      await navigator.clipboard.writeText(paragraph.translation)
+      toast.success(i18n.t('translation.paragraphActions.copied'))
+    }
+    catch (error) {
+      logger.error('Failed to copy the translation', error)
+    }
+  }
+
+  const handleReport = async () => {
+    if (!paragraph)
+      return
+    const { hash, sourceText, langConfig } = paragraph.result
+    try {
+      await sendMessage('reportBadTranslation', { hash, sourceText, targetCode: langConfig.targetCode })
+      toast.info(i18n.t('translation.paragraphActions.reported'))
+    }
+    catch (error) {
+      logger.error('Failed to report the translation', error)
+    }
+  }
+
+  return (
+    <DropdownMenu open={open} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          title={i18n.t('translation.paragraphActions.title')}
+          className="notranslate flex size-5 items-center justify-center rounded-full bg-background/80 text-muted-foreground shadow-sm opacity-70 transition-opacity hover:opacity-100 hover:text-foreground"
+        >
+          <Icon icon="tabler:dots" className="size-3.5" />
+        </button>
+      </DropdownMenuTrigger>
+      {paragraph && (
+        <DropdownMenuContent container={shadowWrapper} align="start" className="notranslate">
+          <DropdownMenuItem onSelect={() => void onRetranslate()}>
+            <Icon icon="tabler:reload" />
+            {i18n.t('translation.paragraphActions.retranslate')}
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Icon icon="tabler:switch-horizontal" className="mr-2 size-4" />
+              {i18n.t('translation.paragraphActions.translateWith')}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent container={shadowWrapper} className="notranslate">
+              <DropdownMenuRadioGroup
+                value={paragraph.result.providerId}
+                onValueChange={providerId => void onRetranslate({ providerIds: [providerId] })}
+              >
+                {providers.map(provider => (
+                  <DropdownMenuRadioItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {patterns.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Icon icon="tabler:message-cog" className="mr-2 size-4" />
+                {i18n.t('translation.paragraphActions.translateWithPrompt')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent container={shadowWrapper} className="notranslate">
+                <DropdownMenuItem onSelect={() => void onRetranslate({ promptId: null })}>
+                  {i18n.t('translation.paragraphActions.defaultPrompt')}
+                </DropdownMenuItem>
+                {patterns.map(pattern => (
+                  <DropdownMenuItem
+                    key={pattern.id}
+                    onSelect={() => void onRetranslate({ promptId: pattern.id })}
+                  >
+                    {pattern.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleCopy}>
+            <Icon icon="tabler:copy" />
+            {i18n.t('translation.paragraphActions.copy')}
+          </DropdownMenuItem>
+          <DropdownMenuItem variant="destructive" onSelect={handleReport}>
+            <Icon icon="tabler:flag" />
+            {i18n.t('translation.paragraphActions.report')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      )}
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,57 @@
+import type { TranslationQuality } from '@/types/translation-quality'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { use, useState } from 'react'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/shadcn/hover-card'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/shadcn/tooltip'
+import { ShadowWrapperContext } from '@/utils/react-shadow-host/create-shadow-host'
+
+export function TranslationQualityIndicator({ quality, onRetranslate }: {
+  quality: Pick<TranslationQuality, 'score' | 'issues'>
+  onRetranslate: () => Promise<void>
+}) {
+  const shadowWrapper = use(ShadowWrapperContext)
+  const [isRetranslating, setIsRetranslating] = useState(false)
+
+  const handleRetranslate = async () => {
+    setIsRetranslating(true)
+    try {
+      await onRetranslate()
+    }
+    finally {
+      setIsRetranslating(false)
+    }
+  }
+
+  return (
+    <span className="notranslate inline-flex items-center gap-0.5 px-1 opacity-60 hover:opacity-100 transition-opacity">
+      <HoverCard openDelay={0} closeDelay={100}>
+        <HoverCardTrigger asChild>
+          <Icon icon="tabler:alert-triangle" className="size-3.5 text-amber-500 cursor-help" />
+        </HoverCardTrigger>
+        <HoverCardContent className="w-64 notranslate" container={shadowWrapper}>
+          <p className="text-sm font-medium">
+            {i18n.t('translation.quality.lowScore', [quality.score])}
+          </p>
+          {quality.issues.length > 0 && (
+            <ul className="mt-2 list-disc pl-4 text-xs text-muted-foreground">
+              {quality.issues.map(issue => (
+                <li key={issue}>{i18n.t(`translation.quality.issues.${issue}`)}</li>
+              ))}
+            </ul>
+          )}
+        </HoverCardContent>
+      </HoverCard>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button type="button" disabled={isRetranslating} onClick={handleRetranslate}>
+            <Icon icon="tabler:reload" className="size-3.5 text-blue-500 hover:text-blue-600 dark:hover:text-blue-400" />
+          </button>
+        </TooltipTrigger>
+        <TooltipContent container={shadowWrapper} side="bottom" className="notranslate">
+          {i18n.t('translation.quality.retranslate')}
+        </TooltipContent>
+      </Tooltip>
+    </span>
+  )
+}
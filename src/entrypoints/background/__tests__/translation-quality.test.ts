@@ -0,0 +1,95 @@
+import type { Config } from '@/types/config/config'
+import type { RequestQueue } from '@/utils/request/request-queue'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+
+const handlers = vi.hoisted(() => new Map<string, (message: { data: any }) => Promise<unknown>>())
+
+vi.mock('@/utils/message', () => ({
+  onMessage: vi.fn((type: string, handler: (message: { data: any }) => Promise<unknown>) => {
+    handlers.set(type, handler)
+  }),
+}))
+
+vi.mock('@/utils/db/dexie/db', () => ({
+  db: {
+    translationCache: {
+      get: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/utils/translation-memory/memory', () => ({
+  deleteTranslationMemory: vi.fn(),
+}))
+
+vi.mock('@/utils/translation-quality/checks', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/utils/translation-quality/checks')>()),
+  detectTranslationIssues: vi.fn(() => []),
+}))
+
+vi.mock('../config', () => ({
+  ensureInitializedConfig: vi.fn(),
+}))
+
+const { db } = await import('@/utils/db/dexie/db')
+const { deleteTranslationMemory } = await import('@/utils/translation-memory/memory')
+const { detectTranslationIssues } = await import('@/utils/translation-quality/checks')
+const { ensureInitializedConfig } = await import('../config')
+const { setUpTranslationQualityCheck } = await import('../translation-quality')
+
+setUpTranslationQualityCheck({ enqueue: vi.fn() } as unknown as RequestQueue)
+
+const QUALITY_CHECK_CONFIG: Config = {
+  ...DEFAULT_CONFIG,
+  translate: {
+    ...DEFAULT_CONFIG.translate,
+    qualityCheck: { ...DEFAULT_CONFIG.translate.qualityCheck, enabled: true },
+  },
+}
+
+function sendToBackground(type: string, data: unknown) {
+  const handler = handlers.get(type)
+  if (!handler)
+    throw new Error(`No handler for ${type}`)
+  return handler({ data })
+}
+
+describe('reportBadTranslation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('marks the cache entry as reported and forgets the translation memory entry', async () => {
+    await sendToBackground('reportBadTranslation', { hash: 'hash-1', sourceText: 'Hello world', targetCode: 'cmn' })
+
+    expect(db.translationCache.update).toHaveBeenCalledWith('hash-1', { reportedAt: expect.any(Date) })
+    expect(deleteTranslationMemory).toHaveBeenCalledWith('Hello world', 'cmn')
+  })
+})
+
+describe('checkTranslationQuality', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(ensureInitializedConfig).mockResolvedValue(QUALITY_CHECK_CONFIG)
+  })
+
+  it('checks a translation without a cache entry only once', async () => {
+    vi.mocked(db.translationCache.get).mockResolvedValue(undefined)
+    const data = {
+      hash: 'uncached-hash',
+      providerId: 'missing-provider',
+      sourceText: 'Hello world',
+      translation: '你好，世界',
+      langConfig: DEFAULT_CONFIG.language,
+    }
+
+    const first = await sendToBackground('checkTranslationQuality', data)
+    const second = await sendToBackground('checkTranslationQuality', data)
+
+    expect(second).toEqual(first)
+    expect(detectTranslationIssues).toHaveBeenCalledTimes(1)
+    expect(db.translationCache.update).not.toHaveBeenCalled()
+  })
+})
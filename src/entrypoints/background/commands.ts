@@ -0,0 +1,46 @@
+import type { ExtensionCommand } from '@/utils/constants/commands'
+import { browser } from '#imports'
+import { EXTENSION_COMMANDS } from '@/utils/constants/commands'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+
+async function dispatchCommand(command: ExtensionCommand, tabId: number) {
+  switch (command) {
+    case EXTENSION_COMMANDS.togglePageTranslation:
+      await sendMessage('togglePageTranslation', undefined, tabId)
+      break
+    case EXTENSION_COMMANDS.cycleTranslationMode:
+      await sendMessage('cycleTranslationMode', undefined, tabId)
+      break
+    case EXTENSION_COMMANDS.openReadMode:
+      await sendMessage('readArticle', undefined, tabId)
+      break
+    case EXTENSION_COMMANDS.translateClipboard:
+      await sendMessage('translateClipboard', undefined, tabId)
+      break
+    case EXTENSION_COMMANDS.nextTranslateProvider:
+      await sendMessage('switchTranslateProvider', undefined, tabId)
+      break
+  }
+}
+
+/**
+ * Forward the manifest commands to the content scripts of the active tab, which show the result
+ * where the user is looking
+ */
+export function setUpCommands() {
+  browser.commands.onCommand.addListener(async (command, tab) => {
+    const tabId = tab?.id ?? (await browser.tabs.query({ active: true, lastFocusedWindow: true }))[0]?.id
+    if (typeof tabId !== 'number')
+      return
+
+    logger.info('[Commands] Dispatching command', { command, tabId })
+    try {
+      await dispatchCommand(command as ExtensionCommand, tabId)
+    }
+    catch (error) {
+      // Pages without content scripts, such as the browser's own pages, can't receive commands
+      logger.warn('[Commands] Failed to dispatch command', command, error)
+    }
+  })
+}
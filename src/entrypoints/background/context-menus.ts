@@ -0,0 +1,210 @@
+import type { Browser } from '#imports'
+import type { Config } from '@/types/config/config'
+import { browser, i18n, storage } from '#imports'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { CONFIG_STORAGE_KEY } from '@/utils/constants/config'
+import { DEFAULT_TRANSLATE_PROMPT_ID } from '@/utils/constants/prompt'
+import { TRANSLATION_STATE_KEY_PREFIX } from '@/utils/constants/storage-keys'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+import { matchDomainPattern } from '@/utils/url'
+import { getTranslationState } from './translation-signal'
+
+const MENU_ID = {
+  translateSelection: 'translate-selection',
+  translateWithPrompt: 'translate-with-prompt',
+  speakSelection: 'speak-selection',
+  togglePageTranslation: 'toggle-page-translation',
+  readArticle: 'read-article',
+  translateLinkText: 'translate-link-text',
+  alwaysTranslateSite: 'always-translate-site',
+} as const
+
+// Children of the prompt submenu carry the prompt id after this prefix
+const PROMPT_MENU_ID_PREFIX = 'translate-with-prompt:'
+
+// Content scripts only run on web pages, the entries would do nothing anywhere else
+const DOCUMENT_URL_PATTERNS = ['http://*/*', 'https://*/*']
+
+let refreshQueue = Promise.resolve()
+
+async function getActiveTab(): Promise<Browser.tabs.Tab | undefined> {
+  const [tab] = await browser.tabs.query({ active: true, lastFocusedWindow: true })
+  return tab
+}
+
+function createMenu(properties: Browser.contextMenus.CreateProperties) {
+  browser.contextMenus.create({ documentUrlPatterns: DOCUMENT_URL_PATTERNS, ...properties })
+}
+
+/**
+ * Rebuild every entry from the config and the state of the active tab. The menu can't be changed
+ * while it is open, so titles and visibility are kept up to date ahead of the next right click.
+ */
+async function refreshContextMenus() {
+  const config = await getConfigFromStorage()
+  const tab = await getActiveTab()
+  const url = tab?.url ?? ''
+  const isPageTranslated = typeof tab?.id === 'number' && await getTranslationState(tab.id)
+
+  await browser.contextMenus.removeAll()
+  if (!config)
+    return
+
+  const isSelectionDisabled = config.selectionToolbar.disabledSelectionToolbarPatterns
+    .some(pattern => matchDomainPattern(url, pattern))
+  const { patterns } = config.translate.customPromptsConfig
+
+  createMenu({
+    id: MENU_ID.translateSelection,
+    title: i18n.t('contextMenu.translateSelection'),
+    contexts: ['selection'],
+    visible: !isSelectionDisabled,
+  })
+
+  if (patterns.length > 0) {
+    createMenu({
+      id: MENU_ID.translateWithPrompt,
+      title: i18n.t('contextMenu.translateWithPrompt'),
+      contexts: ['selection'],
+      visible: !isSelectionDisabled,
+    })
+    const prompts = [
+      { id: DEFAULT_TRANSLATE_PROMPT_ID, name: i18n.t('options.translation.personalizedPrompts.default') },
+      ...patterns,
+    ]
+    for (const prompt of prompts) {
+      createMenu({
+        id: `${PROMPT_MENU_ID_PREFIX}${prompt.id}`,
+        parentId: MENU_ID.translateWithPrompt,
+        title: prompt.name,
+        contexts: ['selection'],
+      })
+    }
+  }
+
+  createMenu({
+    id: MENU_ID.speakSelection,
+    title: i18n.t('contextMenu.speakSelection'),
+    contexts: ['selection'],
+    visible: !isSelectionDisabled,
+  })
+
+  createMenu({
+    id: MENU_ID.translateLinkText,
+    title: i18n.t('contextMenu.translateLinkText'),
+    contexts: ['link'],
+  })
+
+  createMenu({
+    id: MENU_ID.togglePageTranslation,
+    title: i18n.t(isPageTranslated ? 'contextMenu.showOriginal' : 'contextMenu.translatePage'),
+    contexts: ['page'],
+  })
+
+  createMenu({
+    id: MENU_ID.readArticle,
+    title: i18n.t('contextMenu.readArticle'),
+    contexts: ['page'],
+  })
+
+  createMenu({
+    id: MENU_ID.alwaysTranslateSite,
+    title: i18n.t('contextMenu.alwaysTranslateSite'),
+    type: 'checkbox',
+    checked: config.translate.page.autoTranslatePatterns.some(pattern => matchDomainPattern(url, pattern)),
+    contexts: ['page'],
+  })
+}
+
+function scheduleRefresh() {
+  refreshQueue = refreshQueue
+    .then(refreshContextMenus)
+    .catch((error) => {
+      logger.error('[ContextMenus] Failed to refresh context menus', error)
+    })
+}
+
+async function setAlwaysTranslateSite(url: string, checked: boolean) {
+  const config = await getConfigFromStorage()
+  if (!config)
+    return
+
+  const currentPatterns = config.translate.page.autoTranslatePatterns
+  const isInPatterns = currentPatterns.some(pattern => matchDomainPattern(url, pattern))
+  if (checked === isInPatterns)
+    return
+
+  const autoTranslatePatterns = checked
+    ? [...currentPatterns, new URL(url).hostname]
+    : currentPatterns.filter(pattern => !matchDomainPattern(url, pattern))
+
+  await storage.setItem<Config>(`local:${CONFIG_STORAGE_KEY}`, {
+    ...config,
+    translate: { ...config.translate, page: { ...config.translate.page, autoTranslatePatterns } },
+  })
+}
+
+async function handleMenuClick(info: Browser.contextMenus.OnClickData, tab?: Browser.tabs.Tab) {
+  if (typeof tab?.id !== 'number')
+    return
+  const tabId = tab.id
+
+  const menuItemId = String(info.menuItemId)
+  const text = info.selectionText?.trim() ?? ''
+
+  if (menuItemId.startsWith(PROMPT_MENU_ID_PREFIX)) {
+    const promptId = menuItemId.slice(PROMPT_MENU_ID_PREFIX.length)
+    await sendMessage('translateSelectionFromContextMenu', {
+      text,
+      promptId: promptId === DEFAULT_TRANSLATE_PROMPT_ID ? null : promptId,
+    }, tabId)
+    return
+  }
+
+  switch (menuItemId) {
+    case MENU_ID.translateSelection:
+      await sendMessage('translateSelectionFromContextMenu', { text }, tabId)
+      break
+    case MENU_ID.speakSelection:
+      await sendMessage('speakSelectionFromContextMenu', { text }, tabId)
+      break
+    case MENU_ID.translateLinkText:
+      await sendMessage('translateLinkTextFromContextMenu', undefined, tabId)
+      break
+    case MENU_ID.togglePageTranslation:
+      await sendMessage('togglePageTranslation', undefined, tabId)
+      break
+    case MENU_ID.readArticle:
+      await sendMessage('readArticle', undefined, tabId)
+      break
+    case MENU_ID.alwaysTranslateSite:
+      if (tab.url)
+        await setAlwaysTranslateSite(tab.url, info.checked ?? false)
+      break
+  }
+}
+
+export function setUpContextMenus() {
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    void handleMenuClick(info, tab).catch(error =>
+      logger.error('[ContextMenus] Failed to handle context menu click', info.menuItemId, error),
+    )
+  })
+
+  // Titles, checkboxes and visibility follow the config, the active tab and its translation state
+  storage.watch<Config>(`local:${CONFIG_STORAGE_KEY}`, scheduleRefresh)
+  browser.tabs.onActivated.addListener(scheduleRefresh)
+  browser.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+    if (tab.active && changeInfo.url)
+      scheduleRefresh()
+  })
+  browser.windows.onFocusChanged.addListener(scheduleRefresh)
+  browser.storage.session.onChanged.addListener((changes) => {
+    const stateKeyPrefix = TRANSLATION_STATE_KEY_PREFIX.replace(/^session:/, '')
+    if (Object.keys(changes).some(key => key.startsWith(stateKeyPrefix)))
+      scheduleRefresh()
+  })
+
+  scheduleRefresh()
+}
@@ -1,13 +1,20 @@
 import type { Config } from '@/types/config/config'
 import type { GenAIProviderConfig, ProviderConfig } from '@/types/config/provider'
+import type { GenAICookieBridgeCookie, GenAICookieBridgeStatus } from '@/utils/genai/cookie-bridge'
 import { browser, storage } from '#imports'
 import { CONFIG_STORAGE_KEY } from '@/utils/constants/config'
 import { GENAI_COOKIE_BRIDGE_DEFAULT_PORT } from '@/utils/constants/providers'
+import {
+  DEFAULT_GENAI_COOKIE_BRIDGE_STATUS,
+  GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY,
+  GenAICookieBridgeError,
+  genaiCookieBridgeStatusSchema,
+  pushCookiesToBridge,
+} from '@/utils/genai/cookie-bridge'
 import { logger } from '@/utils/logger'
+import { onMessage } from '@/utils/message'
 
 const TARGET_DOMAIN_SUFFIXES = ['.sec.samsung.net', '.secsso.net']
-const BRIDGE_HOST = '127.0.0.1'
-const ENDPOINT_PATH = '/cookies'
 const PUSH_DEBOUNCE_MS = 1500
 
 type CookieChangeListener = Parameters<typeof browser.cookies.onChanged.addListener>[0]
@@ -19,20 +26,22 @@ type StorageAreaName = Parameters<StorageChangeListener>[1]
 interface BridgeSettings {
   enabled: boolean
   port: number
+  pairingToken: string
 }
 
-interface CookiePayloadItem {
-  name: string
-  value: string
-}
-
-let currentSettings: BridgeSettings = { enabled: false, port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT }
+let currentSettings: BridgeSettings = { enabled: false, port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT, pairingToken: '' }
 let debounceHandle: ReturnType<typeof setTimeout> | null = null
 let cookieListener: CookieChangeListener | null = null
 let tabUpdateListener: TabUpdateListener | null = null
 let lastSignature: string | null = null
 
 export async function setupGenAICookieBridge() {
+  onMessage('syncGenAICookieBridge', async () => {
+    lastSignature = null
+    await pushCookies('manual', { notifyEmpty: true })
+    return await getBridgeStatus()
+  })
+
   await refreshSettings()
   browser.storage.onChanged.addListener(handleStorageChange)
 }
@@ -59,10 +68,10 @@ function handleStorageChange(changes: StorageChangeRecord, areaName: StorageArea
 
 function applySettings(config: Config | null) {
   const next = extractBridgeSettings(config)
-  if (next.enabled === currentSettings.enabled && next.port === currentSettings.port)
+  if (next.enabled === currentSettings.enabled && next.port === currentSettings.port && next.pairingToken === currentSettings.pairingToken)
     return
 
-  logger.info('[GenAI CookieBridge] Updating settings', next)
+  logger.info('[GenAI CookieBridge] Updating settings', { enabled: next.enabled, port: next.port, paired: Boolean(next.pairingToken) })
   currentSettings = next
   lastSignature = null
 
@@ -72,22 +81,21 @@ function applySettings(config: Config | null) {
     disableBridge()
 }
 
+// Cookies only leave the browser for a receiver the user explicitly paired with a token
 function extractBridgeSettings(config: Config | null): BridgeSettings {
+  const disabled = { enabled: false, port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT, pairingToken: '' }
   if (!config)
-    return { enabled: true, port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT }
+    return disabled
 
   const genaiProviders = config.providersConfig
     .filter((provider: ProviderConfig): provider is GenAIProviderConfig => provider.provider === 'genai')
 
-  if (genaiProviders.length === 0)
-    return { enabled: true, port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT }
-
   const enabledProvider = genaiProviders.find((provider: GenAIProviderConfig) => provider.cookieBridge?.enabled)
-  if (enabledProvider)
-    return { enabled: true, port: resolvePort(enabledProvider) }
+  if (!enabledProvider)
+    return disabled
 
-  const fallback = genaiProviders.find((provider: GenAIProviderConfig) => provider.cookieBridge)
-  return { enabled: false, port: resolvePort(fallback) }
+  const pairingToken = enabledProvider.cookieBridge.pairingToken?.trim() ?? ''
+  return { enabled: pairingToken.length > 0, port: resolvePort(enabledProvider), pairingToken }
 }
 
 function resolvePort(provider?: GenAIProviderConfig) {
@@ -155,10 +163,10 @@ function schedulePush(trigger: string) {
   }, PUSH_DEBOUNCE_MS)
 }
 
-async function collectCookies(): Promise<CookiePayloadItem[]> {
+async function collectCookies(): Promise<GenAICookieBridgeCookie[]> {
   const allCookies = await browser.cookies.getAll({})
   const seen = new Set<string>()
-  const filtered: CookiePayloadItem[] = []
+  const filtered: GenAICookieBridgeCookie[] = []
 
   for (const cookie of allCookies) {
     if (!matchesTargetDomain(cookie.domain ?? ''))
@@ -177,14 +185,36 @@ async function collectCookies(): Promise<CookiePayloadItem[]> {
   return filtered
 }
 
-async function pushCookies(trigger: string) {
-  if (!currentSettings.enabled)
+async function getBridgeStatus(): Promise<GenAICookieBridgeStatus> {
+  const status = await storage.getItem<GenAICookieBridgeStatus>(`local:${GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY}`)
+  const parsed = genaiCookieBridgeStatusSchema.safeParse(status)
+  return parsed.success ? parsed.data : DEFAULT_GENAI_COOKIE_BRIDGE_STATUS
+}
+
+async function updateBridgeStatus(patch: Partial<GenAICookieBridgeStatus>) {
+  try {
+    const status = await getBridgeStatus()
+    await storage.setItem<GenAICookieBridgeStatus>(`local:${GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY}`, { ...status, ...patch })
+  }
+  catch (error) {
+    logger.warn('[GenAI CookieBridge] Failed to persist status', error)
+  }
+}
+
+async function pushCookies(trigger: string, { notifyEmpty = false }: { notifyEmpty?: boolean } = {}) {
+  if (!currentSettings.enabled) {
+    if (notifyEmpty)
+      await updateBridgeStatus({ paired: false, lastError: 'Cookie bridge is disabled or not paired', lastErrorAt: Date.now() })
     return
+  }
 
+  const { port, pairingToken: token } = currentSettings
   try {
     const cookies = await collectCookies()
     if (cookies.length === 0) {
       logger.info('[GenAI CookieBridge] No cookies to push', { trigger })
+      if (notifyEmpty)
+        await updateBridgeStatus({ lastError: 'No GenAI cookies found, sign in to GenAI first', lastErrorAt: Date.now() })
       return
     }
 
@@ -194,24 +224,17 @@ async function pushCookies(trigger: string) {
       return
     }
 
-    const response = await fetch(`http://${BRIDGE_HOST}:${currentSettings.port}${ENDPOINT_PATH}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        source: 'read-frog',
-        cookies,
-      }),
-    })
-
-    if (!response.ok)
-      throw new Error(`Bridge responded with ${response.status}`)
-
+    // Runs the health handshake first, cookies only go out once the receiver proved it is paired
+    const ack = await pushCookiesToBridge({ port, token, cookies })
     lastSignature = signature
-    logger.info('[GenAI CookieBridge] Posted cookies to bridge', { count: cookies.length, trigger })
+    const now = Date.now()
+    await updateBridgeStatus({ paired: true, lastHealthAt: now, lastPushAt: now, lastPushCount: ack.received, lastError: null, lastErrorAt: null })
+    logger.info('[GenAI CookieBridge] Bridge acknowledged cookies', { count: ack.received, trigger })
   }
   catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const unpaired = error instanceof GenAICookieBridgeError && error.unpaired
+    await updateBridgeStatus({ ...(unpaired && { paired: false }), lastError: message, lastErrorAt: Date.now() })
     logger.warn('[GenAI CookieBridge] Failed to push cookies', { trigger, error })
   }
 }
@@ -44,9 +44,11 @@ export async function setUpDatabaseCleanup() {
   browser.alarms.onAlarm.addListener(async (alarm) => {
     if (alarm.name === TRANSLATION_CACHE_CLEANUP_ALARM) {
       await cleanupOldTranslationCache()
+      await cleanupOldTranslationMemory()
     }
     else if (alarm.name === REQUEST_RECORD_CLEANUP_ALARM) {
       await cleanupOldRequestRecords()
+      await cleanupOldLLMUsageRecords()
     }
     else if (alarm.name === SUMMARY_CACHE_CLEANUP_ALARM) {
       await cleanupOldSummaryCache()
@@ -58,10 +60,18 @@ export async function setUpDatabaseCleanup() {
     logger.error('Failed to run initial cache cleanup:', error)
   })
 
+  cleanupOldTranslationMemory().catch((error) => {
+    logger.error('Failed to run initial translation memory cleanup:', error)
+  })
+
   cleanupOldRequestRecords().catch((error) => {
     logger.error('Failed to run initial request records cleanup:', error)
   })
 
+  cleanupOldLLMUsageRecords().catch((error) => {
+    logger.error('Failed to run initial LLM usage records cleanup:', error)
+  })
+
   cleanupOldSummaryCache().catch((error) => {
     logger.error('Failed to run initial summary cache cleanup:', error)
   })
@@ -72,10 +82,11 @@ async function cleanupOldTranslationCache() {
     const cutoffDate = new Date()
     cutoffDate.setTime(cutoffDate.getTime() - TRANSLATION_CACHE_MAX_AGE_MINUTES * 60 * 1000)
 
-    // Delete all cache entries older than the cutoff date
+    // Delete all cache entries older than the cutoff date, except the ones pinned in the cache browser
     const deletedCount = await db.translationCache
       .where('createdAt')
       .below(cutoffDate)
+      .filter(entry => !entry.pinned)
       .delete()
 
     if (deletedCount > 0) {
@@ -100,6 +111,38 @@ export async function cleanupAllTranslationCache() {
   }
 }
 
+async function cleanupOldTranslationMemory() {
+  try {
+    const cutoffDate = new Date()
+    cutoffDate.setTime(cutoffDate.getTime() - TRANSLATION_CACHE_MAX_AGE_MINUTES * 60 * 1000)
+
+    // Entries stay as long as they keep being reused
+    const deletedCount = await db.translationMemory
+      .where('lastUsedAt')
+      .below(cutoffDate)
+      .delete()
+
+    if (deletedCount > 0) {
+      logger.info(`Translation memory cleanup: Deleted ${deletedCount} unused entries`)
+    }
+  }
+  catch (error) {
+    logger.error('Failed to cleanup old translation memory:', error)
+  }
+}
+
+export async function cleanupAllTranslationMemory() {
+  try {
+    await db.translationMemory.clear()
+
+    logger.info(`Translation memory cleanup: Deleted all translation memory entries`)
+  }
+  catch (error) {
+    logger.error('Failed to cleanup all translation memory:', error)
+    throw error
+  }
+}
+
 async function cleanupOldRequestRecords() {
   try {
     const totalCount = await db.batchRequestRecord.count()
@@ -151,15 +194,35 @@ export async function cleanupAllRequestRecords() {
   }
 }
 
+async function cleanupOldLLMUsageRecords() {
+  try {
+    const cutoffDate = new Date()
+    cutoffDate.setDate(cutoffDate.getDate() - REQUEST_RECORD_MAX_AGE_DAYS)
+
+    const deletedCount = await db.llmUsageRecord
+      .where('createdAt')
+      .below(cutoffDate)
+      .delete()
+
+    if (deletedCount > 0) {
+      logger.info(`LLM usage cleanup: Deleted ${deletedCount} records older than ${REQUEST_RECORD_MAX_AGE_DAYS} days`)
+    }
+  }
+  catch (error) {
+    logger.error('Failed to cleanup old LLM usage records:', error)
+  }
+}
+
 async function cleanupOldSummaryCache() {
   try {
     const cutoffDate = new Date()
     cutoffDate.setTime(cutoffDate.getTime() - SUMMARY_CACHE_MAX_AGE_MINUTES * 60 * 1000)
 
-    // Delete all summary cache entries older than the cutoff date
+    // Delete all summary cache entries older than the cutoff date, except pinned ones
     const deletedCount = await db.articleSummaryCache
       .where('createdAt')
       .below(cutoffDate)
+      .filter(entry => !entry.pinned)
       .delete()
 
     if (deletedCount > 0) {
@@ -1,7 +1,13 @@
 import type { TextUIPart } from 'ai'
 import { readUIMessageStream, streamText } from 'ai'
+import { isLLMProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { logger } from '@/utils/logger'
 import { getReadModelById, getTranslateModelById } from '@/utils/providers/model'
+import { sessionProviderGenerateText } from '@/utils/session-provider/chat'
+import { cancelActiveSessionRequest } from '@/utils/session-provider/request-registry'
+import { ensureInitializedConfig } from './config'
 
 export interface AnalyzeSelectionParams {
   providerId: string
@@ -148,6 +154,31 @@ export async function runAnalyzeSelectionStream(
     throw new DOMException('stream aborted', 'AbortError')
   }
 
+  const config = await ensureInitializedConfig()
+  const providerConfig = config ? getProviderConfigById(config.providersConfig, providerId) : undefined
+  if (providerConfig && isSessionProviderConfig(providerConfig)) {
+    // GenAI has no AI SDK model; stream through the portal client instead, cancelling the
+    // in-flight chat turn when the popover goes away
+    const clientRequestId = crypto.randomUUID()
+    const cancel = () => void cancelActiveSessionRequest(clientRequestId, 'Selection analysis aborted').catch(() => {})
+    signal?.addEventListener('abort', cancel, { once: true })
+    try {
+      const fullResponse = await sessionProviderGenerateText(userMessage, providerConfig, {
+        system: systemPrompt,
+        modelType: 'read',
+        clientRequestId,
+        onText: text => onChunk?.(text, text),
+      })
+      if (signal?.aborted) {
+        throw new DOMException('stream aborted', 'AbortError')
+      }
+      return fullResponse
+    }
+    finally {
+      signal?.removeEventListener('abort', cancel)
+    }
+  }
+
   const model = await getReadModelById(providerId)
 
   const result = await streamText({
@@ -174,6 +205,9 @@ export async function runAnalyzeSelectionStream(
     onChunk?.(delta, fullResponse)
   }
 
+  if (providerConfig && isLLMProviderConfig(providerConfig))
+    void recordLLMUsage({ feature: 'wordExplain', providerConfig, modelType: 'read' }, result.usage)
+
   return fullResponse
 }
 
@@ -188,6 +222,8 @@ export async function runTranslateLLMStream(
     throw new DOMException('stream aborted', 'AbortError')
   }
 
+  const config = await ensureInitializedConfig()
+  const providerConfig = config ? getProviderConfigById(config.providersConfig, providerId) : undefined
   const model = await getTranslateModelById(providerId)
 
   const streamConfig: Record<string, unknown> = {
@@ -220,6 +256,9 @@ export async function runTranslateLLMStream(
     }
   }
 
+  if (providerConfig && isLLMProviderConfig(providerConfig))
+    void recordLLMUsage({ feature: 'translate', providerConfig, modelType: 'translate' }, result.usage)
+
   return latestText
 }
 
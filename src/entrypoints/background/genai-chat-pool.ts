@@ -0,0 +1,41 @@
+import type { SessionProviderConfig } from '@/types/config/provider'
+import { isSessionProviderConfig } from '@/types/config/provider'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { logger } from '@/utils/logger'
+import { onMessage } from '@/utils/message'
+import { deleteAllSessionProviderChats, invalidatePooledSessionProviderChat, warmSessionProviderChatPool } from '@/utils/session-provider/chat'
+import { inspectSessionChatPool, parseSessionChatPoolKey } from '@/utils/session-provider/chat-pool'
+import { ensureInitializedConfig } from './config'
+
+async function getSessionProviderConfig(providerId: string): Promise<SessionProviderConfig> {
+  const config = await ensureInitializedConfig()
+  const providerConfig = config ? getProviderConfigById(config.providersConfig, providerId) : undefined
+  if (!providerConfig || !isSessionProviderConfig(providerConfig))
+    throw new Error(`No session provider config for id ${providerId}`)
+  return providerConfig
+}
+
+export function setUpGenAIChatPoolInspector() {
+  onMessage('inspectSessionChatPool', async () => {
+    return await inspectSessionChatPool()
+  })
+
+  onMessage('invalidateSessionChatSlot', async (message) => {
+    const { key, slotId } = message.data
+    logger.info('[Background] invalidateSessionChatSlot', { key, slotId })
+    const { providerId } = parseSessionChatPoolKey(key)
+    return await invalidatePooledSessionProviderChat(await getSessionProviderConfig(providerId), key, slotId)
+  })
+
+  onMessage('scaleGenAIChatPool', async (message) => {
+    const { providerId, purpose, desiredSlots } = message.data
+    logger.info('[Background] scaleGenAIChatPool', { providerId, purpose, desiredSlots })
+    await warmSessionProviderChatPool(await getSessionProviderConfig(providerId), purpose, desiredSlots)
+  })
+
+  onMessage('deleteAllGenAIChats', async (message) => {
+    const { providerId } = message.data
+    logger.info('[Background] deleteAllGenAIChats', { providerId })
+    return await deleteAllSessionProviderChats(await getSessionProviderConfig(providerId))
+  })
+}
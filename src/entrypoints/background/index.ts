@@ -1,14 +1,19 @@
 import { browser, defineBackground } from '#imports'
+import { putLLMUsageRecord } from '@/utils/llm-usage/record'
 import { logger } from '@/utils/logger'
 import { onMessage, sendMessage } from '@/utils/message'
 import { SessionCacheGroupRegistry } from '@/utils/session-cache/session-cache-group-registry'
+import { setUpCommands } from './commands'
 import { ensureInitializedConfig } from './config'
 import { setUpConfigBackup } from './config-backup'
+import { setUpContextMenus } from './context-menus'
 import { setupGenAICookieBridge } from './cookie-bridge'
-import { cleanupAllSummaryCache, cleanupAllTranslationCache, setUpDatabaseCleanup } from './db-cleanup'
+import { cleanupAllSummaryCache, cleanupAllTranslationCache, cleanupAllTranslationMemory, setUpDatabaseCleanup } from './db-cleanup'
 import { handleAnalyzeSelectionPort, handleTranslateStreamPort, runAnalyzeSelectionStream } from './firefox-stream'
+import { setUpGenAIChatPoolInspector } from './genai-chat-pool'
 import { initMockData } from './mock-data'
 import { newUserGuide } from './new-user-guide'
+import { setUpPdfViewerRedirect } from './pdf-viewer'
 import { proxyFetch } from './proxy-fetch'
 import { setUpRequestQueue } from './translation-queues'
 import { translationMessage } from './translation-signal'
@@ -56,6 +61,13 @@ export default defineBackground({
       void sendMessage('readArticle', undefined, message.data.tabId)
     })
 
+    onMessage('requestExportPageTranslation', async (message) => {
+      // The side content runs in the page it exports, the popup names the active tab
+      const tabId = message.data.tabId ?? message.sender.tab?.id
+      if (typeof tabId === 'number')
+        void sendMessage('exportPageTranslation', { format: message.data.format }, tabId)
+    })
+
     onMessage('analyzeSelection', async (message) => {
       try {
         return await runAnalyzeSelectionStream(message.data)
@@ -66,6 +78,10 @@ export default defineBackground({
       }
     })
 
+    onMessage('recordLLMUsage', async (message) => {
+      await putLLMUsageRecord(message.data)
+    })
+
     browser.runtime.onConnect.addListener((port) => {
       if (port.name === 'analyze-selection-stream') {
         handleAnalyzeSelectionPort(port)
@@ -79,6 +95,7 @@ export default defineBackground({
 
     onMessage('clearAllTranslationRelatedCache', async () => {
       await cleanupAllTranslationCache()
+      await cleanupAllTranslationMemory()
       await cleanupAllSummaryCache()
     })
 
@@ -92,5 +109,9 @@ export default defineBackground({
     proxyFetch()
     void initMockData()
     void setupGenAICookieBridge()
+    setUpGenAIChatPoolInspector()
+    setUpPdfViewerRedirect()
+    setUpContextMenus()
+    setUpCommands()
   },
 })
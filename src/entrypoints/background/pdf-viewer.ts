@@ -0,0 +1,34 @@
+import { browser } from '#imports'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { logger } from '@/utils/logger'
+import { hasPdfViewerHostPermission } from '@/utils/pdf/permissions'
+import { getPdfViewerUrl, shouldOpenInPdfViewer } from '@/utils/pdf/url'
+
+/**
+ * Send tabs that navigate to a PDF to the extension's viewer when the user opted in. Only URLs
+ * ending in `.pdf` are recognized, since checking the response type would need the webRequest API.
+ */
+export function setUpPdfViewerRedirect() {
+  browser.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+    const { url } = changeInfo
+    if (!url || !shouldOpenInPdfViewer(url))
+      return
+
+    const config = await getConfigFromStorage()
+    if (!config?.pdfViewer.interceptNavigation)
+      return
+    // Without access to the site the viewer could only show a load error, the browser's viewer works
+    if (!await hasPdfViewerHostPermission()) {
+      logger.warn('[PdfViewer] No host permission, leaving the PDF to the browser viewer', { tabId, url })
+      return
+    }
+
+    logger.info('[PdfViewer] Opening PDF in viewer', { tabId, url })
+    try {
+      await browser.tabs.update(tabId, { url: getPdfViewerUrl(url) })
+    }
+    catch (error) {
+      logger.warn('[PdfViewer] Failed to redirect PDF navigation', error)
+    }
+  })
+}
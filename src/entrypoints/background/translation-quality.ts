@@ -0,0 +1,136 @@
+import type { Config } from '@/types/config/config'
+import type { LLMTranslateProviderConfig, ProviderConfig } from '@/types/config/provider'
+import type { QualityCheckConfig } from '@/types/config/translate'
+import type { TranslationQuality, TranslationQualityIssue } from '@/types/translation-quality'
+import type { RequestQueue } from '@/utils/request/request-queue'
+import { generateText } from 'ai'
+import { isLLMTranslateProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { getProviderOptions } from '@/utils/constants/model'
+import { db } from '@/utils/db/dexie/db'
+import { executeTranslate } from '@/utils/host/translate/execute-translate'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
+import { logger } from '@/utils/logger'
+import { onMessage } from '@/utils/message'
+import { getQualityJudgePrompt } from '@/utils/prompts/quality'
+import { getTranslateModelById } from '@/utils/providers/model'
+import { sessionProviderGenerateText } from '@/utils/session-provider/chat'
+import { deleteTranslationMemory } from '@/utils/translation-memory/memory'
+import { combineQualityResult, detectTranslationIssues, getBackTranslationScore, needsAdequacyCheck, parseQualityJudgeResponse } from '@/utils/translation-quality/checks'
+import { ensureInitializedConfig } from './config'
+
+// Checks share the request queue with translations and wait behind the ones the reader is looking at
+const QUALITY_CHECK_SCHEDULE_DELAY_MS = 5_000
+const MAX_UNCACHED_QUALITY_RESULTS = 500
+
+// Results for translations without a cache entry to store them in, e.g. reused from the translation
+// memory, so they aren't checked again each time the page asks. Oldest first, as Maps keep insertion order
+const uncachedQualityResults = new Map<string, { translation: string, quality: TranslationQuality }>()
+
+function getUncachedQuality(hash: string, translation: string): TranslationQuality | undefined {
+  const entry = uncachedQualityResults.get(hash)
+  return entry?.translation === translation ? entry.quality : undefined
+}
+
+function rememberUncachedQuality(hash: string, translation: string, quality: TranslationQuality) {
+  uncachedQualityResults.delete(hash)
+  uncachedQualityResults.set(hash, { translation, quality })
+  const [oldestHash] = uncachedQualityResults.keys()
+  if (uncachedQualityResults.size > MAX_UNCACHED_QUALITY_RESULTS && oldestHash !== undefined)
+    uncachedQualityResults.delete(oldestHash)
+}
+
+interface QualityCheckData {
+  hash: string
+  providerId: string
+  sourceText: string
+  translation: string
+  langConfig: Config['language']
+}
+
+async function judgeTranslation(
+  { sourceText, translation, langConfig }: QualityCheckData,
+  providerConfig: LLMTranslateProviderConfig,
+) {
+  const prompt = getQualityJudgePrompt(sourceText, translation, langConfig.targetCode)
+
+  if (isSessionProviderConfig(providerConfig))
+    return parseQualityJudgeResponse(await sessionProviderGenerateText(prompt, providerConfig, { modelType: 'translate' }))
+
+  const { models: { translate } } = providerConfig
+  const translateModel = translate.isCustomModel ? translate.customModel : translate.model
+  const result = await generateText({
+    model: await getTranslateModelById(providerConfig.id),
+    prompt,
+    providerOptions: getProviderOptions(translateModel ?? ''),
+  })
+  void recordLLMUsage({ feature: 'qualityCheck', providerConfig, modelType: 'translate' }, result.usage)
+  return parseQualityJudgeResponse(result.text)
+}
+
+async function backTranslate({ translation, langConfig }: QualityCheckData, providerConfig: ProviderConfig) {
+  const sourceCode = langConfig.sourceCode === 'auto' ? langConfig.detectedCode : langConfig.sourceCode
+  return executeTranslate(translation, { ...langConfig, sourceCode: langConfig.targetCode, targetCode: sourceCode }, providerConfig)
+}
+
+async function runQualityCheck(
+  data: QualityCheckData,
+  qualityCheck: QualityCheckConfig,
+  providersConfig: Config['providersConfig'],
+  requestQueue: RequestQueue,
+): Promise<TranslationQuality> {
+  const issues = detectTranslationIssues(data.sourceText, data.translation, data.langConfig.targetCode)
+  const providerConfig = getProviderConfigById(providersConfig, data.providerId)
+  if (!needsAdequacyCheck(issues) || !providerConfig) {
+    return { ...combineQualityResult(undefined, issues, qualityCheck.threshold), method: 'heuristics', checkedAt: new Date() }
+  }
+
+  const judgeProviderConfig = qualityCheck.method === 'judge' && isLLMTranslateProviderConfig(providerConfig) ? providerConfig : undefined
+  const thunk = async (): Promise<{ adequacy?: number, issues: TranslationQualityIssue[] }> => {
+    if (judgeProviderConfig) {
+      const verdict = await judgeTranslation(data, judgeProviderConfig)
+      if (!verdict)
+        logger.warn('Quality judge reply has no score', { providerId: judgeProviderConfig.id })
+      return { adequacy: verdict?.score, issues: verdict?.issues ?? [] }
+    }
+    const backTranslation = await backTranslate(data, providerConfig)
+    return { adequacy: getBackTranslationScore(data.sourceText, backTranslation), issues: [] }
+  }
+
+  const result = await requestQueue.enqueue(thunk, Date.now() + QUALITY_CHECK_SCHEDULE_DELAY_MS, `quality:${data.hash}`)
+  return {
+    ...combineQualityResult(result.adequacy, [...issues, ...result.issues], qualityCheck.threshold),
+    method: judgeProviderConfig ? 'judge' : 'backTranslation',
+    checkedAt: new Date(),
+  }
+}
+
+export function setUpTranslationQualityCheck(requestQueue: RequestQueue) {
+  onMessage('checkTranslationQuality', async (message) => {
+    const { data } = message
+    const config = await ensureInitializedConfig()
+    const qualityCheck = config?.translate.qualityCheck
+    if (!config || !qualityCheck?.enabled)
+      return null
+
+    // A stored score only holds for the translation it was given to
+    const cached = await db.translationCache.get(data.hash)
+    const isCached = cached?.translation === data.translation
+    const knownQuality = isCached ? cached.quality : getUncachedQuality(data.hash, data.translation)
+    if (knownQuality)
+      return { score: knownQuality.score, issues: knownQuality.issues }
+
+    const quality = await runQualityCheck(data, qualityCheck, config.providersConfig, requestQueue)
+    if (isCached)
+      await db.translationCache.update(data.hash, { quality })
+    else
+      rememberUncachedQuality(data.hash, data.translation, quality)
+    return { score: quality.score, issues: quality.issues }
+  })
+
+  onMessage('reportBadTranslation', async (message) => {
+    const { hash, sourceText, targetCode } = message.data
+    await db.translationCache.update(hash, { reportedAt: new Date() })
+    await deleteTranslationMemory(sourceText, targetCode)
+  })
+}
@@ -1,33 +1,42 @@
 import type { Config } from '@/types/config/config'
-import type { GenAIProviderConfig, LLMTranslateProviderConfig, ProviderConfig, TranslateProviderTypes } from '@/types/config/provider'
+import type { BatchFormat, LLMTranslateProviderConfig, ProviderConfig, SessionProviderConfig, TranslateProviderTypes } from '@/types/config/provider'
 import type { RequestQueueConfig, TranslationMode } from '@/types/config/translate'
 import type { ArticleContent } from '@/types/content'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+import type ArticleSummaryCache from '@/utils/db/dexie/tables/article-summary-cache'
 import type { QueueOptions } from '@/utils/request/request-queue'
 
+import type { TranslationMemoryLookup } from '@/utils/translation-memory/memory'
 import { browser } from '#imports'
-import { isGenAIProviderConfig, isLLMTranslateProviderConfig } from '@/types/config/provider'
+import { isLLMTranslateProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { isReplacingTranslationMode } from '@/types/config/translate'
 import { putBatchRequestRecord } from '@/utils/batch-request-record'
 import { CONFIG_STORAGE_KEY, DEFAULT_CONFIG } from '@/utils/constants/config'
-import { BATCH_SEPARATOR } from '@/utils/constants/prompt'
 import { TRANSLATE_PROVIDER_CHARACTER_LIMITS } from '@/utils/constants/providers'
 import { MIN_BATCH_CHARACTERS } from '@/utils/constants/translate'
 import { generateArticleSummary } from '@/utils/content/summary'
 import { cleanText } from '@/utils/content/utils'
 import { db } from '@/utils/db/dexie/db'
-import { warmGenAIChatPool } from '@/utils/genai/client'
-import { GENAI_CHAT_MAX_SLOTS_PER_KEY } from '@/utils/genai/constants'
-import { cancelActiveGenAIRequest } from '@/utils/genai/request-registry'
-import { logGenAIReliabilityEvent, resolveGenAIModelName } from '@/utils/genai/telemetry'
+import { GENAI_BATCH_MISMATCH_ERROR_PREFIX } from '@/utils/genai/constants'
+import { logGenAIReliabilityEvent } from '@/utils/genai/telemetry'
 import { Sha256Hex } from '@/utils/hash'
+import { getLegacyProviderConfigJSON, getProviderCacheIdentity } from '@/utils/host/translate/cache-key'
 import { executeTranslate } from '@/utils/host/translate/execute-translate'
 import { logger } from '@/utils/logger'
-import { onMessage } from '@/utils/message'
+import { onMessage, sendMessage } from '@/utils/message'
 import { createPerfTimer } from '@/utils/perf/perf-timer'
+import { formatBatchInput, getBatchFormat, parseBatchTranslations, parsePartialBatchTranslations } from '@/utils/request/batch-format'
 import { BatchQueue } from '@/utils/request/batch-queue'
 import { RequestQueue } from '@/utils/request/request-queue'
+import { resolveSessionModelName, warmSessionProviderChatPool } from '@/utils/session-provider/chat'
 
+import { SESSION_CHAT_MAX_SLOTS_PER_KEY } from '@/utils/session-provider/constants'
+import { cancelActiveSessionRequest } from '@/utils/session-provider/request-registry'
+import { lookupTranslationMemory, putTranslationMemory } from '@/utils/translation-memory/memory'
+import { mergeTranslationMemoryReferences } from '@/utils/translation-memory/prompt'
 import { ensureInitializedConfig } from './config'
+import { setUpTranslationQualityCheck } from './translation-quality'
 
 const TRANSLATION_ONLY_QUEUE_PROFILE: QueueOptions = {
   rate: 4,
@@ -42,7 +51,7 @@ let baseRequestQueueConfig: RequestQueueConfig = DEFAULT_CONFIG.translate.reques
 let hasRegisteredConfigListener = false
 
 function buildQueueOptions(config: RequestQueueConfig, mode: TranslationMode): QueueOptions {
-  if (mode !== 'translationOnly')
+  if (!isReplacingTranslationMode(mode))
     return { ...config }
 
   return {
@@ -78,10 +87,6 @@ function registerConfigChangeListener(
   hasRegisteredConfigListener = true
 }
 
-export function parseBatchResult(result: string): string[] {
-  return result.split(BATCH_SEPARATOR).map(t => t.trim())
-}
-
 interface TranslateBatchData {
   text: string
   langConfig: Config['language']
@@ -93,22 +98,66 @@ interface TranslateBatchData {
   clientRequestId: string
   tabId?: number
   chunkMetadata?: TranslationChunkMetadata
+  promptId?: string | null
+  references?: TranslationMemoryReference[]
 }
 
 interface GenAIBatchChunkData {
+  id: string
   text: string
   hash: string
+  legacyHash?: string
   chunkMetadata?: TranslationChunkMetadata
 }
 
 interface TranslationCacheEntry { translation: string }
 
+/**
+ * Reads a cached translation, falling back to the key the same request had before cache keys
+ * ignored provider names and API keys. A legacy hit is moved to the new key so it stays reachable.
+ */
+async function getCachedTranslation(hash: string, legacyHash?: string): Promise<TranslationCacheEntry | undefined> {
+  const cached = await db.translationCache.get(hash)
+  if (cached?.reportedAt)
+    return undefined
+  if (cached || !legacyHash)
+    return cached
+
+  const legacyEntry = await db.translationCache.get(legacyHash)
+  if (!legacyEntry)
+    return undefined
+
+  await db.transaction('rw', db.translationCache, async () => {
+    await db.translationCache.put({ ...legacyEntry, key: hash })
+    await db.translationCache.delete(legacyHash)
+  })
+  return legacyEntry
+}
+
+/**
+ * Same as `getCachedTranslation` for article summaries, whose legacy key hashed the whole provider config.
+ */
+async function getCachedSummary(key: string, legacyKey: string): Promise<ArticleSummaryCache | undefined> {
+  const cached = await db.articleSummaryCache.get(key)
+  if (cached)
+    return cached
+
+  const legacyEntry = await db.articleSummaryCache.get(legacyKey)
+  if (!legacyEntry)
+    return undefined
+
+  await db.transaction('rw', db.articleSummaryCache, async () => {
+    await db.articleSummaryCache.put({ ...legacyEntry, key })
+    await db.articleSummaryCache.delete(legacyKey)
+  })
+  return legacyEntry
+}
+
 const RECOVERABLE_GENAI_RESPONSE_CODES = new Set(['R50004'])
 const RECOVERABLE_GENAI_ERROR_PATTERNS = [
   /Unexpected token\s+200007/i,
   /Model Execution Error/i,
 ]
-const GENAI_BATCH_MISMATCH_ERROR_PREFIX = 'GenAI batch result mismatch'
 
 type RecoverableBatchErrorReason = 'response-code' | 'message-pattern' | 'result-mismatch' | 'unknown'
 
@@ -144,6 +193,35 @@ function classifyGenAIBatchError(error: unknown): BatchErrorClassification {
   return { recoverable: false, reason: 'unknown', code: responseCode }
 }
 
+const GENAI_PROGRESS_INTERVAL_MS = 100
+
+/**
+ * Relays streamed GenAI output to the tab that asked for it, keyed by the chunk hash the content
+ * script is waiting on. Batched responses are split into their segments so every paragraph fills in
+ * on its own. Updates are throttled; the final translation always arrives with the response.
+ */
+function createGenAIProgressRelay(tabId: number | undefined, hashes: string[], batchFormat: BatchFormat) {
+  if (typeof tabId !== 'number' || hashes.length === 0)
+    return undefined
+
+  const lastSentTexts: string[] = []
+  let lastSentAt = 0
+
+  return (text: string) => {
+    const now = Date.now()
+    if (now - lastSentAt < GENAI_PROGRESS_INTERVAL_MS)
+      return
+    lastSentAt = now
+
+    parsePartialBatchTranslations(text, hashes.length, batchFormat).forEach((partialText, index) => {
+      if (!partialText || partialText === lastSentTexts[index])
+        return
+      lastSentTexts[index] = partialText
+      void sendMessage('genaiTranslationProgress', { hash: hashes[index], text: partialText }, tabId).catch(() => {})
+    })
+  }
+}
+
 const clientRequestRegistry = new Map<string, { tabId?: number }>()
 const tabToClientRequestIds = new Map<number, Set<string>>()
 let hasRegisteredTabRemovalListener = false
@@ -176,19 +254,19 @@ function releaseClientRequest(clientRequestId: string) {
   }
 }
 
-function getGenAIBacklogKey(providerConfig: GenAIProviderConfig): string {
+function getGenAIBacklogKey(providerConfig: SessionProviderConfig): string {
   const baseURL = providerConfig.baseURL?.trim().toLowerCase() ?? ''
   return `${providerConfig.id}:${baseURL}`
 }
 
-function incrementGenAIBacklog(providerConfig: GenAIProviderConfig): number {
+function incrementGenAIBacklog(providerConfig: SessionProviderConfig): number {
   const key = getGenAIBacklogKey(providerConfig)
   const next = (genaiBacklogCounts.get(key) ?? 0) + 1
   genaiBacklogCounts.set(key, next)
   return next
 }
 
-function decrementGenAIBacklog(providerConfig: GenAIProviderConfig): number {
+function decrementGenAIBacklog(providerConfig: SessionProviderConfig): number {
   const key = getGenAIBacklogKey(providerConfig)
   const next = Math.max((genaiBacklogCounts.get(key) ?? 1) - 1, 0)
   if (next === 0)
@@ -201,12 +279,12 @@ function decrementGenAIBacklog(providerConfig: GenAIProviderConfig): number {
 function computeDesiredGenAISlots(backlogSize: number): number {
   if (backlogSize <= 1)
     return 1
-  return Math.min(GENAI_CHAT_MAX_SLOTS_PER_KEY, Math.max(1, Math.ceil(backlogSize / 2)))
+  return Math.min(SESSION_CHAT_MAX_SLOTS_PER_KEY, Math.max(1, Math.ceil(backlogSize / 2)))
 }
 
-function requestGenAIWarmSlots(providerConfig: GenAIProviderConfig, backlogSize: number) {
+function requestGenAIWarmSlots(providerConfig: SessionProviderConfig, backlogSize: number) {
   const desiredSlots = computeDesiredGenAISlots(backlogSize)
-  void warmGenAIChatPool(providerConfig, 'translate', desiredSlots).catch((error) => {
+  void warmSessionProviderChatPool(providerConfig, 'translate', desiredSlots).catch((error) => {
     logger.warn('Failed to warm GenAI chat slots', {
       providerId: providerConfig.id,
       desiredSlots,
@@ -247,23 +325,30 @@ export async function setUpRequestQueue() {
   const requestQueue = new RequestQueue(queueOptions)
 
   const enqueueLLMRequest = async (data: TranslateBatchData) => {
-    const { text, langConfig, providerConfig, hash, scheduleAt, content, chunkMetadata, clientRequestId } = data
+    const { text, langConfig, providerConfig, hash, scheduleAt, content, chunkMetadata, clientRequestId, promptId, references } = data
     const thunk = async () => {
       await putBatchRequestRecord({ originalRequestCount: 1, providerConfig })
-      return executeTranslate(text, langConfig, providerConfig, { content, chunkMetadata, clientRequestId })
+      return executeTranslate(text, langConfig, providerConfig, { content, chunkMetadata, clientRequestId, promptId, references })
     }
     return requestQueue.enqueue(thunk, scheduleAt, hash)
   }
 
-  const enqueueGenAIRequest = async (data: TranslateBatchData & { providerConfig: GenAIProviderConfig }) => {
+  const enqueueGenAIRequest = async (data: TranslateBatchData & { providerConfig: SessionProviderConfig }) => {
     const backlogSize = incrementGenAIBacklog(data.providerConfig)
     requestGenAIWarmSlots(data.providerConfig, backlogSize)
 
     try {
-      const { text, langConfig, providerConfig, hash, scheduleAt, content, chunkMetadata, clientRequestId } = data
+      const { text, langConfig, providerConfig, hash, scheduleAt, content, chunkMetadata, clientRequestId, tabId, promptId, references } = data
       const runTask = async () => {
         await putBatchRequestRecord({ originalRequestCount: 1, providerConfig })
-        return executeTranslate(text, langConfig, providerConfig, { content, chunkMetadata, clientRequestId })
+        return executeTranslate(text, langConfig, providerConfig, {
+          content,
+          chunkMetadata,
+          clientRequestId,
+          promptId,
+          references,
+          onText: createGenAIProgressRelay(tabId, [hash], getBatchFormat(providerConfig)),
+        })
       }
       return await requestQueue.enqueue(runTask, scheduleAt, hash)
     }
@@ -286,12 +371,12 @@ export async function setUpRequestQueue() {
       return undefined
     }
 
-    // Generate cache key from text content hash and provider config
+    // Generate cache key from text content hash and the provider fields that affect the summary
     const textHash = Sha256Hex(preparedText)
-    const cacheKey = Sha256Hex(textHash, JSON.stringify(providerConfig))
+    const cacheKey = Sha256Hex(textHash, getProviderCacheIdentity(providerConfig))
 
     // Check cache first
-    const cached = await db.articleSummaryCache.get(cacheKey)
+    const cached = await getCachedSummary(cacheKey, Sha256Hex(textHash, getLegacyProviderConfigJSON(providerConfig)))
     if (cached) {
       logger.info('Using cached article summary')
       return cached.summary
@@ -316,6 +401,8 @@ export async function setUpRequestQueue() {
         key: cacheKey,
         summary,
         createdAt: new Date(),
+        articleTitle,
+        providerId: providerConfig.id,
       })
 
       logger.info('Generated and cached new article summary')
@@ -339,7 +426,8 @@ export async function setUpRequestQueue() {
     maxRetries: 3,
     enableFallbackToIndividual: true,
     getBatchKey: (data) => {
-      return Sha256Hex(`${data.langConfig.sourceCode}-${data.langConfig.targetCode}-${data.providerConfig.id}`)
+      // Site profiles can pick different prompts, which must not share a batch
+      return Sha256Hex(`${data.langConfig.sourceCode}-${data.langConfig.targetCode}-${data.providerConfig.id}-${String(data.promptId)}`)
     },
     getCharacters: (data) => {
       return data.text.length
@@ -349,19 +437,44 @@ export async function setUpRequestQueue() {
       if (dataList.length === 1)
         return [await enqueueLLMRequest(dataList[0])]
 
-      const { langConfig, providerConfig, content } = dataList[0]
-      const texts = dataList.map(d => d.text)
-      const batchText = texts.join(`\n\n${BATCH_SEPARATOR}\n\n`)
-      const hash = Sha256Hex(...dataList.map(d => d.hash))
-      const earliestScheduleAt = Math.min(...dataList.map(d => d.scheduleAt))
+      const { langConfig, providerConfig, content, promptId } = dataList[0]
+      const batchFormat = getBatchFormat(providerConfig)
+
+      const requestBatch = (batch: TranslateBatchData[]): Promise<Array<string | undefined>> => {
+        const references = mergeTranslationMemoryReferences(batch.map(d => d.references))
+        const batchText = formatBatchInput(batch.map(d => d.text), batchFormat)
+        const hash = Sha256Hex(...batch.map(d => d.hash))
+        const earliestScheduleAt = Math.min(...batch.map(d => d.scheduleAt))
+
+        const batchThunk = async () => {
+          await putBatchRequestRecord({ originalRequestCount: batch.length, providerConfig })
+          const result = await executeTranslate(batchText, langConfig, providerConfig, { isBatch: true, content, promptId, references })
+          return parseBatchTranslations(result, batch.length, batchFormat)
+        }
+
+        return requestQueue.enqueue(batchThunk, earliestScheduleAt, hash)
+      }
+
+      const translations = await requestBatch(dataList)
+      // Nothing to recover, let the queue retry the whole batch
+      if (translations.every(translation => translation === undefined))
+        throw new Error(`Batch result mismatch: none of the ${dataList.length} segments found in the response`)
 
-      const batchThunk = async (): Promise<string[]> => {
-        await putBatchRequestRecord({ originalRequestCount: dataList.length, providerConfig })
-        const result = await executeTranslate(batchText, langConfig, providerConfig, { isBatch: true, content })
-        return parseBatchResult(result)
+      // Only the segments the response dropped are requested again, once as a batch, then one by one
+      const missingIndexes = translations.flatMap((translation, index) => translation === undefined ? [index] : [])
+      if (missingIndexes.length > 1) {
+        logger.warn('Batch response is missing segments, requesting them again', {
+          providerId: providerConfig.id,
+          missingCount: missingIndexes.length,
+          batchSize: dataList.length,
+        })
+        const retried = await requestBatch(missingIndexes.map(index => dataList[index]))
+        missingIndexes.forEach((chunkIndex, index) => {
+          translations[chunkIndex] = retried[index]
+        })
       }
 
-      return requestQueue.enqueue(batchThunk, earliestScheduleAt, hash)
+      return Promise.all(translations.map((translation, index) => translation ?? enqueueLLMRequest(dataList[index])))
     },
     executeIndividual: async (data) => {
       return enqueueLLMRequest(data)
@@ -376,6 +489,7 @@ export async function setUpRequestQueue() {
   })
 
   registerConfigChangeListener(requestQueue, batchQueue)
+  setUpTranslationQualityCheck(requestQueue)
 
   if (!hasRegisteredTabRemovalListener) {
     browser.tabs.onRemoved.addListener((tabId: number) => {
@@ -386,7 +500,7 @@ export async function setUpRequestQueue() {
       tabToClientRequestIds.delete(tabId)
       for (const requestId of requestIds) {
         batchQueue.cancelTasks(data => data.clientRequestId === requestId, 'Tab closed before translation finished')
-        void cancelActiveGenAIRequest(requestId, 'Tab closed before translation finished').catch(() => {})
+        void cancelActiveSessionRequest(requestId, 'Tab closed before translation finished').catch(() => {})
       }
     })
 
@@ -394,7 +508,7 @@ export async function setUpRequestQueue() {
   }
 
   onMessage('enqueueTranslateRequest', async (message: any) => {
-    const { data: { text, langConfig, providerConfig, scheduleAt, hash, articleTitle, articleTextContent, clientRequestId, chunkMetadata } } = message
+    const { data: { text, langConfig, providerConfig, scheduleAt, hash, legacyHash, articleTitle, articleTextContent, clientRequestId, chunkMetadata, promptId, bypassCache, replaceCacheKey } } = message
     const tabId = message.sender.tab?.id
     const perf = createPerfTimer(`queue:${clientRequestId}`)
     perf.step('queue:received', {
@@ -406,14 +520,31 @@ export async function setUpRequestQueue() {
 
     try {
       // Check cache first
-      if (hash) {
-        const cached = await db.translationCache.get(hash)
+      if (hash && !bypassCache) {
+        const cached = await getCachedTranslation(hash, legacyHash)
         if (cached) {
           perf.step('cache:hit', { hash })
           return cached.translation
         }
       }
 
+      // A bypassing request is usually a retry of a bad translation, which the memory would hand back
+      const memory: TranslationMemoryLookup = bypassCache ? { reuse: null, references: [] } : await lookupTranslationMemory(text, { langConfig, providerConfig, promptId })
+      if (memory.reuse) {
+        perf.step('memory:hit', { hash })
+        if (hash) {
+          await db.translationCache.put({
+            key: hash,
+            translation: memory.reuse,
+            createdAt: new Date(),
+            providerId: providerConfig.id,
+            sourceText: text,
+            targetCode: langConfig.targetCode,
+          })
+        }
+        return memory.reuse
+      }
+
       let result = ''
       const content: ArticleContent = {
         title: articleTitle || '',
@@ -438,9 +569,11 @@ export async function setUpRequestQueue() {
           clientRequestId,
           tabId,
           chunkMetadata,
+          promptId,
+          references: memory.references,
         }
 
-        if (isGenAIProviderConfig(providerConfig))
+        if (isSessionProviderConfig(providerConfig))
           result = await enqueueGenAIRequest({ ...data, providerConfig })
         else
           result = await batchQueue.enqueue(data)
@@ -453,12 +586,18 @@ export async function setUpRequestQueue() {
 
       // Cache the translation result if successful
       if (result && hash) {
-        await db.translationCache.put({
-          key: hash,
+        const cacheKeys = replaceCacheKey && replaceCacheKey !== hash ? [hash, replaceCacheKey] : [hash]
+        await db.translationCache.bulkPut(cacheKeys.map(key => ({
+          key,
           translation: result,
           createdAt: new Date(),
-        })
+          providerId: providerConfig.id,
+          sourceText: text,
+          targetCode: langConfig.targetCode,
+        })))
       }
+      if (result)
+        await putTranslationMemory(text, result, { langConfig, providerConfig, promptId })
 
       perf.step('api:completed', {
         hash,
@@ -475,25 +614,48 @@ export async function setUpRequestQueue() {
 
   onMessage('enqueueGenAIBatch', async (message: any) => {
     const { data } = message
-    const { langConfig, providerConfig, scheduleAt, clientRequestId, articleTitle, articleTextContent } = data
+    const { langConfig, providerConfig, scheduleAt, clientRequestId, articleTitle, articleTextContent, promptId } = data
     const chunks: GenAIBatchChunkData[] = data.chunks
     const tabId = message.sender.tab?.id
 
-    if (!isGenAIProviderConfig(providerConfig))
+    if (!isSessionProviderConfig(providerConfig))
       throw new Error('enqueueGenAIBatch requires a GenAI provider config')
 
     registerClientRequest(clientRequestId, tabId)
 
-    const telemetryModelName = resolveGenAIModelName(providerConfig, 'translate')
+    const telemetryModelName = resolveSessionModelName(providerConfig, 'translate')
 
     try {
       if (!chunks.length)
         return []
 
       const chunkHashes = chunks.map(chunk => chunk.hash)
-      const cachedEntries = await Promise.all(chunkHashes.map(hash => db.translationCache.get(hash))) as Array<TranslationCacheEntry | undefined>
-      if (cachedEntries.every(entry => entry?.translation))
-        return cachedEntries.map(entry => entry?.translation ?? '')
+      const cachedEntries = await Promise.all(chunks.map(chunk => getCachedTranslation(chunk.hash, chunk.legacyHash)))
+      const cacheHits = cachedEntries.map(entry => Boolean(entry?.translation))
+      // Chunks the translation memory can answer count as cached; the others get its references
+      const memoryLookups = await Promise.all(chunks.map((chunk, index) =>
+        cachedEntries[index]?.translation ? undefined : lookupTranslationMemory(chunk.text, { langConfig, providerConfig, promptId }),
+      ))
+      memoryLookups.forEach((lookup, index) => {
+        if (lookup?.reuse)
+          cachedEntries[index] = { translation: lookup.reuse }
+      })
+      if (cachedEntries.every(entry => entry?.translation)) {
+        await Promise.all(memoryLookups.map(async (lookup, index) => {
+          if (!lookup?.reuse)
+            return
+          await db.translationCache.put({
+            key: chunkHashes[index],
+            translation: lookup.reuse,
+            createdAt: new Date(),
+            providerId: providerConfig.id,
+            sourceText: chunks[index].text,
+            targetCode: langConfig.targetCode,
+          })
+        }))
+        return cachedEntries.map((entry, index) => ({ id: chunks[index].id, translation: entry?.translation ?? '' }))
+      }
+      const references = mergeTranslationMemoryReferences(memoryLookups.map(lookup => lookup?.references))
 
       const content: ArticleContent = {
         title: articleTitle || '',
@@ -503,26 +665,36 @@ export async function setUpRequestQueue() {
       if (config?.translate.enableAIContentAware && articleTitle !== undefined && articleTextContent !== undefined)
         content.summary = await getOrGenerateSummary(articleTitle, articleTextContent, providerConfig)
 
-      const chunkMetadataList = chunks.map(chunk => chunk.chunkMetadata)
-      const batchText = chunks.map(chunk => chunk.text).join(`\n\n${BATCH_SEPARATOR}\n\n`)
-      const aggregateHash = Sha256Hex(...chunkHashes)
+      const batchFormat = getBatchFormat(providerConfig)
       const effectiveBatchLimit = resolveProviderBatchLimit(providerConfig, maxCharactersPerBatch)
 
-      const runTask = async (): Promise<string[]> => {
-        await putBatchRequestRecord({ originalRequestCount: chunks.length, providerConfig })
-        const rawResult = await executeTranslate(batchText, langConfig, providerConfig, {
+      // Translates the chunks at the given indexes; a chunk the response has no segment for is undefined
+      const runTask = async (indexes: number[]): Promise<Array<string | undefined>> => {
+        const batchChunks = indexes.map(index => chunks[index])
+        await putBatchRequestRecord({ originalRequestCount: batchChunks.length, providerConfig })
+        const rawResult = await executeTranslate(formatBatchInput(batchChunks.map(chunk => chunk.text), batchFormat), langConfig, providerConfig, {
           isBatch: true,
           content,
-          chunkMetadataList,
+          chunkMetadataList: batchChunks.map(chunk => chunk.chunkMetadata),
           clientRequestId,
+          promptId,
+          references,
+          onText: createGenAIProgressRelay(tabId, batchChunks.map(chunk => chunk.hash), batchFormat),
         })
-        return parseBatchResult(rawResult)
+        return parseBatchTranslations(rawResult, batchChunks.length, batchFormat)
       }
 
+      // Cached chunks go along in the first request for context, but are never requested again
+      const translations: Array<string | undefined> = chunks.map(() => undefined)
+      const getMissingIndexes = () => chunks.flatMap((_, index) =>
+        translations[index] === undefined && !cachedEntries[index]?.translation ? [index] : [],
+      )
+
       const translateChunksIndividually = async (fallbackReason: string): Promise<string[]> => {
         logger.warn('[GenAI Batch] Falling back to individual chunk translations', {
           providerId: providerConfig.id,
           chunkCount: chunks.length,
+          missingCount: getMissingIndexes().length,
           fallbackReason,
         })
 
@@ -533,9 +705,9 @@ export async function setUpRequestQueue() {
         try {
           const individualResults: string[] = []
           for (let index = 0; index < chunks.length; index++) {
-            const cachedEntry = cachedEntries[index]
-            if (cachedEntry?.translation) {
-              individualResults.push(cachedEntry.translation)
+            const existingTranslation = translations[index] ?? cachedEntries[index]?.translation
+            if (existingTranslation) {
+              individualResults.push(existingTranslation)
               continue
             }
 
@@ -551,6 +723,8 @@ export async function setUpRequestQueue() {
               clientRequestId,
               tabId,
               chunkMetadata: chunk.chunkMetadata,
+              promptId,
+              references: memoryLookups[index]?.references,
             })
             individualResults.push(translation)
           }
@@ -575,11 +749,20 @@ export async function setUpRequestQueue() {
         }
       }
 
+      // The first attempt sends every chunk, later ones only the chunks still missing a translation
       const attemptBatch = async (): Promise<string[]> => {
-        const translations = await requestQueue.enqueue(runTask, scheduleAt, aggregateHash)
-        if (translations.length !== chunks.length)
-          throw new Error(`${GENAI_BATCH_MISMATCH_ERROR_PREFIX}: expected ${chunks.length}, got ${translations.length}`)
-        return translations
+        const indexes = translations.every(translation => translation === undefined)
+          ? chunks.map((_, index) => index)
+          : getMissingIndexes()
+        const batchTranslations = await requestQueue.enqueue(() => runTask(indexes), scheduleAt, Sha256Hex(...indexes.map(index => chunkHashes[index])))
+        indexes.forEach((chunkIndex, index) => {
+          translations[chunkIndex] = batchTranslations[index]
+        })
+
+        const missingCount = getMissingIndexes().length
+        if (missingCount > 0)
+          throw new Error(`${GENAI_BATCH_MISMATCH_ERROR_PREFIX}: expected ${indexes.length}, got ${indexes.length - missingCount}`)
+        return translations.map(translation => translation ?? '')
       }
 
       const executeBatchWithFallback = async (): Promise<string[]> => {
@@ -639,20 +822,26 @@ export async function setUpRequestQueue() {
       requestGenAIWarmSlots(providerConfig, backlogSize)
 
       try {
-        const translations = await executeBatchWithFallback()
+        const batchTranslations = await executeBatchWithFallback()
+        // Cached chunks are part of the batch for context only; a pinned or corrected entry wins
+        const finalTranslations = batchTranslations.map((translation, index) => cachedEntries[index]?.translation || translation)
 
-        await Promise.all(translations.map(async (translation, index) => {
+        await Promise.all(finalTranslations.map(async (translation, index) => {
           const hash = chunkHashes[index]
-          if (!hash)
+          if (!hash || cacheHits[index])
             return
           await db.translationCache.put({
             key: hash,
             translation,
             createdAt: new Date(),
+            providerId: providerConfig.id,
+            sourceText: chunks[index].text,
+            targetCode: langConfig.targetCode,
           })
+          await putTranslationMemory(chunks[index].text, translation, { langConfig, providerConfig, promptId })
         }))
 
-        return translations
+        return finalTranslations.map((translation, index) => ({ id: chunks[index].id, translation }))
       }
       finally {
         decrementGenAIBacklog(providerConfig)
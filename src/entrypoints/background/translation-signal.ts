@@ -7,6 +7,13 @@ import { shouldEnableAutoTranslation } from '@/utils/host/translate/auto-transla
 import { logger } from '@/utils/logger'
 import { onMessage, sendMessage } from '@/utils/message'
 
+export async function getTranslationState(tabId: number): Promise<boolean> {
+  const state = await storage.getItem<TranslationState>(
+    getTranslationStateKey(tabId),
+  )
+  return state?.enabled ?? false
+}
+
 export function translationMessage() {
   // === Message Handlers ===
   onMessage('getEnablePageTranslation', async (msg) => {
@@ -52,13 +59,6 @@ export function translationMessage() {
   })
 
   // === Helper Functions ===
-  async function getTranslationState(tabId: number): Promise<boolean> {
-    const state = await storage.getItem<TranslationState>(
-      getTranslationStateKey(tabId),
-    )
-    return state?.enabled ?? false
-  }
-
   async function setTranslationState(tabId: number, enabled: boolean) {
     await storage.setItem<TranslationState>(
       getTranslationStateKey(tabId),
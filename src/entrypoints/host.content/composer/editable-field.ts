@@ -0,0 +1,108 @@
+import { isHTMLElement, isShallowBlockHTMLElement, isTextNode } from '@/utils/host/dom/filter'
+
+type TextControl = HTMLInputElement | HTMLTextAreaElement
+
+// Inputs that hold prose, unlike e.g. email, number or password fields
+const TEXT_INPUT_TYPES = new Set(['text', 'search'])
+
+// Tag names instead of `instanceof`, which fails for elements of iframe documents
+function isTextControl(element: HTMLElement): element is TextControl {
+  return element.tagName === 'TEXTAREA' || element.tagName === 'INPUT'
+}
+
+/**
+ * The field the composer works on for an event target: a text input, a textarea, or the editing
+ * host of a contenteditable region
+ */
+export function getEditableField(target: EventTarget | undefined): HTMLElement | null {
+  if (!target || !isHTMLElement(target as Node))
+    return null
+
+  const element = target as HTMLElement
+  if (element.tagName === 'TEXTAREA')
+    return element
+  if (element.tagName === 'INPUT')
+    return TEXT_INPUT_TYPES.has((element as HTMLInputElement).type) ? element : null
+  if (!element.isContentEditable)
+    return null
+
+  let editingHost = element
+  while (editingHost.parentElement?.isContentEditable)
+    editingHost = editingHost.parentElement
+  return editingHost
+}
+
+/**
+ * Text of a contenteditable region with a line break at every `<br>` and between blocks, as editors
+ * put each line in its own `<div>` or `<p>`. `textContent` would run the lines together.
+ */
+function getEditableText(root: HTMLElement): string {
+  let text = ''
+  let breakBeforeNext = false
+
+  const append = (value: string) => {
+    if (breakBeforeNext && text && !text.endsWith('\n'))
+      text += '\n'
+    breakBeforeNext = false
+    text += value
+  }
+
+  const walk = (node: Node) => {
+    for (const child of node.childNodes) {
+      if (isTextNode(child)) {
+        append(child.data)
+      }
+      else if (isHTMLElement(child) && child.tagName === 'BR') {
+        append('\n')
+      }
+      else if (isHTMLElement(child)) {
+        const isBlock = isShallowBlockHTMLElement(child)
+        breakBeforeNext ||= isBlock
+        walk(child)
+        breakBeforeNext ||= isBlock
+      }
+    }
+  }
+
+  walk(root)
+  return text
+}
+
+export function getFieldText(field: HTMLElement): string {
+  if (isTextControl(field))
+    return field.value
+  return getEditableText(field)
+}
+
+function selectFieldContents(field: HTMLElement) {
+  if (isTextControl(field)) {
+    field.select()
+    return
+  }
+  const selection = field.ownerDocument.getSelection()
+  const range = field.ownerDocument.createRange()
+  range.selectNodeContents(field)
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+/**
+ * Replace the whole text of a field as if the user typed it. `insertText` goes through the page's
+ * own input handling, so rich text editors and frameworks see the change and the browser can undo
+ * it; fields where it isn't supported get their value set directly.
+ */
+export function replaceFieldText(field: HTMLElement, text: string) {
+  field.focus()
+  selectFieldContents(field)
+  if (field.ownerDocument.execCommand('insertText', false, text))
+    return
+
+  if (isTextControl(field)) {
+    // Frameworks like React track the value through the prototype setter
+    Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), 'value')?.set?.call(field, text)
+  }
+  else {
+    field.textContent = text
+  }
+  field.dispatchEvent(new Event('input', { bubbles: true }))
+}
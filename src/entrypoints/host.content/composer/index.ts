@@ -0,0 +1,105 @@
+import type { Config } from '@/types/config/config'
+import { i18n, storage } from '#imports'
+import { LANG_CODE_TO_LOCALE_NAME } from '@read-frog/definitions'
+import { toast } from 'sonner'
+import { endsWithTripleSpace, translateComposerText } from '@/utils/composer/text'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { CONFIG_STORAGE_KEY } from '@/utils/constants/config'
+import { addDeepDocumentListener } from '@/utils/host/dom/roots'
+import { translateText } from '@/utils/host/translate/translate-text'
+import { logger } from '@/utils/logger'
+import { matchesShortcut } from '@/utils/shortcut'
+import { getEditableField, getFieldText, replaceFieldText } from './editable-field'
+
+interface ComposedText {
+  original: string
+  translation: string
+}
+
+const composedTexts = new WeakMap<HTMLElement, ComposedText>()
+const translatingFields = new WeakSet<HTMLElement>()
+
+function restoreOriginalText(field: HTMLElement) {
+  const composed = composedTexts.get(field)
+  if (!composed)
+    return
+  composedTexts.delete(field)
+  replaceFieldText(field, composed.original)
+}
+
+async function composeField(field: HTMLElement, composerConfig: Config['composer']) {
+  const text = getFieldText(field)
+  const composed = composedTexts.get(field)
+  // Triggering again on an untouched translation brings the original text back
+  if (composed && text.trim() === composed.translation.trim()) {
+    restoreOriginalText(field)
+    return
+  }
+  if (!text.trim() || translatingFields.has(field))
+    return
+
+  const languageName = LANG_CODE_TO_LOCALE_NAME[composerConfig.targetCode]
+  const toastId = toast.loading(i18n.t('composer.translating', [languageName]))
+  translatingFields.add(field)
+
+  try {
+    const translation = await translateComposerText(text, line => translateText(line, { targetCode: composerConfig.targetCode }))
+    // Keep what the user typed while the translation was on its way
+    if (getFieldText(field) !== text) {
+      toast.dismiss(toastId)
+      return
+    }
+
+    replaceFieldText(field, translation)
+    composedTexts.set(field, { original: text.replace(/\s+$/, ''), translation })
+    toast.success(i18n.t('composer.translated', [languageName]), {
+      id: toastId,
+      action: {
+        label: i18n.t('composer.undo'),
+        onClick: () => restoreOriginalText(field),
+      },
+    })
+  }
+  catch (error) {
+    logger.error('Failed to translate composed text:', error)
+    toast.error(i18n.t('composer.failed'), { id: toastId })
+  }
+  finally {
+    translatingFields.delete(field)
+  }
+}
+
+/**
+ * Translate the text typed in an editable field into the reply language, when the composer
+ * shortcut is pressed or, if enabled, three spaces are typed at the end of the text
+ */
+export async function registerComposerTriggers() {
+  let composerConfig = (await getConfigFromStorage())?.composer
+  storage.watch<Config>(`local:${CONFIG_STORAGE_KEY}`, (newConfig) => {
+    composerConfig = newConfig?.composer
+  })
+
+  // Capture phase, so the shortcut is handled before the editor reacts to it
+  addDeepDocumentListener('keydown', (event) => {
+    if (!composerConfig?.enabled || !matchesShortcut(event, composerConfig.shortcut))
+      return
+    const field = getEditableField(event.composedPath()[0])
+    if (!field)
+      return
+
+    event.preventDefault()
+    event.stopPropagation()
+    void composeField(field, composerConfig)
+  }, { capture: true })
+
+  addDeepDocumentListener('input', (event) => {
+    if (!composerConfig?.enabled || !composerConfig.tripleSpace)
+      return
+    const { data } = event as InputEvent
+    if (data !== ' ' && data !== '\u00A0')
+      return
+    const field = getEditableField(event.composedPath()[0])
+    if (field && endsWithTripleSpace(getFieldText(field)))
+      void composeField(field, composerConfig)
+  })
+}
@@ -13,9 +13,13 @@ import { protectSelectAllShadowRoot } from '@/utils/select-all'
 import { insertShadowRootUIWrapperInto } from '@/utils/shadow-root'
 import { addStyleToShadow } from '@/utils/styles'
 import App from './app'
-import { bindTranslationShortcutKey } from './translation-control/bind-translation-shortcut'
+import { registerComposerTriggers } from './composer'
+import { registerSubtitleTranslation } from './subtitles'
+import { bindTranslationShortcutKey, togglePageTranslation } from './translation-control/bind-translation-shortcut'
+import { exportPageTranslation } from './translation-control/export-translation'
 import { registerNodeTranslationTriggers } from './translation-control/node-translation'
 import { PageTranslationManager } from './translation-control/page-translation'
+import { cycleTranslationMode, switchTranslateProvider } from './translation-control/quick-switch'
 import './listen'
 import './style.css'
 
@@ -52,6 +56,8 @@ export default defineContentScript({
     ui.mount()
 
     void registerNodeTranslationTriggers()
+    void registerSubtitleTranslation()
+    void registerComposerTriggers()
 
     const manager = new PageTranslationManager({
       root: null,
@@ -103,6 +109,22 @@ export default defineContentScript({
       enabled ? void manager.start() : manager.stop()
     })
 
+    onMessage('togglePageTranslation', () => {
+      void togglePageTranslation(manager)
+    })
+
+    onMessage('cycleTranslationMode', () => {
+      void cycleTranslationMode()
+    })
+
+    onMessage('switchTranslateProvider', () => {
+      void switchTranslateProvider()
+    })
+
+    onMessage('exportPageTranslation', (msg) => {
+      void exportPageTranslation(manager, msg.data.format)
+    })
+
     const config = await getConfigFromStorage()
     if (config) {
       const { detectedCodeOrUnd } = await getDocumentInfo()
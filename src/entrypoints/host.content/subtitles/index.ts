@@ -0,0 +1,88 @@
+import type { Config } from '@/types/config/config'
+import { storage } from '#imports'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
+import { CONFIG_STORAGE_KEY } from '@/utils/constants/config'
+import { matchDomainPattern } from '@/utils/url'
+import { VideoSubtitleTranslator } from './video-subtitles'
+
+function isSubtitleTranslationEnabled(config: Config | null): config is Config {
+  return !!config?.subtitles.enabledPatterns.some(pattern => matchDomainPattern(window.location.href, pattern))
+}
+
+function isVideoElement(node: Node): node is HTMLVideoElement {
+  return node.nodeType === Node.ELEMENT_NODE && (node as Element).tagName === 'VIDEO'
+}
+
+/**
+ * Translate the captions of every video on the page while the site is turned on in the popup
+ */
+export async function registerSubtitleTranslation() {
+  const translators = new Map<HTMLVideoElement, VideoSubtitleTranslator>()
+  let config = await getConfigFromStorage()
+  let observer: MutationObserver | null = null
+
+  const attachVideo = (video: HTMLVideoElement) => {
+    if (!config || translators.has(video))
+      return
+    const translator = new VideoSubtitleTranslator(video, resolveSiteConfig(config))
+    translators.set(video, translator)
+    translator.start()
+  }
+
+  const attachVideosIn = (node: Node) => {
+    if (isVideoElement(node))
+      attachVideo(node)
+    else if (node.nodeType === Node.ELEMENT_NODE || node.nodeType === Node.DOCUMENT_NODE)
+      (node as ParentNode).querySelectorAll('video').forEach(attachVideo)
+  }
+
+  const detachRemovedVideos = () => {
+    for (const [video, translator] of translators) {
+      if (!video.isConnected) {
+        translator.stop()
+        translators.delete(video)
+      }
+    }
+  }
+
+  const start = () => {
+    attachVideosIn(document)
+    observer = new MutationObserver((records) => {
+      let hasRemovedNodes = false
+      for (const record of records) {
+        record.addedNodes.forEach(attachVideosIn)
+        hasRemovedNodes ||= record.removedNodes.length > 0
+      }
+      if (hasRemovedNodes)
+        detachRemovedVideos()
+    })
+    observer.observe(document.documentElement, { childList: true, subtree: true })
+  }
+
+  const stop = () => {
+    observer?.disconnect()
+    observer = null
+    translators.forEach(translator => translator.stop())
+    translators.clear()
+  }
+
+  const sync = () => {
+    const enabled = isSubtitleTranslationEnabled(config)
+    if (enabled && !observer)
+      start()
+    else if (!enabled && observer)
+      stop()
+    else if (config)
+      translators.forEach(translator => translator.updateConfig(resolveSiteConfig(config!)))
+  }
+
+  storage.watch<Config>(`local:${CONFIG_STORAGE_KEY}`, (newConfig) => {
+    config = newConfig
+    sync()
+  })
+  // Single page apps can move to a page matched by a different pattern
+  window.addEventListener('extension:URLChange', sync)
+
+  sync()
+}
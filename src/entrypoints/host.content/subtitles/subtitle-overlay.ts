@@ -0,0 +1,82 @@
+import type { Config } from '@/types/config/config'
+import { isReplacingTranslationMode } from '@/types/config/translate'
+import { BLOCK_CONTENT_CLASS, CONTENT_WRAPPER_CLASS, NOTRANSLATE_CLASS } from '@/utils/constants/dom-labels'
+import { decorateTranslationNode } from '@/utils/host/translate/decorate-translation'
+import { setTranslationDirAndLang } from '@/utils/host/translate/translation-attributes'
+import { ensureTranslationStyles } from '../translation-control/root-styles'
+
+const SUBTITLE_OVERLAY_CLASS = 'read-frog-subtitle-overlay'
+const SUBTITLE_CUE_CLASS = 'read-frog-subtitle-cue'
+const SUBTITLE_ORIGINAL_CLASS = 'read-frog-subtitle-original'
+
+export interface SubtitleLine {
+  text: string
+  // Undefined while the cue is still being translated
+  translation?: string
+}
+
+/**
+ * Captions drawn over a video in place of the browser's own rendering of the track
+ */
+export class SubtitleOverlay {
+  private container: HTMLDivElement
+  private resizeObserver: ResizeObserver
+
+  constructor(private video: HTMLVideoElement) {
+    this.container = video.ownerDocument.createElement('div')
+    this.container.className = `${SUBTITLE_OVERLAY_CLASS} ${NOTRANSLATE_CLASS}`
+    // A sibling stays visible when the player container goes fullscreen, unlike an element on the body
+    video.insertAdjacentElement('afterend', this.container)
+    ensureTranslationStyles(this.container)
+
+    this.resizeObserver = new ResizeObserver(this.position)
+    this.resizeObserver.observe(video)
+    video.ownerDocument.addEventListener('fullscreenchange', this.position)
+    this.position()
+  }
+
+  // Siblings share the offset parent, so the video's offsets place the overlay right over it
+  private position = () => {
+    Object.assign(this.container.style, {
+      left: `${this.video.offsetLeft}px`,
+      top: `${this.video.offsetTop}px`,
+      width: `${this.video.offsetWidth}px`,
+      height: `${this.video.offsetHeight}px`,
+    })
+  }
+
+  render(lines: SubtitleLine[], config: Config) {
+    const ownerDocument = this.video.ownerDocument
+    this.container.replaceChildren(...lines.map((line) => {
+      const cueElement = ownerDocument.createElement('div')
+      cueElement.className = SUBTITLE_CUE_CLASS
+
+      if (!isReplacingTranslationMode(config.translate.mode) || !line.translation) {
+        const originalElement = ownerDocument.createElement('span')
+        originalElement.className = SUBTITLE_ORIGINAL_CLASS
+        originalElement.textContent = line.text
+        cueElement.append(originalElement)
+      }
+
+      if (line.translation) {
+        const wrapper = ownerDocument.createElement('span')
+        wrapper.className = CONTENT_WRAPPER_CLASS
+        setTranslationDirAndLang(wrapper, config)
+        const translatedElement = ownerDocument.createElement('span')
+        translatedElement.className = BLOCK_CONTENT_CLASS
+        translatedElement.textContent = line.translation
+        wrapper.append(translatedElement)
+        cueElement.append(wrapper)
+        void decorateTranslationNode(translatedElement, config.translate.translationNodeStyle)
+      }
+
+      return cueElement
+    }))
+  }
+
+  remove() {
+    this.resizeObserver.disconnect()
+    this.video.ownerDocument.removeEventListener('fullscreenchange', this.position)
+    this.container.remove()
+  }
+}
@@ -0,0 +1,54 @@
+import { isLLMTranslateProviderConfig } from '@/types/config/provider'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
+import { translateText } from '@/utils/host/translate/translate-text'
+import { logger } from '@/utils/logger'
+import { BatchQueue } from '@/utils/request/batch-queue'
+import { joinSubtitleCueTexts, splitSubtitleCueTranslation } from '@/utils/subtitles/cues'
+
+const SUBTITLE_BATCH_MAX_CHARACTERS = 1500
+const SUBTITLE_BATCH_MAX_ITEMS = 40
+const SUBTITLE_BATCH_DELAY_MS = 300
+
+function translateCueText(text: string) {
+  return translateText(text, { lowPriority: true })
+}
+
+async function isLLMProviderSelected(): Promise<boolean> {
+  const config = resolveSiteConfig(await getConfigFromStorage())
+  const providerConfig = config && getProviderConfigById(config.providersConfig, config.translate.providerId)
+  return !!providerConfig && isLLMTranslateProviderConfig(providerConfig)
+}
+
+const subtitleBatchQueue = new BatchQueue<string, string>({
+  maxCharactersPerBatch: SUBTITLE_BATCH_MAX_CHARACTERS,
+  maxItemsPerBatch: SUBTITLE_BATCH_MAX_ITEMS,
+  batchDelay: SUBTITLE_BATCH_DELAY_MS,
+  // A mismatched batch won't get better on retry, translating the cues one by one does
+  maxRetries: 0,
+  enableFallbackToIndividual: true,
+  getBatchKey: () => 'subtitles',
+  getCharacters: text => text.length,
+  executeBatch: async (texts) => {
+    if (texts.length === 1)
+      return [await translateCueText(texts[0])]
+    // The background batches LLM requests itself with the batch prompt, merging cues here would nest batches
+    if (await isLLMProviderSelected())
+      return await Promise.all(texts.map(translateCueText))
+    return splitSubtitleCueTranslation(await translateCueText(joinSubtitleCueTexts(texts)), texts.length)
+  },
+  executeIndividual: translateCueText,
+  onError: (error, context) => {
+    if (!context.isFallback)
+      logger.info('Subtitle batch failed, translating cues one by one:', error.message)
+  },
+})
+
+/**
+ * Translate the text of a subtitle cue at low priority. Cues requested together, e.g. the next
+ * minutes of a video, are merged into a few requests.
+ */
+export function translateSubtitleCue(text: string): Promise<string> {
+  return subtitleBatchQueue.enqueue(text)
+}
@@ -0,0 +1,149 @@
+import type { SubtitleLine } from './subtitle-overlay'
+import type { Config } from '@/types/config/config'
+import { logger } from '@/utils/logger'
+import { getCueText, selectCuesAhead } from '@/utils/subtitles/cues'
+import { SubtitleOverlay } from './subtitle-overlay'
+import { translateSubtitleCue } from './translate-cue'
+
+// Cues starting within this window are translated before they are shown
+const LOOKAHEAD_SECONDS = 180
+// Playback has to move this far before the window is scanned again
+const PREFETCH_INTERVAL_SECONDS = 30
+
+function isCaptionTrack(track: TextTrack): boolean {
+  return track.kind === 'subtitles' || track.kind === 'captions'
+}
+
+/**
+ * Shows the captions of one video together with their translation. It takes over the track the
+ * user turned on: the track is hidden so the browser stops drawing it, and its cues are drawn in an
+ * overlay instead.
+ */
+export class VideoSubtitleTranslator {
+  private track: TextTrack | null = null
+  private overlay: SubtitleOverlay | null = null
+  private translations = new Map<string, string>()
+  private pendingTexts = new Set<string>()
+  private lastPrefetchTime: number | null = null
+
+  constructor(private video: HTMLVideoElement, private config: Config) {}
+
+  start() {
+    this.video.textTracks.addEventListener('change', this.handleTracksChange)
+    this.video.textTracks.addEventListener('addtrack', this.handleTracksChange)
+    this.video.addEventListener('timeupdate', this.handleTimeUpdate)
+    this.video.addEventListener('seeked', this.handleSeeked)
+    this.handleTracksChange()
+  }
+
+  stop() {
+    this.video.textTracks.removeEventListener('change', this.handleTracksChange)
+    this.video.textTracks.removeEventListener('addtrack', this.handleTracksChange)
+    this.video.removeEventListener('timeupdate', this.handleTimeUpdate)
+    this.video.removeEventListener('seeked', this.handleSeeked)
+
+    // Give the captions back to the browser
+    const track = this.track
+    this.releaseTrack()
+    if (track?.mode === 'hidden')
+      track.mode = 'showing'
+    this.overlay?.remove()
+    this.overlay = null
+  }
+
+  updateConfig(config: Config) {
+    this.config = config
+    this.render()
+  }
+
+  private handleTracksChange = () => {
+    const showingTrack = Array.from(this.video.textTracks).find(track => isCaptionTrack(track) && track.mode === 'showing')
+    if (showingTrack) {
+      this.adoptTrack(showingTrack)
+      return
+    }
+    // The track we hid was turned off from the player's caption menu
+    if (this.track?.mode === 'disabled')
+      this.releaseTrack()
+  }
+
+  private adoptTrack(track: TextTrack) {
+    if (this.track === track)
+      return
+
+    this.releaseTrack()
+    this.track = track
+    // Hidden tracks still load cues and fire `cuechange`, the browser just doesn't draw them
+    track.mode = 'hidden'
+    track.addEventListener('cuechange', this.handleCueChange)
+    this.overlay ??= new SubtitleOverlay(this.video)
+    this.prefetch()
+    this.render()
+  }
+
+  private releaseTrack() {
+    this.track?.removeEventListener('cuechange', this.handleCueChange)
+    this.track = null
+    this.lastPrefetchTime = null
+    this.overlay?.render([], this.config)
+  }
+
+  private handleCueChange = () => {
+    this.prefetch()
+    this.render()
+  }
+
+  private handleTimeUpdate = () => {
+    if (this.lastPrefetchTime === null || Math.abs(this.video.currentTime - this.lastPrefetchTime) >= PREFETCH_INTERVAL_SECONDS)
+      this.prefetch()
+  }
+
+  private handleSeeked = () => {
+    this.prefetch()
+    this.render()
+  }
+
+  private prefetch() {
+    const cues = this.track?.cues
+    // Cues of a `<track>` element arrive after the file loads, try again on the next update until then
+    if (!cues?.length)
+      return
+
+    this.lastPrefetchTime = this.video.currentTime
+    for (const cue of selectCuesAhead(cues, this.video.currentTime, LOOKAHEAD_SECONDS))
+      this.requestTranslation(getCueText(cue))
+  }
+
+  private requestTranslation(text: string) {
+    if (!text || this.translations.has(text) || this.pendingTexts.has(text))
+      return
+
+    this.pendingTexts.add(text)
+    translateSubtitleCue(text)
+      .then((translation) => {
+        this.translations.set(text, translation)
+      })
+      .catch((error) => {
+        logger.warn('Failed to translate subtitle cue:', error)
+        // Keep the original caption instead of asking again on every cue change
+        this.translations.set(text, '')
+      })
+      .finally(() => {
+        this.pendingTexts.delete(text)
+        this.render()
+      })
+  }
+
+  private render() {
+    if (!this.overlay)
+      return
+
+    const lines: SubtitleLine[] = Array.from(this.track?.activeCues ?? [], getCueText)
+      .filter(Boolean)
+      .map((text) => {
+        this.requestTranslation(text)
+        return { text, translation: this.translations.get(text) }
+      })
+    this.overlay.render(lines, this.config)
+  }
+}
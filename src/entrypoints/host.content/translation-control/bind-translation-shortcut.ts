@@ -1,8 +1,32 @@
 import type { PageTranslationManager } from './page-translation'
 import hotkeys from 'hotkeys-js'
 import { getConfigFromStorage } from '@/utils/config/config'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
 import { validateTranslationConfig } from '@/utils/host/translate/translate-text'
 
+/**
+ * Stop the page translation when it runs, otherwise start it once the config can translate
+ */
+export async function togglePageTranslation(pageTranslationManager: PageTranslationManager) {
+  const currentConfig = resolveSiteConfig(await getConfigFromStorage())
+  if (!currentConfig)
+    return
+
+  if (pageTranslationManager.isActive) {
+    pageTranslationManager.stop()
+    return
+  }
+
+  if (!validateTranslationConfig({
+    providersConfig: currentConfig.providersConfig,
+    translate: currentConfig.translate,
+    language: currentConfig.language,
+  })) {
+    return
+  }
+  void pageTranslationManager.start()
+}
+
 export async function bindTranslationShortcutKey(pageTranslationManager: PageTranslationManager) {
   // Clear all existing hotkeys first
   hotkeys.unbind()
@@ -14,25 +38,7 @@ export async function bindTranslationShortcutKey(pageTranslationManager: PageTra
   const shortcut = config.translate.page.shortcut.join('+')
 
   hotkeys(shortcut, () => {
-    void (async () => {
-      const currentConfig = await getConfigFromStorage()
-      if (!currentConfig)
-        return
-
-      if (pageTranslationManager.isActive) {
-        pageTranslationManager.stop()
-      }
-      else {
-        if (!validateTranslationConfig({
-          providersConfig: currentConfig.providersConfig,
-          translate: currentConfig.translate,
-          language: currentConfig.language,
-        })) {
-          return
-        }
-        void pageTranslationManager.start()
-      }
-    })()
+    void togglePageTranslation(pageTranslationManager)
     return false
   })
 }
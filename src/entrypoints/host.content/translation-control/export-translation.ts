@@ -0,0 +1,95 @@
+import type { PageTranslationManager } from './page-translation'
+import type { TranslationExportFormat, TranslationPair } from '@/utils/translation-export/format'
+import { i18n } from '#imports'
+import { ISO6393_TO_6391 } from '@read-frog/definitions'
+import { saveAs } from 'file-saver'
+import { toast } from 'sonner'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { getFinalSourceCode } from '@/utils/config/languages'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
+import { isTranslatedWrapperNode } from '@/utils/host/dom/filter'
+import { deepQueryTopLevelSelector } from '@/utils/host/dom/find'
+import { originalTextMap } from '@/utils/host/translate/core/translation-state'
+import { validateTranslationConfig } from '@/utils/host/translate/translate-text'
+import { logger } from '@/utils/logger'
+import {
+  buildTranslationEpub,
+  formatTranslationHtml,
+  formatTranslationMarkdown,
+  getTranslationExportFileName,
+  TRANSLATION_EXPORT_FILE_TYPES,
+} from '@/utils/translation-export/format'
+import translationCSS from '../style.css?inline'
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6'
+
+/**
+ * The original and translated text of every wrapper in document order. Wrappers that failed or are
+ * still waiting for their translation have no original text recorded and are left out.
+ */
+function collectTranslationPairs(): TranslationPair[] {
+  return deepQueryTopLevelSelector(document, isTranslatedWrapperNode).flatMap((wrapper) => {
+    const original = originalTextMap.get(wrapper)?.trim()
+    const translation = wrapper.textContent?.trim()
+    if (!original || !translation)
+      return []
+
+    const heading = wrapper.parentElement?.closest(HEADING_SELECTOR)
+    return [{ original, translation, headingLevel: heading ? Number(heading.tagName.slice(1)) : null }]
+  })
+}
+
+/**
+ * Translate what is left of the page, then download the original and translated paragraphs in the
+ * given format. The page translation is started first when it isn't running.
+ */
+export async function exportPageTranslation(manager: PageTranslationManager, format: TranslationExportFormat) {
+  const config = resolveSiteConfig(await getConfigFromStorage())
+  if (!config)
+    return
+
+  if (!manager.isActive) {
+    if (!validateTranslationConfig({
+      providersConfig: config.providersConfig,
+      translate: config.translate,
+      language: config.language,
+    })) {
+      return
+    }
+    await manager.start()
+  }
+
+  const toastId = toast.loading(i18n.t('exportTranslation.translating'))
+  try {
+    await manager.translateAll()
+
+    const pairs = collectTranslationPairs()
+    if (pairs.length === 0) {
+      toast.error(i18n.t('exportTranslation.empty'), { id: toastId })
+      return
+    }
+
+    const { sourceCode, detectedCode, targetCode } = config.language
+    const exportDocument = {
+      title: document.title || window.location.hostname,
+      url: window.location.href,
+      sourceLang: ISO6393_TO_6391[getFinalSourceCode(sourceCode, detectedCode)] ?? 'und',
+      targetLang: ISO6393_TO_6391[targetCode] ?? 'und',
+      pairs,
+      exportedAt: new Date(),
+    }
+
+    const { mimeType } = TRANSLATION_EXPORT_FILE_TYPES[format]
+    const content = format === 'html'
+      ? formatTranslationHtml(exportDocument, { css: translationCSS, translationNodeStyle: config.translate.translationNodeStyle })
+      : format === 'markdown'
+        ? formatTranslationMarkdown(exportDocument)
+        : buildTranslationEpub(exportDocument)
+    saveAs(new Blob([content], { type: mimeType }), getTranslationExportFileName(exportDocument.title, format))
+    toast.success(i18n.t('exportTranslation.exported'), { id: toastId })
+  }
+  catch (error) {
+    logger.error('[ExportTranslation] Failed to export translation', error)
+    toast.error(i18n.t('exportTranslation.failed'), { id: toastId })
+  }
+}
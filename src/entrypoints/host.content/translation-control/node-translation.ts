@@ -1,9 +1,31 @@
 import type { Point } from '@/types/dom'
 import { getConfigFromStorage } from '@/utils/config/config'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
 import { DEFAULT_CONFIG } from '@/utils/constants/config'
-import { isEditable } from '@/utils/host/dom/filter'
+import { isEditable, isHTMLElement } from '@/utils/host/dom/filter'
+import { findNearestAncestorBlockNodeAt } from '@/utils/host/dom/find'
+import { addDeepDocumentListener, getFrameViewportOffset } from '@/utils/host/dom/roots'
 import { removeOrShowNodeTranslation } from '@/utils/host/translate/node-manipulation'
 import { logger } from '@/utils/logger'
+import { ensureTranslationStyles } from './root-styles'
+
+// Events from inside shadow roots are retargeted to the host, and iframe nodes fail `instanceof`
+function isEditableEventTarget(event: Event): boolean {
+  const target = event.composedPath()[0] as Node | undefined
+  return !!target && isHTMLElement(target) && isEditable(target)
+}
+
+async function toggleNodeTranslationAt(point: Point) {
+  const config = resolveSiteConfig(await getConfigFromStorage())
+  if (!config) {
+    logger.error('Global config is not initialized')
+    return
+  }
+  const node = findNearestAncestorBlockNodeAt(point)
+  if (node)
+    ensureTranslationStyles(node)
+  void removeOrShowNodeTranslation(point, config)
+}
 
 export function registerNodeTranslationTriggers() {
   const mousePosition: Point = { x: 0, y: 0 }
@@ -23,10 +45,11 @@ export function registerNodeTranslationTriggers() {
   let actionTriggered = false
 
   // Listen the hotkey means the user can't press or hold any other key during the hotkey is holding
-  document.addEventListener('keydown', async (e) => {
+  // Same-origin iframes get the listeners too, so paragraphs inside embedded editors can be hovered
+  addDeepDocumentListener('keydown', async (e) => {
     if (!await isEnabled())
       return
-    if (e.target instanceof HTMLElement && isEditable(e.target))
+    if (isEditableEventTarget(e))
       return
 
     const hotkey = await getHotkey()
@@ -36,12 +59,7 @@ export function registerNodeTranslationTriggers() {
         // isHotkeySessionPure will be false if any key was pressed before hotkey
         timerId = setTimeout(async () => {
           if (isHotkeySessionPure && isHotkeyPressed) {
-            const config = await getConfigFromStorage()
-            if (!config) {
-              logger.error('Global config is not initialized')
-              return
-            }
-            void removeOrShowNodeTranslation(mousePosition, config)
+            await toggleNodeTranslationAt(mousePosition)
             actionTriggered = true
           }
           timerId = null
@@ -63,10 +81,10 @@ export function registerNodeTranslationTriggers() {
     }
   })
 
-  document.addEventListener('keyup', async (e) => {
+  addDeepDocumentListener('keyup', async (e) => {
     if (!await isEnabled())
       return
-    if (e.target instanceof HTMLElement && isEditable(e.target))
+    if (isEditableEventTarget(e))
       return
     const hotkey = await getHotkey()
     if (e.key === hotkey) {
@@ -77,12 +95,7 @@ export function registerNodeTranslationTriggers() {
           timerId = null
         }
         if (!actionTriggered) {
-          const config = await getConfigFromStorage()
-          if (!config) {
-            logger.error('Global config is not initialized')
-            return
-          }
-          void removeOrShowNodeTranslation(mousePosition, config)
+          await toggleNodeTranslationAt(mousePosition)
         }
       }
       actionTriggered = false
@@ -91,8 +104,10 @@ export function registerNodeTranslationTriggers() {
     }
   })
 
-  document.body.addEventListener('mousemove', (event) => {
-    mousePosition.x = event.clientX
-    mousePosition.y = event.clientY
+  // Points are kept in the top-level viewport, where `findNearestAncestorBlockNodeAt` starts looking
+  addDeepDocumentListener('mousemove', (event, sourceDocument) => {
+    const offset = getFrameViewportOffset(sourceDocument)
+    mousePosition.x = event.clientX + offset.x
+    mousePosition.y = event.clientY + offset.y
   })
 }
@@ -1,17 +1,31 @@
+import type { IsolatedRoot } from '@/utils/host/dom/roots'
 import { getConfigFromStorage } from '@/utils/config/config'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
 import { CONTENT_WRAPPER_CLASS } from '@/utils/constants/dom-labels'
 import { hasNoWalkAncestor, isDontWalkIntoButTranslateAsChildElement, isHTMLElement, isIFrameElement } from '@/utils/host/dom/filter'
 import { deepQueryTopLevelSelector } from '@/utils/host/dom/find'
+import { collectIsolatedRoots, getAccessibleIFrameDocument, isDocument, isShadowRoot } from '@/utils/host/dom/roots'
 import { walkAndLabelElement } from '@/utils/host/dom/traversal'
 import { clearChunkRegistry, recordChunkTargets } from '@/utils/host/translate/chunk-registry'
 import { removeAllTranslatedWrapperNodes, translateWalkedElement } from '@/utils/host/translate/node-manipulation'
 import { logger } from '@/utils/logger'
 import { sendMessage } from '@/utils/message'
+import { ensureTranslationStyles } from './root-styles'
 
 type SimpleIntersectionOptions = Omit<IntersectionObserverInit, 'threshold'> & {
   threshold?: number
 }
 
+/**
+ * Observers attached to one tree: the main document, a same-origin iframe document or an open
+ * shadow root. Mutations inside a shadow root or iframe never reach the main document's observer.
+ */
+interface RootObservers {
+  intersectionObserver: IntersectionObserver
+  mutationObserver: MutationObserver
+  removeLoadListener: () => void
+}
+
 interface IPageTranslationManager {
   /**
    * Indicates whether the page translation is currently active
@@ -30,6 +44,12 @@ interface IPageTranslationManager {
    */
   stop: () => void
 
+  /**
+   * Translates every paragraph that hasn't scrolled into view yet and waits for all pending
+   * translations to settle
+   */
+  translateAll: () => Promise<void>
+
   /**
    * Registers page translation triggers
    */
@@ -39,6 +59,10 @@ interface IPageTranslationManager {
 export class PageTranslationManager implements IPageTranslationManager {
   private static readonly MAX_DURATION = 500
   private static readonly MOVE_THRESHOLD = 30 * 30
+  // Custom elements defined after they were inserted only get their shadow root on upgrade, which
+  // no observer reports, so they are checked again for a while
+  private static readonly UPGRADE_POLL_INTERVAL = 1000
+  private static readonly UPGRADE_POLL_ATTEMPTS = 10
   private static readonly DEFAULT_INTERSECTION_OPTIONS: SimpleIntersectionOptions = {
     root: null,
     rootMargin: '600px',
@@ -46,11 +70,13 @@ export class PageTranslationManager implements IPageTranslationManager {
   }
 
   private isAutoTranslating: boolean = false
-  private intersectionObserver: IntersectionObserver | null = null
-  private mutationObservers: MutationObserver[] = []
+  private rootObservers = new Map<IsolatedRoot, RootObservers>()
+  private pendingUpgrades = new Map<HTMLElement, number>()
+  private upgradePollTimer: ReturnType<typeof setInterval> | null = null
   private walkId: string | null = null
   private intersectionOptions: IntersectionObserverInit
   private dontWalkIntoElementsCache = new WeakSet<HTMLElement>()
+  private pendingTranslations = new Set<Promise<void>>()
 
   constructor(intersectionOptions: SimpleIntersectionOptions = {}) {
     if (intersectionOptions.threshold !== undefined) {
@@ -82,16 +108,58 @@ export class PageTranslationManager implements IPageTranslationManager {
 
     clearChunkRegistry()
 
-    const config = await getConfigFromStorage()
+    const config = resolveSiteConfig(await getConfigFromStorage())
     if (!config) {
       console.warn('Config is not initialized')
       return
     }
 
-    // Listen to existing elements when they enter the viewpoint
-    const walkId = crypto.randomUUID()
-    this.walkId = walkId
-    this.intersectionObserver = new IntersectionObserver(async (entries, observer) => {
+    this.walkId = crypto.randomUUID()
+
+    // Initialize walkability state for existing elements
+    this.addDontWalkIntoElements(document.body)
+    this.attachRoot(document)
+    this.attachIsolatedRoots(document.body)
+    await this.observerTopLevelParagraphs(document.body)
+  }
+
+  stop(): void {
+    if (!this.isAutoTranslating) {
+      console.warn('AutoTranslationManager is already inactive')
+      return
+    }
+
+    const previousWalkId = this.walkId
+    this.isAutoTranslating = false
+    this.dontWalkIntoElementsCache = new WeakSet()
+    this.walkId = null
+    clearChunkRegistry(previousWalkId)
+
+    void sendMessage('setEnablePageTranslationOnContentScript', {
+      enabled: false,
+    })
+
+    this.rootObservers.forEach(({ intersectionObserver, mutationObserver, removeLoadListener }) => {
+      intersectionObserver.disconnect()
+      mutationObserver.disconnect()
+      removeLoadListener()
+    })
+    this.rootObservers.clear()
+    this.pendingUpgrades.clear()
+    this.pendingTranslations.clear()
+    if (this.upgradePollTimer) {
+      clearInterval(this.upgradePollTimer)
+      this.upgradePollTimer = null
+    }
+
+    void removeAllTranslatedWrapperNodes()
+  }
+
+  /**
+   * Listen to existing elements of one tree when they enter the viewport
+   */
+  private createIntersectionObserver(walkId: string): IntersectionObserver {
+    return new IntersectionObserver(async (entries, observer) => {
       const prioritizedEntries = entries
         .slice()
         .sort((a, b) => {
@@ -107,50 +175,50 @@ export class PageTranslationManager implements IPageTranslationManager {
       for (const entry of prioritizedEntries) {
         if (entry.isIntersecting && isHTMLElement(entry.target)) {
           if (!entry.target.closest(`.${CONTENT_WRAPPER_CLASS}`)) {
-            const currentConfig = await getConfigFromStorage()
+            const currentConfig = resolveSiteConfig(await getConfigFromStorage())
             if (!currentConfig) {
               logger.error('Global config is not initialized')
               return
             }
-            void translateWalkedElement(entry.target, walkId, currentConfig)
+            this.trackTranslation(translateWalkedElement(entry.target, walkId, currentConfig))
           }
         }
         observer.unobserve(entry.target)
       }
     }, this.intersectionOptions)
-
-    // Initialize walkability state for existing elements
-    this.addDontWalkIntoElements(document.body)
-    await this.observerTopLevelParagraphs(document.body)
-
-    // Start observing mutations from document.body and all shadow roots
-    this.observeMutations(document.body)
   }
 
-  stop(): void {
-    if (!this.isAutoTranslating) {
-      console.warn('AutoTranslationManager is already inactive')
+  async translateAll(): Promise<void> {
+    const walkId = this.walkId
+    if (!walkId)
       return
-    }
 
-    const previousWalkId = this.walkId
-    this.isAutoTranslating = false
-    this.dontWalkIntoElementsCache = new WeakSet()
-    this.walkId = null
-    clearChunkRegistry(previousWalkId)
-
-    void sendMessage('setEnablePageTranslationOnContentScript', {
-      enabled: false,
-    })
+    const config = resolveSiteConfig(await getConfigFromStorage())
+    if (!config) {
+      logger.error('Global config is not initialized')
+      return
+    }
 
-    if (this.intersectionObserver) {
-      this.intersectionObserver.disconnect()
-      this.intersectionObserver = null
+    // Paragraphs the intersection observers are still waiting for, those already translated are skipped
+    const paragraphs = this.collectParagraphElementsDeep(document.body, walkId)
+      .filter(el => !el.parentElement?.closest('[data-read-frog-paragraph]'))
+    for (const paragraph of paragraphs) {
+      const root = paragraph.getRootNode()
+      if (isDocument(root) || isShadowRoot(root))
+        this.rootObservers.get(root)?.intersectionObserver.unobserve(paragraph)
+      this.trackTranslation(translateWalkedElement(paragraph, walkId, config))
     }
-    this.mutationObservers.forEach(observer => observer.disconnect())
-    this.mutationObservers = []
 
-    void removeAllTranslatedWrapperNodes()
+    await Promise.allSettled(this.pendingTranslations)
+  }
+
+  private trackTranslation(translation: Promise<void>): void {
+    this.pendingTranslations.add(translation)
+    void translation
+      .catch((error) => {
+        logger.error('[PageTranslation] Failed to translate paragraph', error)
+      })
+      .finally(() => this.pendingTranslations.delete(translation))
   }
 
   registerPageTranslationTriggers(): () => void {
@@ -209,15 +277,18 @@ export class PageTranslationManager implements IPageTranslationManager {
   }
 
   private async observerTopLevelParagraphs(container: HTMLElement): Promise<void> {
-    const observer = this.intersectionObserver
-    if (!this.walkId || !observer)
+    const walkId = this.walkId
+    if (!walkId)
       return
 
-    const config = await getConfigFromStorage()
+    const config = resolveSiteConfig(await getConfigFromStorage())
     if (!config) {
       logger.error('Global config is not initialized')
       return
     }
+    // Translation was stopped or restarted while the config loaded
+    if (this.walkId !== walkId)
+      return
 
     // Skip if container has an ancestor that should not be walked into
     if (hasNoWalkAncestor(container, config))
@@ -227,7 +298,7 @@ export class PageTranslationManager implements IPageTranslationManager {
     // if container itself has paragraph and the id
     if (container.hasAttribute('data-read-frog-paragraph') && container.getAttribute('data-read-frog-walked') === this.walkId) {
       recordChunkTargets(this.walkId, [container])
-      observer.observe(container)
+      this.observeParagraph(container)
       return
     }
 
@@ -240,7 +311,17 @@ export class PageTranslationManager implements IPageTranslationManager {
       return !ancestor || !container.contains(ancestor)
     })
     recordChunkTargets(this.walkId, topLevelParagraphs)
-    topLevelParagraphs.forEach(el => observer.observe(el))
+    topLevelParagraphs.forEach(el => this.observeParagraph(el))
+  }
+
+  /**
+   * Paragraphs are watched by the intersection observer of the tree they live in
+   */
+  private observeParagraph(paragraph: HTMLElement): void {
+    const root = paragraph.getRootNode()
+    if (!isDocument(root) && !isShadowRoot(root))
+      return
+    this.attachRoot(root)?.intersectionObserver.observe(paragraph)
   }
 
   /**
@@ -316,17 +397,120 @@ export class PageTranslationManager implements IPageTranslationManager {
   }
 
   /**
-   * Start observing mutations for a container and all its shadow roots
+   * Attach observers and translation styles to a tree the first time it is seen, later calls return
+   * the same observers
    */
-  private observeMutations(container: HTMLElement): void {
-    const mutationObserver = new MutationObserver((records) => {
+  private attachRoot(root: IsolatedRoot): RootObservers | null {
+    const existing = this.rootObservers.get(root)
+    if (existing)
+      return existing
+
+    const target = isDocument(root) ? root.body : root
+    if (!this.walkId || !target)
+      return null
+
+    const mutationObserver = this.createMutationObserver()
+    mutationObserver.observe(target, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['style', 'class'],
+    })
+
+    // An iframe's load event does not bubble, but it passes the capture phase of the tree holding it
+    const handleLoad = (event: Event) => {
+      const loadedNode = event.target as Node | null
+      if (loadedNode && isIFrameElement(loadedNode))
+        this.handleIFrameLoad(loadedNode)
+    }
+    root.addEventListener('load', handleLoad, true)
+
+    const observers: RootObservers = {
+      intersectionObserver: this.createIntersectionObserver(this.walkId),
+      mutationObserver,
+      removeLoadListener: () => root.removeEventListener('load', handleLoad, true),
+    }
+    this.rootObservers.set(root, observers)
+
+    ensureTranslationStyles(root)
+    this.trackPendingUpgrades(root)
+    return observers
+  }
+
+  /**
+   * Attach every open shadow root and accessible iframe document nested in a container. Their
+   * content is walked together with the container, so nothing is labeled here.
+   */
+  private attachIsolatedRoots(container: Element | IsolatedRoot): void {
+    collectIsolatedRoots(container).forEach(root => this.attachRoot(root))
+  }
+
+  private handleIFrameLoad(iframe: HTMLIFrameElement): void {
+    const iframeDocument = getAccessibleIFrameDocument(iframe)
+    if (!iframeDocument || this.rootObservers.has(iframeDocument))
+      return
+
+    this.addDontWalkIntoElements(iframeDocument.body)
+    this.attachRoot(iframeDocument)
+    this.attachIsolatedRoots(iframeDocument)
+    void this.observerTopLevelParagraphs(iframeDocument.body)
+  }
+
+  /**
+   * Remember custom elements that are not upgraded yet, so the shadow root they attach on upgrade
+   * can be translated
+   */
+  private trackPendingUpgrades(container: Element | IsolatedRoot): void {
+    const undefinedElements = Array.from(container.querySelectorAll<HTMLElement>(':not(:defined)'))
+    if (isHTMLElement(container) && container.matches(':not(:defined)'))
+      undefinedElements.push(container)
+
+    undefinedElements.forEach((element) => {
+      if (!this.pendingUpgrades.has(element))
+        this.pendingUpgrades.set(element, PageTranslationManager.UPGRADE_POLL_ATTEMPTS)
+    })
+
+    if (this.pendingUpgrades.size > 0 && !this.upgradePollTimer)
+      this.upgradePollTimer = setInterval(() => this.pollPendingUpgrades(), PageTranslationManager.UPGRADE_POLL_INTERVAL)
+  }
+
+  private pollPendingUpgrades(): void {
+    for (const [element, attemptsLeft] of this.pendingUpgrades) {
+      const shadowRoot = element.shadowRoot
+      if (shadowRoot) {
+        this.pendingUpgrades.delete(element)
+        this.attachRoot(shadowRoot)
+        this.attachIsolatedRoots(shadowRoot)
+        // Only the shadow tree is new, the light DOM children were walked with the rest of the page
+        for (const child of shadowRoot.children) {
+          if (isHTMLElement(child))
+            void this.observerTopLevelParagraphs(child)
+        }
+      }
+      else if (!element.isConnected || element.matches(':defined') || attemptsLeft <= 1) {
+        this.pendingUpgrades.delete(element)
+      }
+      else {
+        this.pendingUpgrades.set(element, attemptsLeft - 1)
+      }
+    }
+
+    if (this.pendingUpgrades.size === 0 && this.upgradePollTimer) {
+      clearInterval(this.upgradePollTimer)
+      this.upgradePollTimer = null
+    }
+  }
+
+  private createMutationObserver(): MutationObserver {
+    return new MutationObserver((records) => {
       for (const rec of records) {
         if (rec.type === 'childList') {
           rec.addedNodes.forEach((node) => {
             if (isHTMLElement(node)) {
               this.addDontWalkIntoElements(node)
+              this.attachIsolatedRoots(node)
+              this.trackPendingUpgrades(node)
               void this.observerTopLevelParagraphs(node)
-              this.observeIsolatedDescendantsMutations(node)
             }
           })
         }
@@ -341,46 +525,5 @@ export class PageTranslationManager implements IPageTranslationManager {
         }
       }
     })
-
-    mutationObserver.observe(container, {
-      childList: true,
-      subtree: true,
-      attributes: true,
-      attributeFilter: ['style', 'class'],
-    })
-
-    this.mutationObservers.push(mutationObserver)
-    this.observeIsolatedDescendantsMutations(container)
-  }
-
-  /**
-   * Recursively find and observe shadow roots and iframes in an element and its descendants
-   * These can't be find as top level paragraph elements because isolated shadow roots and iframes are not
-   * considered as part of the document.
-   */
-  private observeIsolatedDescendantsMutations(element: HTMLElement): void {
-    // Check if this element has a shadow root
-    if (element.shadowRoot) {
-      for (const child of element.shadowRoot.children) {
-        if (isHTMLElement(child)) {
-          this.observeMutations(child)
-        }
-      }
-    }
-
-    // Check iframes
-    if (isIFrameElement(element)) {
-      const iframeDocument = element.contentDocument
-      if (iframeDocument && iframeDocument.body) {
-        this.observeMutations(iframeDocument.body)
-      }
-    }
-
-    // Recursively check children
-    for (const child of element.children) {
-      if (isHTMLElement(child)) {
-        this.observeIsolatedDescendantsMutations(child)
-      }
-    }
   }
 }
@@ -0,0 +1,57 @@
+import type { Config } from '@/types/config/config'
+import { i18n, storage } from '#imports'
+import { toast } from 'sonner'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { getNextTranslateProviderId, getNextTranslationMode, withTranslationMode } from '@/utils/config/quick-switch'
+import { resolveSiteConfig, withSiteTranslateSettings } from '@/utils/config/site-profiles'
+import { CONFIG_STORAGE_KEY } from '@/utils/constants/config'
+
+/**
+ * Switch to the next translation mode. Content that is already translated keeps its layout until
+ * the page is translated again. A site profile that sets the mode is changed instead of the
+ * global setting, which the site ignores.
+ */
+export async function cycleTranslationMode() {
+  const config = await getConfigFromStorage()
+  if (!config)
+    return
+
+  const { translate } = resolveSiteConfig(config)
+  const next = withTranslationMode(translate, config.providersConfig, getNextTranslationMode(translate.mode))
+  const { config: nextConfig, profile } = withSiteTranslateSettings(config, {
+    mode: next.mode,
+    // Left out when unchanged, the resolved provider may be the profile's and must not become the global one
+    providerId: next.providerId !== translate.providerId ? next.providerId : undefined,
+  })
+  await storage.setItem<Config>(`local:${CONFIG_STORAGE_KEY}`, nextConfig)
+
+  const modeName = i18n.t(`options.translation.translationMode.mode.${next.mode}`)
+  toast.info(profile
+    ? i18n.t('commands.siteModeSwitched', [modeName, profile.pattern])
+    : i18n.t('commands.modeSwitched', [modeName]))
+}
+
+/**
+ * Translate with the next enabled provider from now on, the way the provider select in the popup
+ * does. Like the mode, the provider of a matching site profile is switched instead.
+ */
+export async function switchTranslateProvider() {
+  const config = await getConfigFromStorage()
+  if (!config)
+    return
+
+  const { translate } = resolveSiteConfig(config)
+  const providerId = getNextTranslateProviderId(translate, config.providersConfig)
+  const providerConfig = providerId && getProviderConfigById(config.providersConfig, providerId)
+  if (!providerConfig) {
+    toast.warning(i18n.t('commands.noOtherProvider'))
+    return
+  }
+
+  const { config: nextConfig, profile } = withSiteTranslateSettings(config, { providerId: providerConfig.id })
+  await storage.setItem<Config>(`local:${CONFIG_STORAGE_KEY}`, nextConfig)
+  toast.info(profile
+    ? i18n.t('commands.siteProviderSwitched', [providerConfig.name, profile.pattern])
+    : i18n.t('commands.providerSwitched', [providerConfig.name]))
+}
@@ -0,0 +1,20 @@
+import type { IsolatedRoot } from '@/utils/host/dom/roots'
+import { isDocument, isShadowRoot } from '@/utils/host/dom/roots'
+import { cssRegistry } from '@/utils/react-shadow-host/css-registry'
+import translationCSS from '../style.css?inline'
+
+// The manifest only styles the main document; shadow roots and iframe documents need their own copy
+const styledRoots = new WeakSet<IsolatedRoot>()
+
+/**
+ * Make sure translated content in the tree that holds `node` is styled like in the main document. The styles only
+ * target translation wrappers, so they stay in place after the translation is removed.
+ */
+export function ensureTranslationStyles(node: Node): void {
+  const rootNode = node.getRootNode()
+  if (rootNode === document || !(isDocument(rootNode) || isShadowRoot(rootNode)) || styledRoots.has(rootNode))
+    return
+
+  cssRegistry.inject(translationCSS, rootNode)
+  styledRoots.add(rootNode)
+}
@@ -1,12 +1,14 @@
 import { ApiProvidersPage } from '../pages/api-providers'
+import { CachePage } from '../pages/cache'
 import { ConfigPage } from '../pages/config'
 import { FloatingButtonAndToolbarPage } from '../pages/floating-button-and-toolbar'
+import { GenAIInspectorPage } from '../pages/genai-inspector'
 import { GeneralPage } from '../pages/general'
 import { StatisticsPage } from '../pages/statistics'
 import { TextToSpeechPage } from '../pages/text-to-speech'
 import { TranslationPage } from '../pages/translation'
 
-type NavItemTitle = 'general' | 'apiProviders' | 'translation' | 'floatingButtonAndToolbar' | 'tts' | 'config' | 'statistics'
+type NavItemTitle = 'general' | 'apiProviders' | 'translation' | 'floatingButtonAndToolbar' | 'tts' | 'config' | 'statistics' | 'cache' | 'genaiInspector'
 
 interface ComponentNavItem {
   type: 'component'
@@ -70,6 +72,20 @@ export const SETTING_NAV_ITEMS = {
     icon: 'tabler:chart-dots',
     component: StatisticsPage,
   },
+  'cache': {
+    type: 'component',
+    title: 'cache',
+    url: '/cache',
+    icon: 'tabler:database',
+    component: CachePage,
+  },
+  'genai-inspector': {
+    type: 'component',
+    title: 'genaiInspector',
+    url: '/genai-inspector',
+    icon: 'tabler:stethoscope',
+    component: GenAIInspectorPage,
+  },
   'config': {
     type: 'component',
     title: 'config',
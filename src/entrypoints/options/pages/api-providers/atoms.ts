@@ -1,4 +1,6 @@
+import type { ProviderDiagnosticStep } from '@/utils/providers/diagnostics'
 import { atom } from 'jotai'
+import { atomFamily } from 'jotai/utils'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
 import { getAPIProvidersConfig } from '@/utils/config/helpers'
 
@@ -22,3 +24,6 @@ export const selectedProviderIdAtom = atom(
     set(internalSelectedProviderIdAtom, newValue)
   },
 )
+
+// Last diagnostic run per provider, shared by the test button and the inline results
+export const providerDiagnosticsAtomFamily = atomFamily((_providerId: string) => atom<ProviderDiagnosticStep[] | null>(null))
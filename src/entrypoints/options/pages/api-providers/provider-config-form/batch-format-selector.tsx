@@ -0,0 +1,46 @@
+import type { APIProviderConfig } from '@/types/config/provider'
+import { i18n } from '#imports'
+import { useStore } from '@tanstack/react-form'
+import { SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { BATCH_FORMATS, isLLMTranslateProviderConfig } from '@/types/config/provider'
+import { DEFAULT_BATCH_FORMAT } from '@/utils/request/batch-format'
+import { withForm } from './form'
+
+export const BatchFormatSelector = withForm({
+  ...{ defaultValues: {} as APIProviderConfig },
+  render: function Render({ form }) {
+    const providerConfig = useStore(form.store, state => state.values)
+    if (!isLLMTranslateProviderConfig(providerConfig))
+      return <></>
+
+    return (
+      <div className="space-y-1">
+        <form.AppField name="batchFormat">
+          {field => (
+            <field.SelectField
+              formForSubmit={form}
+              label={i18n.t('options.apiProviders.form.batchFormat.title')}
+              value={field.state.value ?? DEFAULT_BATCH_FORMAT}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {BATCH_FORMATS.map(format => (
+                    <SelectItem key={format} value={format}>
+                      {i18n.t(`options.apiProviders.form.batchFormat.${format}`)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </field.SelectField>
+          )}
+        </form.AppField>
+        <p className="text-xs text-muted-foreground">
+          {i18n.t('options.apiProviders.form.batchFormat.description')}
+        </p>
+      </div>
+    )
+  },
+})
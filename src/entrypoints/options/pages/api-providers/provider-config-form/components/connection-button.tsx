@@ -2,13 +2,14 @@ import type { APIProviderConfig } from '@/types/config/provider'
 import { i18n } from '#imports'
 import { Icon } from '@iconify/react'
 import { useMutation } from '@tanstack/react-query'
+import { useSetAtom } from 'jotai'
 import { useEffect } from 'react'
 import LoadingDots from '@/components/loading-dots'
 import { Button } from '@/components/shadcn/button'
 import { providerRequiresAPIKey } from '@/types/config/provider'
 import { getObjectWithoutAPIKeys } from '@/utils/config/config'
-import { DEFAULT_CONFIG } from '@/utils/constants/config'
-import { executeTranslate } from '@/utils/host/translate/execute-translate'
+import { runProviderDiagnostics } from '@/utils/providers/diagnostics'
+import { providerDiagnosticsAtomFamily } from '../../atoms'
 
 function ConnectionSuccessIcon() {
   return (
@@ -41,12 +42,13 @@ export function ConnectionTestButton({ providerConfig }: { providerConfig: APIPr
   const { apiKey, baseURL, provider } = providerConfig
 
   const isApiKeyRequired = providerRequiresAPIKey(provider)
+  const setDiagnostics = useSetAtom(providerDiagnosticsAtomFamily(providerConfig.id))
 
   const mutation = useMutation({
     // for safety, we should not include apiKey in the mutationKey
     mutationKey: ['apiConnection', getObjectWithoutAPIKeys(providerConfig)],
     mutationFn: async () => {
-      return await executeTranslate('Hi', DEFAULT_CONFIG.language, providerConfig)
+      return await runProviderDiagnostics(providerConfig, setDiagnostics)
     },
   })
 
@@ -56,10 +58,12 @@ export function ConnectionTestButton({ providerConfig }: { providerConfig: APIPr
 
   useEffect(() => {
     mutation.reset()
+    setDiagnostics(null)
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [provider, apiKey, baseURL])
 
-  const testResult = mutation.isSuccess ? 'success' : mutation.isError ? 'error' : null
+  const hasFailedStep = mutation.data?.some(step => step.status === 'error') ?? false
+  const testResult = mutation.isSuccess ? (hasFailedStep ? 'error' : 'success') : mutation.isError ? 'error' : null
   const ConnectionTestResultIcon = testResult ? ConnectionTestResultIconMap[testResult] : null
 
   return (
@@ -0,0 +1,65 @@
+import type { ProviderDiagnosticStatus, ProviderDiagnosticStep } from '@/utils/providers/diagnostics'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtomValue } from 'jotai'
+import { cn } from '@/utils/styles/tailwind'
+import { providerDiagnosticsAtomFamily } from '../../atoms'
+
+const STATUS_ICON: Record<ProviderDiagnosticStatus, { icon: string, className: string }> = {
+  pending: { icon: 'tabler:circle-dashed', className: 'text-muted-foreground' },
+  running: { icon: 'tabler:loader-2', className: 'text-muted-foreground animate-spin' },
+  success: { icon: 'tabler:circle-check', className: 'text-green-600 dark:text-green-400' },
+  error: { icon: 'tabler:circle-x', className: 'text-destructive' },
+  skipped: { icon: 'tabler:circle-minus', className: 'text-muted-foreground' },
+}
+
+function DiagnosticStepRow({ step }: { step: ProviderDiagnosticStep }) {
+  const { icon, className } = STATUS_ICON[step.status]
+
+  return (
+    <li className="flex items-start gap-2">
+      <Icon icon={icon} className={cn('mt-0.5 size-4 shrink-0', className)} />
+      <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+        <div className="flex items-center justify-between gap-2">
+          <span className={cn('text-xs font-medium', step.status === 'skipped' && 'text-muted-foreground')}>
+            {i18n.t(`options.apiProviders.diagnostics.steps.${step.id}`)}
+          </span>
+          <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+            {step.status === 'running' && i18n.t('options.apiProviders.diagnostics.running')}
+            {step.status === 'skipped' && i18n.t('options.apiProviders.diagnostics.skipped')}
+            {step.latencyMs !== null && i18n.t('options.apiProviders.diagnostics.latency', [step.latencyMs])}
+          </span>
+        </div>
+        {step.status === 'success' && step.detail && (
+          <span className="truncate text-xs text-muted-foreground">{step.detail}</span>
+        )}
+        {step.status === 'error' && step.errorKind && (
+          <>
+            <span className="text-xs text-destructive">
+              {i18n.t(`options.apiProviders.diagnostics.errors.${step.errorKind}`)}
+              {step.detail && <span className="break-all text-muted-foreground">{` — ${step.detail}`}</span>}
+            </span>
+            <span className="text-xs">
+              {i18n.t('options.apiProviders.diagnostics.suggestedFix', [i18n.t(`options.apiProviders.diagnostics.fixes.${step.errorKind}`)])}
+            </span>
+          </>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export function ProviderDiagnosticsResults({ providerId }: { providerId: string }) {
+  const steps = useAtomValue(providerDiagnosticsAtomFamily(providerId))
+  if (!steps)
+    return null
+
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="mb-2 text-sm font-medium">{i18n.t('options.apiProviders.diagnostics.title')}</p>
+      <ul className="flex flex-col gap-2">
+        {steps.map(step => <DiagnosticStepRow key={step.id} step={step} />)}
+      </ul>
+    </div>
+  )
+}
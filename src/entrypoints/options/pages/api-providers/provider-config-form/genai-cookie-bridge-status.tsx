@@ -0,0 +1,74 @@
+import type { GenAICookieBridgeStatus } from '@/utils/genai/cookie-bridge'
+import { i18n, storage } from '#imports'
+import { IconRefresh } from '@tabler/icons-react'
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/shadcn/badge'
+import { Button } from '@/components/shadcn/button'
+import {
+  DEFAULT_GENAI_COOKIE_BRIDGE_STATUS,
+  GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY,
+  genaiCookieBridgeStatusSchema,
+} from '@/utils/genai/cookie-bridge'
+import { sendMessage } from '@/utils/message'
+
+const STATUS_STORAGE_KEY = `local:${GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY}` as const
+
+function parseStatus(value: unknown): GenAICookieBridgeStatus {
+  const parsed = genaiCookieBridgeStatusSchema.safeParse(value)
+  return parsed.success ? parsed.data : DEFAULT_GENAI_COOKIE_BRIDGE_STATUS
+}
+
+function formatTimestamp(timestamp: number | null) {
+  return timestamp ? new Date(timestamp).toLocaleString() : i18n.t('options.apiProviders.genaiCookieBridge.status.never')
+}
+
+export function GenAICookieBridgeStatusIndicator({ active }: { active: boolean }) {
+  const [status, setStatus] = useState<GenAICookieBridgeStatus>(DEFAULT_GENAI_COOKIE_BRIDGE_STATUS)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  useEffect(() => {
+    void storage.getItem(STATUS_STORAGE_KEY).then(value => setStatus(parseStatus(value)))
+    return storage.watch(STATUS_STORAGE_KEY, value => setStatus(parseStatus(value)))
+  }, [])
+
+  const handleSync = async () => {
+    setIsSyncing(true)
+    try {
+      setStatus(await sendMessage('syncGenAICookieBridge', undefined))
+    }
+    finally {
+      setIsSyncing(false)
+    }
+  }
+
+  // An error newer than the last successful push is the current state of the bridge
+  const hasError = status.lastError !== null && (status.lastErrorAt ?? 0) >= (status.lastPushAt ?? 0)
+  const badge = !active
+    ? { variant: 'outline' as const, label: i18n.t('options.apiProviders.genaiCookieBridge.status.inactive') }
+    : hasError
+      ? { variant: 'destructive' as const, label: i18n.t('options.apiProviders.genaiCookieBridge.status.error') }
+      : status.lastPushAt
+        ? { variant: 'default' as const, label: i18n.t('options.apiProviders.genaiCookieBridge.status.connected') }
+        : { variant: 'secondary' as const, label: i18n.t('options.apiProviders.genaiCookieBridge.status.waiting') }
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{i18n.t('options.apiProviders.genaiCookieBridge.status.title')}</span>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </div>
+        <Button size="sm" variant="outline" type="button" disabled={!active || isSyncing} onClick={handleSync}>
+          <IconRefresh className="size-3.5" />
+          {i18n.t('options.apiProviders.genaiCookieBridge.status.sync')}
+        </Button>
+      </div>
+      <p>{i18n.t('options.apiProviders.genaiCookieBridge.status.lastPush', [formatTimestamp(status.lastPushAt)])}</p>
+      {hasError && (
+        <p className="text-destructive">
+          {i18n.t('options.apiProviders.genaiCookieBridge.status.lastError', [status.lastError ?? '', formatTimestamp(status.lastErrorAt)])}
+        </p>
+      )}
+    </div>
+  )
+}
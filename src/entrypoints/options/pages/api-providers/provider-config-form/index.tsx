@@ -1,21 +1,28 @@
 import type { GenAIProviderConfig } from '@/types/config/provider'
 import { i18n } from '#imports'
+import { IconCopy, IconKey } from '@tabler/icons-react'
 import { useStore } from '@tanstack/react-form'
 import { useAtom, useAtomValue } from 'jotai'
 import { useEffect } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
 import { Input } from '@/components/shadcn/input'
 import { Separator } from '@/components/shadcn/separator'
 import { Switch } from '@/components/shadcn/switch'
 import { isAPIProviderConfig, isGenAIProviderConfig, isReadProvider, isTranslateProvider, providerRequiresAPIKey } from '@/types/config/provider'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
 import { providerConfigAtom } from '@/utils/atoms/provider'
+import { generateCookieBridgePairingToken } from '@/utils/genai/cookie-bridge'
 import { cn } from '@/utils/styles/tailwind'
 import { selectedProviderIdAtom } from '../atoms'
 import { APIKeyField } from './api-key-field'
 import { BaseURLField } from './base-url-field'
+import { BatchFormatSelector } from './batch-format-selector'
+import { ProviderDiagnosticsResults } from './components/diagnostics-results'
 import { ConfigHeader } from './config-header'
 import { DefaultReadProviderSelector, DefaultTranslateProviderSelector } from './default-provider'
 import { formOpts, useAppForm } from './form'
+import { GenAICookieBridgeStatusIndicator } from './genai-cookie-bridge-status'
 import { GenAISessionActions } from './genai-session-actions'
 import { ReadModelSelector } from './read-model-selector'
 import { TranslateModelSelector } from './translate-model-selector'
@@ -44,6 +51,12 @@ export function ProviderConfigForm() {
     const genaiValues = state.values as GenAIProviderConfig
     return Boolean(genaiValues.cookieBridge?.enabled)
   })
+  const cookieBridgePaired = useStore(form.store, (state) => {
+    if (state.values.provider !== 'genai')
+      return false
+    const genaiValues = state.values as GenAIProviderConfig
+    return Boolean(genaiValues.cookieBridge?.pairingToken)
+  })
   const isReadProviderName = isReadProvider(providerType)
   const isTranslateProviderName = isTranslateProvider(providerType)
   const shouldShowApiKeyField = providerType ? providerRequiresAPIKey(providerType) : false
@@ -92,6 +105,7 @@ export function ProviderConfigForm() {
 
           {shouldShowApiKeyField && <APIKeyField form={form} />}
           <BaseURLField form={form} />
+          <ProviderDiagnosticsResults providerId={providerConfig.id} />
           {providerType === 'genai'
             && isGenAIProviderConfig(providerConfig)
             && (
@@ -110,6 +124,7 @@ export function ProviderConfigForm() {
                           checked={Boolean(field.state.value)}
                           onCheckedChange={(checked) => {
                             field.handleChange(Boolean(checked))
+                            void form.handleSubmit()
                           }}
                         />
                       )}
@@ -144,6 +159,7 @@ export function ProviderConfigForm() {
                             const rawValue = event.currentTarget.value
                             const numericValue = rawValue === '' ? Number.NaN : Number(rawValue)
                             field.handleChange(numericValue)
+                            void form.handleSubmit()
                           }}
                           onBlur={(event) => {
                             const numericValue = Number(event.currentTarget.value)
@@ -167,6 +183,57 @@ export function ProviderConfigForm() {
                       </div>
                     )}
                   </form.AppField>
+                  <form.Field name="cookieBridge.pairingToken">
+                    {field => (
+                      <div className="space-y-1">
+                        <label className="text-xs font-medium text-muted-foreground" htmlFor="genai-cookie-bridge-pairing-token">
+                          {i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.label')}
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            id="genai-cookie-bridge-pairing-token"
+                            readOnly
+                            className="font-mono text-xs"
+                            disabled={!cookieBridgeEnabled}
+                            value={field.state.value ?? ''}
+                            placeholder={i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.placeholder')}
+                          />
+                          <Button
+                            size="icon-sm"
+                            variant="outline"
+                            type="button"
+                            disabled={!cookieBridgeEnabled || !field.state.value}
+                            aria-label={i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.copy')}
+                            onClick={() => {
+                              void navigator.clipboard.writeText(field.state.value ?? '')
+                              toast.success(i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.copied'))
+                            }}
+                          >
+                            <IconCopy className="size-3.5" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            type="button"
+                            disabled={!cookieBridgeEnabled}
+                            onClick={() => {
+                              field.handleChange(generateCookieBridgePairingToken())
+                              void form.handleSubmit()
+                            }}
+                          >
+                            <IconKey className="size-3.5" />
+                            {field.state.value
+                              ? i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.regenerate')
+                              : i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.generate')}
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {i18n.t('options.apiProviders.genaiCookieBridge.pairingToken.help')}
+                        </p>
+                      </div>
+                    )}
+                  </form.Field>
+                  <GenAICookieBridgeStatusIndicator active={cookieBridgeEnabled && cookieBridgePaired} />
                 </div>
                 <GenAISessionActions providerConfig={providerConfig} />
               </div>
@@ -176,6 +243,7 @@ export function ProviderConfigForm() {
               <Separator className="my-2" />
               <DefaultTranslateProviderSelector form={form} />
               <TranslateModelSelector form={form} />
+              <BatchFormatSelector form={form} />
             </>
           )}
           {isReadProviderName && (
@@ -1,11 +1,14 @@
 import type { APIProviderConfig } from '@/types/config/provider'
 import { i18n } from '#imports'
+import { IconRefresh } from '@tabler/icons-react'
 import { useStore } from '@tanstack/react-form'
 import { useSetAtom } from 'jotai'
 import { Activity } from 'react'
 import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
 import { Checkbox } from '@/components/shadcn/checkbox'
 import { SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { useGenAIModelTitles } from '@/hooks/use-genai-models'
 import { isReadProviderConfig, READ_PROVIDER_MODELS } from '@/types/config/provider'
 import { providerConfigAtom, updateLLMProviderConfig } from '@/utils/atoms/provider'
 import { cn } from '@/utils/styles/tailwind'
@@ -16,7 +19,13 @@ export const ReadModelSelector = withForm({
   render: function Render({ form }) {
     const providerConfig = useStore(form.store, state => state.values)
     const setProviderConfig = useSetAtom(providerConfigAtom(providerConfig.id))
-    if (!isReadProviderConfig(providerConfig))
+    const isModelProvider = isReadProviderConfig(providerConfig)
+    const { modelTitles, isGenAI, refreshModels, isRefreshing } = useGenAIModelTitles(
+      providerConfig,
+      isModelProvider ? READ_PROVIDER_MODELS[providerConfig.provider] : [],
+      isModelProvider ? providerConfig.models.read.model : undefined,
+    )
+    if (!isModelProvider)
       return <></>
     const { isCustomModel, customModel, model } = providerConfig.models.read
 
@@ -31,13 +40,26 @@ export const ReadModelSelector = withForm({
         <Activity mode={isCustomModel ? 'hidden' : 'visible'}>
           <form.AppField name="models.read.model">
             {field => (
-              <field.SelectField formForSubmit={form} label={i18n.t('options.apiProviders.form.models.read.title')}>
+              <field.SelectField
+                formForSubmit={form}
+                label={(
+                  <div className="flex w-full items-end justify-between">
+                    <span>{i18n.t('options.apiProviders.form.models.read.title')}</span>
+                    {isGenAI && (
+                      <Button size="sm" variant="ghost" type="button" disabled={isRefreshing} onClick={refreshModels}>
+                        <IconRefresh className={cn('size-3.5', isRefreshing && 'animate-spin')} />
+                        {i18n.t('options.apiProviders.form.models.genaiRefresh')}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue placeholder={i18n.t('options.apiProviders.form.models.read.placeholder')} />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectGroup>
-                    {READ_PROVIDER_MODELS[providerConfig.provider].map(model => (
+                    {modelTitles.map(model => (
                       <SelectItem key={model} value={model}>
                         {model}
                       </SelectItem>
@@ -0,0 +1,151 @@
+import type { CacheEntryView, CacheTableName } from '@/utils/cache-browser'
+import { i18n } from '#imports'
+import { IconChevronLeft, IconChevronRight, IconPencil, IconPin, IconPinnedOff, IconTrash } from '@tabler/icons-react'
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/shadcn/badge'
+import { Button } from '@/components/shadcn/button'
+import { Input } from '@/components/shadcn/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+import { deleteCacheEntry, queryCacheEntries, setCacheEntryPinned } from '@/utils/cache-browser'
+import { ConfigCard } from '../../components/config-card'
+import { EditEntryDialog } from './edit-entry-dialog'
+import { getCacheEntriesQueryKey, invalidateCacheBrowserQueries } from './query-keys'
+
+const PAGE_SIZE = 20
+
+export function CacheEntries({ table }: { table: CacheTableName }) {
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(0)
+
+  const { data, isPending } = useQuery({
+    queryKey: getCacheEntriesQueryKey(table, search, page),
+    queryFn: () => queryCacheEntries(table, { search, page, pageSize: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  })
+
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE))
+
+  return (
+    <ConfigCard
+      title={i18n.t('options.cache.entries.title')}
+      description={i18n.t(`options.cache.entries.description.${table}`)}
+    >
+      <div className="flex flex-col gap-4">
+        <Input
+          placeholder={i18n.t('options.cache.entries.search')}
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value)
+            setPage(0)
+          }}
+        />
+        {isPending && (
+          <div className="text-center text-muted-foreground py-8">
+            {i18n.t('options.cache.entries.loading')}
+          </div>
+        )}
+        {data && data.total === 0 && (
+          <div className="text-center text-muted-foreground py-8">
+            {i18n.t('options.cache.entries.empty')}
+          </div>
+        )}
+        {data && data.total > 0 && (
+          <>
+            <Table className="table-fixed">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{i18n.t(`options.cache.entries.columns.source.${table}`)}</TableHead>
+                  <TableHead>{i18n.t(`options.cache.entries.columns.output.${table}`)}</TableHead>
+                  <TableHead className="w-40">{i18n.t('options.cache.entries.columns.createdAt')}</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map(entry => <CacheEntryRow key={entry.key} table={table} entry={entry} />)}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+              <span className="tabular-nums">
+                {i18n.t('options.cache.entries.page', [page + 1, pageCount, data.total])}
+              </span>
+              <Button variant="outline" size="icon" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <IconChevronLeft className="size-4" />
+              </Button>
+              <Button variant="outline" size="icon" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                <IconChevronRight className="size-4" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </ConfigCard>
+  )
+}
+
+function CacheEntryRow({ table, entry }: { table: CacheTableName, entry: CacheEntryView }) {
+  const [isEditing, setIsEditing] = useState(false)
+
+  const { mutate: togglePinned, isPending: isPinning } = useMutation({
+    mutationFn: () => setCacheEntryPinned(table, entry.key, !entry.pinned),
+    onSuccess: () => invalidateCacheBrowserQueries(table),
+  })
+
+  const { mutate: deleteEntry, isPending: isDeleting } = useMutation({
+    mutationFn: () => deleteCacheEntry(table, entry.key),
+    onSuccess: () => {
+      invalidateCacheBrowserQueries(table)
+      toast.success(i18n.t('options.cache.entries.deleted'))
+    },
+  })
+
+  return (
+    <TableRow>
+      <TableCell className="align-top whitespace-normal break-words">
+        {entry.source ?? <span className="text-muted-foreground">{i18n.t('options.cache.entries.noSource')}</span>}
+      </TableCell>
+      <TableCell className="align-top whitespace-normal break-words">
+        <div className="line-clamp-6">{entry.output}</div>
+        {(entry.pinned || entry.editedAt || entry.reportedAt) && (
+          <div className="mt-1 flex gap-1">
+            {entry.pinned && <Badge variant="secondary">{i18n.t('options.cache.entries.pinnedBadge')}</Badge>}
+            {entry.editedAt && <Badge variant="secondary">{i18n.t('options.cache.entries.editedBadge')}</Badge>}
+            {entry.reportedAt && <Badge variant="destructive">{i18n.t('options.cache.entries.reportedBadge')}</Badge>}
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="align-top text-xs text-muted-foreground whitespace-normal">
+        {entry.createdAt.toLocaleString()}
+        {entry.providerId && <div className="break-all">{entry.providerId}</div>}
+      </TableCell>
+      <TableCell className="align-top">
+        <div className="flex justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            title={i18n.t(entry.pinned ? 'options.cache.entries.unpin' : 'options.cache.entries.pin')}
+            disabled={isPinning}
+            onClick={() => togglePinned()}
+          >
+            {entry.pinned ? <IconPinnedOff className="size-4" /> : <IconPin className="size-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" title={i18n.t('options.cache.entries.edit')} onClick={() => setIsEditing(true)}>
+            <IconPencil className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={i18n.t('options.cache.entries.delete')}
+            disabled={isDeleting}
+            onClick={() => deleteEntry()}
+          >
+            <IconTrash className="size-4" />
+          </Button>
+        </div>
+        {/* Mounted only while open so every edit starts from the stored text */}
+        {isEditing && <EditEntryDialog table={table} entry={entry} open onOpenChange={setIsEditing} />}
+      </TableCell>
+    </TableRow>
+  )
+}
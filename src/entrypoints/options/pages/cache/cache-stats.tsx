@@ -0,0 +1,33 @@
+import type { CacheTableName } from '@/utils/cache-browser'
+import { i18n } from '#imports'
+import { useQuery } from '@tanstack/react-query'
+import { getCacheTableStats } from '@/utils/cache-browser'
+import { MetricCard } from '../../components/metric-card'
+import { getCacheStatsQueryKey } from './query-keys'
+
+export function CacheStats({ table }: { table: CacheTableName }) {
+  const { data: stats } = useQuery({
+    queryKey: getCacheStatsQueryKey(table),
+    queryFn: () => getCacheTableStats(table),
+  })
+
+  if (!stats)
+    return null
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid gap-4 @md:grid-cols-2 @3xl:grid-cols-4">
+        <MetricCard title={i18n.t('options.cache.stats.entries')} metric={stats.count} icon="tabler:database" />
+        <MetricCard title={i18n.t('options.cache.stats.pinned')} metric={stats.pinnedCount} icon="tabler:pin" />
+        <MetricCard title={i18n.t('options.cache.stats.edited')} metric={stats.editedCount} icon="tabler:pencil" />
+        <MetricCard title={i18n.t('options.cache.stats.characters')} metric={stats.characters} icon="tabler:letter-case" />
+      </div>
+      {stats.oldestAt && stats.newestAt && (
+        <p className="text-xs text-muted-foreground">
+          {i18n.t('options.cache.stats.range', [stats.oldestAt.toLocaleString(), stats.newestAt.toLocaleString()])}
+          {stats.withSourceCount < stats.count && ` ${i18n.t('options.cache.stats.withoutSource', [stats.count - stats.withSourceCount])}`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import type { CacheEntryView, CacheTableName } from '@/utils/cache-browser'
+import { i18n } from '#imports'
+import { useMutation } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/shadcn/dialog'
+import { Textarea } from '@/components/shadcn/textarea'
+import { updateCacheEntryOutput } from '@/utils/cache-browser'
+import { invalidateCacheBrowserQueries } from './query-keys'
+
+export function EditEntryDialog(
+  { table, entry, open, onOpenChange }:
+  { table: CacheTableName, entry: CacheEntryView, open: boolean, onOpenChange: (open: boolean) => void },
+) {
+  const [draft, setDraft] = useState(entry.output)
+
+  const { mutate: save, isPending } = useMutation({
+    mutationFn: () => updateCacheEntryOutput(table, entry.key, draft.trim()),
+    onSuccess: () => {
+      invalidateCacheBrowserQueries(table)
+      toast.success(i18n.t('options.cache.edit.saved'))
+      onOpenChange(false)
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="md:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{i18n.t('options.cache.edit.title')}</DialogTitle>
+          <DialogDescription>{i18n.t('options.cache.edit.description')}</DialogDescription>
+        </DialogHeader>
+        {entry.source && (
+          <p className="max-h-40 overflow-y-auto rounded-md bg-muted p-3 text-sm whitespace-pre-wrap">{entry.source}</p>
+        )}
+        <Textarea className="min-h-40" value={draft} onChange={e => setDraft(e.target.value)} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {i18n.t('options.cache.edit.cancel')}
+          </Button>
+          <Button disabled={isPending || !draft.trim()} onClick={() => save()}>
+            {i18n.t('options.cache.edit.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+import type { CacheTableName } from '@/utils/cache-browser'
+import { i18n } from '#imports'
+import { useState } from 'react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/shadcn/tabs'
+import { CACHE_TABLE_NAMES } from '@/utils/cache-browser'
+import { PageLayout } from '../../components/page-layout'
+import { CacheEntries } from './cache-entries'
+import { CacheStats } from './cache-stats'
+
+export function CachePage() {
+  const [table, setTable] = useState<CacheTableName>('translationCache')
+
+  return (
+    <PageLayout title={i18n.t('options.cache.title')} innerClassName="flex flex-col p-8 gap-8">
+      <Tabs value={table} onValueChange={value => setTable(value as CacheTableName)}>
+        <TabsList>
+          {CACHE_TABLE_NAMES.map(name => (
+            <TabsTrigger key={name} value={name}>
+              {i18n.t(`options.cache.tables.${name}`)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <CacheStats table={table} />
+      {/* Keyed so the search and page reset when switching tables */}
+      <CacheEntries key={table} table={table} />
+    </PageLayout>
+  )
+}
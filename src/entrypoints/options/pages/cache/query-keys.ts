@@ -0,0 +1,16 @@
+import type { CacheTableName } from '@/utils/cache-browser'
+import { queryClient } from '@/utils/tanstack-query'
+
+export const CACHE_BROWSER_QUERY_KEY = 'cache-browser'
+
+export function getCacheStatsQueryKey(table: CacheTableName) {
+  return [CACHE_BROWSER_QUERY_KEY, table, 'stats']
+}
+
+export function getCacheEntriesQueryKey(table: CacheTableName, search: string, page: number) {
+  return [CACHE_BROWSER_QUERY_KEY, table, 'entries', search, page]
+}
+
+export function invalidateCacheBrowserQueries(table: CacheTableName) {
+  void queryClient.invalidateQueries({ queryKey: [CACHE_BROWSER_QUERY_KEY, table] })
+}
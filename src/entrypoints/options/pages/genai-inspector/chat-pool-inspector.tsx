@@ -0,0 +1,261 @@
+import type { SessionChatPoolInspection, SessionChatPurpose } from '@/utils/session-provider/chat-pool'
+import { i18n } from '#imports'
+import { IconRefresh, IconTrash } from '@tabler/icons-react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { useAtomValue } from 'jotai'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/shadcn/alert-dialog'
+import { Badge } from '@/components/shadcn/badge'
+import { Button } from '@/components/shadcn/button'
+import { Field, FieldLabel } from '@/components/shadcn/field'
+import { Input } from '@/components/shadcn/input'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+import { isGenAIProviderConfig } from '@/types/config/provider'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { sendMessage } from '@/utils/message'
+import { SESSION_CHAT_MAX_SLOTS_PER_KEY } from '@/utils/session-provider/constants'
+import { queryClient } from '@/utils/tanstack-query'
+import { ConfigCard } from '../../components/config-card'
+
+const CHAT_POOL_QUERY_KEY = ['genai-chat-pool']
+const CHAT_POOL_REFRESH_INTERVAL_MS = 2000
+const GENAI_CHAT_PURPOSES: SessionChatPurpose[] = ['translate', 'read']
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60)
+    return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function invalidateChatPoolQuery() {
+  void queryClient.invalidateQueries({ queryKey: CHAT_POOL_QUERY_KEY })
+}
+
+export function ChatPoolInspector() {
+  const { data: pools, isPending } = useQuery({
+    queryKey: CHAT_POOL_QUERY_KEY,
+    queryFn: () => sendMessage('inspectSessionChatPool'),
+    refetchInterval: CHAT_POOL_REFRESH_INTERVAL_MS,
+  })
+
+  return (
+    <ConfigCard
+      title={i18n.t('options.genaiInspector.chatPool.title')}
+      description={i18n.t('options.genaiInspector.chatPool.description')}
+    >
+      <div className="space-y-6">
+        <ChatPoolActions />
+        {isPending && (
+          <div className="text-center text-muted-foreground py-8">
+            {i18n.t('options.genaiInspector.chatPool.loading')}
+          </div>
+        )}
+        {pools && pools.length === 0 && (
+          <div className="text-center text-muted-foreground py-8">
+            {i18n.t('options.genaiInspector.chatPool.empty')}
+          </div>
+        )}
+        {pools?.map(pool => <ChatPoolEntry key={pool.key} pool={pool} />)}
+      </div>
+    </ConfigCard>
+  )
+}
+
+function ChatPoolActions() {
+  const providersConfig = useAtomValue(configFieldsAtomMap.providersConfig)
+  const genaiProviders = providersConfig.filter(isGenAIProviderConfig)
+  const [providerId, setProviderId] = useState(genaiProviders[0]?.id ?? '')
+  const [purpose, setPurpose] = useState<SessionChatPurpose>('translate')
+  const [desiredSlots, setDesiredSlots] = useState(2)
+
+  const { mutate: scalePool, isPending: isScaling } = useMutation({
+    mutationFn: () => sendMessage('scaleGenAIChatPool', { providerId, purpose, desiredSlots }),
+    onSuccess: invalidateChatPoolQuery,
+    onError: (error) => {
+      toast.error(i18n.t('options.genaiInspector.chatPool.scaleError'), { description: error.message })
+    },
+  })
+
+  const { mutate: deleteAllChats, isPending: isDeleting } = useMutation({
+    mutationFn: () => sendMessage('deleteAllGenAIChats', { providerId }),
+    onSuccess: (count) => {
+      invalidateChatPoolQuery()
+      toast.success(i18n.t('options.genaiInspector.chatPool.deleteAll.success', [count]))
+    },
+    onError: (error) => {
+      toast.error(i18n.t('options.genaiInspector.chatPool.deleteAll.error'), { description: error.message })
+    },
+  })
+
+  if (genaiProviders.length === 0)
+    return null
+
+  return (
+    <div className="grid gap-4 @md:grid-cols-4 items-end">
+      <Field>
+        <FieldLabel htmlFor="genaiInspectorProvider">
+          {i18n.t('options.genaiInspector.chatPool.provider')}
+        </FieldLabel>
+        <Select value={providerId} onValueChange={setProviderId}>
+          <SelectTrigger id="genaiInspectorProvider" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {genaiProviders.map(({ id, name }) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </Field>
+      <Field>
+        <FieldLabel htmlFor="genaiInspectorPurpose">
+          {i18n.t('options.genaiInspector.chatPool.purpose')}
+        </FieldLabel>
+        <Select value={purpose} onValueChange={(value: SessionChatPurpose) => setPurpose(value)}>
+          <SelectTrigger id="genaiInspectorPurpose" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {GENAI_CHAT_PURPOSES.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </Field>
+      <Field>
+        <FieldLabel htmlFor="genaiInspectorDesiredSlots">
+          {i18n.t('options.genaiInspector.chatPool.desiredSlots')}
+        </FieldLabel>
+        <Input
+          id="genaiInspectorDesiredSlots"
+          type="number"
+          min={1}
+          max={SESSION_CHAT_MAX_SLOTS_PER_KEY}
+          value={desiredSlots}
+          onChange={e => setDesiredSlots(Math.min(Math.max(Number(e.target.value) || 1, 1), SESSION_CHAT_MAX_SLOTS_PER_KEY))}
+        />
+      </Field>
+      <div className="flex gap-2">
+        <Button variant="outline" disabled={isScaling || !providerId} onClick={() => scalePool()}>
+          <IconRefresh className="size-4" />
+          {i18n.t('options.genaiInspector.chatPool.scale')}
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={isDeleting || !providerId}>
+              <IconTrash className="size-4" />
+              {i18n.t('options.genaiInspector.chatPool.deleteAll.trigger')}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{i18n.t('options.genaiInspector.chatPool.deleteAll.title')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {i18n.t('options.genaiInspector.chatPool.deleteAll.description')}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{i18n.t('options.genaiInspector.chatPool.deleteAll.cancel')}</AlertDialogCancel>
+              <AlertDialogAction variant="destructive" onClick={() => deleteAllChats()} disabled={isDeleting}>
+                {i18n.t('options.genaiInspector.chatPool.deleteAll.confirm')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  )
+}
+
+function ChatPoolEntry({ pool }: { pool: SessionChatPoolInspection }) {
+  const { mutate: invalidateSlot, isPending: isInvalidating } = useMutation({
+    mutationFn: (slotId: string) => sendMessage('invalidateSessionChatSlot', { key: pool.key, slotId }),
+    onSuccess: invalidateChatPoolQuery,
+    onError: (error) => {
+      toast.error(i18n.t('options.genaiInspector.chatPool.invalidateError'), { description: error.message })
+    },
+  })
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{pool.providerId}</span>
+        <Badge variant="secondary">{pool.purpose}</Badge>
+        <span className="text-muted-foreground break-all">{pool.baseURL}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {i18n.t('options.genaiInspector.chatPool.queue', [pool.waiterCount, pool.pendingProvisionCount])}
+        </span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{i18n.t('options.genaiInspector.chatPool.columns.chatGuid')}</TableHead>
+            <TableHead>{i18n.t('options.genaiInspector.chatPool.columns.state')}</TableHead>
+            <TableHead>{i18n.t('options.genaiInspector.chatPool.columns.age')}</TableHead>
+            <TableHead>{i18n.t('options.genaiInspector.chatPool.columns.pendingMessage')}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pool.slots.map(slot => (
+            <TableRow key={slot.slotId}>
+              <TableCell className="font-mono text-xs">{slot.chatGuid}</TableCell>
+              <TableCell>
+                <Badge variant={slot.busy ? 'default' : 'secondary'}>
+                  {slot.busy
+                    ? i18n.t('options.genaiInspector.chatPool.busy')
+                    : i18n.t('options.genaiInspector.chatPool.idle', [formatDuration(slot.idleMs)])}
+                </Badge>
+              </TableCell>
+              <TableCell>{formatDuration(slot.ageMs)}</TableCell>
+              <TableCell className="font-mono text-xs">
+                {slot.pendingMessageGuid ?? '-'}
+                {slot.pendingSince !== null && (
+                  <span className="ml-1 text-muted-foreground">
+                    (
+                    {formatDuration(Date.now() - slot.pendingSince)}
+                    )
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isInvalidating}
+                  onClick={() => invalidateSlot(slot.slotId)}
+                >
+                  {i18n.t('options.genaiInspector.chatPool.invalidate')}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import { i18n } from '#imports'
+import { PageLayout } from '../../components/page-layout'
+import { ChatPoolInspector } from './chat-pool-inspector'
+
+export function GenAIInspectorPage() {
+  return (
+    <PageLayout
+      title={i18n.t('options.genaiInspector.title')}
+      innerClassName="flex flex-col p-8 gap-8"
+    >
+      <ChatPoolInspector />
+    </PageLayout>
+  )
+}
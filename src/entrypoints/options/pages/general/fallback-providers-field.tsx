@@ -0,0 +1,120 @@
+import type { TranslateProviderConfig } from '@/types/config/provider'
+import { i18n } from '#imports'
+import { IconGripVertical, IconX } from '@tabler/icons-react'
+import { useAtom, useAtomValue } from 'jotai'
+import { useState } from 'react'
+import ProviderIcon from '@/components/provider-icon'
+import { useTheme } from '@/components/providers/theme-provider'
+import { Button } from '@/components/shadcn/button'
+import { Field, FieldDescription, FieldLabel } from '@/components/shadcn/field'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/select'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { filterEnabledProvidersConfig, getProviderConfigById, getTranslateProvidersConfig } from '@/utils/config/helpers'
+import { PROVIDER_ITEMS } from '@/utils/constants/providers'
+import { cn } from '@/utils/styles/tailwind'
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export function FallbackProvidersField() {
+  const { theme } = useTheme()
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const providersConfig = useAtomValue(configFieldsAtomMap.providersConfig)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  // The primary provider is skipped at translation time, so don't list it as a fallback
+  const fallbackProviderIds = translateConfig.fallbackProviderIds.filter(id => id !== translateConfig.providerId)
+  const translateProvidersConfig = getTranslateProvidersConfig(providersConfig)
+  const availableProviders = getTranslateProvidersConfig(filterEnabledProvidersConfig(providersConfig))
+    .filter(({ id }) => id !== translateConfig.providerId && !fallbackProviderIds.includes(id))
+
+  const setFallbackProviderIds = (ids: string[]) => {
+    void setTranslateConfig({ fallbackProviderIds: ids })
+  }
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex)
+      return
+    setFallbackProviderIds(moveItem(fallbackProviderIds, dragIndex, targetIndex))
+    setDragIndex(null)
+  }
+
+  return (
+    <Field>
+      <FieldLabel>
+        {i18n.t('options.general.translationConfig.fallbackProviders.title')}
+      </FieldLabel>
+      <FieldDescription>
+        {i18n.t('options.general.translationConfig.fallbackProviders.description')}
+      </FieldDescription>
+      {fallbackProviderIds.length > 0 && (
+        <ol className="space-y-1">
+          {fallbackProviderIds.map((id, index) => {
+            const providerConfig = getProviderConfigById<TranslateProviderConfig>(translateProvidersConfig, id)
+            return (
+              <li
+                key={id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={cn(
+                  'flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm',
+                  dragIndex === index && 'opacity-50',
+                  providerConfig && !providerConfig.enabled && 'text-muted-foreground',
+                )}
+              >
+                <IconGripVertical className="size-4 cursor-grab text-muted-foreground" />
+                <span className="w-4 text-xs text-muted-foreground">{index + 1}</span>
+                <div className="flex-1">
+                  {providerConfig
+                    ? <ProviderIcon logo={PROVIDER_ITEMS[providerConfig.provider].logo(theme)} name={providerConfig.name} size="sm" />
+                    : id}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label={i18n.t('options.general.translationConfig.fallbackProviders.remove')}
+                  onClick={() => setFallbackProviderIds(fallbackProviderIds.filter(fallbackId => fallbackId !== id))}
+                >
+                  <IconX className="size-4" />
+                </Button>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      {availableProviders.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(value: string) => setFallbackProviderIds([...fallbackProviderIds, value])}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder={i18n.t('options.general.translationConfig.fallbackProviders.add')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {availableProviders.map(({ id, name, provider }) => (
+                <SelectItem key={id} value={id}>
+                  <ProviderIcon logo={PROVIDER_ITEMS[provider].logo(theme)} name={name} size="sm" />
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      )}
+    </Field>
+  )
+}
@@ -6,6 +6,7 @@ import { Checkbox } from '@/components/shadcn/checkbox'
 import { Field, FieldLabel } from '@/components/shadcn/field'
 import { Input } from '@/components/shadcn/input'
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { useGenAIModelTitles } from '@/hooks/use-genai-models'
 import { providerRequiresAPIKey, READ_PROVIDER_MODELS } from '@/types/config/provider'
 import { readProviderConfigAtom, updateLLMProviderConfig } from '@/utils/atoms/provider'
 import { cn } from '@/utils/styles/tailwind'
@@ -41,6 +42,7 @@ function ReadModelSelector() {
   const [readProviderConfig, setReadProviderConfig] = useAtom(readProviderConfigAtom)
   const provider = readProviderConfig.provider
   const modelConfig = readProviderConfig.models.read
+  const { modelTitles } = useGenAIModelTitles(readProviderConfig, READ_PROVIDER_MODELS[provider], modelConfig.model)
 
   return (
     <Field>
@@ -94,7 +96,7 @@ function ReadModelSelector() {
               </SelectTrigger>
               <SelectContent>
                 <SelectGroup>
-                  {READ_PROVIDER_MODELS[provider].map(model => (
+                  {modelTitles.map(model => (
                     <SelectItem key={model} value={model}>
                       {model}
                     </SelectItem>
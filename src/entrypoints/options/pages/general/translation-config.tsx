@@ -15,6 +15,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/shadcn/select'
+import { useGenAIModelTitles } from '@/hooks/use-genai-models'
 import { isAPIProviderConfig, isLLMTranslateProviderConfig, providerRequiresAPIKey, TRANSLATE_PROVIDER_MODELS } from '@/types/config/provider'
 import { pageTranslateRangeSchema } from '@/types/config/translate'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
@@ -22,6 +23,7 @@ import { translateProviderConfigAtom, updateLLMProviderConfig } from '@/utils/at
 import { cn } from '@/utils/styles/tailwind'
 import { ConfigCard } from '../../components/config-card'
 import { SetApiKeyWarning } from '../../components/set-api-key-warning'
+import { FallbackProvidersField } from './fallback-providers-field'
 
 export default function TranslationConfig() {
   return (
@@ -29,6 +31,7 @@ export default function TranslationConfig() {
       <div className="space-y-4">
         <TranslateProviderSelectorField />
         <TranslateModelSelector />
+        <FallbackProvidersField />
         <RangeSelector />
       </div>
     </ConfigCard>
@@ -96,6 +99,12 @@ function TranslateProviderSelectorField() {
 
 function TranslateModelSelector() {
   const [translateProviderConfig, setTranslateProviderConfig] = useAtom(translateProviderConfigAtom)
+  const llmProviderConfig = translateProviderConfig && isLLMTranslateProviderConfig(translateProviderConfig) ? translateProviderConfig : undefined
+  const { modelTitles } = useGenAIModelTitles(
+    llmProviderConfig,
+    llmProviderConfig ? TRANSLATE_PROVIDER_MODELS[llmProviderConfig.provider] : [],
+    llmProviderConfig?.models.translate.model,
+  )
 
   if (!translateProviderConfig || !isLLMTranslateProviderConfig(translateProviderConfig)) {
     return null
@@ -156,7 +165,7 @@ function TranslateModelSelector() {
               </SelectTrigger>
               <SelectContent>
                 <SelectGroup>
-                  {TRANSLATE_PROVIDER_MODELS[provider].map(model => (
+                  {modelTitles.map(model => (
                     <SelectItem key={model} value={model}>
                       {model}
                     </SelectItem>
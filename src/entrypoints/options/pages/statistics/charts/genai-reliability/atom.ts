@@ -0,0 +1,21 @@
+import { atom } from 'jotai'
+import { getDateFromDaysBack } from '@/utils/utils'
+
+const DEFAULT_RANGE_DAYS = 7
+
+export interface DateRange {
+  // yyyy-mm-dd in local time, as used by <input type="date">
+  start: string
+  end: string
+}
+
+export const genaiReliabilityDateRangeAtom = atom<DateRange>({
+  start: getDateFromDaysBack(DEFAULT_RANGE_DAYS - 1).toLocaleDateString('en-CA'),
+  end: new Date().toLocaleDateString('en-CA'),
+})
+
+export function dateRangeToBounds({ start, end }: DateRange): { startDate: Date, endDate: Date } {
+  const startDate = new Date(`${start}T00:00:00`)
+  const endDate = new Date(`${end}T23:59:59.999`)
+  return { startDate, endDate }
+}
@@ -0,0 +1,97 @@
+import { i18n } from '#imports'
+import { IconDownload } from '@tabler/icons-react'
+import { useQuery } from '@tanstack/react-query'
+import { saveAs } from 'file-saver'
+import { useAtom } from 'jotai'
+import { Button } from '@/components/shadcn/button'
+import { Input } from '@/components/shadcn/input'
+import {
+  buildGenAIModelBreakdown,
+  buildGenAIReliabilityDailySeries,
+  buildGenAIResponseCodeHistogram,
+  calculateGenAIFallbackDurationPercentiles,
+  genaiReliabilityLogsToCsv,
+  getGenAIBatchRequestRecords,
+  getGenAIReliabilityLogs,
+} from '@/utils/genai/reliability-report'
+import { dateRangeToBounds, genaiReliabilityDateRangeAtom } from './atom'
+import { ModelBreakdownTable } from './model-breakdown-table'
+import { RateChart } from './rate-chart'
+import { ResponseCodeChart } from './response-code-chart'
+
+export default function GenAIReliability() {
+  const [dateRange, setDateRange] = useAtom(genaiReliabilityDateRangeAtom)
+
+  const { data } = useQuery({
+    queryKey: ['genai-reliability', dateRange],
+    queryFn: async () => {
+      const { startDate, endDate } = dateRangeToBounds(dateRange)
+      const [logs, batchRecords] = await Promise.all([
+        getGenAIReliabilityLogs(startDate, endDate),
+        getGenAIBatchRequestRecords(startDate, endDate),
+      ])
+      return { logs, batchRecords }
+    },
+  })
+  const logs = data?.logs ?? []
+  const batchRecords = data?.batchRecords ?? []
+
+  const handleExport = () => {
+    const blob = new Blob([genaiReliabilityLogsToCsv(logs)], { type: 'text/csv;charset=utf-8' })
+    saveAs(blob, `genai-reliability-${dateRange.start}-${dateRange.end}.csv`)
+  }
+
+  return (
+    <section className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-xl font-medium">{i18n.t('options.statistics.genaiReliability.title')}</h2>
+          <span className="text-base text-muted-foreground">
+            {i18n.t('options.statistics.genaiReliability.description')}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="date"
+            className="w-40"
+            aria-label={i18n.t('options.statistics.genaiReliability.startDate')}
+            value={dateRange.start}
+            max={dateRange.end}
+            onChange={e => e.target.value && setDateRange({ ...dateRange, start: e.target.value })}
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            type="date"
+            className="w-40"
+            aria-label={i18n.t('options.statistics.genaiReliability.endDate')}
+            value={dateRange.end}
+            min={dateRange.start}
+            onChange={e => e.target.value && setDateRange({ ...dateRange, end: e.target.value })}
+          />
+          <Button variant="outline" disabled={logs.length === 0} onClick={handleExport}>
+            <IconDownload className="size-4" />
+            {i18n.t('options.statistics.genaiReliability.exportCsv')}
+          </Button>
+        </div>
+      </div>
+      {logs.length === 0
+        ? (
+            <div className="text-center text-muted-foreground py-8">
+              {i18n.t('options.statistics.genaiReliability.empty')}
+            </div>
+          )
+        : (
+            <>
+              <div className="flex flex-wrap gap-4">
+                <RateChart points={buildGenAIReliabilityDailySeries(logs, batchRecords)} />
+                <ResponseCodeChart buckets={buildGenAIResponseCodeHistogram(logs)} />
+              </div>
+              <ModelBreakdownTable
+                rows={buildGenAIModelBreakdown(logs)}
+                percentiles={calculateGenAIFallbackDurationPercentiles(logs)}
+              />
+            </>
+          )}
+    </section>
+  )
+}
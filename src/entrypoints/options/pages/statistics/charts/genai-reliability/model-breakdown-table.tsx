@@ -0,0 +1,63 @@
+import type { GenAIDurationPercentile, GenAIModelBreakdownRow } from '@/utils/genai/reliability-report'
+import { i18n } from '#imports'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+
+function formatDuration(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+export function ModelBreakdownTable({ rows, percentiles }: { rows: GenAIModelBreakdownRow[], percentiles: GenAIDurationPercentile[] }) {
+  return (
+    <div className="flex flex-wrap gap-4">
+      <div className="flex-1 min-w-[400px] flex flex-col gap-2">
+        <h3 className="text-sm font-medium">{i18n.t('options.statistics.genaiReliability.modelBreakdown')}</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{i18n.t('options.statistics.genaiReliability.columns.model')}</TableHead>
+              <TableHead>{i18n.t('options.statistics.genaiReliability.columns.modelType')}</TableHead>
+              <TableHead className="text-right">{i18n.t('options.statistics.genaiReliability.columns.retries')}</TableHead>
+              <TableHead className="text-right">{i18n.t('options.statistics.genaiReliability.columns.fallbacks')}</TableHead>
+              <TableHead className="text-right">{i18n.t('options.statistics.genaiReliability.columns.cancels')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={`${row.modelType}:${row.model}`}>
+                <TableCell>{row.model}</TableCell>
+                <TableCell>{row.modelType}</TableCell>
+                <TableCell className="text-right">{row.retryCount}</TableCell>
+                <TableCell className="text-right">{row.fallbackCount}</TableCell>
+                <TableCell className="text-right">
+                  {row.cancelCount}
+                  {row.failedCancelCount > 0 && (
+                    <span className="ml-1 text-destructive">
+                      {i18n.t('options.statistics.genaiReliability.failedCancels', [row.failedCancelCount])}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="w-64 flex flex-col gap-2">
+        <h3 className="text-sm font-medium">{i18n.t('options.statistics.genaiReliability.fallbackDuration')}</h3>
+        {percentiles.length === 0
+          ? <span className="text-sm text-muted-foreground">-</span>
+          : (
+              <Table>
+                <TableBody>
+                  {percentiles.map(({ percentile, durationMs }) => (
+                    <TableRow key={percentile}>
+                      <TableCell>{`p${percentile}`}</TableCell>
+                      <TableCell className="text-right">{formatDuration(durationMs)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import type { ILineChartSpec } from '@visactor/react-vchart'
+import type { GenAIReliabilityDailyPoint } from '@/utils/genai/reliability-report'
+import { i18n } from '#imports'
+import { VChart } from '@visactor/react-vchart'
+import { numberToPercentage } from '@/utils/utils'
+
+type RateType = 'retryRate' | 'fallbackRate'
+
+interface RatePoint {
+  date: string
+  type: RateType
+  rate: number
+}
+
+function getRateLabel(type: RateType) {
+  return type === 'retryRate'
+    ? i18n.t('options.statistics.genaiReliability.retryRate')
+    : i18n.t('options.statistics.genaiReliability.fallbackRate')
+}
+
+function generateSpec(ratePoints: RatePoint[]): ILineChartSpec {
+  return {
+    type: 'line',
+    data: {
+      id: 'data',
+      values: ratePoints,
+    },
+    xField: 'date',
+    yField: 'rate',
+    seriesField: 'type',
+    point: {
+      visible: new Set(ratePoints.map(p => p.date)).size <= 1,
+    },
+    legends: {
+      visible: true,
+      type: 'discrete',
+      item: {
+        label: {
+          formatMethod: type => getRateLabel(type as RateType),
+        },
+      },
+    },
+    tooltip: {
+      dimension: {
+        content: [
+          {
+            key: datum => getRateLabel(datum?.type),
+            value: datum => numberToPercentage(datum?.rate ?? 0),
+          },
+        ],
+      },
+    },
+    axes: [
+      {
+        orient: 'left',
+        label: {
+          formatMethod: value => numberToPercentage(Number(value)),
+        },
+      },
+    ],
+    color: {
+      type: 'ordinal',
+      domain: ['retryRate', 'fallbackRate'],
+      range: ['#f5a524', '#f31260'],
+    },
+    line: {
+      style: {
+        curveType: 'monotone',
+      },
+    },
+    autoFit: true,
+  }
+}
+
+export function RateChart({ points }: { points: GenAIReliabilityDailyPoint[] }) {
+  const ratePoints = points.flatMap<RatePoint>(point => [
+    { date: point.date, type: 'retryRate', rate: point.retryRate ?? 0 },
+    { date: point.date, type: 'fallbackRate', rate: point.fallbackRate ?? 0 },
+  ])
+
+  return (
+    <div className="flex-1 min-w-[400px] flex flex-col gap-2">
+      <h3 className="text-sm font-medium">{i18n.t('options.statistics.genaiReliability.ratesOverTime')}</h3>
+      <div className="relative h-72 overflow-hidden">
+        <div className="absolute inset-0">
+          <VChart spec={generateSpec(ratePoints)} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import type { IBarChartSpec } from '@visactor/react-vchart'
+import type { GenAIResponseCodeBucket } from '@/utils/genai/reliability-report'
+import { i18n } from '#imports'
+import { VChart } from '@visactor/react-vchart'
+
+function generateSpec(buckets: GenAIResponseCodeBucket[]): IBarChartSpec {
+  return {
+    type: 'bar',
+    data: {
+      id: 'data',
+      values: buckets,
+    },
+    xField: 'responseCode',
+    yField: 'count',
+    tooltip: {
+      mark: {
+        content: [
+          {
+            key: datum => datum?.responseCode,
+            value: datum => datum?.count ?? 0,
+          },
+        ],
+      },
+    },
+    color: ['#46d6b0'],
+    autoFit: true,
+  }
+}
+
+export function ResponseCodeChart({ buckets }: { buckets: GenAIResponseCodeBucket[] }) {
+  return (
+    <div className="flex-1 min-w-[320px] flex flex-col gap-2">
+      <h3 className="text-sm font-medium">{i18n.t('options.statistics.genaiReliability.responseCodes')}</h3>
+      <div className="relative h-72 overflow-hidden">
+        <div className="absolute inset-0">
+          <VChart spec={generateSpec(buckets)} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1 +1,3 @@
 export { default as BatchRequestRecord } from './batch-request-record'
+export { default as GenAIReliability } from './genai-reliability'
+export { default as LLMUsage } from './llm-usage'
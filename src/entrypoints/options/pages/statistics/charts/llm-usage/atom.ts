@@ -0,0 +1,10 @@
+import type { DateRange } from '../genai-reliability/atom'
+import { atom } from 'jotai'
+import { getDateFromDaysBack } from '@/utils/utils'
+
+const DEFAULT_RANGE_DAYS = 30
+
+export const llmUsageDateRangeAtom = atom<DateRange>({
+  start: getDateFromDaysBack(DEFAULT_RANGE_DAYS - 1).toLocaleDateString('en-CA'),
+  end: new Date().toLocaleDateString('en-CA'),
+})
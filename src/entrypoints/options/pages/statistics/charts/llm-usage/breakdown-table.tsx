@@ -0,0 +1,38 @@
+import type { LLMUsageBreakdownRow } from '@/utils/llm-usage/report'
+import { i18n } from '#imports'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+import { addThousandsSeparator } from '@/utils/utils'
+import { formatCost } from './utils'
+
+export function BreakdownTable(
+  { title, labelHeader, rows, getLabel }:
+  { title: string, labelHeader: string, rows: LLMUsageBreakdownRow[], getLabel: (label: string) => string },
+) {
+  return (
+    <div className="flex-1 min-w-[400px] flex flex-col gap-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{labelHeader}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.columns.requests')}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.columns.inputTokens')}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.columns.outputTokens')}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.columns.cost')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.label}>
+              <TableCell>{getLabel(row.label)}</TableCell>
+              <TableCell className="text-right tabular-nums">{addThousandsSeparator(row.requestCount)}</TableCell>
+              <TableCell className="text-right tabular-nums">{addThousandsSeparator(row.inputTokens)}</TableCell>
+              <TableCell className="text-right tabular-nums">{addThousandsSeparator(row.outputTokens)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatCost(row.cost)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
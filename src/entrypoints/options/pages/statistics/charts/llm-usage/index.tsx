@@ -0,0 +1,110 @@
+import type { LLMUsageFeature } from '@/utils/db/dexie/tables/llm-usage-record'
+import { i18n } from '#imports'
+import { useQuery } from '@tanstack/react-query'
+import { useAtom, useAtomValue } from 'jotai'
+import { Input } from '@/components/shadcn/input'
+import { MetricCard } from '@/entrypoints/options/components/metric-card'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import {
+  buildLLMSpendDailySeries,
+  buildLLMUsageBreakdown,
+  getLLMUsageRecords,
+  summarizeLLMUsage,
+} from '@/utils/llm-usage/report'
+import { dateRangeToBounds } from '../genai-reliability/atom'
+import { llmUsageDateRangeAtom } from './atom'
+import { BreakdownTable } from './breakdown-table'
+import { PriceTable } from './price-table'
+import { SpendChart } from './spend-chart'
+import { formatCost } from './utils'
+
+export default function LLMUsage() {
+  const [dateRange, setDateRange] = useAtom(llmUsageDateRangeAtom)
+  const providersConfig = useAtomValue(configFieldsAtomMap.providersConfig)
+
+  const { data: records = [] } = useQuery({
+    queryKey: ['llm-usage', dateRange],
+    queryFn: async () => {
+      const { startDate, endDate } = dateRangeToBounds(dateRange)
+      return await getLLMUsageRecords(startDate, endDate)
+    },
+  })
+
+  // Records outlive their provider, so fall back to the id once it has been deleted
+  const getProviderName = (providerId: string) =>
+    providersConfig.find(provider => provider.id === providerId)?.name ?? providerId
+  const getFeatureName = (feature: string) =>
+    i18n.t(`options.statistics.llmUsage.features.${feature as LLMUsageFeature}`)
+
+  const summary = summarizeLLMUsage(records)
+
+  return (
+    <section className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-xl font-medium">{i18n.t('options.statistics.llmUsage.title')}</h2>
+          <span className="text-base text-muted-foreground">
+            {i18n.t('options.statistics.llmUsage.description')}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="date"
+            className="w-40"
+            aria-label={i18n.t('options.statistics.llmUsage.startDate')}
+            value={dateRange.start}
+            max={dateRange.end}
+            onChange={e => e.target.value && setDateRange({ ...dateRange, start: e.target.value })}
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            type="date"
+            className="w-40"
+            aria-label={i18n.t('options.statistics.llmUsage.endDate')}
+            value={dateRange.end}
+            min={dateRange.start}
+            onChange={e => e.target.value && setDateRange({ ...dateRange, end: e.target.value })}
+          />
+        </div>
+      </div>
+      {records.length === 0
+        ? (
+            <div className="text-center text-muted-foreground py-8">
+              {i18n.t('options.statistics.llmUsage.empty')}
+            </div>
+          )
+        : (
+            <>
+              <div className="flex flex-col gap-1">
+                <span className="text-3xl font-semibold tabular-nums">{formatCost(summary.cost)}</span>
+                <span className="text-sm text-muted-foreground">
+                  {i18n.t('options.statistics.llmUsage.estimatedSpend')}
+                  {summary.unpricedRequestCount > 0 && ` · ${i18n.t('options.statistics.llmUsage.unpriced', [summary.unpricedRequestCount])}`}
+                </span>
+              </div>
+              <div className="h-fit w-full grid gap-4 grid-cols-1 @xl:grid-cols-2 @4xl:grid-cols-3">
+                <MetricCard title={i18n.t('options.statistics.llmUsage.columns.requests')} metric={summary.requestCount} icon="tabler:message-circle" />
+                <MetricCard title={i18n.t('options.statistics.llmUsage.columns.inputTokens')} metric={summary.inputTokens} icon="tabler:arrow-bar-to-right" />
+                <MetricCard title={i18n.t('options.statistics.llmUsage.columns.outputTokens')} metric={summary.outputTokens} icon="tabler:arrow-bar-to-left" />
+              </div>
+              <SpendChart points={buildLLMSpendDailySeries(records)} getProviderName={getProviderName} />
+              <div className="flex flex-wrap gap-4">
+                <BreakdownTable
+                  title={i18n.t('options.statistics.llmUsage.byProvider')}
+                  labelHeader={i18n.t('options.statistics.llmUsage.columns.provider')}
+                  rows={buildLLMUsageBreakdown(records, 'providerId')}
+                  getLabel={getProviderName}
+                />
+                <BreakdownTable
+                  title={i18n.t('options.statistics.llmUsage.byFeature')}
+                  labelHeader={i18n.t('options.statistics.llmUsage.columns.feature')}
+                  rows={buildLLMUsageBreakdown(records, 'feature')}
+                  getLabel={getFeatureName}
+                />
+              </div>
+            </>
+          )}
+      <PriceTable />
+    </section>
+  )
+}
@@ -0,0 +1,163 @@
+import type { ModelPrice } from '@/types/config/usage'
+import { i18n } from '#imports'
+import { IconPlus, IconTrash } from '@tabler/icons-react'
+import { useAtom } from 'jotai'
+import { useState } from 'react'
+import { Button } from '@/components/shadcn/button'
+import { Input } from '@/components/shadcn/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+import { modelPriceSchema } from '@/types/config/usage'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+
+const EMPTY_DRAFT = { model: '', inputCostPerMillionTokens: '', outputCostPerMillionTokens: '' }
+
+function PriceInput({ value, label, onCommit }: { value: number, label: string, onCommit: (value: number) => void }) {
+  return (
+    <Input
+      // Remount when the stored price changes so the uncontrolled draft follows it
+      key={value}
+      type="number"
+      min={0}
+      step="any"
+      className="h-8 w-28 ml-auto text-right"
+      aria-label={label}
+      defaultValue={value}
+      onBlur={(e) => {
+        const next = Number(e.target.value)
+        if (e.target.value !== '' && Number.isFinite(next) && next >= 0 && next !== value)
+          onCommit(next)
+        else
+          e.target.value = String(value)
+      }}
+    />
+  )
+}
+
+export function PriceTable() {
+  const [usageConfig, setUsageConfig] = useAtom(configFieldsAtomMap.usage)
+  const [draft, setDraft] = useState(EMPTY_DRAFT)
+  const { modelPrices } = usageConfig
+
+  const newPrice = modelPriceSchema.safeParse({
+    model: draft.model,
+    inputCostPerMillionTokens: draft.inputCostPerMillionTokens === '' ? Number.NaN : Number(draft.inputCostPerMillionTokens),
+    outputCostPerMillionTokens: draft.outputCostPerMillionTokens === '' ? Number.NaN : Number(draft.outputCostPerMillionTokens),
+  })
+  const isDuplicate = newPrice.success
+    && modelPrices.some(price => price.model.toLowerCase() === newPrice.data.model.toLowerCase())
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    void setUsageConfig({
+      modelPrices: modelPrices.map((price, i) => i === index ? { ...price, ...patch } : price),
+    })
+  }
+
+  const removePrice = (index: number) => {
+    void setUsageConfig({ modelPrices: modelPrices.filter((_, i) => i !== index) })
+  }
+
+  const addPrice = () => {
+    if (!newPrice.success || isDuplicate)
+      return
+    void setUsageConfig({ modelPrices: [...modelPrices, newPrice.data] })
+    setDraft(EMPTY_DRAFT)
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-sm font-medium">{i18n.t('options.statistics.llmUsage.priceTable.title')}</h3>
+        <span className="text-sm text-muted-foreground">{i18n.t('options.statistics.llmUsage.priceTable.description')}</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{i18n.t('options.statistics.llmUsage.priceTable.model')}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.priceTable.inputCost')}</TableHead>
+            <TableHead className="text-right">{i18n.t('options.statistics.llmUsage.priceTable.outputCost')}</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {modelPrices.map((price, index) => (
+            <TableRow key={price.model}>
+              <TableCell className="font-mono text-xs">{price.model}</TableCell>
+              <TableCell>
+                <PriceInput
+                  value={price.inputCostPerMillionTokens}
+                  label={i18n.t('options.statistics.llmUsage.priceTable.inputCost')}
+                  onCommit={value => updatePrice(index, { inputCostPerMillionTokens: value })}
+                />
+              </TableCell>
+              <TableCell>
+                <PriceInput
+                  value={price.outputCostPerMillionTokens}
+                  label={i18n.t('options.statistics.llmUsage.priceTable.outputCost')}
+                  onCommit={value => updatePrice(index, { outputCostPerMillionTokens: value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  aria-label={i18n.t('options.statistics.llmUsage.priceTable.remove')}
+                  onClick={() => removePrice(index)}
+                >
+                  <IconTrash className="size-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell>
+              <Input
+                className="h-8"
+                placeholder={i18n.t('options.statistics.llmUsage.priceTable.modelPlaceholder')}
+                value={draft.model}
+                onChange={e => setDraft({ ...draft, model: e.target.value })}
+              />
+            </TableCell>
+            <TableCell>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                className="h-8 w-28 ml-auto text-right"
+                aria-label={i18n.t('options.statistics.llmUsage.priceTable.inputCost')}
+                value={draft.inputCostPerMillionTokens}
+                onChange={e => setDraft({ ...draft, inputCostPerMillionTokens: e.target.value })}
+              />
+            </TableCell>
+            <TableCell>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                className="h-8 w-28 ml-auto text-right"
+                aria-label={i18n.t('options.statistics.llmUsage.priceTable.outputCost')}
+                value={draft.outputCostPerMillionTokens}
+                onChange={e => setDraft({ ...draft, outputCostPerMillionTokens: e.target.value })}
+              />
+            </TableCell>
+            <TableCell>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                aria-label={i18n.t('options.statistics.llmUsage.priceTable.add')}
+                disabled={!newPrice.success || isDuplicate}
+                onClick={addPrice}
+              >
+                <IconPlus className="size-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+      {isDuplicate && (
+        <span className="text-xs text-destructive">{i18n.t('options.statistics.llmUsage.priceTable.duplicate')}</span>
+      )}
+    </div>
+  )
+}
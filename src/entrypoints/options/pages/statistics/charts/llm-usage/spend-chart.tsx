@@ -0,0 +1,63 @@
+import type { IBarChartSpec } from '@visactor/react-vchart'
+import type { LLMSpendDailyPoint } from '@/utils/llm-usage/report'
+import { i18n } from '#imports'
+import { VChart } from '@visactor/react-vchart'
+import { formatCost } from './utils'
+
+function generateSpec(points: LLMSpendDailyPoint[], getProviderName: (providerId: string) => string): IBarChartSpec {
+  return {
+    type: 'bar',
+    data: {
+      id: 'data',
+      values: points,
+    },
+    xField: 'date',
+    yField: 'cost',
+    seriesField: 'providerId',
+    stack: true,
+    legends: {
+      visible: true,
+      type: 'discrete',
+      item: {
+        label: {
+          formatMethod: providerId => getProviderName(String(providerId)),
+        },
+      },
+    },
+    tooltip: {
+      dimension: {
+        content: [
+          {
+            key: datum => getProviderName(datum?.providerId),
+            value: datum => formatCost(datum?.cost ?? 0),
+          },
+        ],
+      },
+    },
+    axes: [
+      {
+        orient: 'left',
+        label: {
+          formatMethod: value => formatCost(Number(value)),
+        },
+      },
+    ],
+    autoFit: true,
+  }
+}
+
+export function SpendChart(
+  { points, getProviderName }:
+  { points: LLMSpendDailyPoint[], getProviderName: (providerId: string) => string },
+) {
+  return (
+    <div className="flex-1 min-w-[400px] flex flex-col gap-2">
+      <h3 className="text-sm font-medium">{i18n.t('options.statistics.llmUsage.spendOverTime')}</h3>
+      <div className="relative h-72 overflow-hidden">
+        <div className="absolute inset-0">
+          <VChart spec={generateSpec(points, getProviderName)} />
+        </div>
+      </div>
+    </div>
+  )
+}
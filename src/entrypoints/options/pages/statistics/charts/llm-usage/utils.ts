@@ -0,0 +1,4 @@
+export function formatCost(cost: number) {
+  // Single calls cost fractions of a cent, so small amounts keep more digits
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`
+}
@@ -1,6 +1,6 @@
 import { i18n } from '#imports'
 import { PageLayout } from '../../components/page-layout'
-import { BatchRequestRecord } from './charts'
+import { BatchRequestRecord, GenAIReliability, LLMUsage } from './charts'
 
 export function StatisticsPage() {
   return (
@@ -9,6 +9,8 @@ export function StatisticsPage() {
       innerClassName="flex flex-col p-8 gap-8"
     >
       <BatchRequestRecord />
+      <GenAIReliability />
+      <LLMUsage />
     </PageLayout>
   )
 }
@@ -0,0 +1,51 @@
+import { browser, i18n } from '#imports'
+import { useQuery } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
+import { Kbd } from '@/components/shadcn/kbd'
+import { ConfigCard } from '../../components/config-card'
+
+async function openShortcutSettings() {
+  if (import.meta.env.BROWSER === 'firefox') {
+    // Added in Firefox 137, older versions only list the shortcuts on the add-ons page
+    const { openShortcutSettings } = browser.commands as { openShortcutSettings?: () => Promise<void> }
+    if (openShortcutSettings)
+      await openShortcutSettings()
+    else
+      toast.info(i18n.t('options.translation.browserShortcuts.firefoxHint'))
+    return
+  }
+
+  const url = import.meta.env.BROWSER === 'edge' ? 'edge://extensions/shortcuts' : 'chrome://extensions/shortcuts'
+  await browser.tabs.create({ url })
+}
+
+export function BrowserShortcuts() {
+  // Refetched when the page gets focus again, i.e. after changing a shortcut in the browser
+  const { data: commands } = useQuery({
+    queryKey: ['extension-commands'],
+    queryFn: () => browser.commands.getAll(),
+  })
+
+  return (
+    <ConfigCard title={i18n.t('options.translation.browserShortcuts.title')} description={i18n.t('options.translation.browserShortcuts.description')}>
+      <div className="flex flex-col gap-3">
+        <ul className="flex flex-col gap-2 text-sm">
+          {commands?.map(command => (
+            <li key={command.name} className="flex items-center justify-between gap-4">
+              <span>{command.description}</span>
+              {command.shortcut
+                ? <Kbd>{command.shortcut}</Kbd>
+                : <span className="text-muted-foreground">{i18n.t('options.translation.browserShortcuts.notSet')}</span>}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => void openShortcutSettings()}>
+            {i18n.t('options.translation.browserShortcuts.manage')}
+          </Button>
+        </div>
+      </div>
+    </ConfigCard>
+  )
+}
@@ -0,0 +1,87 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import { i18n } from '#imports'
+import { LANG_CODE_TO_EN_NAME, LANG_CODE_TO_LOCALE_NAME, langCodeISO6393Schema } from '@read-frog/definitions'
+import { useAtom } from 'jotai'
+import { Field, FieldContent, FieldDescription, FieldLabel } from '@/components/shadcn/field'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { Switch } from '@/components/shadcn/switch'
+import { ShortcutKeyRecorder } from '@/components/shortcut-key-recorder'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { ConfigCard } from '../../components/config-card'
+
+export function Composer() {
+  const [composerConfig, setComposerConfig] = useAtom(configFieldsAtomMap.composer)
+
+  const updateComposerConfig = (patch: Partial<typeof composerConfig>) => {
+    void setComposerConfig({ ...composerConfig, ...patch })
+  }
+
+  return (
+    <ConfigCard title={i18n.t('options.translation.composer.title')} description={i18n.t('options.translation.composer.description')}>
+      <div className="flex flex-col gap-4">
+        <Field orientation="horizontal">
+          <FieldLabel htmlFor="composer-toggle">
+            {i18n.t('options.translation.composer.enable')}
+          </FieldLabel>
+          <Switch
+            id="composer-toggle"
+            checked={composerConfig.enabled}
+            onCheckedChange={checked => updateComposerConfig({ enabled: checked })}
+          />
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="composer-language">
+            {i18n.t('options.translation.composer.replyLanguage')}
+          </FieldLabel>
+          <Select
+            value={composerConfig.targetCode}
+            onValueChange={(value: LangCodeISO6393) => updateComposerConfig({ targetCode: value })}
+            disabled={!composerConfig.enabled}
+          >
+            <SelectTrigger id="composer-language" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {langCodeISO6393Schema.options.map(langCode => (
+                <SelectItem key={langCode} value={langCode}>
+                  {`${LANG_CODE_TO_EN_NAME[langCode]} (${LANG_CODE_TO_LOCALE_NAME[langCode]})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        <Field>
+          <FieldLabel>
+            {i18n.t('options.translation.composer.shortcut')}
+          </FieldLabel>
+          <ShortcutKeyRecorder
+            shortcutKey={composerConfig.shortcut}
+            onChange={shortcut => updateComposerConfig({ shortcut })}
+          />
+          <FieldDescription>
+            {i18n.t('options.translation.composer.shortcutDescription')}
+          </FieldDescription>
+        </Field>
+
+        <Field orientation="horizontal">
+          <FieldContent>
+            <FieldLabel htmlFor="composer-triple-space-toggle">
+              {i18n.t('options.translation.composer.tripleSpace')}
+            </FieldLabel>
+            <FieldDescription>
+              {i18n.t('options.translation.composer.tripleSpaceDescription')}
+            </FieldDescription>
+          </FieldContent>
+          <Switch
+            id="composer-triple-space-toggle"
+            checked={composerConfig.tripleSpace}
+            onCheckedChange={checked => updateComposerConfig({ tripleSpace: checked })}
+            disabled={!composerConfig.enabled}
+          />
+        </Field>
+      </div>
+    </ConfigCard>
+  )
+}
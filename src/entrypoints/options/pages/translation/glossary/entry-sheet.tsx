@@ -0,0 +1,214 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { GlossaryEntry } from '@/types/config/glossary'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { LANG_CODE_TO_EN_NAME, LANG_CODE_TO_LOCALE_NAME, langCodeISO6393Schema } from '@read-frog/definitions'
+import { useAtom } from 'jotai'
+import { useState } from 'react'
+import { Button } from '@/components/shadcn/button'
+import { Field, FieldContent, FieldDescription, FieldGroup, FieldLabel } from '@/components/shadcn/field'
+import { Input } from '@/components/shadcn/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/select'
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/shadcn/sheet'
+import { Switch } from '@/components/shadcn/switch'
+import { glossaryEntrySchema } from '@/types/config/glossary'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+
+interface LanguageTranslationDraft {
+  id: string
+  langCode: LangCodeISO6393 | null
+  text: string
+}
+
+function createEmptyEntry(): GlossaryEntry {
+  return { id: crypto.randomUUID(), term: '', translation: '', translations: {}, doNotTranslate: false, caseSensitive: false }
+}
+
+function toLanguageDrafts(entry: GlossaryEntry): LanguageTranslationDraft[] {
+  return Object.entries(entry.translations).map(([langCode, text]) => ({ id: crypto.randomUUID(), langCode: langCode as LangCodeISO6393, text: text ?? '' }))
+}
+
+export function ConfigureGlossaryEntry({ originEntry }: { originEntry?: GlossaryEntry }) {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const [entry, setEntry] = useState<GlossaryEntry>(originEntry ?? createEmptyEntry)
+  const [languageDrafts, setLanguageDrafts] = useState<LanguageTranslationDraft[]>([])
+  const inEdit = !!originEntry
+
+  const resetEntry = () => {
+    const initialEntry = originEntry ?? createEmptyEntry()
+    setEntry(initialEntry)
+    setLanguageDrafts(toLanguageDrafts(initialEntry))
+  }
+
+  const translations: GlossaryEntry['translations'] = {}
+  for (const { langCode, text } of languageDrafts) {
+    if (langCode && text.trim())
+      translations[langCode] = text.trim()
+  }
+  const parsedEntry = glossaryEntrySchema.safeParse({ ...entry, translations })
+  const usedLangCodes = new Set(languageDrafts.map(draft => draft.langCode))
+
+  const updateLanguageDraft = (index: number, patch: Partial<LanguageTranslationDraft>) => {
+    setLanguageDrafts(languageDrafts.map((draft, i) => i === index ? { ...draft, ...patch } : draft))
+  }
+
+  const saveEntry = () => {
+    if (!parsedEntry.success)
+      return
+    const { entries } = translateConfig.glossary
+    void setTranslateConfig({
+      glossary: {
+        ...translateConfig.glossary,
+        entries: inEdit
+          ? entries.map(e => e.id === parsedEntry.data.id ? parsedEntry.data : e)
+          : [...entries, parsedEntry.data],
+      },
+    })
+  }
+
+  return (
+    <Sheet onOpenChange={(open) => {
+      if (open)
+        resetEntry()
+    }}
+    >
+      <SheetTrigger asChild>
+        {inEdit
+          ? (
+              <Button variant="ghost" className="size-8" aria-label={i18n.t('options.translation.glossary.editEntry')}>
+                <Icon icon="tabler:pencil" className="size-4" />
+              </Button>
+            )
+          : (
+              <Button>
+                <Icon icon="tabler:plus" className="size-4" />
+                {i18n.t('options.translation.glossary.addEntry')}
+              </Button>
+            )}
+      </SheetTrigger>
+      <SheetContent className="w-[400px] sm:w-[500px] sm:max-w-none">
+        <SheetHeader>
+          <SheetTitle>
+            {inEdit ? i18n.t('options.translation.glossary.editEntry') : i18n.t('options.translation.glossary.addEntry')}
+          </SheetTitle>
+        </SheetHeader>
+        <FieldGroup className="flex-1 overflow-y-auto px-4">
+          <Field>
+            <FieldLabel htmlFor="glossary-term">{i18n.t('options.translation.glossary.term')}</FieldLabel>
+            <Input
+              id="glossary-term"
+              value={entry.term}
+              onChange={e => setEntry({ ...entry, term: e.target.value })}
+            />
+          </Field>
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor="glossary-do-not-translate">{i18n.t('options.translation.glossary.doNotTranslate')}</FieldLabel>
+              <FieldDescription>{i18n.t('options.translation.glossary.doNotTranslateDescription')}</FieldDescription>
+            </FieldContent>
+            <Switch
+              id="glossary-do-not-translate"
+              checked={entry.doNotTranslate}
+              onCheckedChange={checked => setEntry({ ...entry, doNotTranslate: checked })}
+            />
+          </Field>
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor="glossary-case-sensitive">{i18n.t('options.translation.glossary.caseSensitive')}</FieldLabel>
+              <FieldDescription>{i18n.t('options.translation.glossary.caseSensitiveDescription')}</FieldDescription>
+            </FieldContent>
+            <Switch
+              id="glossary-case-sensitive"
+              checked={entry.caseSensitive}
+              onCheckedChange={checked => setEntry({ ...entry, caseSensitive: checked })}
+            />
+          </Field>
+          {!entry.doNotTranslate && (
+            <>
+              <Field>
+                <FieldLabel htmlFor="glossary-translation">{i18n.t('options.translation.glossary.translation')}</FieldLabel>
+                <Input
+                  id="glossary-translation"
+                  value={entry.translation}
+                  onChange={e => setEntry({ ...entry, translation: e.target.value })}
+                />
+                <FieldDescription>{i18n.t('options.translation.glossary.translationDescription')}</FieldDescription>
+              </Field>
+              <Field>
+                <FieldLabel>{i18n.t('options.translation.glossary.languageTranslations')}</FieldLabel>
+                {languageDrafts.map((draft, index) => (
+                  <div key={draft.id} className="flex items-center gap-2">
+                    <Select
+                      value={draft.langCode ?? undefined}
+                      onValueChange={(value: LangCodeISO6393) => updateLanguageDraft(index, { langCode: value })}
+                    >
+                      <SelectTrigger className="w-44 shrink-0">
+                        <SelectValue placeholder={i18n.t('options.translation.glossary.selectLanguage')} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {langCodeISO6393Schema.options.map(langCode => (
+                          <SelectItem
+                            key={langCode}
+                            value={langCode}
+                            disabled={langCode !== draft.langCode && usedLangCodes.has(langCode)}
+                          >
+                            {`${LANG_CODE_TO_EN_NAME[langCode]} (${LANG_CODE_TO_LOCALE_NAME[langCode]})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={draft.text}
+                      aria-label={i18n.t('options.translation.glossary.translation')}
+                      onChange={e => updateLanguageDraft(index, { text: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      className="size-8 shrink-0"
+                      aria-label={i18n.t('options.translation.glossary.removeLanguage')}
+                      onClick={() => setLanguageDrafts(languageDrafts.filter((_, i) => i !== index))}
+                    >
+                      <Icon icon="tabler:x" className="size-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  className="w-fit"
+                  onClick={() => setLanguageDrafts([...languageDrafts, { id: crypto.randomUUID(), langCode: null, text: '' }])}
+                >
+                  <Icon icon="tabler:plus" className="size-4" />
+                  {i18n.t('options.translation.glossary.addLanguage')}
+                </Button>
+              </Field>
+            </>
+          )}
+        </FieldGroup>
+        <SheetFooter>
+          <SheetClose asChild>
+            <Button disabled={!parsedEntry.success} onClick={saveEntry}>
+              {i18n.t('options.translation.glossary.save')}
+            </Button>
+          </SheetClose>
+          <SheetClose asChild>
+            <Button variant="outline">{i18n.t('options.translation.glossary.close')}</Button>
+          </SheetClose>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
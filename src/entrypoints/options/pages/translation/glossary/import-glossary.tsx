@@ -0,0 +1,57 @@
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtom } from 'jotai'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
+import { Input } from '@/components/shadcn/input'
+import { Label } from '@/components/shadcn/label'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { mergeGlossaryEntries, parseGlossaryCsv, parseGlossaryTbx } from '@/utils/glossary/import'
+
+export function ImportGlossary() {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+
+  const importGlossary = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const file = e.target.files?.[0]
+      if (!file)
+        return
+      const text = await file.text()
+      const imported = /\.csv$/i.test(file.name) ? parseGlossaryCsv(text) : parseGlossaryTbx(text)
+      if (imported.length === 0) {
+        toast.error(i18n.t('options.translation.glossary.importEmpty'))
+        return
+      }
+
+      void setTranslateConfig({
+        glossary: {
+          ...translateConfig.glossary,
+          entries: mergeGlossaryEntries(translateConfig.glossary.entries, imported),
+        },
+      })
+      toast.success(i18n.t('options.translation.glossary.importSuccess', [imported.length]))
+    }
+    catch (error) {
+      toast.error(error instanceof Error ? error.message : i18n.t('options.translation.glossary.importError'))
+    }
+    finally {
+      e.target.value = ''
+    }
+  }
+
+  return (
+    <Button variant="outline" className="p-0">
+      <Label htmlFor="import-glossary-file" className="w-full px-3">
+        <Icon icon="tabler:file-import" className="size-4" />
+        {i18n.t('options.translation.glossary.import')}
+      </Label>
+      <Input
+        type="file"
+        id="import-glossary-file"
+        className="hidden"
+        accept=".csv,.tbx,.xml"
+        onChange={importGlossary}
+      />
+    </Button>
+  )
+}
@@ -0,0 +1,162 @@
+import type { GlossaryCheckMode, GlossaryEntry } from '@/types/config/glossary'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
+import { useAtom } from 'jotai'
+import { Badge } from '@/components/shadcn/badge'
+import { Button } from '@/components/shadcn/button'
+import { Field, FieldContent, FieldDescription, FieldLabel } from '@/components/shadcn/field'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/shadcn/select'
+import { Switch } from '@/components/shadcn/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/shadcn/table'
+import { GLOSSARY_CHECK_MODES } from '@/types/config/glossary'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { ConfigCard } from '../../../components/config-card'
+import { ConfigureGlossaryEntry } from './entry-sheet'
+import { ImportGlossary } from './import-glossary'
+
+export function Glossary() {
+  return (
+    <ConfigCard className="lg:flex-col" title={i18n.t('options.translation.glossary.title')} description={i18n.t('options.translation.glossary.description')}>
+      <div className="flex flex-col gap-4">
+        <GlossarySettings />
+        <GlossaryTable />
+      </div>
+    </ConfigCard>
+  )
+}
+
+function GlossarySettings() {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const { glossary } = translateConfig
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field orientation="horizontal">
+        <FieldContent>
+          <FieldLabel htmlFor="glossary-enabled">{i18n.t('options.translation.glossary.enabled')}</FieldLabel>
+        </FieldContent>
+        <Switch
+          id="glossary-enabled"
+          checked={glossary.enabled}
+          onCheckedChange={checked => void setTranslateConfig({ glossary: { ...glossary, enabled: checked } })}
+        />
+      </Field>
+      <Field orientation="horizontal">
+        <FieldContent>
+          <FieldLabel>{i18n.t('options.translation.glossary.checkMode.title')}</FieldLabel>
+          <FieldDescription>{i18n.t('options.translation.glossary.checkMode.description')}</FieldDescription>
+        </FieldContent>
+        <Select
+          value={glossary.checkMode}
+          disabled={!glossary.enabled}
+          onValueChange={(value: GlossaryCheckMode) => void setTranslateConfig({ glossary: { ...glossary, checkMode: value } })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GLOSSARY_CHECK_MODES.map(mode => (
+              <SelectItem key={mode} value={mode}>
+                {i18n.t(`options.translation.glossary.checkMode.${mode}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Field>
+    </div>
+  )
+}
+
+function GlossaryTargetCell({ entry }: { entry: GlossaryEntry }) {
+  if (entry.doNotTranslate)
+    return <span className="text-muted-foreground">{entry.term}</span>
+
+  const languageNames = Object.keys(entry.translations).map(langCode => LANG_CODE_TO_EN_NAME[langCode as keyof typeof LANG_CODE_TO_EN_NAME])
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span>{entry.translation || '-'}</span>
+      {languageNames.length > 0 && (
+        <Badge variant="secondary" title={languageNames.join(', ')}>
+          {i18n.t('options.translation.glossary.languageCount', [languageNames.length])}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+function GlossaryTable() {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const { glossary } = translateConfig
+
+  const removeEntry = (id: string) => {
+    void setTranslateConfig({
+      glossary: {
+        ...glossary,
+        entries: glossary.entries.filter(entry => entry.id !== id),
+      },
+    })
+  }
+
+  return (
+    <section className="w-full">
+      <div className="w-full mb-4 gap-3 flex justify-end">
+        <ImportGlossary />
+        <ConfigureGlossaryEntry />
+      </div>
+      {glossary.entries.length === 0
+        ? (
+            <div className="text-center text-sm text-muted-foreground py-6">
+              {i18n.t('options.translation.glossary.empty')}
+            </div>
+          )
+        : (
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{i18n.t('options.translation.glossary.term')}</TableHead>
+                    <TableHead>{i18n.t('options.translation.glossary.translation')}</TableHead>
+                    <TableHead />
+                    <TableHead className="w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {glossary.entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.term}</TableCell>
+                      <TableCell><GlossaryTargetCell entry={entry} /></TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {entry.doNotTranslate && <Badge variant="outline">{i18n.t('options.translation.glossary.doNotTranslate')}</Badge>}
+                          {entry.caseSensitive && <Badge variant="outline">{i18n.t('options.translation.glossary.caseSensitive')}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <ConfigureGlossaryEntry originEntry={entry} />
+                          <Button
+                            variant="ghost"
+                            className="size-8"
+                            aria-label={i18n.t('options.translation.glossary.removeEntry')}
+                            onClick={() => removeEntry(entry.id)}
+                          >
+                            <Icon icon="tabler:trash" className="size-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+    </section>
+  )
+}
@@ -3,13 +3,19 @@ import { PageLayout } from '../../components/page-layout'
 import { AIContentAware } from './ai-content-aware'
 import { AutoTranslateLanguages } from './auto-translate-languages'
 import { AutoTranslateWebsitePatterns } from './auto-translate-website-patterns'
+import { BrowserShortcuts } from './browser-shortcuts'
 import { ClearCacheConfig } from './clear-cache-config'
+import { Composer } from './composer'
 import { CustomTranslationStyle } from './custom-translation-style'
+import { Glossary } from './glossary'
 import { NodeTranslationHotkey } from './node-translation-hotkey'
 import { PageTranslationShortcut } from './page-translation-shortcut'
+import { PdfViewer } from './pdf-viewer'
 import { PersonalizedPrompts } from './personalized-prompt'
+import { QualityCheck } from './quality-check'
 import { RequestBatch } from './request-batch'
 import { RequestRate } from './request-rate'
+import { TranslationMemory } from './translation-memory'
 import { TranslationMode } from './translation-mode'
 
 export function TranslationPage() {
@@ -17,10 +23,16 @@ export function TranslationPage() {
     <PageLayout title={i18n.t('options.translation.title')} innerClassName="[&>*]:border-b [&>*:last-child]:border-b-0">
       <TranslationMode />
       <PageTranslationShortcut />
+      <BrowserShortcuts />
       <NodeTranslationHotkey />
+      <Composer />
       <CustomTranslationStyle />
       <AIContentAware />
       <PersonalizedPrompts />
+      <Glossary />
+      <TranslationMemory />
+      <QualityCheck />
+      <PdfViewer />
       <AutoTranslateWebsitePatterns />
       <AutoTranslateLanguages />
       <RequestRate />
@@ -0,0 +1,51 @@
+import { i18n } from '#imports'
+import { useAtom } from 'jotai'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
+import { Field, FieldContent, FieldDescription, FieldLabel } from '@/components/shadcn/field'
+import { Switch } from '@/components/shadcn/switch'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { requestPdfViewerHostPermission } from '@/utils/pdf/permissions'
+import { getPdfViewerUrl } from '@/utils/pdf/url'
+import { ConfigCard } from '../../components/config-card'
+
+export function PdfViewer() {
+  const [pdfViewerConfig, setPdfViewerConfig] = useAtom(configFieldsAtomMap.pdfViewer)
+
+  const setInterceptNavigation = async (checked: boolean) => {
+    if (checked && !await requestPdfViewerHostPermission()) {
+      toast.error(i18n.t('options.translation.pdfViewer.permissionDenied'))
+      return
+    }
+    await setPdfViewerConfig({ ...pdfViewerConfig, interceptNavigation: checked })
+  }
+
+  return (
+    <ConfigCard title={i18n.t('options.translation.pdfViewer.title')} description={i18n.t('options.translation.pdfViewer.description')}>
+      <div className="flex flex-col gap-4">
+        <Field orientation="horizontal">
+          <FieldContent>
+            <FieldLabel htmlFor="pdf-viewer-intercept-toggle">
+              {i18n.t('options.translation.pdfViewer.intercept')}
+            </FieldLabel>
+            <FieldDescription>
+              {i18n.t('options.translation.pdfViewer.interceptDescription')}
+            </FieldDescription>
+          </FieldContent>
+          <Switch
+            id="pdf-viewer-intercept-toggle"
+            checked={pdfViewerConfig.interceptNavigation}
+            onCheckedChange={checked => void setInterceptNavigation(checked)}
+          />
+        </Field>
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" asChild>
+            <a href={getPdfViewerUrl()} target="_blank" rel="noreferrer">
+              {i18n.t('options.translation.pdfViewer.open')}
+            </a>
+          </Button>
+        </div>
+      </div>
+    </ConfigCard>
+  )
+}
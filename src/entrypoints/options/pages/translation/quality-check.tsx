@@ -0,0 +1,96 @@
+import type { QualityCheckMethod } from '@/types/config/translate'
+import { i18n } from '#imports'
+import { useAtom } from 'jotai'
+import { toast } from 'sonner'
+import { Field, FieldContent, FieldDescription, FieldGroup, FieldLabel } from '@/components/shadcn/field'
+import { Input } from '@/components/shadcn/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { Switch } from '@/components/shadcn/switch'
+import { QUALITY_CHECK_METHODS, qualityCheckConfigSchema } from '@/types/config/translate'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { QUALITY_CHECK_MAX_SCORE } from '@/utils/constants/translate'
+import { ConfigCard } from '../../components/config-card'
+
+export function QualityCheck() {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const { qualityCheck } = translateConfig
+
+  return (
+    <ConfigCard
+      title={i18n.t('options.translation.qualityCheck.title')}
+      description={i18n.t('options.translation.qualityCheck.description')}
+    >
+      <FieldGroup>
+        <Field orientation="horizontal">
+          <FieldContent>
+            <FieldLabel htmlFor="quality-check-toggle">
+              {i18n.t('options.translation.qualityCheck.enable')}
+            </FieldLabel>
+            <FieldDescription>
+              {i18n.t('options.translation.qualityCheck.enableDescription')}
+            </FieldDescription>
+          </FieldContent>
+          <Switch
+            id="quality-check-toggle"
+            checked={qualityCheck.enabled}
+            onCheckedChange={(checked) => {
+              void setTranslateConfig({ qualityCheck: { ...qualityCheck, enabled: checked } })
+            }}
+          />
+        </Field>
+        <Field orientation="responsive">
+          <FieldContent>
+            <FieldLabel>{i18n.t('options.translation.qualityCheck.method.title')}</FieldLabel>
+            <FieldDescription>{i18n.t('options.translation.qualityCheck.method.description')}</FieldDescription>
+          </FieldContent>
+          <Select
+            value={qualityCheck.method}
+            disabled={!qualityCheck.enabled}
+            onValueChange={(value: QualityCheckMethod) => void setTranslateConfig({ qualityCheck: { ...qualityCheck, method: value } })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUALITY_CHECK_METHODS.map(method => (
+                <SelectItem key={method} value={method}>
+                  {i18n.t(`options.translation.qualityCheck.method.${method}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field orientation="responsive">
+          <FieldContent>
+            <FieldLabel htmlFor="quality-check-threshold">
+              {i18n.t('options.translation.qualityCheck.threshold.title')}
+            </FieldLabel>
+            <FieldDescription>
+              {i18n.t('options.translation.qualityCheck.threshold.description')}
+            </FieldDescription>
+          </FieldContent>
+          <Input
+            id="quality-check-threshold"
+            className="w-40 shrink-0"
+            type="number"
+            min={0}
+            max={QUALITY_CHECK_MAX_SCORE}
+            step={5}
+            disabled={!qualityCheck.enabled}
+            value={qualityCheck.threshold}
+            onChange={(e) => {
+              const nextQualityCheck = { ...qualityCheck, threshold: Number(e.target.value) }
+              const parseResult = qualityCheckConfigSchema.safeParse(nextQualityCheck)
+              if (parseResult.success) {
+                void setTranslateConfig({ qualityCheck: nextQualityCheck })
+              }
+              else {
+                toast.error(parseResult.error.issues[0].message)
+              }
+            }}
+          />
+        </Field>
+      </FieldGroup>
+    </ConfigCard>
+  )
+}
@@ -0,0 +1,92 @@
+import type { TranslationMemoryConfig } from '@/types/config/translate'
+import { i18n } from '#imports'
+import { useAtom } from 'jotai'
+import { toast } from 'sonner'
+import { Field, FieldContent, FieldDescription, FieldGroup, FieldLabel } from '@/components/shadcn/field'
+import { Input } from '@/components/shadcn/input'
+import { Switch } from '@/components/shadcn/switch'
+import { translationMemoryConfigSchema } from '@/types/config/translate'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { MIN_TRANSLATION_MEMORY_SIMILARITY } from '@/utils/constants/translate'
+import { ConfigCard } from '../../components/config-card'
+
+type ThresholdProperty = keyof Pick<TranslationMemoryConfig, 'reuseThreshold' | 'referenceThreshold'>
+
+export function TranslationMemory() {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const { translationMemory } = translateConfig
+
+  return (
+    <ConfigCard
+      title={i18n.t('options.translation.translationMemory.title')}
+      description={i18n.t('options.translation.translationMemory.description')}
+    >
+      <FieldGroup>
+        <Field orientation="horizontal">
+          <FieldContent>
+            <FieldLabel htmlFor="translation-memory-toggle">
+              {i18n.t('options.translation.translationMemory.enable')}
+            </FieldLabel>
+            <FieldDescription>
+              {i18n.t('options.translation.translationMemory.enableDescription')}
+            </FieldDescription>
+          </FieldContent>
+          <Switch
+            id="translation-memory-toggle"
+            checked={translationMemory.enabled}
+            onCheckedChange={(checked) => {
+              void setTranslateConfig({
+                ...translateConfig,
+                translationMemory: { ...translationMemory, enabled: checked },
+              })
+            }}
+          />
+        </Field>
+        <ThresholdInput property="reuseThreshold" />
+        <ThresholdInput property="referenceThreshold" />
+      </FieldGroup>
+    </ConfigCard>
+  )
+}
+
+// Thresholds are stored between 0 and 1 and edited as percentages
+function ThresholdInput({ property }: { property: ThresholdProperty }) {
+  const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
+  const { translationMemory } = translateConfig
+
+  return (
+    <Field orientation="responsive">
+      <FieldContent>
+        <FieldLabel htmlFor={`translation-memory-${property}`}>
+          {i18n.t(`options.translation.translationMemory.${property}.title`)}
+        </FieldLabel>
+        <FieldDescription>
+          {i18n.t(`options.translation.translationMemory.${property}.description`)}
+        </FieldDescription>
+      </FieldContent>
+      <Input
+        id={`translation-memory-${property}`}
+        className="w-40 shrink-0"
+        type="number"
+        min={MIN_TRANSLATION_MEMORY_SIMILARITY * 100}
+        max={100}
+        step={5}
+        disabled={!translationMemory.enabled}
+        value={Math.round(translationMemory[property] * 100)}
+        onChange={(e) => {
+          const nextTranslationMemory = { ...translationMemory, [property]: Number(e.target.value) / 100 }
+          const parseResult = translationMemoryConfigSchema.safeParse(nextTranslationMemory)
+          if (parseResult.success) {
+            void setTranslateConfig({
+              ...translateConfig,
+              translationMemory: nextTranslationMemory,
+            })
+          }
+          else {
+            toast.error(parseResult.error.issues[0].message)
+          }
+        }}
+      />
+    </Field>
+  )
+}
@@ -0,0 +1,100 @@
+import type { PdfSource, PdfViewerMode } from './utils/pdf-document'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtomValue } from 'jotai'
+import { useEffect, useState } from 'react'
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/shadcn/empty'
+import { Spinner } from '@/components/shadcn/spinner'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { getNativePdfViewerUrl, getPdfFileName, PDF_VIEWER_FILE_PARAM } from '@/utils/pdf/url'
+import { PdfLoadError } from './components/pdf-load-error'
+import { PdfPage } from './components/pdf-page'
+import { PdfToolbar } from './components/pdf-toolbar'
+import { useExportTranslation } from './hooks/use-export-translation'
+import { usePdfDocument } from './hooks/use-pdf-document'
+import { toPdfViewerMode } from './utils/pdf-document'
+
+function getInitialSource(): PdfSource | null {
+  const fileUrl = new URLSearchParams(window.location.search).get(PDF_VIEWER_FILE_PARAM)
+  return fileUrl ? { type: 'url', url: fileUrl } : null
+}
+
+export default function App() {
+  const translateConfig = useAtomValue(configFieldsAtomMap.translate)
+  const [source, setSource] = useState<PdfSource | null>(getInitialSource)
+  // The viewer starts with the page translation mode, switching here doesn't change the config
+  const [mode, setMode] = useState<PdfViewerMode>(() => toPdfViewerMode(translateConfig.mode))
+  const { status, pdf, error } = usePdfDocument(source)
+
+  const title = source?.type === 'file'
+    ? source.file.name
+    : source?.type === 'url'
+      ? getPdfFileName(source.url)
+      : i18n.t('pdfViewer.title')
+  const { exportTranslation, exportingPage } = useExportTranslation(pdf, title, mode)
+
+  useEffect(() => {
+    document.title = `${title} | Read Frog`
+  }, [title])
+
+  const openFile = (file: File) => setSource({ type: 'file', file })
+  const nativeViewerUrl = source?.type === 'url' ? getNativePdfViewerUrl(source.url) : undefined
+
+  return (
+    <div
+      className="flex min-h-screen flex-col"
+      onDragOver={event => event.preventDefault()}
+      onDrop={(event) => {
+        event.preventDefault()
+        const file = event.dataTransfer.files[0]
+        if (file)
+          openFile(file)
+      }}
+    >
+      <PdfToolbar
+        title={title}
+        mode={mode}
+        onModeChange={setMode}
+        onOpenFile={openFile}
+        onExport={pdf ? () => void exportTranslation() : undefined}
+        exportingPage={exportingPage}
+        pageCount={pdf?.numPages ?? 0}
+        nativeViewerUrl={nativeViewerUrl}
+      />
+
+      <main className="mx-auto w-full max-w-7xl flex-1 px-6">
+        {status === 'idle' && (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Icon icon="tabler:file-type-pdf" />
+              </EmptyMedia>
+              <EmptyTitle>{i18n.t('pdfViewer.title')}</EmptyTitle>
+              <EmptyDescription>{i18n.t('pdfViewer.dropHint')}</EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        )}
+
+        {status === 'loading' && (
+          <div className="flex items-center justify-center gap-2 py-24 text-muted-foreground">
+            <Spinner />
+            {i18n.t('pdfViewer.loading')}
+          </div>
+        )}
+
+        {status === 'error' && (
+          <PdfLoadError
+            error={error}
+            nativeViewerUrl={nativeViewerUrl}
+            // A new source object loads the same PDF again
+            onRetry={() => setSource(current => current && { ...current })}
+          />
+        )}
+
+        {pdf && Array.from({ length: pdf.numPages }, (_, index) => (
+          <PdfPage key={`${pdf.fingerprints[0]}-${index + 1}`} pdf={pdf} pageNumber={index + 1} mode={mode} />
+        ))}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import type { TranslationMode } from '@/types/config/translate'
+import type { PdfTextBlock } from '@/utils/pdf/text-blocks'
+import { i18n } from '#imports'
+import { ISO6393_TO_6391 } from '@read-frog/definitions'
+import { useQuery } from '@tanstack/react-query'
+import { useAtomValue } from 'jotai'
+import { useEffect, useRef } from 'react'
+import { Spinner } from '@/components/shadcn/spinner'
+import { isReplacingTranslationMode } from '@/types/config/translate'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { BLOCK_CONTENT_CLASS, CONTENT_WRAPPER_CLASS } from '@/utils/constants/dom-labels'
+import { decorateTranslationNode } from '@/utils/host/translate/decorate-translation'
+import { cn } from '@/utils/styles/tailwind'
+import { pdfBlockTranslationQueryOptions } from '../query'
+
+export function PdfBlock({
+  block,
+  mode,
+  isHeading,
+  enabled,
+}: {
+  block: PdfTextBlock
+  mode: TranslationMode
+  isHeading: boolean
+  enabled: boolean
+}) {
+  const { targetCode } = useAtomValue(configFieldsAtomMap.language)
+  const { translationNodeStyle } = useAtomValue(configFieldsAtomMap.translate)
+  const blockContentRef = useRef<HTMLSpanElement>(null)
+
+  const { data: translation, isPending, isError, refetch } = useQuery({
+    ...pdfBlockTranslationQueryOptions(block.text, targetCode),
+    enabled,
+  })
+
+  useEffect(() => {
+    if (blockContentRef.current)
+      void decorateTranslationNode(blockContentRef.current, translationNodeStyle)
+  }, [translationNodeStyle, translation])
+
+  // An empty translation means the block is already in the target language
+  const showOriginal = !isReplacingTranslationMode(mode) || isError || !translation
+
+  return (
+    <div className={cn('flex flex-col gap-1', isHeading && 'font-semibold text-lg')}>
+      {showOriginal && <p className="whitespace-pre-wrap">{block.text}</p>}
+      {translation && (
+        <span className={CONTENT_WRAPPER_CLASS} lang={ISO6393_TO_6391[targetCode]}>
+          <span className={BLOCK_CONTENT_CLASS} ref={blockContentRef}>
+            {translation}
+          </span>
+        </span>
+      )}
+      {enabled && isPending && <Spinner className="size-3 text-muted-foreground" />}
+      {isError && (
+        <span className="text-xs text-destructive">
+          {i18n.t('pdfViewer.translationFailed')}
+          {' '}
+          <button type="button" className="underline cursor-pointer" onClick={() => void refetch()}>
+            {i18n.t('pdfViewer.retry')}
+          </button>
+        </span>
+      )}
+    </div>
+  )
+}
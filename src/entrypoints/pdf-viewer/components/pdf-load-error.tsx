@@ -0,0 +1,63 @@
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/shadcn/button'
+import { Empty, EmptyContent, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/shadcn/empty'
+import { hasPdfViewerHostPermission, requestPdfViewerHostPermission } from '@/utils/pdf/permissions'
+
+export function PdfLoadError({ error, nativeViewerUrl, onRetry }: {
+  error: Error
+  // Only set for PDFs loaded from a URL, a local file has no other viewer to go back to
+  nativeViewerUrl?: string
+  onRetry: () => void
+}) {
+  const [canRequestAccess, setCanRequestAccess] = useState(false)
+
+  useEffect(() => {
+    if (!nativeViewerUrl)
+      return
+    let cancelled = false
+    void hasPdfViewerHostPermission().then((granted) => {
+      if (!cancelled)
+        setCanRequestAccess(!granted)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [nativeViewerUrl])
+
+  const requestAccess = async () => {
+    if (await requestPdfViewerHostPermission())
+      onRetry()
+  }
+
+  return (
+    <Empty>
+      <EmptyHeader>
+        <EmptyMedia variant="icon">
+          <Icon icon="tabler:file-alert" />
+        </EmptyMedia>
+        <EmptyTitle>{i18n.t('pdfViewer.loadFailed')}</EmptyTitle>
+        <EmptyDescription>
+          {error.message}
+          <br />
+          {i18n.t('pdfViewer.loadFailedHint')}
+        </EmptyDescription>
+      </EmptyHeader>
+      {nativeViewerUrl && (
+        <EmptyContent>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button size="sm" asChild>
+              <a href={nativeViewerUrl}>{i18n.t('pdfViewer.openInBrowserViewer')}</a>
+            </Button>
+            {canRequestAccess && (
+              <Button variant="outline" size="sm" onClick={() => void requestAccess()}>
+                {i18n.t('pdfViewer.grantAccess')}
+              </Button>
+            )}
+          </div>
+        </EmptyContent>
+      )}
+    </Empty>
+  )
+}
@@ -0,0 +1,92 @@
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import type { TranslationMode } from '@/types/config/translate'
+import { i18n } from '#imports'
+import { useQuery } from '@tanstack/react-query'
+import { useEffect, useMemo, useRef } from 'react'
+import { Skeleton } from '@/components/shadcn/skeleton'
+import { logger } from '@/utils/logger'
+import { useIsVisible } from '../hooks/use-is-visible'
+import { pdfPageBlocksQueryOptions } from '../query'
+import { PdfBlock } from './pdf-block'
+
+const HEADING_FONT_SIZE_RATIO = 1.2
+const PAGE_RENDER_WIDTH = 600
+
+export function PdfPage({ pdf, pageNumber, mode }: { pdf: PDFDocumentProxy, pageNumber: number, mode: TranslationMode }) {
+  const containerRef = useRef<HTMLElement>(null)
+  const isVisible = useIsVisible(containerRef)
+
+  const { data: blocks, isPending } = useQuery({
+    ...pdfPageBlocksQueryOptions(pdf, pageNumber),
+    enabled: isVisible,
+  })
+
+  const bodyFontSize = useMemo(() => {
+    if (!blocks?.length)
+      return 0
+    const sizes = blocks.map(block => block.fontSize).sort((a, b) => a - b)
+    return sizes[Math.floor(sizes.length / 2)]
+  }, [blocks])
+
+  return (
+    <section ref={containerRef} className="grid gap-6 border-b py-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+      <div className="flex flex-col gap-2">
+        <span className="text-xs text-muted-foreground">
+          {i18n.t('pdfViewer.page', [pageNumber])}
+        </span>
+        {isVisible ? <PdfPageCanvas pdf={pdf} pageNumber={pageNumber} /> : <Skeleton className="aspect-[1/1.414] w-full" />}
+      </div>
+      <div className="flex flex-col gap-4 text-sm leading-relaxed">
+        {isPending && <Skeleton className="h-24 w-full" />}
+        {blocks?.length === 0 && <span className="text-muted-foreground">{i18n.t('pdfViewer.noText')}</span>}
+        {blocks?.map(block => (
+          <PdfBlock
+            key={block.id}
+            block={block}
+            mode={mode}
+            isHeading={block.fontSize >= bodyFontSize * HEADING_FONT_SIZE_RATIO}
+            enabled={isVisible}
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+function PdfPageCanvas({ pdf, pageNumber }: { pdf: PDFDocumentProxy, pageNumber: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas)
+      return
+
+    let renderTask: RenderTask | null = null
+    let cancelled = false
+
+    void (async () => {
+      try {
+        const page = await pdf.getPage(pageNumber)
+        if (cancelled)
+          return
+        const baseViewport = page.getViewport({ scale: 1 })
+        const viewport = page.getViewport({ scale: (PAGE_RENDER_WIDTH / baseViewport.width) * window.devicePixelRatio })
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+        renderTask = page.render({ canvas, viewport })
+        await renderTask.promise
+      }
+      catch (error) {
+        if (!cancelled)
+          logger.warn(`[PdfViewer] Failed to render page ${pageNumber}`, error)
+      }
+    })()
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber])
+
+  return <canvas ref={canvasRef} className="w-full h-auto rounded-md border bg-white shadow-sm" />
+}
@@ -0,0 +1,85 @@
+import type { PdfViewerMode } from '../utils/pdf-document'
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useRef } from 'react'
+import { Button } from '@/components/shadcn/button'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/shadcn/select'
+import { Spinner } from '@/components/shadcn/spinner'
+import { PDF_VIEWER_MODES } from '../utils/pdf-document'
+
+export function PdfToolbar({
+  title,
+  mode,
+  onModeChange,
+  onOpenFile,
+  onExport,
+  exportingPage,
+  pageCount,
+  nativeViewerUrl,
+}: {
+  title: string
+  mode: PdfViewerMode
+  onModeChange: (mode: PdfViewerMode) => void
+  onOpenFile: (file: File) => void
+  onExport?: () => void
+  exportingPage: number | null
+  pageCount: number
+  nativeViewerUrl?: string
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <header className="sticky top-0 z-10 flex flex-wrap items-center gap-2 border-b bg-background/95 px-6 py-3 backdrop-blur">
+      <h1 className="mr-auto truncate font-semibold">{title}</h1>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/pdf,.pdf"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0]
+          if (file)
+            onOpenFile(file)
+          event.target.value = ''
+        }}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        <Icon icon="tabler:file-upload" />
+        {i18n.t('pdfViewer.openFile')}
+      </Button>
+
+      <Select value={mode} onValueChange={value => onModeChange(value as PdfViewerMode)}>
+        <SelectTrigger size="sm" className="w-40">
+          <SelectValue asChild>
+            <span>{i18n.t(`options.translation.translationMode.mode.${mode}`)}</span>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {PDF_VIEWER_MODES.map(translationMode => (
+              <SelectItem key={translationMode} value={translationMode}>
+                {i18n.t(`options.translation.translationMode.mode.${translationMode}`)}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      {onExport && (
+        <Button size="sm" onClick={onExport} disabled={exportingPage !== null}>
+          {exportingPage !== null ? <Spinner /> : <Icon icon="tabler:download" />}
+          {exportingPage !== null
+            ? i18n.t('pdfViewer.exporting', [`${exportingPage}/${pageCount}`])
+            : i18n.t('pdfViewer.export')}
+        </Button>
+      )}
+
+      {nativeViewerUrl && (
+        <Button variant="ghost" size="sm" asChild>
+          <a href={nativeViewerUrl}>{i18n.t('pdfViewer.openInBrowserViewer')}</a>
+        </Button>
+      )}
+    </header>
+  )
+}
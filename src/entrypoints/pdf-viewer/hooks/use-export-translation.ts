@@ -0,0 +1,64 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { TranslationMode } from '@/types/config/translate'
+import type { PdfPageTranslation } from '@/utils/pdf/export'
+import { i18n } from '#imports'
+import { useQueryClient } from '@tanstack/react-query'
+import { saveAs } from 'file-saver'
+import { useAtomValue } from 'jotai'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { logger } from '@/utils/logger'
+import { formatPdfTranslationExport } from '@/utils/pdf/export'
+import { pdfBlockTranslationQueryOptions, pdfPageBlocksQueryOptions } from '../query'
+
+/**
+ * Translate every page that hasn't been read yet and save the result as Markdown. Pages already on
+ * screen come straight from the query cache.
+ */
+export function useExportTranslation(pdf: PDFDocumentProxy | null, title: string, mode: TranslationMode) {
+  const queryClient = useQueryClient()
+  const { targetCode } = useAtomValue(configFieldsAtomMap.language)
+  // Number of the page being translated for the export, null when idle
+  const [exportingPage, setExportingPage] = useState<number | null>(null)
+
+  const exportTranslation = async () => {
+    if (!pdf || exportingPage !== null)
+      return
+
+    try {
+      const pages: PdfPageTranslation[] = []
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        setExportingPage(pageNumber)
+        const blocks = await queryClient.fetchQuery(pdfPageBlocksQueryOptions(pdf, pageNumber))
+        pages.push({
+          pageNumber,
+          blocks: await Promise.all(blocks.map(async block => ({
+            text: block.text,
+            translation: await queryClient
+              .fetchQuery(pdfBlockTranslationQueryOptions(block.text, targetCode))
+              .catch(() => null),
+          }))),
+        })
+      }
+
+      const markdown = formatPdfTranslationExport({
+        title,
+        pages,
+        mode,
+        getPageHeading: pageNumber => i18n.t('pdfViewer.page', [pageNumber]),
+      })
+      saveAs(new Blob([markdown], { type: 'text/markdown' }), `${title.replace(/\.pdf$/i, '')}.md`)
+      toast.success(i18n.t('pdfViewer.exported'))
+    }
+    catch (error) {
+      logger.error('[PdfViewer] Failed to export translation', error)
+      toast.error(i18n.t('pdfViewer.exportFailed'))
+    }
+    finally {
+      setExportingPage(null)
+    }
+  }
+
+  return { exportTranslation, exportingPage }
+}
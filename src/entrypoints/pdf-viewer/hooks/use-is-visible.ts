@@ -0,0 +1,27 @@
+import type { RefObject } from 'react'
+import { useEffect, useState } from 'react'
+
+/**
+ * Turns true once the element comes near the viewport and stays true, so pages are only rendered
+ * and translated when the reader gets to them
+ */
+export function useIsVisible(ref: RefObject<Element | null>, rootMargin = '600px'): boolean {
+  const [isVisible, setIsVisible] = useState(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || isVisible)
+      return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true)
+        observer.disconnect()
+      }
+    }, { rootMargin })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref, rootMargin, isVisible])
+
+  return isVisible
+}
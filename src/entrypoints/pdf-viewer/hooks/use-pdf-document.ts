@@ -0,0 +1,55 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { PdfSource } from '../utils/pdf-document'
+import { useEffect, useState } from 'react'
+import { logger } from '@/utils/logger'
+import { loadPdfDocument } from '../utils/pdf-document'
+
+type PdfDocumentState
+  = | { status: 'idle' | 'loading', pdf: null, error: null }
+    | { status: 'ready', pdf: PDFDocumentProxy, error: null }
+    | { status: 'error', pdf: null, error: Error }
+
+type LoadResult
+  = | { source: PdfSource, pdf: PDFDocumentProxy, error: null }
+    | { source: PdfSource, pdf: null, error: Error }
+
+export function usePdfDocument(source: PdfSource | null): PdfDocumentState {
+  const [result, setResult] = useState<LoadResult | null>(null)
+
+  useEffect(() => {
+    if (!source)
+      return
+
+    let cancelled = false
+    let loadedPdf: PDFDocumentProxy | null = null
+
+    loadPdfDocument(source)
+      .then((pdf) => {
+        loadedPdf = pdf
+        if (cancelled) {
+          void pdf.destroy()
+          return
+        }
+        setResult({ source, pdf, error: null })
+      })
+      .catch((error) => {
+        logger.error('[PdfViewer] Failed to load PDF', error)
+        if (!cancelled)
+          setResult({ source, pdf: null, error: error instanceof Error ? error : new Error(String(error)) })
+      })
+
+    return () => {
+      cancelled = true
+      void loadedPdf?.destroy()
+    }
+  }, [source])
+
+  if (!source)
+    return { status: 'idle', pdf: null, error: null }
+  // The result of a previous source is stale until the current one finishes loading
+  if (result?.source !== source)
+    return { status: 'loading', pdf: null, error: null }
+  return result.pdf
+    ? { status: 'ready', pdf: result.pdf, error: null }
+    : { status: 'error', pdf: null, error: result.error }
+}
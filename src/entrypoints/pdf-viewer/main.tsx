@@ -0,0 +1,53 @@
+import type { Config } from '@/types/config/config'
+import { QueryClientProvider } from '@tanstack/react-query'
+import { Provider as JotaiProvider } from 'jotai'
+import { useHydrateAtoms } from 'jotai/utils'
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import FrogToast from '@/components/frog-toast'
+import { ThemeProvider } from '@/components/providers/theme-provider'
+import { TooltipProvider } from '@/components/shadcn/tooltip'
+import { configAtom } from '@/utils/atoms/config'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { queryClient } from '@/utils/tanstack-query'
+import App from './app'
+import '@/assets/styles/theme.css'
+import './style.css'
+
+function HydrateAtoms({
+  initialValues,
+  children,
+}: {
+  initialValues: [[typeof configAtom, Config]]
+  children: React.ReactNode
+}) {
+  useHydrateAtoms(initialValues)
+  return children
+}
+
+async function initApp() {
+  const root = document.getElementById('root')!
+  root.className = 'antialiased bg-background min-h-screen'
+
+  const config = (await getConfigFromStorage()) ?? DEFAULT_CONFIG
+
+  ReactDOM.createRoot(root).render(
+    <React.StrictMode>
+      <JotaiProvider>
+        <HydrateAtoms initialValues={[[configAtom, config]]}>
+          <QueryClientProvider client={queryClient}>
+            <ThemeProvider>
+              <TooltipProvider>
+                <App />
+                <FrogToast />
+              </TooltipProvider>
+            </ThemeProvider>
+          </QueryClientProvider>
+        </HydrateAtoms>
+      </JotaiProvider>
+    </React.StrictMode>,
+  )
+}
+
+void initApp()
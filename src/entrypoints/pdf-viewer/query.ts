@@ -0,0 +1,28 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { queryOptions } from '@tanstack/react-query'
+import { translateText } from '@/utils/host/translate/translate-text'
+import { getPdfPageBlocks } from './utils/pdf-document'
+
+export const PDF_VIEWER_QUERY_KEY = 'pdf-viewer'
+
+export function pdfPageBlocksQueryOptions(pdf: PDFDocumentProxy, pageNumber: number) {
+  return queryOptions({
+    queryKey: [PDF_VIEWER_QUERY_KEY, 'blocks', pdf.fingerprints[0], pageNumber],
+    queryFn: async () => await getPdfPageBlocks(await pdf.getPage(pageNumber)),
+    staleTime: Infinity,
+  })
+}
+
+/**
+ * Blocks go through `translateText` like page paragraphs, so they share the request queue, the
+ * translation cache and the translation memory
+ */
+export function pdfBlockTranslationQueryOptions(text: string, targetCode: LangCodeISO6393) {
+  return queryOptions({
+    queryKey: [PDF_VIEWER_QUERY_KEY, 'translation', targetCode, text],
+    queryFn: () => translateText(text),
+    staleTime: Infinity,
+    retry: false,
+  })
+}
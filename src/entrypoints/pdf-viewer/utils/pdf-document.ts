@@ -0,0 +1,49 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist'
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api'
+import type { TranslationMode } from '@/types/config/translate'
+import type { PdfTextBlock, PdfTextItem } from '@/utils/pdf/text-blocks'
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist'
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import { isReplacingTranslationMode } from '@/types/config/translate'
+import { groupTextItemsIntoBlocks } from '@/utils/pdf/text-blocks'
+
+GlobalWorkerOptions.workerSrc = workerSrc
+
+export type PdfSource = { type: 'url', url: string } | { type: 'file', file: File }
+
+// The blocks are laid out on their own, so the side-by-side and hover modes of web pages don't apply
+export const PDF_VIEWER_MODES = ['bilingual', 'translationOnly'] as const satisfies readonly TranslationMode[]
+export type PdfViewerMode = typeof PDF_VIEWER_MODES[number]
+
+export function toPdfViewerMode(mode: TranslationMode): PdfViewerMode {
+  return isReplacingTranslationMode(mode) ? 'translationOnly' : 'bilingual'
+}
+
+export async function loadPdfDocument(source: PdfSource): Promise<PDFDocumentProxy> {
+  const task = source.type === 'url'
+    ? getDocument({ url: source.url })
+    : getDocument({ data: new Uint8Array(await source.file.arrayBuffer()) })
+  return await task.promise
+}
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item
+}
+
+function toPdfTextItem(item: TextItem): PdfTextItem {
+  const [, , c, d, x, y] = item.transform as number[]
+  return {
+    str: item.str,
+    x,
+    y,
+    width: item.width,
+    // The vertical scale of the text matrix is the rendered font size
+    fontSize: Math.hypot(c, d) || item.height,
+    hasEOL: item.hasEOL,
+  }
+}
+
+export async function getPdfPageBlocks(page: PDFPageProxy): Promise<PdfTextBlock[]> {
+  const { items } = await page.getTextContent()
+  return groupTextItemsIntoBlocks(items.filter(isTextItem).map(toPdfTextItem), page.pageNumber)
+}
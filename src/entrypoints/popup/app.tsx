@@ -10,11 +10,14 @@ import { AISmartContext } from './components/ai-smart-context'
 import { AlwaysTranslate } from './components/always-translate'
 import BlogNotification from './components/blog-notification'
 import { DiscordButton } from './components/discord-button'
+import { ExportTranslation } from './components/export-translation'
 import LanguageOptionsSelector from './components/language-options-selector'
 import { MoreMenu } from './components/more-menu'
 import Hotkey from './components/node-translation-hotkey-selector'
 import ReadButton from './components/read-button'
 import ReadProviderField from './components/read-provider-field'
+import { SiteProfileButton } from './components/site-profile-button'
+import { SubtitleTranslation } from './components/subtitle-translation'
 import TranslateButton from './components/translate-button'
 import TranslatePromptSelector from './components/translate-prompt-selector'
 import TranslateProviderField from './components/translate-provider-field'
@@ -48,6 +51,9 @@ function App() {
           <TranslateButton />
         </div>
         <AlwaysTranslate />
+        <SubtitleTranslation />
+        <SiteProfileButton />
+        <ExportTranslation />
         <Hotkey />
         <AISmartContext />
       </div>
@@ -0,0 +1,54 @@
+import type { SiteProfile } from '@/types/config/site-profile'
+import { atom } from 'jotai'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { findSiteProfile } from '@/utils/config/site-profiles'
+
+// Hydrated with the active tab url when the popup opens
+export const activeTabUrlAtom = atom<string | null>(null)
+
+export const currentSiteProfileAtom = atom((get) => {
+  const url = get(activeTabUrlAtom)
+  if (!url)
+    return undefined
+  return findSiteProfile(get(configFieldsAtomMap.siteProfiles), url)
+})
+
+// Snapshots the current translate settings into the profile of the active site, creating it if needed
+export const saveCurrentSiteProfileAtom = atom(
+  null,
+  async (get, set) => {
+    const url = get(activeTabUrlAtom)
+    if (!url)
+      return
+
+    const translateConfig = get(configFieldsAtomMap.translate)
+    const siteProfiles = get(configFieldsAtomMap.siteProfiles)
+    const existingProfile = get(currentSiteProfileAtom)
+
+    const profile: SiteProfile = {
+      id: existingProfile?.id ?? crypto.randomUUID(),
+      pattern: existingProfile?.pattern ?? new URL(url).hostname,
+      overrides: {
+        mode: translateConfig.mode,
+        providerId: translateConfig.providerId,
+        promptId: translateConfig.customPromptsConfig.promptId,
+        translationNodeStyle: translateConfig.translationNodeStyle,
+      },
+    }
+
+    await set(configFieldsAtomMap.siteProfiles, existingProfile
+      ? siteProfiles.map(p => p.id === existingProfile.id ? profile : p)
+      : [...siteProfiles, profile])
+  },
+)
+
+export const removeCurrentSiteProfileAtom = atom(
+  null,
+  async (get, set) => {
+    const existingProfile = get(currentSiteProfileAtom)
+    if (!existingProfile)
+      return
+    const siteProfiles = get(configFieldsAtomMap.siteProfiles)
+    await set(configFieldsAtomMap.siteProfiles, siteProfiles.filter(p => p.id !== existingProfile.id))
+  },
+)
@@ -0,0 +1,30 @@
+import { atom } from 'jotai'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { matchDomainPattern } from '@/utils/url'
+import { activeTabUrlAtom } from './site-profile'
+
+export const isSubtitlesEnabledOnCurrentSiteAtom = atom((get) => {
+  const url = get(activeTabUrlAtom)
+  if (!url)
+    return false
+  return get(configFieldsAtomMap.subtitles).enabledPatterns.some(pattern => matchDomainPattern(url, pattern))
+})
+
+export const toggleSubtitlesOnCurrentSiteAtom = atom(
+  null,
+  async (get, set, checked: boolean) => {
+    const url = get(activeTabUrlAtom)
+    if (!url)
+      return
+
+    const subtitlesConfig = get(configFieldsAtomMap.subtitles)
+    const { enabledPatterns } = subtitlesConfig
+    // Removing every matching pattern also turns the site off when it was added under another pattern
+    const otherPatterns = enabledPatterns.filter(pattern => !matchDomainPattern(url, pattern))
+
+    await set(configFieldsAtomMap.subtitles, {
+      ...subtitlesConfig,
+      enabledPatterns: checked ? [...otherPatterns, new URL(url).hostname] : otherPatterns,
+    })
+  },
+)
@@ -0,0 +1,56 @@
+import type { TranslationExportFormat } from '@/utils/translation-export/format'
+import { browser, i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtomValue } from 'jotai'
+import { Button } from '@/components/shadcn/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/shadcn/dropdown-menu'
+import { sendMessage } from '@/utils/message'
+import { TRANSLATION_EXPORT_FORMATS } from '@/utils/translation-export/format'
+import { isIgnoreTabAtom } from '../atoms/ignore'
+
+export function ExportTranslation() {
+  const isIgnoreTab = useAtomValue(isIgnoreTabAtom)
+
+  const requestExport = async (format: TranslationExportFormat) => {
+    const [currentTab] = await browser.tabs.query({
+      active: true,
+      currentWindow: true,
+    })
+    if (currentTab.id) {
+      void sendMessage('requestExportPageTranslation', {
+        format,
+        tabId: currentTab.id,
+      })
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[13px] font-medium">{i18n.t('exportTranslation.title')}</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" disabled={isIgnoreTab}>
+            <Icon icon="tabler:download" className="size-4" />
+            {i18n.t('exportTranslation.download')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {TRANSLATION_EXPORT_FORMATS.map(format => (
+            <DropdownMenuItem
+              key={format}
+              onClick={() => void requestExport(format)}
+              className="cursor-pointer"
+            >
+              {i18n.t(`exportTranslation.formats.${format}`)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { i18n } from '#imports'
+import { Icon } from '@iconify/react'
+import { useAtomValue, useSetAtom } from 'jotai'
+import { toast } from 'sonner'
+import { Button } from '@/components/shadcn/button'
+import { isIgnoreTabAtom } from '../atoms/ignore'
+import { currentSiteProfileAtom, removeCurrentSiteProfileAtom, saveCurrentSiteProfileAtom } from '../atoms/site-profile'
+
+export function SiteProfileButton() {
+  const siteProfile = useAtomValue(currentSiteProfileAtom)
+  const saveCurrentSiteProfile = useSetAtom(saveCurrentSiteProfileAtom)
+  const removeCurrentSiteProfile = useSetAtom(removeCurrentSiteProfileAtom)
+  const isIgnoreTab = useAtomValue(isIgnoreTabAtom)
+
+  const handleSave = async () => {
+    await saveCurrentSiteProfile()
+    toast.success(i18n.t('popup.siteProfile.saved'))
+  }
+
+  const handleRemove = async () => {
+    await removeCurrentSiteProfile()
+    toast.success(i18n.t('popup.siteProfile.removed'))
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="truncate text-[13px] font-medium">
+        {siteProfile
+          ? i18n.t('popup.siteProfile.active', [siteProfile.pattern])
+          : i18n.t('popup.siteProfile.title')}
+      </span>
+      <div className="flex shrink-0 items-center gap-1">
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={isIgnoreTab}>
+          {siteProfile ? i18n.t('popup.siteProfile.update') : i18n.t('popup.siteProfile.save')}
+        </Button>
+        {siteProfile && (
+          <Button
+            size="icon-sm"
+            variant="ghost"
+            onClick={handleRemove}
+            aria-label={i18n.t('popup.siteProfile.remove')}
+            title={i18n.t('popup.siteProfile.remove')}
+          >
+            <Icon icon="tabler:trash" className="size-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
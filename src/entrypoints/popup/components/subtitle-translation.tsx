@@ -0,0 +1,24 @@
+import { i18n } from '#imports'
+import { useAtomValue, useSetAtom } from 'jotai'
+import { Switch } from '@/components/shadcn/switch'
+import { isIgnoreTabAtom } from '../atoms/ignore'
+import { isSubtitlesEnabledOnCurrentSiteAtom, toggleSubtitlesOnCurrentSiteAtom } from '../atoms/subtitles'
+
+export function SubtitleTranslation() {
+  const isEnabled = useAtomValue(isSubtitlesEnabledOnCurrentSiteAtom)
+  const toggleSubtitles = useSetAtom(toggleSubtitlesOnCurrentSiteAtom)
+  const isIgnoreTab = useAtomValue(isIgnoreTabAtom)
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[13px] font-medium">
+        {i18n.t('popup.translateSubtitles')}
+      </span>
+      <Switch
+        checked={isEnabled}
+        onCheckedChange={checked => void toggleSubtitles(checked)}
+        disabled={isIgnoreTab}
+      />
+    </div>
+  )
+}
@@ -1,7 +1,6 @@
 import type { TranslationMode as TranslationModeType } from '@/types/config/translate'
 import { i18n } from '#imports'
 import { Icon } from '@iconify/react'
-import { deepmerge } from 'deepmerge-ts'
 import { useAtom, useAtomValue } from 'jotai'
 import {
   Select,
@@ -14,7 +13,7 @@ import {
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/shadcn/tooltip'
 import { TRANSLATION_MODES } from '@/types/config/translate'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
-import { filterEnabledProvidersConfig, getLLMTranslateProvidersConfig, getProviderConfigById } from '@/utils/config/helpers'
+import { withTranslationMode } from '@/utils/config/quick-switch'
 
 export default function TranslationModeSelector() {
   const [translateConfig, setTranslateConfig] = useAtom(configFieldsAtomMap.translate)
@@ -22,37 +21,7 @@ export default function TranslationModeSelector() {
   const currentMode = translateConfig.mode
 
   const handleModeChange = (mode: TranslationModeType) => {
-    const currentProvider = getProviderConfigById(providersConfig, translateConfig.providerId)
-
-    if (mode === 'translationOnly' && currentProvider && currentProvider.provider === 'google') {
-      const enabledProviders = filterEnabledProvidersConfig(providersConfig)
-
-      const microsoftProvider = enabledProviders.find(p => p.provider === 'microsoft')
-      if (microsoftProvider) {
-        void setTranslateConfig(
-          deepmerge(translateConfig, {
-            mode,
-            providerId: microsoftProvider.id,
-          }),
-        )
-        return
-      }
-
-      const llmProviders = getLLMTranslateProvidersConfig(enabledProviders)
-      if (llmProviders.length > 0) {
-        void setTranslateConfig(
-          deepmerge(translateConfig, {
-            mode,
-            providerId: llmProviders[0].id,
-          }),
-        )
-        return
-      }
-    }
-
-    void setTranslateConfig(
-      deepmerge(translateConfig, { mode }),
-    )
+    void setTranslateConfig(withTranslationMode(translateConfig, providersConfig, mode))
   }
 
   return (
@@ -14,6 +14,7 @@ import { sendMessage } from '@/utils/message'
 import { queryClient } from '@/utils/tanstack-query'
 import App from './app'
 import { getIsInPatterns, isCurrentSiteInPatternsAtom, isPageTranslatedAtom } from './atoms/auto-translate'
+import { activeTabUrlAtom } from './atoms/site-profile'
 import '@/assets/styles/text-small.css'
 import '@/assets/styles/theme.css'
 
@@ -25,6 +26,7 @@ function HydrateAtoms({
     [typeof configAtom, Config],
     [typeof isPageTranslatedAtom, boolean],
     [typeof isCurrentSiteInPatternsAtom, boolean],
+    [typeof activeTabUrlAtom, string | null],
   ]
   children: React.ReactNode
 }) {
@@ -65,6 +67,7 @@ async function initApp() {
               [configAtom, config],
               [isPageTranslatedAtom, isPageTranslated],
               [isCurrentSiteInPatternsAtom, isInPatterns],
+              [activeTabUrlAtom, activeTab[0].url ?? null],
             ]}
           >
             <ThemeProvider>
@@ -6,13 +6,13 @@ import { streamText } from 'ai'
 import { useAtom, useAtomValue, useSetAtom } from 'jotai'
 import { Activity } from 'react'
 import { MarkdownRenderer } from '@/components/markdown-renderer'
-import { isGenAIProviderConfig } from '@/types/config/provider'
+import { isSessionProviderConfig } from '@/types/config/provider'
 import { configAtom, configFieldsAtomMap } from '@/utils/atoms/config'
 import { readProviderConfigAtom } from '@/utils/atoms/provider'
 import { getFinalSourceCode } from '@/utils/config/languages'
 import { getIsFirefoxExtensionEnv } from '@/utils/firefox/firefox-compat'
 import { createPortStreamPromise } from '@/utils/firefox/firefox-streaming'
-import { genaiGenerateText } from '@/utils/genai/client'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { logger } from '@/utils/logger'
 import { getWordExplainPrompt } from '@/utils/prompts/word-explain'
 import { getReadModelById } from '@/utils/providers/model'
@@ -98,21 +98,8 @@ export function AiPopover() {
           = `query: ${highlightData.context.selection}\n`
             + `context: ${highlightData.context.before} ${highlightData.context.selection} ${highlightData.context.after}`
 
-        if (isGenAIProviderConfig(readProviderConfig)) {
-          const response = await genaiGenerateText(
-            userMessage,
-            readProviderConfig,
-            { system: systemPrompt, modelType: 'read' },
-          )
-          if (!signal?.aborted) {
-            setAiResponse(response)
-            popoverRef.current?.scrollToBottom()
-          }
-          logger.log('aiResponse', '\n', response)
-          return true
-        }
-
-        if (isFirefoxExtensionEnv) {
+        // GenAI requests run in the background, which relays tokens over the port as they arrive
+        if (isSessionProviderConfig(readProviderConfig) || isFirefoxExtensionEnv) {
           const finalResponse = await createPortStreamPromise<string>(
             'analyze-selection-stream',
             {
@@ -157,6 +144,7 @@ export function AiPopover() {
           setAiResponse(fullResponse)
           popoverRef.current?.scrollToBottom()
         }
+        void recordLLMUsage({ feature: 'wordExplain', providerConfig: readProviderConfig, modelType: 'read' }, result.usage)
 
         logger.log('aiResponse', '\n', fullResponse)
         return true
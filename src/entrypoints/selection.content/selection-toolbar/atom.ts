@@ -7,6 +7,8 @@ export const isSelectionToolbarVisibleAtom = atom<boolean>(false)
 // 新增：管理 translate popover 的显示状态
 export const isTranslatePopoverVisibleAtom = atom<boolean>(false)
 export const isAiPopoverVisibleAtom = atom<boolean>(false)
+// Prompt picked in the context menu for the translate popover, undefined keeps the configured one
+export const translatePopoverPromptIdAtom = atom<string | null | undefined>(undefined)
 
 // 新增：存储鼠标点击位置
 export const mouseClickPositionAtom = atom<{ x: number, y: number } | null>(null)
@@ -3,12 +3,14 @@ import { useCallback, useEffect, useLayoutEffect, useRef } from 'react'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
 import { NOTRANSLATE_CLASS } from '@/utils/constants/dom-labels'
 import { MARGIN } from '@/utils/constants/selection'
+import { addDeepDocumentListener, getFrameViewportOffset, getShadowRootSelection } from '@/utils/host/dom/roots'
 import { matchDomainPattern } from '@/utils/url'
 import { AiButton, AiPopover } from './ai-button'
 import { isSelectionToolbarVisibleAtom, selectionContentAtom, selectionRangeAtom } from './atom'
 import { CloseButton, DropEvent } from './close-button'
 import { SpeakButton } from './speak-button'
 import { TranslateButton, TranslatePopover } from './translate-button'
+import { useBackgroundActions } from './use-background-actions'
 
 export function SelectionToolbar() {
   const tooltipRef = useRef<HTMLDivElement>(null)
@@ -20,6 +22,10 @@ export function SelectionToolbar() {
   const setSelectionRange = useSetAtom(selectionRangeAtom)
   const selectionToolbar = useAtomValue(configFieldsAtomMap.selectionToolbar)
   const dropdownOpenRef = useRef(false)
+  // Selection inside a shadow root the toolbar was opened for, the document can't report its changes
+  const shadowSelectionRef = useRef<Selection | null>(null)
+
+  useBackgroundActions()
 
   const updatePosition = useCallback(() => {
     if (!isSelectionToolbarVisible || !tooltipRef.current || !selectionPositionRef.current)
@@ -53,7 +59,7 @@ export function SelectionToolbar() {
   useEffect(() => {
     let animationFrameId: number
 
-    const handleMouseUp = (e: MouseEvent) => {
+    const handleMouseUp = (e: MouseEvent, sourceDocument: Document) => {
       // If dragging started from tooltip, don't hide it
       if (isDraggingFromTooltipRef.current) {
         isDraggingFromTooltipRef.current = false // reset state
@@ -63,29 +69,36 @@ export function SelectionToolbar() {
       // Use requestAnimationFrame to delay selection check
       // This ensures selectionchange event fires first if text selection was cleared
       requestAnimationFrame(() => {
-        const isInputOrTextarea = document.activeElement instanceof HTMLInputElement || document.activeElement instanceof HTMLTextAreaElement
+        // Compare tag names, iframe elements come from another realm and fail `instanceof`
+        const activeElement = sourceDocument.activeElement
+        const isInputOrTextarea = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA'
+        // Events from shadow roots are retargeted to the host, the composed path keeps the real target
+        const target = e.composedPath()[0] as Node
 
-        if (isInputOrTextarea && e.target !== document.activeElement) {
+        if (isInputOrTextarea && target !== activeElement) {
           return
         }
 
         // check if there is text selected
-        const selection = window.getSelection()
+        const shadowSelection = getShadowRootSelection(e)
+        const selection = shadowSelection ?? sourceDocument.defaultView?.getSelection() ?? null
         const selectedText = selection?.toString().trim() || ''
 
-        if (!isInputOrTextarea && !selection?.containsNode(e.target as Node, true)) {
+        if (!isInputOrTextarea && !selection?.containsNode(target, true)) {
           return
         }
 
         if (selection && selectedText.length > 0) {
+          shadowSelectionRef.current = shadowSelection
           setSelectionContent(selectedText)
           setSelectionRange(selection.getRangeAt(0))
-          // calculate the position relative to the document
+          // calculate the position relative to the document, events inside iframes use the frame's viewport
           const scrollY = window.scrollY
           const scrollX = window.scrollX
+          const frameOffset = getFrameViewportOffset(sourceDocument)
 
-          const docX = e.clientX + scrollX
-          const docY = e.clientY + scrollY
+          const docX = e.clientX + frameOffset.x + scrollX
+          const docY = e.clientY + frameOffset.y + scrollY
 
           // Store pending position for useLayoutEffect to process
           selectionPositionRef.current = { x: docX, y: docY }
@@ -108,12 +121,13 @@ export function SelectionToolbar() {
         return
       }
 
+      shadowSelectionRef.current = null
       setIsSelectionToolbarVisible(false)
     }
 
-    const handleSelectionChange = () => {
+    const handleSelectionChange = (_e: Event, sourceDocument: Document) => {
       // if the selected content is cleared, hide the tooltip
-      const selection = window.getSelection()
+      const selection = shadowSelectionRef.current ?? sourceDocument.defaultView?.getSelection()
       if (!selection || selection.toString().trim().length === 0) {
         // Don't hide toolbar when dropdown is open to prevent unwanted dismissal
         // (Firefox clears selection when dropdown gains focus)
@@ -132,15 +146,16 @@ export function SelectionToolbar() {
       animationFrameId = requestAnimationFrame(updatePosition)
     }
 
-    document.addEventListener('mouseup', handleMouseUp)
-    document.addEventListener('mousedown', handleMouseDown)
-    document.addEventListener('selectionchange', handleSelectionChange)
+    // Same-origin iframes don't forward their events to the page, so listen inside them as well
+    const removeMouseUpListeners = addDeepDocumentListener('mouseup', handleMouseUp)
+    const removeMouseDownListeners = addDeepDocumentListener('mousedown', handleMouseDown)
+    const removeSelectionChangeListeners = addDeepDocumentListener('selectionchange', handleSelectionChange)
     window.addEventListener('scroll', handleScroll, { passive: true })
 
     return () => {
-      document.removeEventListener('mouseup', handleMouseUp)
-      document.removeEventListener('mousedown', handleMouseDown)
-      document.removeEventListener('selectionchange', handleSelectionChange)
+      removeMouseUpListeners()
+      removeMouseDownListeners()
+      removeSelectionChangeListeners()
       window.removeEventListener('scroll', handleScroll)
       if (animationFrameId) {
         cancelAnimationFrame(animationFrameId)
@@ -1,7 +1,7 @@
 import type { TextUIPart } from 'ai'
 import { i18n } from '#imports'
 import { Icon } from '@iconify/react'
-import { ISO6393_TO_6391, LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
+import { ISO6393_TO_6391 } from '@read-frog/definitions'
 import { IconLoader2, IconVolume } from '@tabler/icons-react'
 import { readUIMessageStream, streamText } from 'ai'
 import { useAtom, useAtomValue, useSetAtom } from 'jotai'
@@ -9,19 +9,24 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import { toast } from 'sonner'
 import { useTextToSpeech } from '@/hooks/use-text-to-speech'
 import {
-  isGenAIProviderConfig,
   isLLMTranslateProviderConfig,
   isNonAPIProvider,
   isPureAPIProvider,
+  isSessionProviderConfig,
 } from '@/types/config/provider'
 import { configFieldsAtomMap } from '@/utils/atoms/config'
 import { translateProviderConfigAtom, ttsProviderConfigAtom } from '@/utils/atoms/provider'
 import { getConfigFromStorage } from '@/utils/config/config'
+import { getProviderConfigById, getTranslateProvidersConfig } from '@/utils/config/helpers'
+import { resolveSiteConfig } from '@/utils/config/site-profiles'
 import { getProviderOptions } from '@/utils/constants/model'
 import { getIsFirefoxExtensionEnv } from '@/utils/firefox/firefox-compat'
 import { createPortStreamPromise } from '@/utils/firefox/firefox-streaming'
+import { enforceGlossary } from '@/utils/glossary/enforce'
 import { deeplxTranslate, googleTranslate, microsoftTranslate } from '@/utils/host/translate/api'
+import { classifyTranslateError } from '@/utils/host/translate/provider-fallback'
 import { translateText } from '@/utils/host/translate/translate-text'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { getTranslatePrompt } from '@/utils/prompts/translate'
 import { getTranslateModelById } from '@/utils/providers/model'
 import {
@@ -29,6 +34,7 @@ import {
   isTranslatePopoverVisibleAtom,
   mouseClickPositionAtom,
   selectionContentAtom,
+  translatePopoverPromptIdAtom,
 } from './atom'
 import { PopoverWrapper } from './components/popover-wrapper'
 
@@ -37,6 +43,7 @@ export function TranslateButton() {
   const setIsSelectionToolbarVisible = useSetAtom(isSelectionToolbarVisibleAtom)
   const setIsTranslatePopoverVisible = useSetAtom(isTranslatePopoverVisibleAtom)
   const setMousePosition = useSetAtom(mouseClickPositionAtom)
+  const setPromptIdOverride = useSetAtom(translatePopoverPromptIdAtom)
 
   const handleClick = async (event: React.MouseEvent) => {
     const rect = event.currentTarget.getBoundingClientRect()
@@ -44,6 +51,7 @@ export function TranslateButton() {
     const y = rect.top
 
     setMousePosition({ x, y })
+    setPromptIdOverride(undefined)
     setIsSelectionToolbarVisible(false)
     setIsTranslatePopoverVisible(true)
   }
@@ -62,9 +70,10 @@ export function TranslateButton() {
 export function TranslatePopover() {
   const [isTranslating, setIsTranslating] = useState(false)
   const [translatedText, setTranslatedText] = useState<string | undefined>(undefined)
-  const translateProviderConfig = useAtomValue(translateProviderConfigAtom)
+  const globalTranslateProviderConfig = useAtomValue(translateProviderConfigAtom)
   const languageConfig = useAtomValue(configFieldsAtomMap.language)
   const selectionContent = useAtomValue(selectionContentAtom)
+  const promptIdOverride = useAtomValue(translatePopoverPromptIdAtom)
   const [isVisible, setIsVisible] = useAtom(isTranslatePopoverVisibleAtom)
   const isFirefoxExtensionEnv = useMemo(() => getIsFirefoxExtensionEnv(), [])
 
@@ -89,21 +98,27 @@ export function TranslatePopover() {
         return
       }
 
-      const config = await getConfigFromStorage()
+      const config = resolveSiteConfig(await getConfigFromStorage())
       if (!config) {
         throw new Error('No global config when translate text')
       }
 
+      // A site profile may pick another provider than the one selected globally
+      const translateProviderConfig = getProviderConfigById(getTranslateProvidersConfig(config.providersConfig), config.translate.providerId)
+        ?? globalTranslateProviderConfig
+      const promptId = promptIdOverride !== undefined ? promptIdOverride : config.translate.customPromptsConfig.promptId
+
       if (!translateProviderConfig) {
         throw new Error(
           `No provider config for ${config.translate.providerId} when translate text`,
         )
       }
       const { provider } = translateProviderConfig
-      const targetLangName = LANG_CODE_TO_EN_NAME[languageConfig.targetCode]
 
       setIsTranslating(true)
       cancelTranslation = undefined
+      // translateText already walks the fallback chain, only the direct paths below need it here
+      let usedProviderChain = false
 
       try {
         if (isFirefoxExtensionEnv && isLLMTranslateProviderConfig(translateProviderConfig)) {
@@ -113,7 +128,7 @@ export function TranslatePopover() {
           } = translateProviderConfig
           const translateModel = translate.isCustomModel ? translate.customModel : translate.model
           const providerOptions = getProviderOptions(translateModel ?? '')
-          const prompt = await getTranslatePrompt(targetLangName, cleanText)
+          const prompt = await getTranslatePrompt(languageConfig.targetCode, cleanText, { promptId })
 
           const abortController = new AbortController()
           cancelTranslation = () => abortController.abort()
@@ -139,13 +154,14 @@ export function TranslatePopover() {
             return
           }
 
-          const normalized = latestText.trim()
+          const normalized = await enforceGlossary(cleanText, latestText.trim(), languageConfig.targetCode)
           setTranslatedText(normalized === cleanText ? '' : normalized)
           return
         }
 
         if (isFirefoxExtensionEnv) {
-          const backgroundTranslation = await translateText(cleanText)
+          usedProviderChain = true
+          const backgroundTranslation = await translateText(cleanText, { promptId })
           if (isCancelled) {
             return
           }
@@ -194,8 +210,9 @@ export function TranslatePopover() {
           }
         }
         else if (isLLMTranslateProviderConfig(translateProviderConfig)) {
-          if (isGenAIProviderConfig(translateProviderConfig)) {
-            const normalized = (await translateText(cleanText)).trim()
+          if (isSessionProviderConfig(translateProviderConfig)) {
+            usedProviderChain = true
+            const normalized = (await translateText(cleanText, { promptId })).trim()
             if (!isCancelled)
               setTranslatedText(normalized === cleanText ? '' : normalized)
             return
@@ -208,7 +225,7 @@ export function TranslatePopover() {
           const model = await getTranslateModelById(providerId)
 
           const providerOptions = getProviderOptions(translateModel ?? '')
-          const { systemPrompt, prompt } = await getTranslatePrompt(targetLangName, cleanText)
+          const { systemPrompt, prompt } = await getTranslatePrompt(languageConfig.targetCode, cleanText, { promptId })
 
           const result = streamText({
             model,
@@ -222,6 +239,7 @@ export function TranslatePopover() {
             abortController.abort()
           }
 
+          let streamedText = ''
           for await (const uiMessage of readUIMessageStream({
             stream: result.toUIMessageStream(),
           })) {
@@ -229,7 +247,14 @@ export function TranslatePopover() {
               return
             }
             const lastPart = uiMessage.parts[uiMessage.parts.length - 1] as TextUIPart
-            setTranslatedText(lastPart.text)
+            streamedText = lastPart.text
+            setTranslatedText(streamedText)
+          }
+          void recordLLMUsage({ feature: 'translate', providerConfig: translateProviderConfig, modelType: 'translate' }, result.usage)
+
+          const checkedText = await enforceGlossary(cleanText, streamedText.trim(), languageConfig.targetCode)
+          if (!isCancelled && checkedText !== streamedText.trim()) {
+            setTranslatedText(checkedText)
           }
 
           cancelTranslation = undefined
@@ -239,7 +264,7 @@ export function TranslatePopover() {
         }
 
         if (translatedText && !isLLMTranslateProviderConfig(translateProviderConfig)) {
-          translatedText = translatedText.trim()
+          translatedText = await enforceGlossary(cleanText, translatedText.trim(), languageConfig.targetCode)
           setTranslatedText(translatedText === cleanText ? '' : translatedText)
         }
       }
@@ -252,6 +277,23 @@ export function TranslatePopover() {
           return
         }
 
+        const fallbackProviderIds = config.translate.fallbackProviderIds.filter(id => id !== translateProviderConfig.id)
+        if (!usedProviderChain && fallbackProviderIds.length > 0 && classifyTranslateError(error).fallbackable) {
+          try {
+            const normalized = (await translateText(cleanText, { providerIds: fallbackProviderIds, promptId })).trim()
+            if (!isCancelled)
+              setTranslatedText(normalized === cleanText ? '' : normalized)
+            return
+          }
+          catch (fallbackError) {
+            if (isCancelled)
+              return
+            console.error('Translation error:', error, fallbackError)
+            toast.error('Translation failed')
+            return
+          }
+        }
+
         console.error('Translation error:', error)
         toast.error('Translation failed')
       }
@@ -273,9 +315,10 @@ export function TranslatePopover() {
   }, [
     isVisible,
     selectionContent,
+    promptIdOverride,
     languageConfig.sourceCode,
     languageConfig.targetCode,
-    translateProviderConfig,
+    globalTranslateProviderConfig,
     isFirefoxExtensionEnv,
   ])
 
@@ -0,0 +1,124 @@
+import { i18n } from '#imports'
+import { useAtomValue, useSetAtom } from 'jotai'
+import { useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { useTextToSpeech } from '@/hooks/use-text-to-speech'
+import { configFieldsAtomMap } from '@/utils/atoms/config'
+import { ttsProviderConfigAtom } from '@/utils/atoms/provider'
+import { MARGIN } from '@/utils/constants/selection'
+import { addDeepDocumentListener, getFrameViewportOffset } from '@/utils/host/dom/roots'
+import { logger } from '@/utils/logger'
+import { onMessage } from '@/utils/message'
+import {
+  isSelectionToolbarVisibleAtom,
+  isTranslatePopoverVisibleAtom,
+  mouseClickPositionAtom,
+  selectionContentAtom,
+  translatePopoverPromptIdAtom,
+} from './atom'
+
+interface ContextMenuTarget {
+  element: Element | null
+  position: { x: number, y: number }
+}
+
+/**
+ * Run the actions the background forwards from the browser's context menu and keyboard commands.
+ * The background only knows the selected text, so the element and position of the last right
+ * click are tracked here.
+ */
+export function useBackgroundActions() {
+  const lastTargetRef = useRef<ContextMenuTarget | null>(null)
+  const setSelectionContent = useSetAtom(selectionContentAtom)
+  const setMousePosition = useSetAtom(mouseClickPositionAtom)
+  const setIsSelectionToolbarVisible = useSetAtom(isSelectionToolbarVisibleAtom)
+  const setIsTranslatePopoverVisible = useSetAtom(isTranslatePopoverVisibleAtom)
+  const setPromptIdOverride = useSetAtom(translatePopoverPromptIdAtom)
+  const ttsConfig = useAtomValue(configFieldsAtomMap.tts)
+  const ttsProviderConfig = useAtomValue(ttsProviderConfigAtom)
+  const { play } = useTextToSpeech()
+  // `play` changes on every render, the message listener reads the latest one through this ref
+  const speakRef = useRef<(text: string) => void>(() => {})
+
+  useEffect(() => {
+    speakRef.current = (text) => {
+      if (!ttsProviderConfig) {
+        toast.error(i18n.t('speak.openaiNotConfigured'))
+        return
+      }
+      void play(text, ttsConfig, ttsProviderConfig)
+    }
+  })
+
+  useEffect(() => {
+    return addDeepDocumentListener('contextmenu', (event, sourceDocument) => {
+      const target = event.composedPath()[0]
+      const frameOffset = getFrameViewportOffset(sourceDocument)
+      lastTargetRef.current = {
+        // Compare node types, elements inside iframes come from another realm and fail `instanceof`
+        element: (target as Node | undefined)?.nodeType === Node.ELEMENT_NODE ? target as Element : null,
+        position: { x: event.clientX + frameOffset.x, y: event.clientY + frameOffset.y },
+      }
+    }, { capture: true })
+  }, [])
+
+  useEffect(() => {
+    const showTranslatePopover = (text: string, position: { x: number, y: number }, promptId?: string | null) => {
+      setSelectionContent(text)
+      setPromptIdOverride(promptId)
+      setMousePosition(position)
+      setIsSelectionToolbarVisible(false)
+      setIsTranslatePopoverVisible(true)
+    }
+
+    const removeTranslateSelectionListener = onMessage('translateSelectionFromContextMenu', (msg) => {
+      const { text, promptId } = msg.data
+      showTranslatePopover(text, lastTargetRef.current?.position ?? { x: 0, y: 0 }, promptId)
+    })
+
+    const removeTranslateLinkTextListener = onMessage('translateLinkTextFromContextMenu', () => {
+      const linkText = lastTargetRef.current?.element?.closest('a')?.textContent?.trim()
+      if (!linkText) {
+        toast.error(i18n.t('contextMenu.noLinkText'))
+        return
+      }
+      showTranslatePopover(linkText, lastTargetRef.current?.position ?? { x: 0, y: 0 })
+    })
+
+    const removeTranslateClipboardListener = onMessage('translateClipboard', async () => {
+      let text: string
+      try {
+        text = (await navigator.clipboard.readText()).trim()
+      }
+      catch (error) {
+        // Reading fails when the page doesn't have focus, e.g. while the address bar has it
+        logger.warn('[Commands] Failed to read the clipboard', error)
+        toast.error(i18n.t('commands.clipboardUnavailable'))
+        return
+      }
+      if (!text) {
+        toast.error(i18n.t('commands.clipboardEmpty'))
+        return
+      }
+      // Nothing was clicked, so the popover opens near the top of the viewport
+      showTranslatePopover(text, { x: window.innerWidth / 2, y: MARGIN })
+    })
+
+    const removeSpeakSelectionListener = onMessage('speakSelectionFromContextMenu', (msg) => {
+      speakRef.current(msg.data.text)
+    })
+
+    return () => {
+      removeTranslateSelectionListener()
+      removeTranslateLinkTextListener()
+      removeTranslateClipboardListener()
+      removeSpeakSelectionListener()
+    }
+  }, [
+    setSelectionContent,
+    setPromptIdOverride,
+    setMousePosition,
+    setIsSelectionToolbarVisible,
+    setIsTranslatePopoverVisible,
+  ])
+}
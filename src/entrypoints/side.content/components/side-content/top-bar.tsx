@@ -1,6 +1,7 @@
 import type { LangCodeISO6393, LangLevel } from '@read-frog/definitions'
 import type { DOWNLOAD_FILE_TYPES } from '../../utils/downloader'
 import type { ArticleExplanation } from '@/types/content'
+import type { TranslationExportFormat } from '@/utils/translation-export/format'
 import { i18n } from '#imports'
 import { Icon } from '@iconify/react'
 import {
@@ -27,7 +28,9 @@ import { readProviderConfigAtom } from '@/utils/atoms/provider'
 import { getFinalSourceCode } from '@/utils/config/languages'
 import { READ_PROVIDER_ITEMS } from '@/utils/constants/providers'
 import { DOWNLOAD_FILE_ITEMS } from '@/utils/constants/side'
+import { sendMessage } from '@/utils/message'
 import { cn } from '@/utils/styles/tailwind'
+import { TRANSLATION_EXPORT_FORMATS } from '@/utils/translation-export/format'
 import { shadowWrapper } from '../..'
 import { isSideOpenAtom } from '../../atoms'
 import downloader from '../../utils/downloader'
@@ -58,6 +61,7 @@ export function TopBar({ className }: { className?: string }) {
           container={shadowWrapper}
         />
         <FileExport />
+        <TranslationExport />
       </div>
       <Tooltip>
         <TooltipTrigger asChild>
@@ -216,3 +220,31 @@ function FileExport() {
     </Select>
   )
 }
+
+function TranslationExport() {
+  return (
+    <Select
+      value=""
+      onValueChange={(format: TranslationExportFormat) => {
+        void sendMessage('requestExportPageTranslation', { format })
+      }}
+    >
+      <SelectTrigger
+        hideChevron
+        className="rounded-md flex !size-7 items-center justify-center p-0 shadow-xs border focus-visible:ring-ring/50 dark:bg-input/30 dark:hover:bg-input/50 border-input"
+      >
+        <Icon icon="tabler:language" className="size-4 p-0.5" />
+      </SelectTrigger>
+      <SelectContent container={shadowWrapper}>
+        <SelectGroup>
+          <SelectLabel>{i18n.t('exportTranslation.title')}</SelectLabel>
+          {TRANSLATION_EXPORT_FORMATS.map(format => (
+            <SelectItem key={format} value={format}>
+              {i18n.t(`exportTranslation.formats.${format}`)}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  )
+}
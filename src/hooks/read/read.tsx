@@ -2,6 +2,7 @@ import type { z } from 'zod'
 import type { Config } from '@/types/config/config'
 import type { ReadProviderConfig } from '@/types/config/provider'
 import type { ArticleAnalysis, ArticleExplanation, ExtractedContent } from '@/types/content'
+import type { LLMUsageFeature } from '@/utils/db/dexie/tables/llm-usage-record'
 import { i18n } from '#imports'
 import { LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
@@ -9,7 +10,7 @@ import { generateObject } from 'ai'
 import { useAtomValue, useSetAtom } from 'jotai'
 import { toast } from 'sonner'
 import { progressAtom, readStateAtom, store } from '@/entrypoints/side.content/atoms'
-import { isGenAIProviderConfig, isReadProviderConfig } from '@/types/config/provider'
+import { isReadProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
 import { articleAnalysisSchema, articleExplanationSchema } from '@/types/content'
 import { sendInBatchesWithFixedDelay } from '@/utils/ai-request'
 import { configAtom, configFieldsAtomMap } from '@/utils/atoms/config'
@@ -17,12 +18,13 @@ import { readProviderConfigAtom } from '@/utils/atoms/provider'
 import { isAnyAPIKeyForReadProviders } from '@/utils/config/config'
 import { getProviderConfigById } from '@/utils/config/helpers'
 import { getFinalSourceCode } from '@/utils/config/languages'
-import { genaiGenerateText } from '@/utils/genai/client'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { logger } from '@/utils/logger'
 import { createPerfTimer } from '@/utils/perf/perf-timer'
 import { getAnalyzePrompt } from '@/utils/prompts/analyze'
 import { getExplainPrompt } from '@/utils/prompts/explain'
 import { getReadModelById } from '@/utils/providers/model'
+import { sessionProviderGenerateText } from '@/utils/session-provider/chat'
 
 interface ExplainArticleParams {
   extractedContent: ExtractedContent
@@ -45,10 +47,10 @@ function extractJsonPayload(text: string) {
 
 async function runReadProviderObjectCompletion<TSchema extends z.ZodTypeAny>(
   providerConfig: ReadProviderConfig,
-  params: { system: string, prompt: string, schema: TSchema },
+  params: { system: string, prompt: string, schema: TSchema, feature: LLMUsageFeature },
 ): Promise<z.infer<TSchema>> {
-  if (isGenAIProviderConfig(providerConfig)) {
-    const response = await genaiGenerateText(
+  if (isSessionProviderConfig(providerConfig)) {
+    const response = await sessionProviderGenerateText(
       params.prompt,
       providerConfig,
       { system: params.system, modelType: 'read' },
@@ -64,12 +66,13 @@ async function runReadProviderObjectCompletion<TSchema extends z.ZodTypeAny>(
   }
 
   const model = await getReadModelById(providerConfig.id)
-  const { object } = await generateObject({
+  const { object, usage } = await generateObject({
     model,
     system: params.system,
     prompt: params.prompt,
     schema: params.schema,
   })
+  void recordLLMUsage({ feature: params.feature, providerConfig, modelType: 'read' }, usage)
 
   return params.schema.parse(object)
 }
@@ -108,6 +111,7 @@ export function useAnalyzeContent() {
                 content: extractedContent.paragraphs.join('\n'),
               }),
               schema: articleAnalysisSchema,
+              feature: 'analyze',
             },
           )
 
@@ -161,6 +165,7 @@ async function explainBatch(batch: string[], articleAnalysis: ArticleAnalysis, c
             paragraphs: batch,
           }),
           schema: articleExplanationSchema,
+          feature: 'explain',
         },
       )
 
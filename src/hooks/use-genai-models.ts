@@ -0,0 +1,53 @@
+import type { ProviderConfig } from '@/types/config/provider'
+import { i18n } from '#imports'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { isGenAIProviderConfig } from '@/types/config/provider'
+import { listGenAIModels } from '@/utils/genai/client'
+import { getGenAIModelCatalog } from '@/utils/genai/models'
+import { getGenAIBaseURL } from '@/utils/genai/session'
+import { queryClient } from '@/utils/tanstack-query'
+
+/**
+ * Model titles to offer in a model picker: the built-in list, plus the models discovered from the
+ * GenAI portal when `providerConfig` is a GenAI provider. The currently selected model is always
+ * kept so the picker never renders an empty value.
+ */
+export function useGenAIModelTitles(providerConfig: ProviderConfig | undefined, builtInModels: readonly string[], selectedModel?: string) {
+  const genaiProviderConfig = providerConfig && isGenAIProviderConfig(providerConfig) ? providerConfig : undefined
+  const baseURL = genaiProviderConfig ? getGenAIBaseURL(genaiProviderConfig) : null
+
+  const { data: catalog } = useQuery({
+    queryKey: ['genai-model-catalog', baseURL],
+    queryFn: () => (baseURL ? getGenAIModelCatalog(baseURL) : null),
+    enabled: Boolean(baseURL),
+  })
+
+  const { mutate: refreshModels, isPending: isRefreshing } = useMutation({
+    mutationFn: async () => {
+      if (!genaiProviderConfig)
+        return []
+      return await listGenAIModels(genaiProviderConfig, { refresh: true })
+    },
+    onSuccess: (models) => {
+      void queryClient.invalidateQueries({ queryKey: ['genai-model-catalog', baseURL] })
+      toast.success(i18n.t('options.apiProviders.form.models.genaiRefreshed', [models.length]))
+    },
+    meta: {
+      errorDescription: i18n.t('options.apiProviders.form.models.genaiRefreshFailed'),
+    },
+  })
+
+  const modelTitles = Array.from(new Set([
+    ...builtInModels,
+    ...(genaiProviderConfig ? catalog?.models.map(model => model.title) ?? [] : []),
+    ...(genaiProviderConfig && selectedModel ? [selectedModel] : []),
+  ]))
+
+  return {
+    modelTitles,
+    isGenAI: Boolean(genaiProviderConfig),
+    refreshModels: () => refreshModels(),
+    isRefreshing,
+  }
+}
@@ -4,8 +4,10 @@ import { z } from 'zod'
 import { MIN_SIDE_CONTENT_WIDTH } from '@/utils/constants/side'
 import { isReadProvider, isTranslateProvider, isTTSProvider, NON_API_TRANSLATE_PROVIDERS_MAP, providersConfigSchema } from './provider'
 import { readConfigSchema } from './read'
+import { siteProfilesSchema } from './site-profile'
 import { translateConfigSchema } from './translate'
 import { ttsConfigSchema } from './tts'
+import { usageConfigSchema } from './usage'
 // Language schema
 const languageSchema = z.object({
   detectedCode: langCodeISO6393Schema,
@@ -32,6 +34,28 @@ const sideContentSchema = z.object({
   width: z.number().min(MIN_SIDE_CONTENT_WIDTH),
 })
 
+// PDF viewer schema
+const pdfViewerSchema = z.object({
+  // Open PDF links in the extension's viewer instead of the browser's built-in one
+  interceptNavigation: z.boolean(),
+})
+
+// video subtitles schema
+const subtitlesSchema = z.object({
+  // Sites where the captions of videos are translated, toggled from the popup
+  enabledPatterns: z.array(z.string()),
+})
+
+// composer schema
+const composerSchema = z.object({
+  enabled: z.boolean(),
+  // Language the text typed in editable fields is translated into
+  targetCode: langCodeISO6393Schema,
+  shortcut: z.array(z.string()),
+  // Typing three spaces at the end of the text translates it as well
+  tripleSpace: z.boolean(),
+})
+
 // beta experience schema
 const betaExperienceSchema = z.object({
   enabled: z.boolean(),
@@ -47,7 +71,12 @@ export const configSchema = z.object({
   floatingButton: floatingButtonSchema,
   selectionToolbar: selectionToolbarSchema,
   sideContent: sideContentSchema,
+  pdfViewer: pdfViewerSchema,
+  subtitles: subtitlesSchema,
+  composer: composerSchema,
   betaExperience: betaExperienceSchema,
+  siteProfiles: siteProfilesSchema,
+  usage: usageConfigSchema,
 }).superRefine((data, ctx) => {
   const providerIdsSet = new Set(data.providersConfig.map(p => p.id))
   const providerIds = Array.from(providerIdsSet)
@@ -91,6 +120,28 @@ export const configSchema = z.object({
     })
   }
 
+  const seenFallbackProviderIds = new Set<string>()
+  data.translate.fallbackProviderIds.forEach((fallbackProviderId, index) => {
+    if (seenFallbackProviderIds.has(fallbackProviderId)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Duplicate fallback provider id "${fallbackProviderId}"`,
+        path: ['translate', 'fallbackProviderIds', index],
+      })
+    }
+    seenFallbackProviderIds.add(fallbackProviderId)
+
+    const fallbackProvider = data.providersConfig.find(p => p.id === fallbackProviderId)
+    if (!fallbackProvider || !isTranslateProvider(fallbackProvider.provider)) {
+      ctx.addIssue({
+        code: 'invalid_value',
+        values: providerIds,
+        message: `Invalid fallback provider id "${fallbackProviderId}". Must be a translate provider`,
+        path: ['translate', 'fallbackProviderIds', index],
+      })
+    }
+  })
+
   if (data.tts.providerId && !providerIdsSet.has(data.tts.providerId)) {
     ctx.addIssue({
       code: 'invalid_value',
@@ -108,6 +159,29 @@ export const configSchema = z.object({
       path: ['tts', 'provider'],
     })
   }
+
+  const promptIds = new Set(data.translate.customPromptsConfig.patterns.map(p => p.id))
+  data.siteProfiles.forEach(({ overrides }, index) => {
+    if (overrides.providerId !== undefined) {
+      const profileProvider = data.providersConfig.find(p => p.id === overrides.providerId)
+      if (!validTranslateProvidersSet.has(overrides.providerId) || (profileProvider && !isTranslateProvider(profileProvider.provider))) {
+        ctx.addIssue({
+          code: 'invalid_value',
+          values: validTranslateProviders,
+          message: `Invalid site profile provider id "${overrides.providerId}". Must be a translate provider`,
+          path: ['siteProfiles', index, 'overrides', 'providerId'],
+        })
+      }
+    }
+    if (typeof overrides.promptId === 'string' && !promptIds.has(overrides.promptId)) {
+      ctx.addIssue({
+        code: 'invalid_value',
+        values: Array.from(promptIds),
+        message: `Site profile promptId "${overrides.promptId}" must be null or match a pattern id`,
+        path: ['siteProfiles', index, 'overrides', 'promptId'],
+      })
+    }
+  })
 })
 
 export type Config = z.infer<typeof configSchema>
@@ -0,0 +1,27 @@
+import { langCodeISO6393Schema } from '@read-frog/definitions'
+import { z } from 'zod'
+
+export const GLOSSARY_CHECK_MODES = ['off', 'flag', 'repair'] as const
+export const glossaryCheckModeSchema = z.enum(GLOSSARY_CHECK_MODES)
+
+export const glossaryEntrySchema = z.object({
+  id: z.string().nonempty(),
+  term: z.string().trim().nonempty(),
+  // Target term for every language that has no entry in `translations`; empty leaves it to the model
+  translation: z.string().trim(),
+  translations: z.partialRecord(langCodeISO6393Schema, z.string().trim().nonempty()),
+  // Keeps `term` verbatim in every language, ignoring the translations
+  doNotTranslate: z.boolean(),
+  caseSensitive: z.boolean(),
+})
+
+export const glossaryConfigSchema = z.object({
+  enabled: z.boolean(),
+  // What happens when a translation does not use the glossary term
+  checkMode: glossaryCheckModeSchema,
+  entries: z.array(glossaryEntrySchema),
+})
+
+export type GlossaryCheckMode = z.infer<typeof glossaryCheckModeSchema>
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>
+export type GlossaryConfig = z.infer<typeof glossaryConfigSchema>
@@ -230,18 +230,43 @@ export const baseAPIProviderConfigSchema = baseProviderConfigSchema.extend({
   baseURL: z.string().optional(),
 })
 
-export const baseCustomLLMProviderConfigSchema = baseAPIProviderConfigSchema.extend({
+// How paragraphs are marked when several are translated in one request
+export const BATCH_FORMATS = ['structured', 'separator'] as const
+export type BatchFormat = typeof BATCH_FORMATS[number]
+
+export const baseLLMProviderConfigSchema = baseAPIProviderConfigSchema.extend({
+  // Unset uses the structured format, the separator format suits models that keep dropping the tags
+  batchFormat: z.enum(BATCH_FORMATS).optional(),
+})
+
+export const baseCustomLLMProviderConfigSchema = baseLLMProviderConfigSchema.extend({
   baseURL: z.string(),
 })
 
+// Session provider models are discovered from the portal at runtime, so any model title is accepted
+const sessionModelConfigSchema = z.object({
+  model: z.string().nonempty(),
+  isCustomModel: z.boolean(),
+  customModel: z.string().nullable(),
+})
+
+// Shared shape of chat portals that sign in through SSO cookies instead of an API key
+export const baseSessionProviderConfigSchema = baseLLMProviderConfigSchema.extend({
+  cookieBridge: z.object({
+    enabled: z.boolean(),
+    port: z.number().int().min(1).max(65535),
+    // Secret shared with the local receiver, only HMACs keyed by it are sent. Empty until the user pairs it
+    pairingToken: z.string(),
+  }),
+  models: z.object({
+    read: sessionModelConfigSchema,
+    translate: sessionModelConfigSchema,
+  }),
+})
+
 const llmProviderConfigSchemaList = [
-  baseAPIProviderConfigSchema.extend({
+  baseSessionProviderConfigSchema.extend({
     provider: z.literal('genai'),
-    cookieBridge: z.object({
-      enabled: z.boolean(),
-      port: z.number().int().min(1).max(65535),
-    }),
-    models: createProviderModelsSchema<'genai'>('genai'),
   }),
   baseCustomLLMProviderConfigSchema.extend({
     provider: z.literal('siliconflow'),
@@ -270,75 +295,75 @@ const llmProviderConfigSchemaList = [
       }),
     }),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('openai'),
     models: createProviderModelsSchema<'openai'>('openai'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('deepseek'),
     models: createProviderModelsSchema<'deepseek'>('deepseek'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('gemini'),
     models: createProviderModelsSchema<'gemini'>('gemini'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('anthropic'),
     models: createProviderModelsSchema<'anthropic'>('anthropic'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('grok'),
     models: createProviderModelsSchema<'grok'>('grok'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('amazonBedrock'),
     models: createProviderModelsSchema<'amazonBedrock'>('amazonBedrock'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('groq'),
     models: createProviderModelsSchema<'groq'>('groq'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('deepinfra'),
     models: createProviderModelsSchema<'deepinfra'>('deepinfra'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('mistral'),
     models: createProviderModelsSchema<'mistral'>('mistral'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('togetherai'),
     models: createProviderModelsSchema<'togetherai'>('togetherai'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('cohere'),
     models: createProviderModelsSchema<'cohere'>('cohere'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('fireworks'),
     models: createProviderModelsSchema<'fireworks'>('fireworks'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('cerebras'),
     models: createProviderModelsSchema<'cerebras'>('cerebras'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('replicate'),
     models: createProviderModelsSchema<'replicate'>('replicate'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('perplexity'),
     models: createProviderModelsSchema<'perplexity'>('perplexity'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('vercel'),
     models: createProviderModelsSchema<'vercel'>('vercel'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('openrouter'),
     models: createProviderModelsSchema<'openrouter'>('openrouter'),
   }),
-  baseAPIProviderConfigSchema.extend({
+  baseLLMProviderConfigSchema.extend({
     provider: z.literal('ollama'),
     models: createProviderModelsSchema<'ollama'>('ollama'),
   }),
@@ -415,6 +440,16 @@ export function isGenAIProviderConfig(config: ProviderConfig): config is GenAIPr
   return config.provider === 'genai'
 }
 
+export const SESSION_PROVIDER_TYPES = ['genai'] as const satisfies Readonly<LLMTranslateProviderTypes[]>
+export type SessionProviderTypes = typeof SESSION_PROVIDER_TYPES[number]
+export type SessionProviderConfig = Extract<ProviderConfig, { provider: SessionProviderTypes }>
+export function isSessionProvider(provider: string): provider is SessionProviderTypes {
+  return SESSION_PROVIDER_TYPES.includes(provider)
+}
+export function isSessionProviderConfig(config: ProviderConfig): config is SessionProviderConfig {
+  return isSessionProvider(config.provider)
+}
+
 /* ──────────────────────────────
   read or translate config helpers
   ────────────────────────────── */
@@ -446,8 +481,9 @@ function buildModelSchema<M extends Record<string, ModelTuple>>(models: M) {
   read config
   ────────────────────────────── */
 
-const { openaiCompatible: _, ollama: _ollama, ...readModelsWithoutOpenaiCompatibleAndOllama } = READ_PROVIDER_MODELS
+const { openaiCompatible: _, ollama: _ollama, genai: _genai, ...readModelsWithoutOpenaiCompatibleAndOllama } = READ_PROVIDER_MODELS
 export const readModelsSchema = buildModelSchema(readModelsWithoutOpenaiCompatibleAndOllama).extend({
+  genai: sessionModelConfigSchema,
   openaiCompatible: z.object({
     model: z.enum(READ_PROVIDER_MODELS.openaiCompatible),
     isCustomModel: z.literal(true),
@@ -465,8 +501,9 @@ export type ReadModels = z.infer<typeof readModelsSchema>
   translate config
   ────────────────────────────── */
 
-const { openaiCompatible: __, ollama: _ollama2, ...translateModelsWithoutOpenaiCompatibleAndOllama } = TRANSLATE_PROVIDER_MODELS
+const { openaiCompatible: __, ollama: _ollama2, genai: _genai2, ...translateModelsWithoutOpenaiCompatibleAndOllama } = TRANSLATE_PROVIDER_MODELS
 export const translateLLMModelsSchema = buildModelSchema(translateModelsWithoutOpenaiCompatibleAndOllama).extend({
+  genai: sessionModelConfigSchema,
   openaiCompatible: z.object({
     model: z.enum(TRANSLATE_PROVIDER_MODELS.openaiCompatible),
     isCustomModel: z.literal(true),
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { translationModeSchema, translationNodeStyleConfigSchema } from './translate'
+
+// Every field is optional: a profile only overrides what it sets and inherits the rest
+export const siteProfileOverridesSchema = z.object({
+  mode: translationModeSchema.optional(),
+  providerId: z.string().nonempty().optional(),
+  // `null` forces the default prompt on the site even when a custom prompt is selected globally
+  promptId: z.string().nullable().optional(),
+  translationNodeStyle: translationNodeStyleConfigSchema.optional(),
+})
+
+export const siteProfileSchema = z.object({
+  id: z.string().nonempty(),
+  // Domain pattern matched like the auto-translate patterns, e.g. `example.com` also covers `docs.example.com`
+  pattern: z.string().nonempty(),
+  overrides: siteProfileOverridesSchema,
+})
+
+export const siteProfilesSchema = z.array(siteProfileSchema)
+
+export type SiteProfileOverrides = z.infer<typeof siteProfileOverridesSchema>
+export type SiteProfile = z.infer<typeof siteProfileSchema>
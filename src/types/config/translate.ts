@@ -12,8 +12,11 @@ import {
   MIN_TRANSLATE_RATE,
   MIN_TRANSLATE_RETRY_DELAY_MS,
   MIN_TRANSLATE_TIMEOUT_MS,
+  MIN_TRANSLATION_MEMORY_SIMILARITY,
+  QUALITY_CHECK_MAX_SCORE,
 } from '@/utils/constants/translate'
 import { TRANSLATION_NODE_STYLE } from '@/utils/constants/translation-node-style'
+import { glossaryConfigSchema } from './glossary'
 
 export const requestQueueConfigSchema = z.object({
   capacity: z.number().gte(MIN_TRANSLATE_CAPACITY),
@@ -36,7 +39,7 @@ export const batchQueueConfigSchema = z.object({
   maxItemsPerBatch: z.number().gte(MIN_BATCH_ITEMS),
 })
 
-export const TRANSLATION_MODES = ['bilingual', 'translationOnly'] as const
+export const TRANSLATION_MODES = ['bilingual', 'translationOnly', 'sideBySide', 'hoverOriginal'] as const
 export const translationModeSchema = z.enum(TRANSLATION_MODES)
 
 export const pageTranslateRangeSchema = z.enum(['main', 'all'])
@@ -86,8 +89,38 @@ export const customPromptsConfigSchema = z.object({
   }
 })
 
+export const translationMemoryConfigSchema = z.object({
+  enabled: z.boolean(),
+  // Similarity from which a remembered translation is returned without a request. At 1 only
+  // paragraphs that differ in whitespace or numbers are reused.
+  reuseThreshold: z.number().gte(MIN_TRANSLATION_MEMORY_SIMILARITY).lte(1),
+  // Similarity from which remembered translations are sent to LLM providers as references
+  referenceThreshold: z.number().gte(MIN_TRANSLATION_MEMORY_SIMILARITY).lte(1),
+}).superRefine((data, ctx) => {
+  if (data.referenceThreshold > data.reuseThreshold) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'referenceThreshold must not be greater than reuseThreshold',
+      path: ['referenceThreshold'],
+    })
+  }
+})
+
+export const QUALITY_CHECK_METHODS = ['backTranslation', 'judge'] as const
+export type QualityCheckMethod = typeof QUALITY_CHECK_METHODS[number]
+
+export const qualityCheckConfigSchema = z.object({
+  enabled: z.boolean(),
+  // The judge needs an LLM provider, translations of other providers are checked by back-translation
+  method: z.enum(QUALITY_CHECK_METHODS),
+  // Paragraphs scoring below this are marked on the page
+  threshold: z.number().int().gte(0).lte(QUALITY_CHECK_MAX_SCORE),
+})
+
 export const translateConfigSchema = z.object({
   providerId: z.string().nonempty(),
+  // Ordered provider ids tried after `providerId` fails with a recoverable error
+  fallbackProviderIds: z.array(z.string().nonempty()),
   mode: translationModeSchema,
   useGenAIBatching: z.boolean(),
   node: z.object({
@@ -106,9 +139,22 @@ export const translateConfigSchema = z.object({
   requestQueueConfig: requestQueueConfigSchema,
   batchQueueConfig: batchQueueConfigSchema,
   translationNodeStyle: translationNodeStyleConfigSchema,
+  glossary: glossaryConfigSchema,
+  translationMemory: translationMemoryConfigSchema,
+  qualityCheck: qualityCheckConfigSchema,
 })
 
 export type RequestQueueConfig = z.infer<typeof requestQueueConfigSchema>
 export type BatchQueueConfig = z.infer<typeof batchQueueConfigSchema>
+export type TranslationMemoryConfig = z.infer<typeof translationMemoryConfigSchema>
+export type QualityCheckConfig = z.infer<typeof qualityCheckConfigSchema>
 export type TranslateConfig = z.infer<typeof translateConfigSchema>
 export type TranslationMode = z.infer<typeof translationModeSchema>
+
+/**
+ * Modes that put the translation in place of the original text, which stays reachable only
+ * through `originalContentMap` or the hover tooltip
+ */
+export function isReplacingTranslationMode(mode: TranslationMode): boolean {
+  return mode === 'translationOnly' || mode === 'hoverOriginal'
+}
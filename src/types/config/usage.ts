@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+// USD list price of a model, matched against the model name reported with each LLM call
+export const modelPriceSchema = z.object({
+  model: z.string().trim().nonempty(),
+  inputCostPerMillionTokens: z.number().nonnegative(),
+  outputCostPerMillionTokens: z.number().nonnegative(),
+})
+
+export const usageConfigSchema = z.object({
+  modelPrices: z.array(modelPriceSchema),
+})
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>
+export type UsageConfig = z.infer<typeof usageConfigSchema>
@@ -0,0 +1,5 @@
+// An earlier translation of a similar paragraph, shown to the model to keep wording consistent
+export interface TranslationMemoryReference {
+  source: string
+  translation: string
+}
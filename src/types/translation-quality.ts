@@ -0,0 +1,14 @@
+import type { QualityCheckMethod } from '@/types/config/translate'
+
+export const TRANSLATION_QUALITY_ISSUES = ['untranslated', 'wrongLanguage', 'truncated', 'addition', 'inadequate'] as const
+export type TranslationQualityIssue = typeof TRANSLATION_QUALITY_ISSUES[number]
+
+// Result of the quality check of one translated paragraph, stored next to its cache entry
+export interface TranslationQuality {
+  // 0 to 100, paragraphs below the configured threshold are marked on the page
+  score: number
+  issues: TranslationQualityIssue[]
+  // `heuristics` when a severe issue made the LLM check unnecessary
+  method: QualityCheckMethod | 'heuristics'
+  checkedAt: Date
+}
@@ -0,0 +1,41 @@
+import type ArticleSummaryCache from '@/utils/db/dexie/tables/article-summary-cache'
+import type TranslationCache from '@/utils/db/dexie/tables/translation-cache'
+import { describe, expect, it } from 'vitest'
+import { matchesCacheSearch, toCacheEntryView } from '../cache-browser'
+
+const createdAt = new Date('2026-01-01T00:00:00Z')
+
+describe('toCacheEntryView', () => {
+  it('maps translation entries', () => {
+    const entry = { key: 'a', translation: '你好', createdAt, sourceText: 'Hello', providerId: 'openai-default', pinned: true } as TranslationCache
+    expect(toCacheEntryView(entry)).toEqual({
+      key: 'a',
+      source: 'Hello',
+      output: '你好',
+      createdAt,
+      providerId: 'openai-default',
+      pinned: true,
+      editedAt: null,
+      reportedAt: null,
+    })
+  })
+
+  it('maps summary entries and older entries without metadata', () => {
+    const entry = { key: 'b', summary: 'An article about frogs', createdAt } as ArticleSummaryCache
+    expect(toCacheEntryView(entry)).toMatchObject({ source: null, output: 'An article about frogs', pinned: false, providerId: null })
+  })
+})
+
+describe('matchesCacheSearch', () => {
+  const view = toCacheEntryView({ key: 'a', translation: 'Bonjour le monde', createdAt, sourceText: 'Hello World' } as TranslationCache)
+
+  it('matches the source or the output, ignoring case', () => {
+    expect(matchesCacheSearch(view, 'hello')).toBe(true)
+    expect(matchesCacheSearch(view, 'MONDE')).toBe(true)
+    expect(matchesCacheSearch(view, 'frog')).toBe(false)
+  })
+
+  it('matches everything for an empty search', () => {
+    expect(matchesCacheSearch(view, '  ')).toBe(true)
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { matchesShortcut } from '../shortcut'
+
+function keyEvent(key: string, code: string, modifiers: Partial<Record<'altKey' | 'ctrlKey' | 'shiftKey' | 'metaKey', boolean>> = {}) {
+  return { key, code, altKey: false, ctrlKey: false, shiftKey: false, metaKey: false, ...modifiers }
+}
+
+describe('matchesShortcut', () => {
+  it('should match letters by physical key', () => {
+    expect(matchesShortcut(keyEvent('r', 'KeyR', { altKey: true }), ['alt', 'r'])).toBe(true)
+    // Option+R on macOS types "®"
+    expect(matchesShortcut(keyEvent('®', 'KeyR', { altKey: true }), ['alt', 'r'])).toBe(true)
+    expect(matchesShortcut(keyEvent('t', 'KeyT', { altKey: true }), ['alt', 'r'])).toBe(false)
+  })
+
+  it('should require exactly the recorded modifiers', () => {
+    expect(matchesShortcut(keyEvent('r', 'KeyR'), ['alt', 'r'])).toBe(false)
+    expect(matchesShortcut(keyEvent('R', 'KeyR', { altKey: true, shiftKey: true }), ['alt', 'r'])).toBe(false)
+    expect(matchesShortcut(keyEvent('k', 'KeyK', { ctrlKey: true, shiftKey: true }), ['ctrl', 'shift', 'k'])).toBe(true)
+    expect(matchesShortcut(keyEvent('k', 'KeyK', { metaKey: true }), ['command', 'k'])).toBe(true)
+  })
+
+  it('should match digits and named keys', () => {
+    expect(matchesShortcut(keyEvent('1', 'Digit1', { ctrlKey: true }), ['ctrl', '1'])).toBe(true)
+    expect(matchesShortcut(keyEvent('Enter', 'Enter', { ctrlKey: true }), ['ctrl', 'enter'])).toBe(true)
+  })
+
+  it('should not match shortcuts without exactly one normal key', () => {
+    expect(matchesShortcut(keyEvent('Alt', 'AltLeft', { altKey: true }), ['alt'])).toBe(false)
+    expect(matchesShortcut(keyEvent('r', 'KeyR', { altKey: true }), [])).toBe(false)
+  })
+})
@@ -0,0 +1,139 @@
+import type { Table } from 'dexie'
+import type ArticleSummaryCache from '@/utils/db/dexie/tables/article-summary-cache'
+import type TranslationCache from '@/utils/db/dexie/tables/translation-cache'
+import { db } from '@/utils/db/dexie/db'
+import { correctTranslationMemory } from '@/utils/translation-memory/memory'
+
+export const CACHE_TABLE_NAMES = ['translationCache', 'articleSummaryCache'] as const
+export type CacheTableName = typeof CACHE_TABLE_NAMES[number]
+
+type CacheEntry = TranslationCache | ArticleSummaryCache
+
+export interface CacheEntryView {
+  key: string
+  // Source text of a translation or title of a summarized article, null on older entries
+  source: string | null
+  output: string
+  createdAt: Date
+  providerId: string | null
+  pinned: boolean
+  editedAt: Date | null
+  // Translations reported as bad on the page, summaries are never reported
+  reportedAt: Date | null
+}
+
+export interface CacheEntryPage {
+  entries: CacheEntryView[]
+  total: number
+}
+
+export interface CacheTableStats {
+  count: number
+  pinnedCount: number
+  editedCount: number
+  // Entries stored with their source text, the only ones a search can find by source
+  withSourceCount: number
+  characters: number
+  oldestAt: Date | null
+  newestAt: Date | null
+}
+
+function getCacheTable(table: CacheTableName): Table<CacheEntry, string> {
+  return (table === 'translationCache' ? db.translationCache : db.articleSummaryCache) as Table<CacheEntry, string>
+}
+
+export function toCacheEntryView(entry: CacheEntry): CacheEntryView {
+  const isTranslation = 'translation' in entry
+  return {
+    key: entry.key,
+    source: (isTranslation ? entry.sourceText : entry.articleTitle) ?? null,
+    output: isTranslation ? entry.translation : entry.summary,
+    createdAt: entry.createdAt,
+    providerId: entry.providerId ?? null,
+    pinned: entry.pinned ?? false,
+    editedAt: entry.editedAt ?? null,
+    reportedAt: (isTranslation ? entry.reportedAt : undefined) ?? null,
+  }
+}
+
+export function matchesCacheSearch(entry: CacheEntryView, search: string): boolean {
+  const query = search.trim().toLowerCase()
+  if (!query)
+    return true
+  return Boolean(entry.source?.toLowerCase().includes(query)) || entry.output.toLowerCase().includes(query)
+}
+
+/**
+ * One page of cache entries, newest first, matching `search` in the source or the cached output.
+ */
+export async function queryCacheEntries(
+  table: CacheTableName,
+  { search = '', page, pageSize }: { search?: string, page: number, pageSize: number },
+): Promise<CacheEntryPage> {
+  const collection = () => getCacheTable(table)
+    .orderBy('createdAt')
+    .reverse()
+    .filter(entry => matchesCacheSearch(toCacheEntryView(entry), search))
+
+  const [total, entries] = await Promise.all([
+    collection().count(),
+    collection().offset(page * pageSize).limit(pageSize).toArray(),
+  ])
+  return { entries: entries.map(toCacheEntryView), total }
+}
+
+export async function getCacheTableStats(table: CacheTableName): Promise<CacheTableStats> {
+  const stats: CacheTableStats = {
+    count: 0,
+    pinnedCount: 0,
+    editedCount: 0,
+    withSourceCount: 0,
+    characters: 0,
+    oldestAt: null,
+    newestAt: null,
+  }
+
+  await getCacheTable(table).each((rawEntry) => {
+    const entry = toCacheEntryView(rawEntry)
+    stats.count++
+    if (entry.pinned)
+      stats.pinnedCount++
+    if (entry.editedAt)
+      stats.editedCount++
+    if (entry.source)
+      stats.withSourceCount++
+    stats.characters += entry.output.length + (entry.source?.length ?? 0)
+    if (!stats.oldestAt || entry.createdAt < stats.oldestAt)
+      stats.oldestAt = entry.createdAt
+    if (!stats.newestAt || entry.createdAt > stats.newestAt)
+      stats.newestAt = entry.createdAt
+  })
+
+  return stats
+}
+
+export async function deleteCacheEntry(table: CacheTableName, key: string) {
+  await getCacheTable(table).delete(key)
+}
+
+export async function setCacheEntryPinned(table: CacheTableName, key: string, pinned: boolean) {
+  await getCacheTable(table).update(key, { pinned })
+}
+
+/**
+ * Replaces the cached output with a manual correction, which is then served on the next hit.
+ */
+export async function updateCacheEntryOutput(table: CacheTableName, key: string, output: string) {
+  const editedAt = new Date()
+  if (table === 'articleSummaryCache') {
+    await db.articleSummaryCache.update(key, { summary: output, editedAt })
+    return
+  }
+
+  // A correction settles a report, the entry is served again
+  await db.translationCache.update(key, { translation: output, editedAt, reportedAt: undefined })
+  // Otherwise a similar paragraph could still be answered with the translation that was corrected
+  const entry = await db.translationCache.get(key)
+  if (entry?.sourceText && entry.targetCode)
+    await correctTranslationMemory(entry.sourceText, output, entry.targetCode)
+}
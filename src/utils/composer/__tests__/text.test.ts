@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest'
+import { endsWithTripleSpace, translateComposerText } from '../text'
+
+describe('endsWithTripleSpace', () => {
+  it('should detect three trailing spaces, including non-breaking ones', () => {
+    expect(endsWithTripleSpace('hello   ')).toBe(true)
+    expect(endsWithTripleSpace('hello \u00A0 ')).toBe(true)
+    expect(endsWithTripleSpace('hello  ')).toBe(false)
+    expect(endsWithTripleSpace('hello   world')).toBe(false)
+  })
+})
+
+describe('translateComposerText', () => {
+  it('should translate each line and keep blank lines', async () => {
+    const translate = vi.fn(async (line: string) => `[${line}]`)
+
+    await expect(translateComposerText('Hi team,\n\n  Thanks!   ', translate)).resolves.toBe('[Hi team,]\n\n[Thanks!]')
+    expect(translate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep lines that come back empty', async () => {
+    const translate = async (line: string) => line === 'OK' ? '' : '좋아요'
+
+    await expect(translateComposerText('OK\nGood', translate)).resolves.toBe('OK\n좋아요')
+  })
+})
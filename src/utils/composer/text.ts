@@ -0,0 +1,22 @@
+// Contenteditable editors often turn typed spaces into non-breaking ones
+const TRIPLE_SPACE_PATTERN = /[ \u00A0]{3}$/
+
+export function endsWithTripleSpace(text: string): boolean {
+  return TRIPLE_SPACE_PATTERN.test(text)
+}
+
+/**
+ * Translate typed text line by line, since line breaks don't survive the text normalization
+ * before translation. Blank lines are kept, and lines that come back empty, e.g. because they are
+ * already in the target language, keep their original text.
+ */
+export async function translateComposerText(text: string, translate: (line: string) => Promise<string>): Promise<string> {
+  const lines = text.replace(/\s+$/, '').split('\n')
+  const translatedLines = await Promise.all(lines.map(async (line) => {
+    const trimmedLine = line.trim()
+    if (!trimmedLine)
+      return ''
+    return (await translate(trimmedLine)).trim() || trimmedLine
+  }))
+  return translatedLines.join('\n')
+}
@@ -50,6 +50,19 @@ describe('config utilities', () => {
       expect(hasAPIKey(result)).toBe(false)
     })
 
+    it('should blank the GenAI cookie bridge pairing token', () => {
+      const genaiConfigWithToken = {
+        ...DEFAULT_PROVIDER_CONFIG.genai,
+        cookieBridge: { ...DEFAULT_PROVIDER_CONFIG.genai.cookieBridge, pairingToken: 'a'.repeat(48) },
+      }
+      expect(hasAPIKey(genaiConfigWithToken)).toBe(true)
+
+      const result = getObjectWithoutAPIKeys(genaiConfigWithToken)
+
+      expect(result.cookieBridge).toEqual({ ...genaiConfigWithToken.cookieBridge, pairingToken: '' })
+      expect(hasAPIKey(result)).toBe(false)
+    })
+
     it('should handle nested objects with multiple apiKeys', () => {
       const nestedObject = {
         user: {
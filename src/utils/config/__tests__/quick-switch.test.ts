@@ -0,0 +1,68 @@
+import type { ProvidersConfig } from '@/types/config/provider'
+import type { TranslateConfig } from '@/types/config/translate'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { getNextTranslateProviderId, getNextTranslationMode, withTranslationMode } from '../quick-switch'
+
+function withEnabledProviders(ids: string[]): ProvidersConfig {
+  return DEFAULT_CONFIG.providersConfig.map(p => ({ ...p, enabled: ids.includes(p.id) }))
+}
+
+function translateConfigWith(overrides: Partial<TranslateConfig>): TranslateConfig {
+  return { ...DEFAULT_CONFIG.translate, ...overrides }
+}
+
+describe('quick switch', () => {
+  describe('withTranslationMode', () => {
+    it('should only change the mode when the provider supports it', () => {
+      const translateConfig = translateConfigWith({ providerId: 'microsoft-default', mode: 'bilingual' })
+      const providersConfig = withEnabledProviders(['google-default', 'microsoft-default'])
+
+      expect(withTranslationMode(translateConfig, providersConfig, 'translationOnly')).toEqual({
+        ...translateConfig,
+        mode: 'translationOnly',
+      })
+    })
+
+    it('should move from Google to Microsoft, then to an LLM provider, in translation only mode', () => {
+      const translateConfig = translateConfigWith({ providerId: 'google-default', mode: 'bilingual' })
+
+      expect(withTranslationMode(translateConfig, withEnabledProviders(['google-default', 'openai-default', 'microsoft-default']), 'translationOnly').providerId)
+        .toBe('microsoft-default')
+      expect(withTranslationMode(translateConfig, withEnabledProviders(['google-default', 'openai-default']), 'translationOnly').providerId)
+        .toBe('openai-default')
+      expect(withTranslationMode(translateConfig, withEnabledProviders(['google-default']), 'translationOnly').providerId)
+        .toBe('google-default')
+    })
+  })
+
+  describe('getNextTranslationMode', () => {
+    it('should cycle through the modes', () => {
+      expect(getNextTranslationMode('bilingual')).toBe('translationOnly')
+      expect(getNextTranslationMode('translationOnly')).toBe('sideBySide')
+      expect(getNextTranslationMode('hoverOriginal')).toBe('bilingual')
+    })
+  })
+
+  describe('getNextTranslateProviderId', () => {
+    it('should pick the next enabled provider and wrap around', () => {
+      const providersConfig = withEnabledProviders(['google-default', 'genai-default', 'deeplx-default'])
+
+      expect(getNextTranslateProviderId(translateConfigWith({ providerId: 'google-default' }), providersConfig)).toBe('genai-default')
+      expect(getNextTranslateProviderId(translateConfigWith({ providerId: 'deeplx-default' }), providersConfig)).toBe('google-default')
+    })
+
+    it('should skip Google in translation only mode', () => {
+      const providersConfig = withEnabledProviders(['google-default', 'genai-default', 'deeplx-default'])
+      const translateConfig = translateConfigWith({ providerId: 'deeplx-default', mode: 'translationOnly' })
+
+      expect(getNextTranslateProviderId(translateConfig, providersConfig)).toBe('genai-default')
+      expect(getNextTranslateProviderId({ ...translateConfig, mode: 'hoverOriginal' }, providersConfig)).toBe('genai-default')
+    })
+
+    it('should return undefined when no other provider is enabled', () => {
+      expect(getNextTranslateProviderId(translateConfigWith({ providerId: 'genai-default' }), withEnabledProviders(['genai-default']))).toBeUndefined()
+      expect(getNextTranslateProviderId(translateConfigWith({ providerId: 'genai-default' }), withEnabledProviders([]))).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import type { Config } from '@/types/config/config'
+import type { SiteProfile } from '@/types/config/site-profile'
+import { describe, expect, it } from 'vitest'
+import { configSchema } from '@/types/config/config'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { findSiteProfile, resolveSiteConfig, withSiteTranslateSettings } from '../site-profiles'
+
+function createProfile(pattern: string, overrides: SiteProfile['overrides']): SiteProfile {
+  return { id: pattern, pattern, overrides }
+}
+
+function withProfiles(siteProfiles: SiteProfile[]): Config {
+  return { ...DEFAULT_CONFIG, siteProfiles }
+}
+
+describe('site profiles', () => {
+  describe('findSiteProfile', () => {
+    it('should prefer the most specific matching pattern', () => {
+      const profiles = [
+        createProfile('example.com', { mode: 'bilingual' }),
+        createProfile('docs.example.com', { mode: 'translationOnly' }),
+      ]
+
+      expect(findSiteProfile(profiles, 'https://docs.example.com/guide')?.pattern).toBe('docs.example.com')
+      expect(findSiteProfile(profiles, 'https://blog.example.com/')?.pattern).toBe('example.com')
+      expect(findSiteProfile(profiles, 'https://example.org/')).toBeUndefined()
+    })
+  })
+
+  describe('resolveSiteConfig', () => {
+    it('should return the config untouched when no profile matches', () => {
+      const config = withProfiles([createProfile('intranet.corp', { providerId: 'genai-default' })])
+
+      expect(resolveSiteConfig(config, 'https://news.example.com/')).toBe(config)
+      expect(resolveSiteConfig(null, 'https://news.example.com/')).toBeNull()
+    })
+
+    it('should apply only the overrides the profile sets', () => {
+      const config = withProfiles([createProfile('intranet.corp', { mode: 'translationOnly', promptId: null })])
+      const resolved = resolveSiteConfig(config, 'https://wiki.intranet.corp/page')
+
+      expect(resolved.translate.mode).toBe('translationOnly')
+      expect(resolved.translate.customPromptsConfig.promptId).toBeNull()
+      expect(resolved.translate.providerId).toBe(DEFAULT_CONFIG.translate.providerId)
+      expect(resolved.translate.translationNodeStyle).toEqual(DEFAULT_CONFIG.translate.translationNodeStyle)
+    })
+
+    it('should drop the profile provider from the fallback chain', () => {
+      const config: Config = {
+        ...withProfiles([createProfile('example.com', { providerId: 'microsoft' })]),
+        translate: { ...DEFAULT_CONFIG.translate, providerId: 'google', fallbackProviderIds: ['microsoft'] },
+      }
+      const resolved = resolveSiteConfig(config, 'https://example.com/')
+
+      expect(resolved.translate.providerId).toBe('microsoft')
+      expect(resolved.translate.fallbackProviderIds).toEqual([])
+    })
+  })
+
+  describe('withSiteTranslateSettings', () => {
+    it('should change what the matching profile overrides in the profile and the rest globally', () => {
+      const config = withProfiles([createProfile('example.com', { mode: 'translationOnly' })])
+      const { config: updated, profile } = withSiteTranslateSettings(config, { mode: 'sideBySide', providerId: 'microsoft-default' }, 'https://example.com/')
+
+      expect(profile?.overrides).toEqual({ mode: 'sideBySide' })
+      expect(updated.translate.mode).toBe(DEFAULT_CONFIG.translate.mode)
+      expect(updated.translate.providerId).toBe('microsoft-default')
+      expect(resolveSiteConfig(updated, 'https://example.com/').translate.mode).toBe('sideBySide')
+    })
+
+    it('should only change the global config without a matching override', () => {
+      const config = withProfiles([createProfile('example.com', { promptId: null })])
+      const { config: updated, profile } = withSiteTranslateSettings(config, { providerId: 'microsoft-default' }, 'https://example.com/')
+
+      expect(profile).toBeUndefined()
+      expect(updated.siteProfiles).toBe(config.siteProfiles)
+      expect(updated.translate.providerId).toBe('microsoft-default')
+    })
+  })
+
+  describe('schema', () => {
+    it('should reject profiles pointing at unknown providers or prompts', () => {
+      const result = configSchema.safeParse(withProfiles([
+        createProfile('example.com', { providerId: 'missing-provider', promptId: 'missing-prompt' }),
+      ]))
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual([
+        'siteProfiles.0.overrides.providerId',
+        'siteProfiles.0.overrides.promptId',
+      ])
+    })
+  })
+})
@@ -38,6 +38,11 @@ export function isAnyAPIKeyForReadProviders(providersConfig: ProvidersConfig) {
   })
 }
 
+const API_KEY_FIELD = 'apiKey'
+// Required by the schema, so it is blanked instead of removed. The cookie bridge of an imported
+// config is then unpaired until the user pairs it again.
+const PAIRING_TOKEN_FIELD = 'pairingToken'
+
 // Dynamically adapt to all API key situations, theoretically should not fail
 export function getObjectWithoutAPIKeys<T extends Record<string, any>>(originalObject: T): T {
   function deepClean(obj: any): any {
@@ -47,10 +52,10 @@ export function getObjectWithoutAPIKeys<T extends Record<string, any>>(originalO
     if (obj && typeof obj === 'object') {
       const newObj: Record<string, any> = {}
       for (const key in obj) {
-        if (key === 'apiKey') {
+        if (key === API_KEY_FIELD) {
           continue
         }
-        newObj[key] = deepClean(obj[key])
+        newObj[key] = key === PAIRING_TOKEN_FIELD && typeof obj[key] === 'string' ? '' : deepClean(obj[key])
       }
       return newObj
     }
@@ -72,7 +77,7 @@ export function hasAPIKey(obj: any): boolean {
     }
     if (obj && typeof obj === 'object') {
       for (const key in obj) {
-        if (key === 'apiKey' && obj[key]) {
+        if ((key === API_KEY_FIELD || key === PAIRING_TOKEN_FIELD) && obj[key]) {
           return true
         }
         if (deepCheck(obj[key])) {
@@ -0,0 +1,23 @@
+export function migrate(oldConfig: any): any {
+  const translate = oldConfig?.translate ?? {}
+  const providers = Array.isArray(oldConfig?.providersConfig) ? oldConfig.providersConfig : []
+  const knownProviderIds = new Set<string>(providers.map((provider: any) => provider?.id).filter(Boolean))
+  const existing: unknown[] = Array.isArray(translate.fallbackProviderIds) ? translate.fallbackProviderIds : []
+
+  // Keep any ids a previous build may have written, as long as they still point to a known provider
+  const seen = new Set<string>()
+  const fallbackProviderIds = existing.filter((id): id is string => {
+    if (typeof id !== 'string' || seen.has(id) || !knownProviderIds.has(id))
+      return false
+    seen.add(id)
+    return true
+  })
+
+  return {
+    ...oldConfig,
+    translate: {
+      ...translate,
+      fallbackProviderIds,
+    },
+  }
+}
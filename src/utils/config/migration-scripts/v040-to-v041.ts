@@ -0,0 +1,23 @@
+export function migrate(oldConfig: any): any {
+  const providers = Array.isArray(oldConfig?.providersConfig) ? oldConfig.providersConfig : []
+
+  // Bridges paired before the token existed accepted anonymous pushes; they stay idle until re-paired
+  const updatedProviders = providers.map((provider: any) => {
+    if (provider?.provider !== 'genai')
+      return provider
+
+    const cookieBridge = provider.cookieBridge ?? {}
+    return {
+      ...provider,
+      cookieBridge: {
+        ...cookieBridge,
+        pairingToken: typeof cookieBridge.pairingToken === 'string' ? cookieBridge.pairingToken : '',
+      },
+    }
+  })
+
+  return {
+    ...oldConfig,
+    providersConfig: updatedProviders,
+  }
+}
@@ -0,0 +1,6 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    siteProfiles: Array.isArray(oldConfig?.siteProfiles) ? oldConfig.siteProfiles : [],
+  }
+}
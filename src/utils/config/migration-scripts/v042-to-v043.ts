@@ -0,0 +1,12 @@
+import { DEFAULT_MODEL_PRICES } from '@/utils/constants/usage'
+
+export function migrate(oldConfig: any): any {
+  const modelPrices = Array.isArray(oldConfig?.usage?.modelPrices) ? oldConfig.usage.modelPrices : DEFAULT_MODEL_PRICES
+
+  return {
+    ...oldConfig,
+    usage: {
+      modelPrices,
+    },
+  }
+}
@@ -0,0 +1,13 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    translate: {
+      ...oldConfig.translate,
+      glossary: {
+        enabled: true,
+        checkMode: 'repair',
+        entries: [],
+      },
+    },
+  }
+}
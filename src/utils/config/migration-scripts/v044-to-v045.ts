@@ -0,0 +1,14 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    translate: {
+      ...oldConfig.translate,
+      // Opt-in, a reused translation never reaches the selected provider
+      translationMemory: {
+        enabled: false,
+        reuseThreshold: 1,
+        referenceThreshold: 0.8,
+      },
+    },
+  }
+}
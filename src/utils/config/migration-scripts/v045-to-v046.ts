@@ -0,0 +1,8 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    pdfViewer: {
+      interceptNavigation: false,
+    },
+  }
+}
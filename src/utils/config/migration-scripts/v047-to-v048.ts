@@ -0,0 +1,11 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    composer: {
+      enabled: true,
+      targetCode: 'eng',
+      shortcut: ['alt', 'r'],
+      tripleSpace: false,
+    },
+  }
+}
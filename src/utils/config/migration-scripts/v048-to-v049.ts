@@ -0,0 +1,13 @@
+export function migrate(oldConfig: any): any {
+  return {
+    ...oldConfig,
+    translate: {
+      ...oldConfig.translate,
+      qualityCheck: {
+        enabled: false,
+        method: 'backTranslation',
+        threshold: 60,
+      },
+    },
+  }
+}
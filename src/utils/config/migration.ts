@@ -41,6 +41,16 @@ import { migrate as migrateV035ToV036 } from './migration-scripts/v035-to-v036'
 import { migrate as migrateV036ToV037 } from './migration-scripts/v036-to-v037'
 import { migrate as migrateV037ToV038 } from './migration-scripts/v037-to-v038'
 import { migrate as migrateV038ToV039 } from './migration-scripts/v038-to-v039'
+import { migrate as migrateV039ToV040 } from './migration-scripts/v039-to-v040'
+import { migrate as migrateV040ToV041 } from './migration-scripts/v040-to-v041'
+import { migrate as migrateV041ToV042 } from './migration-scripts/v041-to-v042'
+import { migrate as migrateV042ToV043 } from './migration-scripts/v042-to-v043'
+import { migrate as migrateV043ToV044 } from './migration-scripts/v043-to-v044'
+import { migrate as migrateV044ToV045 } from './migration-scripts/v044-to-v045'
+import { migrate as migrateV045ToV046 } from './migration-scripts/v045-to-v046'
+import { migrate as migrateV046ToV047 } from './migration-scripts/v046-to-v047'
+import { migrate as migrateV047ToV048 } from './migration-scripts/v047-to-v048'
+import { migrate as migrateV048ToV049 } from './migration-scripts/v048-to-v049'
 
 export const LATEST_SCHEMA_VERSION = CONFIG_SCHEMA_VERSION
 
@@ -86,6 +96,16 @@ export const migrationScripts: Record<number, MigrationFunction> = {
   37: migrateV036ToV037,
   38: migrateV037ToV038,
   39: migrateV038ToV039,
+  40: migrateV039ToV040,
+  41: migrateV040ToV041,
+  42: migrateV041ToV042,
+  43: migrateV042ToV043,
+  44: migrateV043ToV044,
+  45: migrateV044ToV045,
+  46: migrateV045ToV046,
+  47: migrateV046ToV047,
+  48: migrateV047ToV048,
+  49: migrateV048ToV049,
 }
 
 export async function runMigration(version: number, config: any): Promise<any> {
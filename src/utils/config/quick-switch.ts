@@ -0,0 +1,35 @@
+import type { ProvidersConfig } from '@/types/config/provider'
+import type { TranslateConfig, TranslationMode } from '@/types/config/translate'
+import { isReplacingTranslationMode, TRANSLATION_MODES } from '@/types/config/translate'
+import { filterEnabledProvidersConfig, getLLMTranslateProvidersConfig, getProviderConfigById, getTranslateProvidersConfig } from './helpers'
+
+/**
+ * Switch the translation mode. Google isn't used in the modes replacing the original text, so another enabled
+ * provider takes over, Microsoft first, then the first LLM provider.
+ */
+export function withTranslationMode(translateConfig: TranslateConfig, providersConfig: ProvidersConfig, mode: TranslationMode): TranslateConfig {
+  const currentProvider = getProviderConfigById(providersConfig, translateConfig.providerId)
+  if (!isReplacingTranslationMode(mode) || currentProvider?.provider !== 'google')
+    return { ...translateConfig, mode }
+
+  const enabledProviders = filterEnabledProvidersConfig(providersConfig)
+  const replacement = enabledProviders.find(p => p.provider === 'microsoft')
+    ?? getLLMTranslateProvidersConfig(enabledProviders)[0]
+  return { ...translateConfig, mode, providerId: replacement?.id ?? translateConfig.providerId }
+}
+
+export function getNextTranslationMode(mode: TranslationMode): TranslationMode {
+  return TRANSLATION_MODES[(TRANSLATION_MODES.indexOf(mode) + 1) % TRANSLATION_MODES.length]
+}
+
+/**
+ * The enabled translate provider listed after the current one, wrapping around. Returns undefined
+ * when no other provider can be picked.
+ */
+export function getNextTranslateProviderId(translateConfig: TranslateConfig, providersConfig: ProvidersConfig): string | undefined {
+  const candidates = getTranslateProvidersConfig(filterEnabledProvidersConfig(providersConfig))
+    .filter(p => !isReplacingTranslationMode(translateConfig.mode) || p.provider !== 'google')
+  const currentIndex = candidates.findIndex(p => p.id === translateConfig.providerId)
+  const next = candidates[(currentIndex + 1) % candidates.length]
+  return next && next.id !== translateConfig.providerId ? next.id : undefined
+}
@@ -0,0 +1,95 @@
+import type { Config } from '@/types/config/config'
+import type { SiteProfile } from '@/types/config/site-profile'
+import type { TranslateConfig } from '@/types/config/translate'
+import { matchDomainPattern } from '@/utils/url'
+
+/**
+ * Picks the profile whose pattern matches `url`. When several match, the longest pattern wins so
+ * `docs.example.com` can refine a profile set for `example.com`.
+ */
+export function findSiteProfile(siteProfiles: SiteProfile[] | undefined, url: string): SiteProfile | undefined {
+  let bestMatch: SiteProfile | undefined
+  for (const profile of siteProfiles ?? []) {
+    if (!matchDomainPattern(url, profile.pattern))
+      continue
+    if (!bestMatch || profile.pattern.trim().length > bestMatch.pattern.trim().length)
+      bestMatch = profile
+  }
+  return bestMatch
+}
+
+/**
+ * Returns `config` with the translate settings of the site profile matching `url` applied on top.
+ * Content scripts call this on every config they read, so a site behaves the same whichever
+ * feature starts the translation.
+ */
+export function resolveSiteConfig<T extends Config | null>(
+  config: T,
+  url: string = globalThis.location?.href ?? '',
+): T {
+  if (!config)
+    return config
+
+  const profile = findSiteProfile(config.siteProfiles, url)
+  if (!profile)
+    return config
+
+  const { mode, providerId, promptId, translationNodeStyle } = profile.overrides
+  const { translate } = config
+
+  return {
+    ...config,
+    translate: {
+      ...translate,
+      mode: mode ?? translate.mode,
+      providerId: providerId ?? translate.providerId,
+      // The profile provider is the primary one now and must not be retried as its own fallback
+      fallbackProviderIds: providerId
+        ? translate.fallbackProviderIds.filter(id => id !== providerId)
+        : translate.fallbackProviderIds,
+      customPromptsConfig: promptId !== undefined
+        ? { ...translate.customPromptsConfig, promptId }
+        : translate.customPromptsConfig,
+      translationNodeStyle: translationNodeStyle ?? translate.translationNodeStyle,
+    },
+  }
+}
+
+// Translate settings the page commands switch, both of which a profile can override
+type SiteSwitchableSettings = Partial<Pick<TranslateConfig, 'mode' | 'providerId'>>
+
+export interface SiteSettingsUpdate {
+  config: Config
+  // Set when at least one setting went into the profile instead of the global config
+  profile?: SiteProfile
+}
+
+/**
+ * Saves settings switched on the page at `url` where they take effect there: a setting the
+ * matching profile overrides is changed in the profile, since the global value is ignored on the
+ * site, the others in the global config.
+ */
+export function withSiteTranslateSettings(
+  config: Config,
+  settings: SiteSwitchableSettings,
+  url: string = globalThis.location?.href ?? '',
+): SiteSettingsUpdate {
+  const profile = findSiteProfile(config.siteProfiles, url)
+  const entries = Object.entries(settings).filter(([, value]) => value !== undefined)
+  const isOverridden = ([key]: [string, unknown]) => profile?.overrides[key as keyof SiteSwitchableSettings] !== undefined
+  const profileSettings: SiteSwitchableSettings = Object.fromEntries(entries.filter(isOverridden))
+  const globalSettings: SiteSwitchableSettings = Object.fromEntries(entries.filter(entry => !isOverridden(entry)))
+
+  if (!profile || entries.every(entry => !isOverridden(entry)))
+    return { config: { ...config, translate: { ...config.translate, ...globalSettings } } }
+
+  const updatedProfile = { ...profile, overrides: { ...profile.overrides, ...profileSettings } }
+  return {
+    config: {
+      ...config,
+      translate: { ...config.translate, ...globalSettings },
+      siteProfiles: config.siteProfiles.map(p => p.id === profile.id ? updatedProfile : p),
+    },
+    profile: updatedProfile,
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Keyboard commands declared in the manifest. Unlike the in-page shortcuts they also work while
+ * the address bar has focus, and users remap them on the browser's shortcut settings page.
+ */
+export const EXTENSION_COMMANDS = {
+  togglePageTranslation: 'toggle-page-translation',
+  cycleTranslationMode: 'cycle-translation-mode',
+  openReadMode: 'open-read-mode',
+  translateClipboard: 'translate-clipboard',
+  nextTranslateProvider: 'next-translate-provider',
+} as const
+
+export type ExtensionCommand = typeof EXTENSION_COMMANDS[keyof typeof EXTENSION_COMMANDS]
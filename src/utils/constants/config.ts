@@ -6,18 +6,23 @@ import { DEFAULT_SIDE_CONTENT_WIDTH } from './side'
 import {
   DEFAULT_AUTO_TRANSLATE_SHORTCUT_KEY,
   DEFAULT_BATCH_CONFIG,
+  DEFAULT_COMPOSER_SHORTCUT_KEY,
+  DEFAULT_QUALITY_CHECK_THRESHOLD,
   DEFAULT_REQUEST_BASE_RETRY_DELAY_MS,
   DEFAULT_REQUEST_CAPACITY,
   DEFAULT_REQUEST_MAX_RETRIES,
   DEFAULT_REQUEST_RATE,
   DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_TRANSLATION_MEMORY_REFERENCE_THRESHOLD,
+  DEFAULT_TRANSLATION_MEMORY_REUSE_THRESHOLD,
 } from './translate'
 import { TRANSLATION_NODE_STYLE_ON_INSTALLED } from './translation-node-style'
 import { DEFAULT_TTS_CONFIG } from './tts'
+import { DEFAULT_MODEL_PRICES } from './usage'
 
 export const CONFIG_STORAGE_KEY = 'config'
 export const CONFIG_SCHEMA_VERSION_STORAGE_KEY = '__configSchemaVersion'
-export const CONFIG_SCHEMA_VERSION = 39
+export const CONFIG_SCHEMA_VERSION = 49
 
 export const DEFAULT_FLOATING_BUTTON_POSITION = 0.66
 
@@ -34,6 +39,7 @@ export const DEFAULT_CONFIG: Config = {
   },
   translate: {
     providerId: 'genai-default',
+    fallbackProviderIds: [],
     mode: 'bilingual',
     useGenAIBatching: true,
     node: {
@@ -66,6 +72,21 @@ export const DEFAULT_CONFIG: Config = {
       isCustom: false,
       customCSS: null,
     },
+    glossary: {
+      enabled: true,
+      checkMode: 'repair',
+      entries: [],
+    },
+    translationMemory: {
+      enabled: false,
+      reuseThreshold: DEFAULT_TRANSLATION_MEMORY_REUSE_THRESHOLD,
+      referenceThreshold: DEFAULT_TRANSLATION_MEMORY_REFERENCE_THRESHOLD,
+    },
+    qualityCheck: {
+      enabled: false,
+      method: 'backTranslation',
+      threshold: DEFAULT_QUALITY_CHECK_THRESHOLD,
+    },
   },
   tts: DEFAULT_TTS_CONFIG,
   floatingButton: {
@@ -80,9 +101,25 @@ export const DEFAULT_CONFIG: Config = {
   sideContent: {
     width: DEFAULT_SIDE_CONTENT_WIDTH,
   },
+  pdfViewer: {
+    interceptNavigation: false,
+  },
+  subtitles: {
+    enabledPatterns: [],
+  },
+  composer: {
+    enabled: true,
+    targetCode: 'eng',
+    shortcut: DEFAULT_COMPOSER_SHORTCUT_KEY,
+    tripleSpace: false,
+  },
   betaExperience: {
     enabled: false,
   },
+  siteProfiles: [],
+  usage: {
+    modelPrices: DEFAULT_MODEL_PRICES,
+  },
 }
 
 export const PAGE_TRANSLATE_RANGE_ITEMS: Record<
@@ -17,3 +17,9 @@ export const NOTRANSLATE_CLASS = 'notranslate'
 export const REACT_SHADOW_HOST_CLASS = 'read-frog-react-shadow-host'
 
 export const TRANSLATION_ERROR_CONTAINER_CLASS = 'read-frog-translation-error-container'
+export const TRANSLATION_QUALITY_CONTAINER_CLASS = 'read-frog-translation-quality-container'
+
+export const SIDE_BY_SIDE_ROW_CLASS = 'read-frog-side-by-side'
+export const SIDE_BY_SIDE_ORIGINAL_CLASS = 'read-frog-side-by-side-original'
+export const ORIGINAL_TOOLTIP_CLASS = 'read-frog-original-tooltip'
+export const PARAGRAPH_ACTIONS_CLASS = 'read-frog-paragraph-actions'
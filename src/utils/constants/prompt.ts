@@ -6,6 +6,12 @@ export const TOKENS = ['targetLang', 'input', 'title', 'summary'] as const
  */
 export const BATCH_SEPARATOR = '%%'
 
+/**
+ * Tag wrapping every text segment in structured batch translation, e.g. `<seg id="1">text</seg>`.
+ * The ids let a response with dropped or merged segments be matched back to the input.
+ */
+export const BATCH_SEGMENT_TAG = 'seg'
+
 export const TARGET_LANG = TOKENS[0]
 export const INPUT = TOKENS[1]
 export const TITLE = TOKENS[2]
@@ -31,6 +37,35 @@ export const DEFAULT_TRANSLATE_PROMPT = `Translate to ${getTokenCellText(TARGET_
 ${getTokenCellText(INPUT)}`
 
 export const DEFAULT_BATCH_TRANSLATE_PROMPT = `## Multi-paragraph Translation Rules
+1. If input contains <${BATCH_SEGMENT_TAG} id="..."> tags, translate the content of every tag and wrap each translation in a tag with the same id
+2. **CRITICAL**: Output exactly one tag for every input tag, keep the ids unchanged, never merge, split, skip or reorder tags
+3. Output nothing outside the tags
+
+## OUTPUT FORMAT:
+- **Single paragraph input** → Output translation directly (no tags, no extra text)
+- **Multi-paragraph input (input uses <${BATCH_SEGMENT_TAG}> tags)** → Output one <${BATCH_SEGMENT_TAG}> tag with the same id per input tag
+
+## Examples
+
+### Multi-paragraph Input:
+<${BATCH_SEGMENT_TAG} id="1">Paragraph A</${BATCH_SEGMENT_TAG}>
+<${BATCH_SEGMENT_TAG} id="2">Paragraph B</${BATCH_SEGMENT_TAG}>
+<${BATCH_SEGMENT_TAG} id="3">Paragraph C</${BATCH_SEGMENT_TAG}>
+
+### Multi-paragraph Output:
+<${BATCH_SEGMENT_TAG} id="1">Translation A</${BATCH_SEGMENT_TAG}>
+<${BATCH_SEGMENT_TAG} id="2">Translation B</${BATCH_SEGMENT_TAG}>
+<${BATCH_SEGMENT_TAG} id="3">Translation C</${BATCH_SEGMENT_TAG}>
+
+### Single paragraph Input:
+Single paragraph content
+
+### Single paragraph Output:
+Direct translation without tags
+`
+
+// For providers that follow the separator better than the tags
+export const SEPARATOR_BATCH_TRANSLATE_PROMPT = `## Multi-paragraph Translation Rules
 1. If input contains ${BATCH_SEPARATOR}, use ${BATCH_SEPARATOR} in your output, if input has no ${BATCH_SEPARATOR}, don't use ${BATCH_SEPARATOR} in your output
 2. **CRITICAL**: Preserve exact formatting around ${BATCH_SEPARATOR} - use exactly one empty line before and after, with no extra spaces, tabs, or whitespace
 
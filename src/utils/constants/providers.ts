@@ -441,6 +441,7 @@ export const DEFAULT_PROVIDER_CONFIG = {
     cookieBridge: {
       enabled: true,
       port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT,
+      pairingToken: '',
     },
     models: {
       read: DEFAULT_READ_MODELS.genai,
@@ -4,6 +4,7 @@ export const MIN_BATCH_CHARACTERS = 1
 export const MIN_BATCH_ITEMS = 1
 export const MIN_TRANSLATE_TIMEOUT_MS = 5_000
 export const MIN_TRANSLATE_RETRY_DELAY_MS = 100
+export const MIN_TRANSLATION_MEMORY_SIMILARITY = 0.5
 
 export const DEFAULT_REQUEST_RATE = 8
 export const DEFAULT_REQUEST_CAPACITY = 60
@@ -12,6 +13,12 @@ export const DEFAULT_REQUEST_MAX_RETRIES = 2
 export const DEFAULT_REQUEST_BASE_RETRY_DELAY_MS = 1_000
 export const MAX_TRANSLATE_RETRIES = 5
 
+export const DEFAULT_TRANSLATION_MEMORY_REUSE_THRESHOLD = 1
+export const DEFAULT_TRANSLATION_MEMORY_REFERENCE_THRESHOLD = 0.8
+
+export const QUALITY_CHECK_MAX_SCORE = 100
+export const DEFAULT_QUALITY_CHECK_THRESHOLD = 60
+
 export const DEFAULT_MAX_CHARACTER_PER_BATCH = 9000
 export const DEFAULT_MAX_ITEMS_PER_BATCH = 8
 
@@ -21,3 +28,4 @@ export const DEFAULT_BATCH_CONFIG = {
 }
 
 export const DEFAULT_AUTO_TRANSLATE_SHORTCUT_KEY = ['alt', 'e']
+export const DEFAULT_COMPOSER_SHORTCUT_KEY = ['alt', 'r']
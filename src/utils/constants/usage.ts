@@ -0,0 +1,21 @@
+import type { ModelPrice } from '@/types/config/usage'
+
+export const LLM_USAGE_FEATURES = ['translate', 'summary', 'analyze', 'explain', 'wordExplain', 'languageDetection', 'qualityCheck'] as const
+
+// Public list prices in USD per million tokens; edit them in Statistics when the provider changes its pricing
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-5', inputCostPerMillionTokens: 1.25, outputCostPerMillionTokens: 10 },
+  { model: 'gpt-5-mini', inputCostPerMillionTokens: 0.25, outputCostPerMillionTokens: 2 },
+  { model: 'gpt-5-nano', inputCostPerMillionTokens: 0.05, outputCostPerMillionTokens: 0.4 },
+  { model: 'gpt-4.1', inputCostPerMillionTokens: 2, outputCostPerMillionTokens: 8 },
+  { model: 'gpt-4.1-mini', inputCostPerMillionTokens: 0.4, outputCostPerMillionTokens: 1.6 },
+  { model: 'gpt-4.1-nano', inputCostPerMillionTokens: 0.1, outputCostPerMillionTokens: 0.4 },
+  { model: 'gpt-4o', inputCostPerMillionTokens: 2.5, outputCostPerMillionTokens: 10 },
+  { model: 'gpt-4o-mini', inputCostPerMillionTokens: 0.15, outputCostPerMillionTokens: 0.6 },
+  { model: 'deepseek-chat', inputCostPerMillionTokens: 0.28, outputCostPerMillionTokens: 0.42 },
+  { model: 'gemini-2.5-pro', inputCostPerMillionTokens: 1.25, outputCostPerMillionTokens: 10 },
+  { model: 'gemini-2.5-flash', inputCostPerMillionTokens: 0.3, outputCostPerMillionTokens: 2.5 },
+  { model: 'claude-sonnet-4-5', inputCostPerMillionTokens: 3, outputCostPerMillionTokens: 15 },
+  { model: 'claude-opus-4-1', inputCostPerMillionTokens: 15, outputCostPerMillionTokens: 75 },
+  { model: 'claude-3-5-haiku-latest', inputCostPerMillionTokens: 0.8, outputCostPerMillionTokens: 4 },
+]
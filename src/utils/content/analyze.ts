@@ -5,11 +5,12 @@ import { generateText } from 'ai'
 import { franc } from 'franc-min'
 import z from 'zod'
 import { flattenToParagraphs } from '@/entrypoints/side.content/utils/article'
-import { isGenAIProviderConfig, isLLMTranslateProviderConfig } from '@/types/config/provider'
+import { isLLMTranslateProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { sessionProviderGenerateText } from '@/utils/session-provider/chat'
 import { getConfigFromStorage } from '../config/config'
 import { getProviderConfigById } from '../config/helpers'
 import { getProviderOptions } from '../constants/model'
-import { genaiGenerateText } from '../genai/client'
+import { recordLLMUsage } from '../llm-usage/record'
 import { logger } from '../logger'
 import { getTranslateModelById } from '../providers/model'
 import { cleanText, removeDummyNodes } from './utils'
@@ -140,7 +141,7 @@ ${text}
 
 Remember: Return ONLY the ISO 639-3 code (3 lowercase letters or "und").`
 
-    const isGenAI = isGenAIProviderConfig(providerConfig)
+    const isGenAI = isSessionProviderConfig(providerConfig)
     let providerOptions: ReturnType<typeof getProviderOptions> | undefined
     let model: Awaited<ReturnType<typeof getTranslateModelById>> | undefined
 
@@ -156,7 +157,7 @@ Remember: Return ONLY the ISO 639-3 code (3 lowercase letters or "und").`
         let responseText = ''
 
         if (isGenAI) {
-          responseText = await genaiGenerateText(prompt, providerConfig, { modelType: 'translate' })
+          responseText = await sessionProviderGenerateText(prompt, providerConfig, { modelType: 'translate' })
         }
         else {
           const result = await generateText({
@@ -164,6 +165,7 @@ Remember: Return ONLY the ISO 639-3 code (3 lowercase letters or "und").`
             prompt,
             providerOptions,
           })
+          void recordLLMUsage({ feature: 'languageDetection', providerConfig, modelType: 'translate' }, result.usage)
           responseText = result.text
         }
 
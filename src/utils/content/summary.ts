@@ -1,10 +1,11 @@
 import type { LLMTranslateProviderConfig } from '@/types/config/provider'
 import { generateText } from 'ai'
-import { isGenAIProviderConfig } from '@/types/config/provider'
+import { isSessionProviderConfig } from '@/types/config/provider'
 import { getProviderOptions } from '@/utils/constants/model'
-import { genaiGenerateText } from '@/utils/genai/client'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { logger } from '@/utils/logger'
 import { getTranslateModelById } from '@/utils/providers/model'
+import { sessionProviderGenerateText } from '@/utils/session-provider/chat'
 import { cleanText } from './utils'
 
 /**
@@ -31,8 +32,8 @@ ${preparedText}`
 
     let summary = ''
 
-    if (isGenAIProviderConfig(providerConfig)) {
-      summary = await genaiGenerateText(prompt, providerConfig, { modelType: 'translate' })
+    if (isSessionProviderConfig(providerConfig)) {
+      summary = await sessionProviderGenerateText(prompt, providerConfig, { modelType: 'translate' })
     }
     else {
       const { models: { translate } } = providerConfig
@@ -45,6 +46,7 @@ ${preparedText}`
         prompt,
         providerOptions,
       })
+      void recordLLMUsage({ feature: 'summary', providerConfig, modelType: 'translate' }, result.usage)
       summary = result.text
     }
 
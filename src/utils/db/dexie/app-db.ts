@@ -5,7 +5,9 @@ import { APP_NAME } from '@/utils/constants/app'
 import ArticleSummaryCache from './tables/article-summary-cache'
 import BatchRequestRecord from './tables/batch-request-record'
 import GenAIReliabilityLog from './tables/genai-reliability-log'
+import LLMUsageRecord from './tables/llm-usage-record'
 import TranslationCache from './tables/translation-cache'
+import TranslationMemory from './tables/translation-memory'
 
 export default class AppDB extends Dexie {
   translationCache!: EntityTable<
@@ -28,6 +30,16 @@ export default class AppDB extends Dexie {
     'key'
   >
 
+  llmUsageRecord!: EntityTable<
+    LLMUsageRecord,
+    'key'
+  >
+
+  translationMemory!: EntityTable<
+    TranslationMemory,
+    'key'
+  >
+
   constructor() {
     super(`${upperCamelCase(APP_NAME)}DB`)
     this.version(1).stores({
@@ -84,9 +96,93 @@ export default class AppDB extends Dexie {
         providerId,
         responseCode`,
     })
+    this.version(5).stores({
+      translationCache: `
+        key,
+        translation,
+        createdAt,
+        providerId`,
+      batchRequestRecord: `
+        key,
+        createdAt,
+        originalRequestCount,
+        provider,
+        model`,
+      articleSummaryCache: `
+        key,
+        createdAt`,
+      genaiReliabilityLog: `
+        key,
+        createdAt,
+        eventType,
+        providerId,
+        responseCode`,
+    })
+    this.version(6).stores({
+      translationCache: `
+        key,
+        translation,
+        createdAt,
+        providerId`,
+      batchRequestRecord: `
+        key,
+        createdAt,
+        originalRequestCount,
+        provider,
+        model`,
+      articleSummaryCache: `
+        key,
+        createdAt`,
+      genaiReliabilityLog: `
+        key,
+        createdAt,
+        eventType,
+        providerId,
+        responseCode`,
+      llmUsageRecord: `
+        key,
+        createdAt,
+        feature,
+        providerId,
+        model`,
+    })
+    this.version(7).stores({
+      translationCache: `
+        key,
+        translation,
+        createdAt,
+        providerId`,
+      batchRequestRecord: `
+        key,
+        createdAt,
+        originalRequestCount,
+        provider,
+        model`,
+      articleSummaryCache: `
+        key,
+        createdAt`,
+      genaiReliabilityLog: `
+        key,
+        createdAt,
+        eventType,
+        providerId,
+        responseCode`,
+      llmUsageRecord: `
+        key,
+        createdAt,
+        feature,
+        providerId,
+        model`,
+      translationMemory: `
+        key,
+        [targetCode+length],
+        lastUsedAt`,
+    })
     this.translationCache.mapToClass(TranslationCache)
     this.batchRequestRecord.mapToClass(BatchRequestRecord)
     this.articleSummaryCache.mapToClass(ArticleSummaryCache)
     this.genaiReliabilityLog.mapToClass(GenAIReliabilityLog)
+    this.llmUsageRecord.mapToClass(LLMUsageRecord)
+    this.translationMemory.mapToClass(TranslationMemory)
   }
 }
@@ -1,7 +1,14 @@
 import { Entity } from 'dexie'
 
 export default class ArticleSummaryCache extends Entity {
-  key!: string // Sha256Hex(textContentHash, JSON.stringify(providerConfig))
+  key!: string // Sha256Hex(textContentHash, getProviderCacheIdentity(providerConfig))
   summary!: string
   createdAt!: Date
+  // Article title and provider, missing on entries written before the cache browser existed
+  articleTitle?: string
+  providerId?: string
+  // Pinned entries survive the age-based cleanup
+  pinned?: boolean
+  // Set when the summary was corrected by hand in the cache browser
+  editedAt?: Date
 }
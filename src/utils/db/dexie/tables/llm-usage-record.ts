@@ -0,0 +1,17 @@
+import type { LLM_USAGE_FEATURES } from '@/utils/constants/usage'
+import { Entity } from 'dexie'
+
+export type LLMUsageFeature = typeof LLM_USAGE_FEATURES[number]
+
+export default class LLMUsageRecord extends Entity {
+  key!: string
+  createdAt!: Date
+  feature!: LLMUsageFeature
+  providerId!: string
+  provider!: string
+  model!: string
+  inputTokens!: number
+  outputTokens!: number
+  // Estimated USD cost from the price table at the time of the call, null when the model has no price
+  cost!: number | null
+}
@@ -1,7 +1,22 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { TranslationQuality } from '@/types/translation-quality'
 import { Entity } from 'dexie'
 
 export default class TranslationCache extends Entity {
   key!: string
   translation!: string
   createdAt!: Date
+  // Provider that produced the translation, missing on entries written before fallbacks existed
+  providerId?: string
+  // Source text and target language, missing on entries written before the cache browser existed
+  sourceText?: string
+  targetCode?: LangCodeISO6393
+  // Pinned entries survive the age-based cleanup
+  pinned?: boolean
+  // Set when the translation was corrected by hand in the cache browser
+  editedAt?: Date
+  // Set by the quality check, replaced along with the translation
+  quality?: TranslationQuality
+  // Set when the translation was reported as bad on the page, it is then translated again instead of reused
+  reportedAt?: Date
 }
@@ -0,0 +1,17 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import { Entity } from 'dexie'
+
+export default class TranslationMemory extends Entity {
+  // Sha256Hex(targetCode, outputId, source text with whitespace collapsed and numbers masked)
+  key!: string
+  sourceText!: string
+  translation!: string
+  targetCode!: LangCodeISO6393
+  // Length of the masked source text, used to narrow the similarity search
+  length!: number
+  // Hash of the source language, provider identity and prompt the translation was made with
+  outputId!: string
+  providerId!: string
+  createdAt!: Date
+  lastUsedAt!: Date
+}
@@ -113,6 +113,36 @@ describe('readEventStream', () => {
       fallbackContent: 'hello',
     })
   })
+
+  it('reports the accumulated text to onText as chunks arrive', async () => {
+    const response = createSSEStream([
+      'data: {"guid":"abc","event_status":"CHUNK","content":"Hel"}',
+      '',
+      'data: {"guid":"abc","event_status":"CHUNK","content":"lo"}',
+      '',
+      'data: {"guid":"abc","event_status":"CHUNK","response_code":"R20000","content":""}',
+      '',
+    ].join('\r\n'))
+    const onText = vi.fn()
+
+    await readEventStream(response, { onText })
+    expect(onText.mock.calls).toEqual([['Hel'], ['Hello']])
+  })
+
+  it('holds back streamed text until the think block closes', async () => {
+    const response = createSSEStream([
+      'data: {"guid":"abc","event_status":"CHUNK","content":"<think>plan"}',
+      '',
+      'data: {"guid":"abc","event_status":"CHUNK","content":"</think> Bonjour"}',
+      '',
+      'data: {"guid":"abc","event_status":"CHUNK","response_code":"R20000","content":""}',
+      '',
+    ].join('\r\n'))
+    const onText = vi.fn()
+
+    await readEventStream(response, { onText })
+    expect(onText.mock.calls).toEqual([['Bonjour']])
+  })
 })
 
 describe('parseGuidsFromRawSSE', () => {
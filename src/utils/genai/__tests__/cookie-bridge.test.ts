@@ -0,0 +1,175 @@
+import type { GenAICookieBridgeCookie } from '../cookie-bridge'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkCookieBridgeHealth,
+  GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION,
+  GenAICookieBridgeError,
+  generateCookieBridgePairingToken,
+  getCookieBridgeRetryDelay,
+  pushCookiesToBridge,
+  signCookieBridgePush,
+} from '../cookie-bridge'
+import { createGenAICookieBridgeReceiver } from '../cookie-bridge-receiver'
+
+const TOKEN = 'a'.repeat(48)
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function createReceiverFetch(onCookies: (cookies: GenAICookieBridgeCookie[]) => void = () => {}): typeof fetch {
+  const receiver = createGenAICookieBridgeReceiver({ token: TOKEN, onCookies })
+  return async (input, init) => await receiver(new Request(input, init))
+}
+
+function isCookiesRequest(input: Parameters<typeof fetch>[0]) {
+  return String(input).endsWith('/cookies')
+}
+
+describe('cookie bridge protocol (end-to-end)', () => {
+  const port = 17891
+  let received: GenAICookieBridgeCookie[][]
+  let fetchImpl: typeof fetch
+
+  beforeEach(() => {
+    received = []
+    fetchImpl = createReceiverFetch((cookies) => {
+      received.push(cookies)
+    })
+  })
+
+  it('completes the health handshake with a paired token', async () => {
+    const health = await checkCookieBridgeHealth({ port, token: TOKEN, fetchImpl })
+
+    expect(health).toMatchObject({
+      protocol: 'read-frog-cookie-bridge',
+      version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION,
+      paired: true,
+    })
+    expect(health.challenge).toMatch(/^[0-9a-f]+$/)
+  })
+
+  it('rejects a wrong pairing token without retrying', async () => {
+    const sleep = vi.fn(async () => {})
+
+    await expect(checkCookieBridgeHealth({ port, token: 'wrong', fetchImpl })).rejects.toMatchObject({ unpaired: true, retryable: false })
+    await expect(pushCookiesToBridge({ port, token: 'wrong', cookies: [{ name: 'a', value: '1' }], fetchImpl, sleep }))
+      .rejects
+      .toBeInstanceOf(GenAICookieBridgeError)
+    expect(sleep).not.toHaveBeenCalled()
+    expect(received).toEqual([])
+  })
+
+  it('sends no cookies to a receiver that cannot prove the pairing token', async () => {
+    const requests: Request[] = []
+    const impostorFetch: typeof fetch = async (input, init) => {
+      requests.push(new Request(input, init))
+      return jsonResponse({ protocol: 'read-frog-cookie-bridge', version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION, paired: true, proof: 'f'.repeat(64), challenge: 'a'.repeat(32) })
+    }
+
+    await expect(pushCookiesToBridge({ port, token: TOKEN, cookies: [{ name: 'SESSION', value: 'abc' }], fetchImpl: impostorFetch }))
+      .rejects
+      .toMatchObject({ unpaired: true, retryable: false })
+    expect(requests.map(request => new URL(request.url).pathname)).toEqual(['/health'])
+    expect([...requests[0].headers.values()].some(value => value.includes(TOKEN))).toBe(false)
+  })
+
+  it('never sends the raw pairing token', async () => {
+    const requests: Request[] = []
+    const recordingFetch: typeof fetch = async (input, init) => {
+      requests.push(new Request(input, init))
+      return await fetchImpl(input, init)
+    }
+
+    await pushCookiesToBridge({ port, token: TOKEN, cookies: [{ name: 'SESSION', value: 'abc' }], fetchImpl: recordingFetch })
+
+    expect(requests).toHaveLength(2)
+    for (const request of requests) {
+      expect([...request.headers.values()].some(value => value.includes(TOKEN))).toBe(false)
+      expect(await request.text()).not.toContain(TOKEN)
+    }
+  })
+
+  it('rejects pushes with a forged signature or a reused challenge', async () => {
+    const post = (challenge: string, signature: string, body: string) => fetchImpl(`http://127.0.0.1:${port}/cookies`, {
+      method: 'POST',
+      headers: {
+        'X-Read-Frog-Bridge-Version': String(GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION),
+        'X-Read-Frog-Bridge-Challenge': challenge,
+        'X-Read-Frog-Bridge-Signature': signature,
+      },
+      body,
+    })
+    const body = JSON.stringify({ version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION, source: 'read-frog', pushId: 'push', sentAt: 0, cookies: [] })
+    const { challenge } = await checkCookieBridgeHealth({ port, token: TOKEN, fetchImpl })
+
+    expect((await post(challenge, await signCookieBridgePush('wrong', challenge, body), body)).status).toBe(401)
+    const { challenge: nextChallenge } = await checkCookieBridgeHealth({ port, token: TOKEN, fetchImpl })
+    const signature = await signCookieBridgePush(TOKEN, nextChallenge, body)
+    expect((await post(nextChallenge, signature, body)).status).toBe(200)
+    expect((await post(nextChallenge, signature, body)).status).toBe(401)
+  })
+
+  it('delivers cookies and verifies the acknowledgement', async () => {
+    const cookies = [{ name: 'SESSION', value: 'abc' }, { name: 'XSRF', value: 'def' }]
+
+    const ack = await pushCookiesToBridge({ port, token: TOKEN, cookies, fetchImpl })
+
+    expect(ack.ok).toBe(true)
+    expect(ack.received).toBe(2)
+    expect(received).toEqual([cookies])
+  })
+
+  it('rejects clients speaking another protocol version', async () => {
+    const versionedFetch: typeof fetch = async (input, init) => {
+      const headers = new Headers(init?.headers)
+      headers.set('X-Read-Frog-Bridge-Version', '0')
+      return await fetchImpl(input, { ...init, headers })
+    }
+
+    await expect(checkCookieBridgeHealth({ port, token: TOKEN, fetchImpl: versionedFetch }))
+      .rejects
+      .toMatchObject({ status: 426, retryable: false })
+  })
+})
+
+describe('pushCookiesToBridge retries', () => {
+  it('retries transient failures with exponential backoff', async () => {
+    const sleep = vi.fn(async () => {})
+    const receiverFetch = createReceiverFetch()
+    const fetchImpl = vi.fn<typeof fetch>(receiverFetch)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockImplementationOnce(receiverFetch)
+      .mockResolvedValueOnce(jsonResponse({ ok: false }, 503))
+
+    const ack = await pushCookiesToBridge({ port: 1, token: TOKEN, cookies: [{ name: 'a', value: '1' }], fetchImpl, sleep })
+
+    expect(ack.received).toBe(1)
+    // A failed health call, then health and a failed push, then health and the push
+    expect(fetchImpl).toHaveBeenCalledTimes(5)
+    expect(sleep.mock.calls).toEqual([[getCookieBridgeRetryDelay(1)], [getCookieBridgeRetryDelay(2)]])
+    expect(getCookieBridgeRetryDelay(2)).toBe(getCookieBridgeRetryDelay(1) * 2)
+  })
+
+  it('treats a mismatched acknowledgement as a failed push', async () => {
+    const receiverFetch = createReceiverFetch()
+    const fetchImpl = vi.fn<typeof fetch>(async (input, init) => isCookiesRequest(input)
+      ? jsonResponse({ ok: true, pushId: 'other', received: 1 })
+      : await receiverFetch(input, init))
+
+    await expect(pushCookiesToBridge({ port: 1, token: TOKEN, cookies: [{ name: 'a', value: '1' }], fetchImpl, maxAttempts: 2, sleep: async () => {} }))
+      .rejects
+      .toThrow('acknowledged a different push')
+    expect(fetchImpl.mock.calls.filter(([input]) => isCookiesRequest(input))).toHaveLength(2)
+  })
+
+  it('generates distinct hex pairing tokens', () => {
+    const first = generateCookieBridgePairingToken()
+
+    expect(first).toMatch(/^[0-9a-f]{48}$/)
+    expect(generateCookieBridgePairingToken()).not.toBe(first)
+  })
+})
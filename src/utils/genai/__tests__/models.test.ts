@@ -0,0 +1,92 @@
+import { storage } from '#imports'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { __private__ as clientPrivate } from '../client'
+import { GENAI_DEFAULT_MODEL_GUID, GENAI_MODEL_CATALOG_TTL_MS } from '../constants'
+import { __private__, extractGenAIModels, getGenAIModelCatalog, resolveGenAIModelGuid, saveGenAIModelCatalog } from '../models'
+
+const { ensureGenAIModelCatalog } = clientPrivate
+
+const baseURL = 'https://genai.example.com'
+const CLAUDE_GUID = '0199aaaa-bbbb-7ccc-8ddd-eeeeffff0000'
+const QWEN_GUID = '0199aaaa-bbbb-7ccc-8ddd-eeeeffff0001'
+
+function createJsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+beforeEach(async () => {
+  __private__.clearModelCatalogCacheForTest()
+  await storage.removeItem('local:genai_model_catalog')
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+describe('extractGenAIModels', () => {
+  it('accepts wrapped lists and alternative field names', () => {
+    expect(extractGenAIModels({ content: [{ guid: CLAUDE_GUID, title: 'Claude' }] }))
+      .toEqual([{ title: 'Claude', guid: CLAUDE_GUID }])
+    expect(extractGenAIModels({ data: [{ modelGuid: QWEN_GUID, modelName: 'Qwen3' }] }))
+      .toEqual([{ title: 'Qwen3', guid: QWEN_GUID }])
+  })
+
+  it('skips entries without a guid or title and duplicate titles', () => {
+    expect(extractGenAIModels([
+      { guid: CLAUDE_GUID, title: 'Claude' },
+      { guid: QWEN_GUID, title: 'Claude' },
+      { title: 'No guid' },
+      null,
+    ])).toEqual([{ title: 'Claude', guid: CLAUDE_GUID }])
+    expect(extractGenAIModels({ unexpected: true })).toEqual([])
+  })
+})
+
+describe('resolveGenAIModelGuid', () => {
+  it('resolves discovered and custom model names case-insensitively', async () => {
+    await saveGenAIModelCatalog(baseURL, [{ title: 'Claude Sonnet', guid: CLAUDE_GUID }])
+
+    expect(resolveGenAIModelGuid('Claude Sonnet', baseURL)).toBe(CLAUDE_GUID)
+    expect(resolveGenAIModelGuid(' claude sonnet ', baseURL)).toBe(CLAUDE_GUID)
+    expect(resolveGenAIModelGuid('Claude Sonnet', 'https://other.example.com')).toBe(GENAI_DEFAULT_MODEL_GUID)
+  })
+
+  it('uses GUIDs verbatim and falls back to the default model', () => {
+    expect(resolveGenAIModelGuid(QWEN_GUID)).toBe(QWEN_GUID)
+    expect(resolveGenAIModelGuid('Unknown model')).toBe(GENAI_DEFAULT_MODEL_GUID)
+    expect(resolveGenAIModelGuid(null)).toBe(GENAI_DEFAULT_MODEL_GUID)
+  })
+})
+
+describe('ensureGenAIModelCatalog', () => {
+  it('fetches once and serves the cached catalog until it goes stale', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+      createJsonResponse({ content: [{ guid: CLAUDE_GUID, title: 'Claude' }] }),
+    )
+
+    await expect(ensureGenAIModelCatalog(baseURL)).resolves.toEqual([{ title: 'Claude', guid: CLAUDE_GUID }])
+    await ensureGenAIModelCatalog(baseURL)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe(`${baseURL}/api/chat/v1/models`)
+
+    vi.setSystemTime(Date.now() + GENAI_MODEL_CATALOG_TTL_MS + 1)
+    await ensureGenAIModelCatalog(baseURL)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps the cached models when a background refresh fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await saveGenAIModelCatalog(baseURL, [{ title: 'Claude', guid: CLAUDE_GUID }])
+    vi.setSystemTime(Date.now() + GENAI_MODEL_CATALOG_TTL_MS + 1)
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'))
+
+    await expect(ensureGenAIModelCatalog(baseURL)).resolves.toEqual([{ title: 'Claude', guid: CLAUDE_GUID }])
+    await expect(ensureGenAIModelCatalog(baseURL, { force: true })).rejects.toThrow('Failed to fetch')
+    await expect(getGenAIModelCatalog(baseURL)).resolves.toMatchObject({ models: [{ title: 'Claude', guid: CLAUDE_GUID }] })
+  })
+})
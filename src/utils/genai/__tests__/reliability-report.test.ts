@@ -0,0 +1,100 @@
+import type BatchRequestRecord from '@/utils/db/dexie/tables/batch-request-record'
+import type GenAIReliabilityLog from '@/utils/db/dexie/tables/genai-reliability-log'
+import { describe, expect, it } from 'vitest'
+import {
+  buildGenAIModelBreakdown,
+  buildGenAIReliabilityDailySeries,
+  buildGenAIResponseCodeHistogram,
+  calculateGenAIFallbackDurationPercentiles,
+  genaiReliabilityLogsToCsv,
+} from '../reliability-report'
+
+function createLog(overrides: Partial<GenAIReliabilityLog>): GenAIReliabilityLog {
+  return {
+    key: crypto.randomUUID(),
+    createdAt: new Date(2025, 0, 1, 12),
+    eventType: 'batch-retry',
+    providerId: 'genai-default',
+    modelType: 'translate',
+    model: 'GPT-OSS',
+    responseCode: null,
+    reason: null,
+    retryCount: null,
+    durationMs: null,
+    metadata: null,
+    ...overrides,
+  } as GenAIReliabilityLog
+}
+
+function createBatchRecord(createdAt: Date): BatchRequestRecord {
+  return { key: crypto.randomUUID(), createdAt, originalRequestCount: 3, provider: 'genai', model: 'GPT-OSS' } as BatchRequestRecord
+}
+
+describe('genai reliability report', () => {
+  it('computes daily retry and fallback rates against batch requests', () => {
+    const day1 = new Date(2025, 0, 1, 10)
+    const day2 = new Date(2025, 0, 2, 10)
+    const logs = [
+      createLog({ createdAt: day1, eventType: 'batch-retry' }),
+      createLog({ createdAt: day1, eventType: 'batch-fallback', durationMs: 100 }),
+      createLog({ createdAt: day2, eventType: 'messages-response-cancel' }),
+    ]
+    const batchRecords = [createBatchRecord(day1), createBatchRecord(day1), createBatchRecord(day1), createBatchRecord(day1)]
+
+    expect(buildGenAIReliabilityDailySeries(logs, batchRecords)).toEqual([
+      { date: '2025-01-01', batchCount: 4, retryCount: 1, fallbackCount: 1, cancelCount: 0, retryRate: 0.25, fallbackRate: 0.25 },
+      { date: '2025-01-02', batchCount: 0, retryCount: 0, fallbackCount: 0, cancelCount: 1, retryRate: null, fallbackRate: null },
+    ])
+  })
+
+  it('groups response codes with missing codes as unknown', () => {
+    const logs = [
+      createLog({ responseCode: 'R50004' }),
+      createLog({ responseCode: 'R50004' }),
+      createLog({ responseCode: null }),
+    ]
+
+    expect(buildGenAIResponseCodeHistogram(logs)).toEqual([
+      { responseCode: 'R50004', count: 2 },
+      { responseCode: 'unknown', count: 1 },
+    ])
+  })
+
+  it('computes nearest-rank percentiles of fallback durations', () => {
+    const logs = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000].map(durationMs =>
+      createLog({ eventType: 'batch-fallback', durationMs }),
+    )
+    logs.push(createLog({ eventType: 'batch-retry', durationMs: 99999 }))
+
+    expect(calculateGenAIFallbackDurationPercentiles(logs, [50, 90, 99])).toEqual([
+      { percentile: 50, durationMs: 500 },
+      { percentile: 90, durationMs: 900 },
+      { percentile: 99, durationMs: 1000 },
+    ])
+    expect(calculateGenAIFallbackDurationPercentiles([])).toEqual([])
+  })
+
+  it('breaks events down by model and model type', () => {
+    const logs = [
+      createLog({ eventType: 'batch-retry' }),
+      createLog({ eventType: 'batch-fallback' }),
+      createLog({ eventType: 'messages-response-cancel', modelType: 'read', metadata: { success: false } }),
+    ]
+
+    expect(buildGenAIModelBreakdown(logs)).toEqual([
+      { model: 'GPT-OSS', modelType: 'translate', retryCount: 1, fallbackCount: 1, cancelCount: 0, failedCancelCount: 0 },
+      { model: 'GPT-OSS', modelType: 'read', retryCount: 0, fallbackCount: 0, cancelCount: 1, failedCancelCount: 1 },
+    ])
+  })
+
+  it('exports logs as escaped CSV', () => {
+    const csv = genaiReliabilityLogsToCsv([
+      createLog({ createdAt: new Date('2025-01-01T00:00:00.000Z'), reason: 'said "no", twice', metadata: { a: 1 } }),
+    ])
+
+    expect(csv.split('\n')).toEqual([
+      'createdAt,eventType,providerId,modelType,model,responseCode,reason,retryCount,durationMs,metadata',
+      '2025-01-01T00:00:00.000Z,batch-retry,genai-default,translate,GPT-OSS,,"said ""no"", twice",,,"{""a"":1}"',
+    ])
+  })
+})
@@ -1,7 +1,8 @@
 import type { GenAIProviderConfig } from '@/types/config/provider'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { GENAI_COOKIE_BRIDGE_DEFAULT_PORT } from '@/utils/constants/providers'
-import { GENAI_DEFAULT_BASE_URL, GENAI_SESSION_RETRY_INTERVAL_MS } from '../constants'
+import { SESSION_RETRY_INTERVAL_MS } from '@/utils/session-provider/session'
+import { GENAI_DEFAULT_BASE_URL } from '../constants'
 import { ensureGenAISession } from '../session'
 
 const tabsCreate = vi.fn()
@@ -48,6 +49,7 @@ const baseConfig: GenAIProviderConfig = {
   cookieBridge: {
     enabled: false,
     port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT,
+    pairingToken: '',
   },
   models: {
     read: {
@@ -104,7 +106,7 @@ describe('ensureGenAISession', () => {
 
     const promise = ensureGenAISession(baseConfig)
 
-    await vi.advanceTimersByTimeAsync(GENAI_SESSION_RETRY_INTERVAL_MS * 2)
+    await vi.advanceTimersByTimeAsync(SESSION_RETRY_INTERVAL_MS * 2)
     const baseURL = await promise
 
     expect(baseURL).toBe(GENAI_DEFAULT_BASE_URL)
@@ -125,7 +127,7 @@ describe('ensureGenAISession', () => {
 
     const promise = ensureGenAISession(baseConfig)
 
-    await vi.advanceTimersByTimeAsync(GENAI_SESSION_RETRY_INTERVAL_MS)
+    await vi.advanceTimersByTimeAsync(SESSION_RETRY_INTERVAL_MS)
     const baseURL = await promise
 
     expect(baseURL).toBe(GENAI_DEFAULT_BASE_URL)
@@ -149,7 +151,7 @@ describe('ensureGenAISession', () => {
 
     const promise = ensureGenAISession(baseConfig)
 
-    await vi.advanceTimersByTimeAsync(GENAI_SESSION_RETRY_INTERVAL_MS * 2)
+    await vi.advanceTimersByTimeAsync(SESSION_RETRY_INTERVAL_MS * 2)
     const baseURL = await promise
 
     expect(baseURL).toBe(GENAI_DEFAULT_BASE_URL)
@@ -170,7 +172,7 @@ describe('ensureGenAISession', () => {
 
     const promise = ensureGenAISession(baseConfig)
 
-    await vi.advanceTimersByTimeAsync(GENAI_SESSION_RETRY_INTERVAL_MS)
+    await vi.advanceTimersByTimeAsync(SESSION_RETRY_INTERVAL_MS)
     const baseURL = await promise
 
     expect(baseURL).toBe(GENAI_DEFAULT_BASE_URL)
@@ -1,43 +1,16 @@
 import type { EventSourceMessage } from 'eventsource-parser'
-import type { GenAIChatLease, GenAIChatPurpose } from './chat-pool'
+import type { GenAIModelInfo } from './models'
 import type { GenAIProviderConfig } from '@/types/config/provider'
-import type { ArticleContent } from '@/types/content'
-import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { SessionProviderAdapter, SessionTextListener } from '@/utils/session-provider/types'
 import { createParser } from 'eventsource-parser'
-import { logGenAIReliabilityEvent } from '@/utils/genai/telemetry'
 import { logger } from '@/utils/logger'
-import { getTranslatePrompt } from '@/utils/prompts/translate'
-import { acquireGenAIChat, scaleGenAIChatPool } from './chat-pool'
-import { GENAI_ENDPOINTS, GENAI_MESSAGE_POLL_INTERVAL_MS, GENAI_MESSAGE_POLL_MAX_BACKOFF_MULTIPLIER, GENAI_MESSAGE_POLL_TIMEOUT_MS, GENAI_STREAM_COMPLETE_EVENTS } from './constants'
+import { createAbortError, SessionChatBusyError, throwIfAborted } from '@/utils/session-provider/errors'
+import { normalizePartialAssistantResponse } from '@/utils/session-provider/response'
+import { GENAI_DEFAULT_BASE_URL, GENAI_ENDPOINTS, GENAI_MESSAGE_POLL_INTERVAL_MS, GENAI_MESSAGE_POLL_MAX_BACKOFF_MULTIPLIER, GENAI_MESSAGE_POLL_TIMEOUT_MS, GENAI_STREAM_COMPLETE_EVENTS } from './constants'
 import { fetchWithGenAIFallback } from './http'
-import { resolveGenAIModelGuid } from './models'
-import { registerActiveGenAIRequest } from './request-registry'
-import { ensureGenAISession } from './session'
-
-const GENAI_CHAT_MAX_RECOVERY_ATTEMPTS = 3
-
-function createAbortError(message: string): Error {
-  if (typeof DOMException !== 'undefined')
-    return new DOMException(message, 'AbortError')
-  const error = new Error(message)
-  error.name = 'AbortError'
-  return error
-}
-
-function isAbortError(error: unknown): error is DOMException | Error {
-  if (!error)
-    return false
-  if (error instanceof DOMException)
-    return error.name === 'AbortError'
-  if (error instanceof Error)
-    return error.name === 'AbortError'
-  return false
-}
-
-function throwIfAborted(signal?: AbortSignal) {
-  if (signal?.aborted)
-    throw (signal.reason instanceof Error ? signal.reason : createAbortError('GenAI request aborted'))
-}
+import { extractGenAIModels, getGenAIModelCatalog, isGenAIModelCatalogStale, resolveGenAIModelGuid, saveGenAIModelCatalog } from './models'
+import { checkGenAISession, ensureGenAISession, GENAI_DISPLAY_NAME } from './session'
+import { logGenAIReliabilityEvent } from './telemetry'
 
 class GenAIHttpError extends Error {
   status: number
@@ -53,34 +26,17 @@ class GenAIHttpError extends Error {
   }
 }
 
-class GenAIPendingResponseError extends Error {
-  code: string | null | undefined
-
+class GenAIPendingResponseError extends SessionChatBusyError {
   constructor(code?: string | null) {
-    super('[GenAI] Previous response is still processing')
+    super('[GenAI] Previous response is still processing', code)
     this.name = 'GenAIPendingResponseError'
-    this.code = code
   }
 }
 
-type ModelType = 'read' | 'translate'
-
 function joinURL(baseURL: string, path: string) {
   return `${baseURL.replace(/\/$/, '')}${path}`
 }
 
-function getModelName(providerConfig: GenAIProviderConfig, type: ModelType): string | null | undefined {
-  const modelConfig = providerConfig.models[type]
-  if (!modelConfig)
-    return null
-  return modelConfig.isCustomModel ? modelConfig.customModel : modelConfig.model
-}
-
-function normalizeAssistantResponse(text: string): string {
-  const [, content = text] = text.match(/<\/think>([\s\S]*)/) || []
-  return content.trim()
-}
-
 function normalizeResponseCode(code?: string | null) {
   return typeof code === 'string' ? code.trim().toUpperCase() : null
 }
@@ -158,6 +114,66 @@ async function deleteChats(baseURL: string, chatGuids: string[]) {
   })
 }
 
+function extractChatGuids(payload: unknown): string[] {
+  const list = Array.isArray(payload)
+    ? payload
+    : (payload as Record<string, unknown> | null)?.content
+      ?? (payload as Record<string, unknown> | null)?.chats
+      ?? (payload as Record<string, unknown> | null)?.data
+  if (!Array.isArray(list))
+    return []
+  return list
+    .map(item => (item && typeof item === 'object' ? (item as { guid?: unknown }).guid : undefined))
+    .filter((guid): guid is string => typeof guid === 'string' && guid.length > 0)
+}
+
+async function listChats(baseURL: string): Promise<string[]> {
+  const data = await genaiFetchJson<unknown>(baseURL, GENAI_ENDPOINTS.chats, { method: 'GET' })
+  return extractChatGuids(data)
+}
+
+const modelCatalogRefreshes = new Map<string, Promise<GenAIModelInfo[]>>()
+
+/**
+ * Returns the portal's model list for `baseURL`, fetching it when the cached catalog is stale or
+ * `force` is set. Background refreshes never fail a request: errors fall back to the cached list.
+ */
+async function ensureGenAIModelCatalog(baseURL: string, options?: { force?: boolean }): Promise<GenAIModelInfo[]> {
+  const cached = await getGenAIModelCatalog(baseURL)
+  if (!options?.force && !isGenAIModelCatalogStale(cached))
+    return cached?.models ?? []
+
+  let refresh = modelCatalogRefreshes.get(baseURL)
+  if (!refresh) {
+    refresh = (async () => {
+      const models = extractGenAIModels(await genaiFetchJson<unknown>(baseURL, GENAI_ENDPOINTS.models, { method: 'GET' }))
+      if (models.length === 0)
+        throw new Error('[GenAI] Portal returned no models')
+      await saveGenAIModelCatalog(baseURL, models)
+      logger.info('[GenAI] Refreshed model catalog', { baseURL, count: models.length })
+      return models
+    })().finally(() => {
+      modelCatalogRefreshes.delete(baseURL)
+    })
+    modelCatalogRefreshes.set(baseURL, refresh)
+  }
+
+  try {
+    return await refresh
+  }
+  catch (error) {
+    if (options?.force)
+      throw error
+    logger.warn('[GenAI] Failed to refresh model catalog, using cached models', error)
+    return cached?.models ?? []
+  }
+}
+
+export async function listGenAIModels(providerConfig: GenAIProviderConfig, options?: { refresh?: boolean }): Promise<GenAIModelInfo[]> {
+  const baseURL = await ensureGenAISession(providerConfig)
+  return await ensureGenAIModelCatalog(baseURL, { force: options?.refresh })
+}
+
 async function sendUserMessage(
   baseURL: string,
   chatGuid: string,
@@ -201,47 +217,6 @@ async function sendUserMessage(
   }
 }
 
-async function invalidateChatWithRemoteDelete(baseURL: string, chatLease: GenAIChatLease, reason: string) {
-  try {
-    await deleteChats(baseURL, [chatLease.chatGuid])
-    logger.info('[GenAI] Deleted chat conversation before retry', {
-      chatGuid: chatLease.chatGuid,
-      reason,
-    })
-  }
-  catch (error) {
-    logger.warn('[GenAI] Failed to delete chat conversation', {
-      chatGuid: chatLease.chatGuid,
-      reason,
-      error,
-    })
-  }
-  finally {
-    await chatLease.invalidate()
-  }
-}
-
-async function settlePendingMessageIfNeeded(baseURL: string, chatLease: GenAIChatLease, signal?: AbortSignal): Promise<boolean> {
-  if (!chatLease.pendingMessageGuid)
-    return true
-
-  try {
-    await waitForMessageCompletion(baseURL, chatLease.pendingMessageGuid, { signal })
-    chatLease.setPendingMessageGuid(null)
-    return true
-  }
-  catch (error) {
-    if (isAbortError(error))
-      throw error
-    logger.warn('[GenAI] Pending user message did not complete', {
-      chatGuid: chatLease.chatGuid,
-      pendingMessageGuid: chatLease.pendingMessageGuid,
-      error,
-    })
-    return false
-  }
-}
-
 const COMPLETE_STATUS_SET = new Set<string>([...GENAI_STREAM_COMPLETE_EVENTS, 'R20000', 'DONE', 'COMPLETED', 'COMPLETE'])
 const FAILURE_STATUS_SET = new Set(['FAIL', 'FAILED', 'ERROR'])
 const MISSING_RESPONSE_HTTP_STATUS = new Set([404, 410])
@@ -451,7 +426,14 @@ function parseGuidsFromRawSSE(rawText: string): GuidParseState {
   return state
 }
 
-async function readEventStream(response: Response, options?: { signal?: AbortSignal }): Promise<ReadEventResult> {
+export type GenAITextListener = SessionTextListener
+
+interface ReadEventStreamOptions {
+  signal?: AbortSignal
+  onText?: GenAITextListener
+}
+
+async function readEventStream(response: Response, options?: ReadEventStreamOptions): Promise<ReadEventResult> {
   const reader = response.body?.getReader()
   if (!reader)
     throw new Error('[GenAI] Missing response stream')
@@ -466,6 +448,22 @@ async function readEventStream(response: Response, options?: { signal?: AbortSig
   const collectedContent: string[] = []
 
   let hasLoggedChunkFallbackError = false
+  let lastEmittedText = ''
+
+  const emitPartialText = () => {
+    if (!options?.onText)
+      return
+    const partialText = normalizePartialAssistantResponse(collectedContent.join(''))
+    if (!partialText || partialText === lastEmittedText)
+      return
+    lastEmittedText = partialText
+    try {
+      options.onText(partialText)
+    }
+    catch (error) {
+      logger.warn('[GenAI] Stream listener failed', error)
+    }
+  }
 
   let abortError: Error | null = null
   const abortListener = signal
@@ -496,8 +494,10 @@ async function readEventStream(response: Response, options?: { signal?: AbortSig
           completedGuid = candidateGuid ?? latestGuid ?? null
 
         const visibleContent = extractVisibleContent(payload)
-        if (visibleContent)
+        if (visibleContent) {
           collectedContent.push(visibleContent)
+          emitPartialText()
+        }
       }
       catch (error) {
         if (!hasLoggedChunkFallbackError) {
@@ -570,79 +570,12 @@ async function readEventStream(response: Response, options?: { signal?: AbortSig
   }
 }
 
-function forwardAbortSignal(source: AbortSignal | null | undefined, targetController: AbortController): () => void {
-  if (!source)
-    return () => {}
-
-  const listener = () => {
-    if (targetController.signal.aborted)
-      return
-    const abortReason = (source as AbortSignal & { reason?: unknown }).reason
-    targetController.abort(abortReason ?? createAbortError('GenAI request aborted by linked signal'))
-  }
-
-  source.addEventListener('abort', listener)
-  return () => source.removeEventListener('abort', listener)
-}
-
-interface MessageResponseCancelTelemetry {
-  providerConfig: GenAIProviderConfig
-  modelType: ModelType
-}
-
-function createMessageResponseCanceler(baseURL: string, messageGuid: string, telemetry?: MessageResponseCancelTelemetry) {
-  let invoked = false
-  return async (reason?: string) => {
-    if (invoked)
-      return
-    invoked = true
-
-    let success = true
-
-    try {
-      await genaiFetch(baseURL, GENAI_ENDPOINTS.messagesResponseCancel, {
-        method: 'POST',
-        body: JSON.stringify({ messageGuid }),
-      })
-      logger.info('[GenAI] Cancelled messages-response stream', {
-        messageGuid,
-        reason,
-      })
-    }
-    catch (error) {
-      success = false
-      logger.warn('[GenAI] Failed to cancel messages-response stream', {
-        messageGuid,
-        reason,
-        error,
-      })
-    }
-    finally {
-      if (telemetry) {
-        const model = getModelName(telemetry.providerConfig, telemetry.modelType) ?? null
-        void logGenAIReliabilityEvent({
-          type: 'messages-response-cancel',
-          providerId: telemetry.providerConfig.id,
-          modelType: telemetry.modelType,
-          model,
-          reason,
-          metadata: {
-            messageGuid,
-            success,
-          },
-          success,
-        })
-      }
-    }
-  }
-}
-
 async function waitForAssistantMessage(
   baseURL: string,
   chatGuid: string,
   messageGuid: string,
   modelGuid: string,
-  options?: { signal?: AbortSignal },
+  options?: ReadEventStreamOptions,
 ): Promise<ReadEventResult> {
   const payload = {
     chatGuid,
@@ -661,7 +594,7 @@ async function waitForAssistantMessage(
     signal: options?.signal,
   })
 
-  return await readEventStream(response, { signal: options?.signal })
+  return await readEventStream(response, options)
 }
 
 function normalizeStatus(status?: string | null) {
@@ -862,366 +795,50 @@ async function waitForMessageCompletion(
   }
 }
 
-interface GenAIExecutionOptions {
-  isBatch?: boolean
-  content?: ArticleContent
-  chunkMetadata?: TranslationChunkMetadata
-  chunkMetadataList?: Array<TranslationChunkMetadata | undefined>
-  clientRequestId?: string
-}
-
-export async function genaiTranslate(
-  text: string,
-  targetLangName: string,
-  providerConfig: GenAIProviderConfig,
-  options?: GenAIExecutionOptions,
-): Promise<string> {
-  const baseURL = await ensureGenAISession(providerConfig)
-
-  const { systemPrompt, prompt } = await getTranslatePrompt(targetLangName, text, options)
-  const combinedContent = [systemPrompt, prompt].filter(Boolean).join('\n\n')
-  if (!combinedContent.trim())
-    return ''
-
-  const abortController = new AbortController()
-  const unregister = options?.clientRequestId
-    ? registerActiveGenAIRequest(options.clientRequestId, (reason?: unknown) => {
-        if (abortController.signal.aborted)
-          return
-        const abortReason = reason instanceof Error ? reason : createAbortError(typeof reason === 'string' ? reason : 'Tab closed during translation')
-        abortController.abort(abortReason)
-      })
-    : null
-
-  try {
-    for (let attempt = 0; attempt < GENAI_CHAT_MAX_RECOVERY_ATTEMPTS; attempt++) {
-      const chatLease = await acquireGenAIChat(providerConfig, baseURL, 'translate', () => createChat(baseURL))
-      let shouldResetChat = false
-      let resetReason: string | null = null
-      let pendingSet = false
-      let pendingMessageSettled = false
-
-      try {
-        if (chatLease.pendingMessageGuid) {
-          const settled = await settlePendingMessageIfNeeded(baseURL, chatLease, abortController.signal)
-          if (!settled) {
-            shouldResetChat = true
-            resetReason = 'stale-pending-message'
-            continue
-          }
-        }
-
-        let parentCompletionWaitAttempted = false
-
-        while (true) {
-          throwIfAborted(abortController.signal)
-
-          const parentGuid = chatLease.parentMessageGuid ?? undefined
-          let messageGuid: string
-          let cancelMessagesResponse: ((reason?: string) => Promise<void>) | null = null
-          let messageResponseCompleted = false
-          try {
-            messageGuid = await sendUserMessage(baseURL, chatLease.chatGuid, combinedContent, parentGuid, { signal: abortController.signal })
-          }
-          catch (error) {
-            if (error instanceof GenAIPendingResponseError && parentGuid && !parentCompletionWaitAttempted) {
-              parentCompletionWaitAttempted = true
-              try {
-                await waitForMessageCompletion(baseURL, parentGuid, { signal: abortController.signal })
-                continue
-              }
-              catch (completionError) {
-                logger.warn('[GenAI] Parent message did not complete before retrying', {
-                  chatGuid: chatLease.chatGuid,
-                  parentGuid,
-                  error: completionError,
-                })
-                shouldResetChat = true
-                resetReason = 'parent-still-processing'
-                break
-              }
-            }
-
-            if (error instanceof GenAIPendingResponseError) {
-              shouldResetChat = true
-              resetReason = 'chat-error-4'
-              break
-            }
-
-            throw error
-          }
-
-          chatLease.setPendingMessageGuid(messageGuid)
-          pendingSet = true
-          cancelMessagesResponse = createMessageResponseCanceler(baseURL, messageGuid, { providerConfig, modelType: 'translate' })
-
-          const modelRef = getModelName(providerConfig, 'translate')
-          const modelGuid = resolveGenAIModelGuid(modelRef)
-
-          let messageFailureError: Error | null = null
-          const messagesResponseAbortController = new AbortController()
-          const unlinkMessageResponseAbort = forwardAbortSignal(abortController.signal, messagesResponseAbortController)
-          const completionAbortController = new AbortController()
-          const unlinkCompletionAbort = forwardAbortSignal(abortController.signal, completionAbortController)
-
-          const completionMonitor = (async () => {
-            try {
-              await waitForMessageCompletion(baseURL, messageGuid, { signal: completionAbortController.signal })
-            }
-            catch (error) {
-              if (isAbortError(error))
-                return
-              const normalizedError = error instanceof Error ? error : new Error(String(error))
-              messageFailureError = normalizedError
-              if (!messagesResponseAbortController.signal.aborted)
-                messagesResponseAbortController.abort(normalizedError)
-            }
-          })()
-
-          try {
-            const { responseGuid: assistantGuid, fallbackContent } = await waitForAssistantMessage(baseURL, chatLease.chatGuid, messageGuid, modelGuid, { signal: messagesResponseAbortController.signal })
-            messageResponseCompleted = true
-
-            completionAbortController.abort()
-            await completionMonitor
-
-            const translationResult = await waitForMessageContent(baseURL, assistantGuid, {
-              fallbackContent,
-              onInvalidateChat: chatLease.invalidate,
-              signal: abortController.signal,
-            })
-
-            pendingMessageSettled = translationResult.completed
-
-            if (translationResult.completed) {
-              chatLease.setParentMessageGuid(assistantGuid)
-            }
-            else {
-              shouldResetChat = true
-              resetReason = 'response-incomplete'
-            }
-
-            return normalizeAssistantResponse(translationResult.content)
-          }
-          catch (error) {
-            completionAbortController.abort()
-            await completionMonitor
-
-            if (!messageResponseCompleted)
-              void cancelMessagesResponse?.(isAbortError(error) ? 'request-aborted' : 'messages-response-error')
-
-            if (messageFailureError && isAbortError(error))
-              throw messageFailureError
-
-            throw error
-          }
-          finally {
-            messagesResponseAbortController.abort()
-            completionAbortController.abort()
-            unlinkMessageResponseAbort()
-            unlinkCompletionAbort()
-          }
-        }
-
-        if (shouldResetChat)
-          continue
-      }
-      catch (error) {
-        if (shouldInvalidateChatFromHttpError(error))
-          await chatLease.invalidate()
-        if (isAbortError(error)) {
-          shouldResetChat = true
-          resetReason = resetReason ?? 'request-aborted'
-          throw error
-        }
-        throw error
-      }
-      finally {
-        if (pendingSet && pendingMessageSettled)
-          chatLease.setPendingMessageGuid(null)
-
-        if (shouldResetChat)
-          await invalidateChatWithRemoteDelete(baseURL, chatLease, resetReason ?? 'pending-message')
-        else
-          await chatLease.release()
-      }
-    }
-
-    throw new Error('[GenAI] Unable to obtain an available chat conversation')
-  }
-  finally {
-    unregister?.()
-  }
-}
-
-interface GenAIGenerateOptions {
-  system?: string
-  modelType?: ModelType
-  clientRequestId?: string
-}
-
-export async function genaiGenerateText(
-  prompt: string,
-  providerConfig: GenAIProviderConfig,
-  options?: GenAIGenerateOptions,
-): Promise<string> {
-  const baseURL = await ensureGenAISession(providerConfig)
-  const system = options?.system ?? ''
-  const content = [system, prompt].filter(Boolean).join('\n\n')
-  if (!content.trim())
-    return ''
-
-  const modelType = options?.modelType ?? 'translate'
-  const abortController = new AbortController()
-  const unregister = options?.clientRequestId
-    ? registerActiveGenAIRequest(options.clientRequestId, (reason?: unknown) => {
-        if (abortController.signal.aborted)
-          return
-        const abortReason = reason instanceof Error ? reason : createAbortError(typeof reason === 'string' ? reason : 'GenAI request aborted')
-        abortController.abort(abortReason)
-      })
-    : null
-
-  try {
-    for (let attempt = 0; attempt < GENAI_CHAT_MAX_RECOVERY_ATTEMPTS; attempt++) {
-      const chatLease = await acquireGenAIChat(providerConfig, baseURL, modelType, () => createChat(baseURL))
-      let shouldResetChat = false
-      let resetReason: string | null = null
-      let pendingSet = false
-      let pendingMessageSettled = false
-
-      try {
-        if (chatLease.pendingMessageGuid) {
-          const settled = await settlePendingMessageIfNeeded(baseURL, chatLease, abortController.signal)
-          if (!settled) {
-            shouldResetChat = true
-            resetReason = 'stale-pending-message'
-            continue
-          }
-        }
-
-        let parentCompletionWaitAttempted = false
-
-        while (true) {
-          throwIfAborted(abortController.signal)
-
-          const parentGuid = chatLease.parentMessageGuid ?? undefined
-          let messageGuid: string
-          let cancelMessagesResponse: ((reason?: string) => Promise<void>) | null = null
-          let messageResponseCompleted = false
-          try {
-            messageGuid = await sendUserMessage(baseURL, chatLease.chatGuid, content, parentGuid, { signal: abortController.signal })
-          }
-          catch (error) {
-            if (error instanceof GenAIPendingResponseError && parentGuid && !parentCompletionWaitAttempted) {
-              parentCompletionWaitAttempted = true
-              try {
-                await waitForMessageCompletion(baseURL, parentGuid, { signal: abortController.signal })
-                continue
-              }
-              catch (completionError) {
-                logger.warn('[GenAI] Parent message did not complete before retrying', {
-                  chatGuid: chatLease.chatGuid,
-                  parentGuid,
-                  error: completionError,
-                })
-                shouldResetChat = true
-                resetReason = 'parent-still-processing'
-                break
-              }
-            }
-
-            if (error instanceof GenAIPendingResponseError) {
-              shouldResetChat = true
-              resetReason = 'chat-error-4'
-              break
-            }
-
-            throw error
-          }
-
-          chatLease.setPendingMessageGuid(messageGuid)
-          pendingSet = true
-          cancelMessagesResponse = createMessageResponseCanceler(baseURL, messageGuid, { providerConfig, modelType })
-
-          const modelRef = getModelName(providerConfig, modelType)
-          const modelGuid = resolveGenAIModelGuid(modelRef)
-
-          let assistantGuid: string
-          let fallbackContent: string | null
-          try {
-            ({ responseGuid: assistantGuid, fallbackContent } = await waitForAssistantMessage(baseURL, chatLease.chatGuid, messageGuid, modelGuid, { signal: abortController.signal }))
-            messageResponseCompleted = true
-          }
-          catch (error) {
-            if (!messageResponseCompleted)
-              void cancelMessagesResponse?.(isAbortError(error) ? 'request-aborted' : 'messages-response-error')
-            throw error
-          }
-
-          const textResult = await waitForMessageContent(baseURL, assistantGuid, {
-            fallbackContent,
-            onInvalidateChat: chatLease.invalidate,
-            signal: abortController.signal,
-          })
-
-          pendingMessageSettled = textResult.completed
-
-          if (textResult.completed) {
-            chatLease.setParentMessageGuid(assistantGuid)
-          }
-          else {
-            shouldResetChat = true
-            resetReason = 'response-incomplete'
-          }
-
-          return normalizeAssistantResponse(textResult.content)
-        }
-
-        if (shouldResetChat)
-          continue
-      }
-      catch (error) {
-        if (shouldInvalidateChatFromHttpError(error))
-          await chatLease.invalidate()
-        if (isAbortError(error)) {
-          shouldResetChat = true
-          resetReason = resetReason ?? 'request-aborted'
-          throw error
-        }
-        throw error
-      }
-      finally {
-        if (pendingSet && pendingMessageSettled)
-          chatLease.setPendingMessageGuid(null)
-
-        if (shouldResetChat)
-          await invalidateChatWithRemoteDelete(baseURL, chatLease, resetReason ?? 'pending-message')
-        else
-          await chatLease.release()
-      }
-    }
-
-    throw new Error('[GenAI] Unable to obtain an available chat conversation')
-  }
-  finally {
-    unregister?.()
-  }
+async function cancelMessageResponse(baseURL: string, messageGuid: string) {
+  await genaiFetch(baseURL, GENAI_ENDPOINTS.messagesResponseCancel, {
+    method: 'POST',
+    body: JSON.stringify({ messageGuid }),
+  })
 }
 
-export async function warmGenAIChatPool(
-  providerConfig: GenAIProviderConfig,
-  purpose: GenAIChatPurpose,
-  desiredSlots: number,
-): Promise<void> {
-  if (desiredSlots <= 0)
-    return
-
-  const baseURL = await ensureGenAISession(providerConfig)
-  await scaleGenAIChatPool(providerConfig, baseURL, purpose, desiredSlots, () => createChat(baseURL))
+/**
+ * Samsung GenAI portal dialect for the shared session-provider chat runner.
+ */
+export const genaiSessionAdapter: SessionProviderAdapter = {
+  provider: 'genai',
+  displayName: GENAI_DISPLAY_NAME,
+  defaultBaseURL: GENAI_DEFAULT_BASE_URL,
+  checkSession: checkGenAISession,
+  prepare: async (baseURL) => {
+    await ensureGenAIModelCatalog(baseURL)
+  },
+  listModels: async (baseURL) => {
+    const models = await ensureGenAIModelCatalog(baseURL, { force: true })
+    return models.map(model => model.title)
+  },
+  createChat,
+  listChats,
+  deleteChats,
+  sendMessage: (baseURL, { chatId, content, parentMessageId, signal }) =>
+    sendUserMessage(baseURL, chatId, content, parentMessageId, { signal }),
+  streamResponse: async (baseURL, { chatId, messageId, model, signal, onText }) => {
+    const modelGuid = resolveGenAIModelGuid(model, baseURL)
+    const { responseGuid, fallbackContent } = await waitForAssistantMessage(baseURL, chatId, messageId, modelGuid, { signal, onText })
+    return { responseId: responseGuid, fallbackContent }
+  },
+  cancelResponse: cancelMessageResponse,
+  waitForMessageCompletion: async (baseURL, messageId, options) => {
+    await waitForMessageCompletion(baseURL, messageId, options)
+  },
+  fetchResponseContent: (baseURL, responseId, options) => waitForMessageContent(baseURL, responseId, options),
+  shouldInvalidateChat: shouldInvalidateChatFromHttpError,
+  logReliabilityEvent: logGenAIReliabilityEvent,
 }
 
 export const __private__ = {
+  ensureGenAIModelCatalog,
+  extractChatGuids,
   readEventStream,
   parseGuidsFromRawSSE,
   waitForMessageContent,
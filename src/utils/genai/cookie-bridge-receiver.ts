@@ -0,0 +1,114 @@
+import type { GenAICookieBridgeCookie, GenAICookieBridgePushPayload } from './cookie-bridge'
+import {
+  GENAI_COOKIE_BRIDGE_HEADERS,
+  GENAI_COOKIE_BRIDGE_PATHS,
+  GENAI_COOKIE_BRIDGE_PROTOCOL,
+  GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION,
+  generateCookieBridgeChallenge,
+  isSameCookieBridgeSignature,
+  signCookieBridgeHealthChallenge,
+  signCookieBridgePush,
+} from './cookie-bridge'
+
+const MAX_BODY_LENGTH = 256 * 1024
+const CHALLENGE_PATTERN = /^[0-9a-f]{16,128}$/
+const CHALLENGE_TTL_MS = 30_000
+// Oldest challenges are dropped first, so unanswered health calls can't grow the map without end
+const MAX_PENDING_CHALLENGES = 32
+
+export interface GenAICookieBridgeReceiverOptions {
+  token: string
+  onCookies: (cookies: GenAICookieBridgeCookie[], payload: GenAICookieBridgePushPayload) => void | Promise<void>
+}
+
+export type GenAICookieBridgeReceiver = (request: Request) => Promise<Response>
+
+/**
+ * Reference implementation of the desktop side of the cookie bridge protocol, written against
+ * the Fetch API so it can be served by any runtime (`Deno.serve`, `Bun.serve`, a Node adapter).
+ * The end-to-end tests drive the extension-side client against it.
+ */
+export function createGenAICookieBridgeReceiver({ token, onCookies }: GenAICookieBridgeReceiverOptions): GenAICookieBridgeReceiver {
+  // Challenges handed out by /health that a push may still answer, with their expiry time
+  const pendingChallenges = new Map<string, number>()
+
+  const issueChallenge = () => {
+    const challenge = generateCookieBridgeChallenge()
+    pendingChallenges.set(challenge, Date.now() + CHALLENGE_TTL_MS)
+    if (pendingChallenges.size > MAX_PENDING_CHALLENGES)
+      pendingChallenges.delete(pendingChallenges.keys().next().value!)
+    return challenge
+  }
+
+  // Each challenge is accepted once, so a captured push can't be replayed
+  const consumeChallenge = (challenge: string | null) => {
+    if (!challenge)
+      return false
+    const expiresAt = pendingChallenges.get(challenge)
+    pendingChallenges.delete(challenge)
+    return expiresAt !== undefined && expiresAt >= Date.now()
+  }
+
+  return async (request) => {
+    const url = new URL(request.url)
+
+    if (request.headers.get(GENAI_COOKIE_BRIDGE_HEADERS.version) !== String(GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION))
+      return jsonResponse(426, { ok: false, error: 'unsupported-version', version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION })
+
+    if (request.method === 'GET' && url.pathname === GENAI_COOKIE_BRIDGE_PATHS.health) {
+      const challenge = request.headers.get(GENAI_COOKIE_BRIDGE_HEADERS.challenge)
+      if (!challenge || !CHALLENGE_PATTERN.test(challenge))
+        return jsonResponse(400, { ok: false, error: 'invalid-challenge' })
+      if (!token)
+        return jsonResponse(200, { protocol: GENAI_COOKIE_BRIDGE_PROTOCOL, version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION, paired: false })
+      return jsonResponse(200, {
+        protocol: GENAI_COOKIE_BRIDGE_PROTOCOL,
+        version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION,
+        paired: true,
+        proof: await signCookieBridgeHealthChallenge(token, challenge),
+        challenge: issueChallenge(),
+      })
+    }
+
+    if (request.method === 'POST' && url.pathname === GENAI_COOKIE_BRIDGE_PATHS.cookies) {
+      const body = await request.text()
+      const challenge = request.headers.get(GENAI_COOKIE_BRIDGE_HEADERS.challenge)
+      const signature = request.headers.get(GENAI_COOKIE_BRIDGE_HEADERS.signature)
+      if (!token || !consumeChallenge(challenge) || !isSameCookieBridgeSignature(signature, await signCookieBridgePush(token, challenge!, body)))
+        return jsonResponse(401, { ok: false, error: 'unauthorized' })
+
+      const payload = body.length <= MAX_BODY_LENGTH ? parsePayload(body) : null
+      if (!payload)
+        return jsonResponse(400, { ok: false, error: 'invalid-payload' })
+      try {
+        await onCookies(payload.cookies, payload)
+      }
+      catch {
+        return jsonResponse(500, { ok: false, error: 'internal' })
+      }
+      return jsonResponse(200, { ok: true, pushId: payload.pushId, received: payload.cookies.length })
+    }
+
+    return jsonResponse(404, { ok: false, error: 'not-found' })
+  }
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function parsePayload(body: string): GenAICookieBridgePushPayload | null {
+  try {
+    const payload = JSON.parse(body)
+    if (payload?.version !== GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION || typeof payload.pushId !== 'string' || !Array.isArray(payload.cookies))
+      return null
+    const validCookies = payload.cookies.every((cookie: any) => typeof cookie?.name === 'string' && typeof cookie?.value === 'string')
+    return validCookies ? payload : null
+  }
+  catch {
+    return null
+  }
+}
@@ -0,0 +1,287 @@
+import { z } from 'zod'
+
+export const GENAI_COOKIE_BRIDGE_PROTOCOL = 'read-frog-cookie-bridge'
+export const GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION = 2
+export const GENAI_COOKIE_BRIDGE_HOST = '127.0.0.1'
+export const GENAI_COOKIE_BRIDGE_PATHS = {
+  health: '/health',
+  cookies: '/cookies',
+} as const
+export const GENAI_COOKIE_BRIDGE_HEADERS = {
+  version: 'X-Read-Frog-Bridge-Version',
+  challenge: 'X-Read-Frog-Bridge-Challenge',
+  signature: 'X-Read-Frog-Bridge-Signature',
+} as const
+export const GENAI_COOKIE_BRIDGE_STATUS_STORAGE_KEY = 'genai_cookie_bridge_status'
+
+const PAIRING_TOKEN_BYTES = 24
+const CHALLENGE_BYTES = 16
+const REQUEST_TIMEOUT_MS = 5000
+const PUSH_MAX_ATTEMPTS = 4
+const PUSH_RETRY_BASE_DELAY_MS = 1000
+const PUSH_RETRY_MAX_DELAY_MS = 8000
+
+export interface GenAICookieBridgeCookie {
+  name: string
+  value: string
+}
+
+export interface GenAICookieBridgePushPayload {
+  version: number
+  source: 'read-frog'
+  pushId: string
+  sentAt: number
+  cookies: GenAICookieBridgeCookie[]
+}
+
+export const genaiCookieBridgeHealthSchema = z.object({
+  protocol: z.literal(GENAI_COOKIE_BRIDGE_PROTOCOL),
+  version: z.number().int(),
+  paired: z.boolean(),
+  // HMAC of the extension's challenge, proves the receiver holds the pairing token
+  proof: z.string().optional(),
+  // Single use challenge the extension signs its next push with
+  challenge: z.string().optional(),
+})
+
+export type GenAICookieBridgeHealth = z.infer<typeof genaiCookieBridgeHealthSchema>
+
+export const genaiCookieBridgeAckSchema = z.object({
+  ok: z.literal(true),
+  pushId: z.string(),
+  received: z.number().int().nonnegative(),
+})
+
+export type GenAICookieBridgeAck = z.infer<typeof genaiCookieBridgeAckSchema>
+
+export const genaiCookieBridgeStatusSchema = z.object({
+  paired: z.boolean(),
+  lastHealthAt: z.number().nullable(),
+  lastPushAt: z.number().nullable(),
+  lastPushCount: z.number().int().nonnegative(),
+  lastError: z.string().nullable(),
+  lastErrorAt: z.number().nullable(),
+})
+
+export type GenAICookieBridgeStatus = z.infer<typeof genaiCookieBridgeStatusSchema>
+
+export const DEFAULT_GENAI_COOKIE_BRIDGE_STATUS: GenAICookieBridgeStatus = {
+  paired: false,
+  lastHealthAt: null,
+  lastPushAt: null,
+  lastPushCount: 0,
+  lastError: null,
+  lastErrorAt: null,
+}
+
+export class GenAICookieBridgeError extends Error {
+  status: number | null
+  retryable: boolean
+  // The receiver doesn't share this browser's pairing token
+  unpaired: boolean
+
+  constructor(message: string, options: { status?: number | null, retryable: boolean, unpaired?: boolean }) {
+    super(message)
+    this.name = 'GenAICookieBridgeError'
+    this.status = options.status ?? null
+    this.retryable = options.retryable
+    this.unpaired = options.unpaired ?? false
+  }
+}
+
+interface BridgeRequestOptions {
+  port: number
+  token: string
+  fetchImpl?: typeof fetch
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function generateRandomHex(byteLength: number) {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+/**
+ * Random hex token shared between the extension and the local receiver. Generated from the
+ * provider config form and pasted into the receiver. It never goes over the wire, both sides only
+ * send HMACs keyed by it.
+ */
+export function generateCookieBridgePairingToken(): string {
+  return generateRandomHex(PAIRING_TOKEN_BYTES)
+}
+
+export function generateCookieBridgeChallenge(): string {
+  return generateRandomHex(CHALLENGE_BYTES)
+}
+
+async function signCookieBridgeMessage(token: string, message: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(token), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return toHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message))))
+}
+
+// The health proof and the push signature sign differently prefixed messages, so answering
+// health challenges can never produce a valid push signature
+export function signCookieBridgeHealthChallenge(token: string, challenge: string): Promise<string> {
+  return signCookieBridgeMessage(token, `${GENAI_COOKIE_BRIDGE_PROTOCOL}:health:${challenge}`)
+}
+
+export function signCookieBridgePush(token: string, challenge: string, body: string): Promise<string> {
+  return signCookieBridgeMessage(token, `${GENAI_COOKIE_BRIDGE_PROTOCOL}:cookies:${challenge}:${body}`)
+}
+
+// Constant-time comparison so a signature can't be guessed one character at a time
+export function isSameCookieBridgeSignature(provided: string | null | undefined, expected: string) {
+  if (!provided || !expected || provided.length !== expected.length)
+    return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++)
+    diff |= provided.charCodeAt(i) ^ expected.charCodeAt(i)
+  return diff === 0
+}
+
+export function getCookieBridgeURL(port: number, path: string) {
+  return `http://${GENAI_COOKIE_BRIDGE_HOST}:${port}${path}`
+}
+
+function createBridgeHeaders(headers: Record<string, string>): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    [GENAI_COOKIE_BRIDGE_HEADERS.version]: String(GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION),
+    ...headers,
+  }
+}
+
+async function readJSON(response: Response): Promise<unknown> {
+  try {
+    return await response.json()
+  }
+  catch {
+    return null
+  }
+}
+
+async function sendBridgeRequest(url: string, init: RequestInit, fetchImpl: typeof fetch): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetchImpl(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  }
+  catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new GenAICookieBridgeError(`Cookie bridge is unreachable: ${reason}`, { retryable: true })
+  }
+
+  if (response.status === 401 || response.status === 403)
+    throw new GenAICookieBridgeError('Cookie bridge rejected the pairing token', { status: response.status, retryable: false, unpaired: true })
+  if (response.status === 426)
+    throw new GenAICookieBridgeError('Cookie bridge does not support this protocol version', { status: response.status, retryable: false })
+  if (!response.ok)
+    throw new GenAICookieBridgeError(`Cookie bridge responded with ${response.status}`, { status: response.status, retryable: response.status >= 500 || response.status === 429 })
+
+  return response
+}
+
+/**
+ * Handshake with the local receiver. Resolves only when the receiver speaks the same protocol
+ * version and proved it holds the pairing token by signing a fresh challenge. Any process can
+ * listen on the port, so cookies must never go to a receiver that hasn't passed this check.
+ */
+export async function checkCookieBridgeHealth({ port, token, fetchImpl = fetch }: BridgeRequestOptions): Promise<GenAICookieBridgeHealth & { challenge: string }> {
+  const challenge = generateCookieBridgeChallenge()
+  const response = await sendBridgeRequest(
+    getCookieBridgeURL(port, GENAI_COOKIE_BRIDGE_PATHS.health),
+    { method: 'GET', headers: createBridgeHeaders({ [GENAI_COOKIE_BRIDGE_HEADERS.challenge]: challenge }) },
+    fetchImpl,
+  )
+
+  const parsed = genaiCookieBridgeHealthSchema.safeParse(await readJSON(response))
+  if (!parsed.success)
+    throw new GenAICookieBridgeError('Cookie bridge returned an invalid health response', { status: response.status, retryable: false })
+  if (parsed.data.version !== GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION) {
+    throw new GenAICookieBridgeError(
+      `Cookie bridge speaks protocol v${parsed.data.version}, expected v${GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION}`,
+      { status: response.status, retryable: false },
+    )
+  }
+  if (!parsed.data.paired)
+    throw new GenAICookieBridgeError('Cookie bridge is not paired with this browser', { status: response.status, retryable: false, unpaired: true })
+
+  const expectedProof = await signCookieBridgeHealthChallenge(token, challenge)
+  if (!isSameCookieBridgeSignature(parsed.data.proof, expectedProof))
+    throw new GenAICookieBridgeError('Cookie bridge could not prove it holds the pairing token', { status: response.status, retryable: false, unpaired: true })
+  if (!parsed.data.challenge)
+    throw new GenAICookieBridgeError('Cookie bridge returned no push challenge', { status: response.status, retryable: false })
+
+  return { ...parsed.data, challenge: parsed.data.challenge }
+}
+
+/**
+ * Posts cookies signed with the single use `challenge` the receiver handed out in the health
+ * handshake
+ */
+export async function postCookiesToBridge(
+  { port, token, fetchImpl = fetch }: BridgeRequestOptions,
+  payload: GenAICookieBridgePushPayload,
+  challenge: string,
+): Promise<GenAICookieBridgeAck> {
+  const body = JSON.stringify(payload)
+  const headers = createBridgeHeaders({
+    [GENAI_COOKIE_BRIDGE_HEADERS.challenge]: challenge,
+    [GENAI_COOKIE_BRIDGE_HEADERS.signature]: await signCookieBridgePush(token, challenge, body),
+  })
+  const response = await sendBridgeRequest(
+    getCookieBridgeURL(port, GENAI_COOKIE_BRIDGE_PATHS.cookies),
+    { method: 'POST', headers, body },
+    fetchImpl,
+  )
+
+  const parsed = genaiCookieBridgeAckSchema.safeParse(await readJSON(response))
+  if (!parsed.success)
+    throw new GenAICookieBridgeError('Cookie bridge did not acknowledge the push', { status: response.status, retryable: true })
+  if (parsed.data.pushId !== payload.pushId || parsed.data.received !== payload.cookies.length)
+    throw new GenAICookieBridgeError('Cookie bridge acknowledged a different push', { status: response.status, retryable: true })
+
+  return parsed.data
+}
+
+export function getCookieBridgeRetryDelay(attempt: number) {
+  return Math.min(PUSH_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), PUSH_RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Runs the health handshake and pushes cookies, then waits for the receiver's acknowledgement.
+ * Every attempt starts with a new handshake since push challenges are single use. Transient
+ * failures (unreachable receiver, 5xx, missing ack) are retried with exponential backoff. Auth
+ * and version errors are thrown immediately since retrying cannot fix them.
+ */
+export async function pushCookiesToBridge(
+  options: BridgeRequestOptions & {
+    cookies: GenAICookieBridgeCookie[]
+    maxAttempts?: number
+    sleep?: (ms: number) => Promise<void>
+  },
+): Promise<GenAICookieBridgeAck> {
+  const { cookies, maxAttempts = PUSH_MAX_ATTEMPTS, sleep = ms => new Promise(resolve => setTimeout(resolve, ms)) } = options
+  const payload: GenAICookieBridgePushPayload = {
+    version: GENAI_COOKIE_BRIDGE_PROTOCOL_VERSION,
+    source: 'read-frog',
+    pushId: crypto.randomUUID(),
+    sentAt: Date.now(),
+    cookies,
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { challenge } = await checkCookieBridgeHealth(options)
+      return await postCookiesToBridge(options, payload, challenge)
+    }
+    catch (error) {
+      const retryable = error instanceof GenAICookieBridgeError && error.retryable
+      if (!retryable || attempt >= maxAttempts)
+        throw error
+      await sleep(getCookieBridgeRetryDelay(attempt))
+    }
+  }
+}
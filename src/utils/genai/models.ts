@@ -1,5 +1,7 @@
 import type { ReadModels, TranslateLLMModels } from '@/types/config/provider'
-import { GENAI_DEFAULT_MODEL_GUID, GENAI_DEFAULT_MODEL_TITLE } from './constants'
+import { storage } from '#imports'
+import { logger } from '@/utils/logger'
+import { GENAI_DEFAULT_MODEL_GUID, GENAI_DEFAULT_MODEL_TITLE, GENAI_MODEL_CATALOG_TTL_MS } from './constants'
 
 export const GENAI_MODEL_GUIDS: Record<string, { guid: string }> = {
   [GENAI_DEFAULT_MODEL_TITLE]: {
@@ -7,12 +9,124 @@ export const GENAI_MODEL_GUIDS: Record<string, { guid: string }> = {
   },
 }
 
-export function resolveGenAIModelGuid(modelName: string | null | undefined): string {
-  if (!modelName) {
+export interface GenAIModelInfo {
+  title: string
+  guid: string
+}
+
+export interface GenAIModelCatalog {
+  fetchedAt: number
+  models: GenAIModelInfo[]
+}
+
+const MODEL_CATALOG_STORAGE_KEY = 'genai_model_catalog'
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Catalogs keyed by portal base URL, mirrored from storage so GUID resolution stays synchronous
+const catalogCache = new Map<string, GenAIModelCatalog>()
+
+function pickString(item: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = item[key]
+    if (typeof value === 'string' && value.trim())
+      return value.trim()
+  }
+  return null
+}
+
+/**
+ * Pulls `{ title, guid }` pairs out of the portal's model list. The portal has wrapped lists in
+ * `content`/`data`/`models` and named fields differently across releases, so accept all of them.
+ */
+export function extractGenAIModels(payload: unknown): GenAIModelInfo[] {
+  const record = payload as Record<string, unknown> | null
+  const list = Array.isArray(payload)
+    ? payload
+    : record?.content ?? record?.models ?? record?.data
+  if (!Array.isArray(list))
+    return []
+
+  const seen = new Set<string>()
+  const models: GenAIModelInfo[] = []
+  for (const item of list) {
+    if (!item || typeof item !== 'object')
+      continue
+    const guid = pickString(item as Record<string, unknown>, ['guid', 'modelGuid', 'id'])
+    const title = pickString(item as Record<string, unknown>, ['title', 'name', 'modelName', 'displayName', 'modelType'])
+    if (!guid || !title || seen.has(title))
+      continue
+    seen.add(title)
+    models.push({ title, guid })
+  }
+  return models
+}
+
+export async function getGenAIModelCatalog(baseURL: string): Promise<GenAIModelCatalog | null> {
+  const cached = catalogCache.get(baseURL)
+  if (cached)
+    return cached
+
+  try {
+    const stored = await storage.getItem<Record<string, GenAIModelCatalog>>(`local:${MODEL_CATALOG_STORAGE_KEY}`)
+    const catalog = stored?.[baseURL]
+    if (!catalog || !Array.isArray(catalog.models))
+      return null
+    catalogCache.set(baseURL, catalog)
+    return catalog
+  }
+  catch (error) {
+    logger.warn('[GenAI] Failed to read model catalog from storage', error)
+    return null
+  }
+}
+
+export async function saveGenAIModelCatalog(baseURL: string, models: GenAIModelInfo[]): Promise<GenAIModelCatalog> {
+  const catalog: GenAIModelCatalog = { fetchedAt: Date.now(), models }
+  catalogCache.set(baseURL, catalog)
+  const stored = await storage.getItem<Record<string, GenAIModelCatalog>>(`local:${MODEL_CATALOG_STORAGE_KEY}`) ?? {}
+  await storage.setItem(`local:${MODEL_CATALOG_STORAGE_KEY}`, { ...stored, [baseURL]: catalog })
+  return catalog
+}
+
+export function isGenAIModelCatalogStale(catalog: GenAIModelCatalog | null, now = Date.now()): boolean {
+  return !catalog || now - catalog.fetchedAt > GENAI_MODEL_CATALOG_TTL_MS
+}
+
+/**
+ * Model names from the config resolve against the discovered catalog first (exact, then
+ * case-insensitive title match), then the built-in table. A custom model that is already a GUID
+ * is used as-is, and anything unknown falls back to the default model.
+ */
+export function resolveGenAIModelGuid(modelName: string | null | undefined, baseURL?: string): string {
+  const name = modelName?.trim()
+  if (!name) {
     return GENAI_DEFAULT_MODEL_GUID
   }
 
-  return GENAI_MODEL_GUIDS[modelName]?.guid ?? GENAI_DEFAULT_MODEL_GUID
+  const catalogs = baseURL
+    ? [catalogCache.get(baseURL)].filter((catalog): catalog is GenAIModelCatalog => Boolean(catalog))
+    : Array.from(catalogCache.values())
+  const models = catalogs.flatMap(catalog => catalog.models)
+  const lowerName = name.toLowerCase()
+  const discovered = models.find(model => model.title === name)
+    ?? models.find(model => model.title.toLowerCase() === lowerName)
+  if (discovered)
+    return discovered.guid
+
+  if (GENAI_MODEL_GUIDS[name])
+    return GENAI_MODEL_GUIDS[name].guid
+  if (GUID_PATTERN.test(name))
+    return name
+
+  return GENAI_DEFAULT_MODEL_GUID
+}
+
+function clearModelCatalogCacheForTest() {
+  catalogCache.clear()
+}
+
+export const __private__ = {
+  clearModelCatalogCacheForTest,
 }
 
 export const GENAI_DEFAULT_READ_MODEL: ReadModels['genai'] = {
@@ -0,0 +1,170 @@
+import type BatchRequestRecord from '@/utils/db/dexie/tables/batch-request-record'
+import type GenAIReliabilityLog from '@/utils/db/dexie/tables/genai-reliability-log'
+import type { GenAIModelTelemetryType } from '@/utils/db/dexie/tables/genai-reliability-log'
+import { db } from '@/utils/db/dexie/db'
+
+export const GENAI_DURATION_PERCENTILES = [50, 90, 95, 99] as const
+
+export interface GenAIReliabilityDailyPoint {
+  date: string
+  batchCount: number
+  retryCount: number
+  fallbackCount: number
+  cancelCount: number
+  // Ratios of retries / fallbacks to GenAI batch requests sent that day, null when no batches were recorded
+  retryRate: number | null
+  fallbackRate: number | null
+}
+
+export interface GenAIResponseCodeBucket {
+  responseCode: string
+  count: number
+}
+
+export interface GenAIDurationPercentile {
+  percentile: number
+  durationMs: number
+}
+
+export interface GenAIModelBreakdownRow {
+  model: string
+  modelType: GenAIModelTelemetryType
+  retryCount: number
+  fallbackCount: number
+  cancelCount: number
+  failedCancelCount: number
+}
+
+export const UNKNOWN_RELIABILITY_LABEL = 'unknown'
+
+function toDateKey(date: Date) {
+  return date.toLocaleDateString('en-CA')
+}
+
+export async function getGenAIReliabilityLogs(startDate: Date, endDate: Date): Promise<GenAIReliabilityLog[]> {
+  return await db.genaiReliabilityLog
+    .where('createdAt')
+    .between(startDate, endDate, true, true)
+    .toArray()
+}
+
+export async function getGenAIBatchRequestRecords(startDate: Date, endDate: Date): Promise<BatchRequestRecord[]> {
+  return await db.batchRequestRecord
+    .where('createdAt')
+    .between(startDate, endDate, true, true)
+    .filter(record => record.provider === 'genai')
+    .toArray()
+}
+
+export function buildGenAIReliabilityDailySeries(
+  logs: GenAIReliabilityLog[],
+  batchRecords: BatchRequestRecord[],
+): GenAIReliabilityDailyPoint[] {
+  const days = new Map<string, Omit<GenAIReliabilityDailyPoint, 'retryRate' | 'fallbackRate'>>()
+  const getDay = (date: Date) => {
+    const key = toDateKey(date)
+    let day = days.get(key)
+    if (!day) {
+      day = { date: key, batchCount: 0, retryCount: 0, fallbackCount: 0, cancelCount: 0 }
+      days.set(key, day)
+    }
+    return day
+  }
+
+  for (const record of batchRecords)
+    getDay(record.createdAt).batchCount += 1
+
+  for (const log of logs) {
+    const day = getDay(log.createdAt)
+    if (log.eventType === 'batch-retry')
+      day.retryCount += 1
+    else if (log.eventType === 'batch-fallback')
+      day.fallbackCount += 1
+    else
+      day.cancelCount += 1
+  }
+
+  return Array.from(days.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => ({
+      ...day,
+      retryRate: day.batchCount > 0 ? day.retryCount / day.batchCount : null,
+      fallbackRate: day.batchCount > 0 ? day.fallbackCount / day.batchCount : null,
+    }))
+}
+
+export function buildGenAIResponseCodeHistogram(logs: GenAIReliabilityLog[]): GenAIResponseCodeBucket[] {
+  const counts = new Map<string, number>()
+  for (const log of logs) {
+    const responseCode = log.responseCode || UNKNOWN_RELIABILITY_LABEL
+    counts.set(responseCode, (counts.get(responseCode) ?? 0) + 1)
+  }
+  return Array.from(counts, ([responseCode, count]) => ({ responseCode, count }))
+    .sort((a, b) => b.count - a.count || a.responseCode.localeCompare(b.responseCode))
+}
+
+/**
+ * Nearest-rank percentiles of `batch-fallback` durations. Returns an empty list when no
+ * fallback carried a duration.
+ */
+export function calculateGenAIFallbackDurationPercentiles(
+  logs: GenAIReliabilityLog[],
+  percentiles: readonly number[] = GENAI_DURATION_PERCENTILES,
+): GenAIDurationPercentile[] {
+  const durations = logs
+    .filter(log => log.eventType === 'batch-fallback' && typeof log.durationMs === 'number')
+    .map(log => log.durationMs as number)
+    .sort((a, b) => a - b)
+
+  if (durations.length === 0)
+    return []
+
+  return percentiles.map((percentile) => {
+    const rank = Math.ceil((percentile / 100) * durations.length)
+    return { percentile, durationMs: durations[Math.min(Math.max(rank, 1), durations.length) - 1] }
+  })
+}
+
+export function buildGenAIModelBreakdown(logs: GenAIReliabilityLog[]): GenAIModelBreakdownRow[] {
+  const rows = new Map<string, GenAIModelBreakdownRow>()
+  for (const log of logs) {
+    const model = log.model || UNKNOWN_RELIABILITY_LABEL
+    const key = `${log.modelType}:${model}`
+    let row = rows.get(key)
+    if (!row) {
+      row = { model, modelType: log.modelType, retryCount: 0, fallbackCount: 0, cancelCount: 0, failedCancelCount: 0 }
+      rows.set(key, row)
+    }
+    if (log.eventType === 'batch-retry') {
+      row.retryCount += 1
+    }
+    else if (log.eventType === 'batch-fallback') {
+      row.fallbackCount += 1
+    }
+    else {
+      row.cancelCount += 1
+      if (log.metadata?.success === false)
+        row.failedCancelCount += 1
+    }
+  }
+  return Array.from(rows.values())
+    .sort((a, b) => (b.retryCount + b.fallbackCount) - (a.retryCount + a.fallbackCount) || a.model.localeCompare(b.model))
+}
+
+const CSV_COLUMNS = ['createdAt', 'eventType', 'providerId', 'modelType', 'model', 'responseCode', 'reason', 'retryCount', 'durationMs', 'metadata'] as const
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined)
+    return ''
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function genaiReliabilityLogsToCsv(logs: GenAIReliabilityLog[]): string {
+  const rows = [...logs]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(log => CSV_COLUMNS.map(column => escapeCsvValue(log[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
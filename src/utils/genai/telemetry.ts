@@ -1,4 +1,3 @@
-import type { GenAIProviderConfig } from '@/types/config/provider'
 import type { GenAIModelTelemetryType } from '@/utils/db/dexie/tables/genai-reliability-log'
 import { db } from '@/utils/db/dexie/db'
 import { logger } from '@/utils/logger'
@@ -17,14 +16,6 @@ interface BaseReliabilityEventFields {
   metadata?: Record<string, unknown> | null
 }
 
-export function resolveGenAIModelName(providerConfig: GenAIProviderConfig, modelType: GenAIModelTelemetryType): string | null {
-  const modelConfig = providerConfig.models[modelType]
-  if (!modelConfig)
-    return null
-  const value = modelConfig.isCustomModel ? modelConfig.customModel : modelConfig.model
-  return value ?? null
-}
-
 export async function logGenAIReliabilityEvent(event: GenAIReliabilityEvent): Promise<void> {
   try {
     await db.genaiReliabilityLog.put({
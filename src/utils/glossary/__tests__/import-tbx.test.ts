@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseGlossaryTbx } from '../import'
+
+describe('parseGlossaryTbx', () => {
+  it('reads TBX 2 and TBX 3 entries with the first language as the source', () => {
+    const tbx = `<?xml version="1.0"?>
+<martif type="TBX"><text><body>
+  <termEntry id="1">
+    <langSet xml:lang="en"><tig><term>Galaxy Watch</term></tig></langSet>
+    <langSet xml:lang="ko"><tig><term>갤럭시 워치</term></tig></langSet>
+  </termEntry>
+  <termEntry id="2">
+    <langSet xml:lang="en"><tig><term>Knox</term></tig></langSet>
+  </termEntry>
+</body></text></martif>`
+    const tbx3 = `<tbx><text><body>
+  <conceptEntry id="c1">
+    <langSec xml:lang="en"><termSec><term>One UI</term></termSec></langSec>
+    <langSec xml:lang="zh-TW"><termSec><term>One UI 介面</term></termSec></langSec>
+  </conceptEntry>
+</body></text></tbx>`
+
+    expect(parseGlossaryTbx(tbx)).toEqual([
+      { term: 'Galaxy Watch', translation: '', translations: { kor: '갤럭시 워치' }, doNotTranslate: false, caseSensitive: false },
+      { term: 'Knox', translation: '', translations: {}, doNotTranslate: true, caseSensitive: false },
+    ])
+    expect(parseGlossaryTbx(tbx3)[0]?.translations).toEqual({ 'cmn-Hant': 'One UI 介面' })
+  })
+
+  it('rejects malformed XML', () => {
+    expect(() => parseGlossaryTbx('<martif><termEntry>')).toThrow('TBX')
+  })
+})
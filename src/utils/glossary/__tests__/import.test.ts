@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { mergeGlossaryEntries, parseGlossaryCsv, toGlossaryLangCode } from '../import'
+
+describe('toGlossaryLangCode', () => {
+  it('accepts ISO 639-3 codes, ISO 639-1 codes and locale tags', () => {
+    expect(toGlossaryLangCode('jpn')).toBe('jpn')
+    expect(toGlossaryLangCode('ko')).toBe('kor')
+    expect(toGlossaryLangCode('zh-CN')).toBe('cmn')
+    expect(toGlossaryLangCode('zh_TW')).toBe('cmn-Hant')
+    expect(toGlossaryLangCode('notes')).toBeNull()
+  })
+})
+
+describe('parseGlossaryCsv', () => {
+  it('reads terms, flags and per-language columns', () => {
+    const csv = [
+      'term,translation,doNotTranslate,caseSensitive,ja,notes',
+      'Galaxy,,true,yes,,brand',
+      '"Smart Switch","Smart Switch",,,"スマート スイッチ",',
+      'Bixby',
+      ',orphan,,,,',
+    ].join('\r\n')
+
+    expect(parseGlossaryCsv(csv)).toEqual([
+      { term: 'Galaxy', translation: '', translations: {}, doNotTranslate: true, caseSensitive: true },
+      { term: 'Smart Switch', translation: 'Smart Switch', translations: { jpn: 'スマート スイッチ' }, doNotTranslate: false, caseSensitive: false },
+      { term: 'Bixby', translation: '', translations: {}, doNotTranslate: true, caseSensitive: false },
+    ])
+  })
+
+  it('handles quoted commas and quotes', () => {
+    expect(parseGlossaryCsv('term,translation\n"Hello, ""World""",你好')[0]).toMatchObject({
+      term: 'Hello, "World"',
+      translation: '你好',
+    })
+  })
+
+  it('rejects files without a term column', () => {
+    expect(() => parseGlossaryCsv('name,value\nfoo,bar')).toThrow('term')
+  })
+})
+
+describe('mergeGlossaryEntries', () => {
+  it('replaces existing entries with the same term', () => {
+    const existing = [
+      { id: 'a', term: 'Galaxy', translation: 'old', translations: {}, doNotTranslate: false, caseSensitive: false },
+      { id: 'b', term: 'Knox', translation: '', translations: {}, doNotTranslate: true, caseSensitive: false },
+    ]
+    const merged = mergeGlossaryEntries(existing, [
+      { term: 'galaxy', translation: 'new', translations: {}, doNotTranslate: false, caseSensitive: false },
+    ])
+
+    expect(merged.map(entry => [entry.term, entry.translation])).toEqual([['Knox', ''], ['galaxy', 'new']])
+  })
+})
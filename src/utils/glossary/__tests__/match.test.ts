@@ -0,0 +1,107 @@
+import type { GlossaryConfig, GlossaryEntry } from '@/types/config/glossary'
+import { describe, expect, it } from 'vitest'
+import { checkGlossaryTranslation } from '../check'
+import { buildGlossaryPrompt, findGlossaryMatches, getGlossaryHashComponent } from '../match'
+
+function createEntry(overrides: Partial<GlossaryEntry>): GlossaryEntry {
+  return {
+    id: crypto.randomUUID(),
+    term: 'Galaxy',
+    translation: '',
+    translations: {},
+    doNotTranslate: false,
+    caseSensitive: false,
+    ...overrides,
+  }
+}
+
+function createGlossary(entries: GlossaryEntry[]): GlossaryConfig {
+  return { enabled: true, checkMode: 'repair', entries }
+}
+
+describe('findGlossaryMatches', () => {
+  it('only returns entries whose term occurs as a whole word', () => {
+    const glossary = createGlossary([
+      createEntry({ term: 'UI', translation: 'UI' }),
+      createEntry({ term: 'One UI', doNotTranslate: true }),
+    ])
+
+    expect(findGlossaryMatches(glossary, 'How to build a UI', 'cmn').map(m => m.entry.term)).toEqual(['UI'])
+    expect(findGlossaryMatches(glossary, 'How to build things', 'cmn')).toEqual([])
+    expect(findGlossaryMatches(glossary, 'Update One UI today', 'cmn').map(m => m.entry.term)).toEqual(['One UI', 'UI'])
+  })
+
+  it('respects case sensitivity', () => {
+    const glossary = createGlossary([createEntry({ term: 'Bixby', doNotTranslate: true, caseSensitive: true })])
+
+    expect(findGlossaryMatches(glossary, 'Ask Bixby', 'cmn')).toHaveLength(1)
+    expect(findGlossaryMatches(glossary, 'ask bixby', 'cmn')).toHaveLength(0)
+  })
+
+  it('matches CJK terms inside running text', () => {
+    const glossary = createGlossary([createEntry({ term: '三星', translation: 'Samsung' })])
+
+    expect(findGlossaryMatches(glossary, '三星电子发布了新手机', 'eng')).toHaveLength(1)
+  })
+
+  it('prefers the translation for the target language and skips entries without one', () => {
+    const glossary = createGlossary([
+      createEntry({ term: 'Galaxy', translation: 'Galaxy', translations: { jpn: 'ギャラクシー' } }),
+      createEntry({ term: 'Watch' }),
+    ])
+
+    expect(findGlossaryMatches(glossary, 'Galaxy Watch', 'jpn').map(m => m.target)).toEqual(['ギャラクシー'])
+    expect(findGlossaryMatches(glossary, 'Galaxy Watch', 'kor').map(m => m.target)).toEqual(['Galaxy'])
+  })
+
+  it('returns nothing when the glossary is disabled', () => {
+    const glossary = { ...createGlossary([createEntry({ doNotTranslate: true })]), enabled: false }
+
+    expect(findGlossaryMatches(glossary, 'Galaxy', 'cmn')).toEqual([])
+  })
+})
+
+describe('glossary prompt and hash', () => {
+  it('lists the matched terms and changes the hash when an entry changes', () => {
+    const glossary = createGlossary([createEntry({ term: 'Galaxy', doNotTranslate: true })])
+    const matches = findGlossaryMatches(glossary, 'New Galaxy phones', 'cmn')
+    const edited = findGlossaryMatches(createGlossary([createEntry({ term: 'Galaxy', translation: '盖乐世' })]), 'New Galaxy phones', 'cmn')
+
+    expect(buildGlossaryPrompt(matches)).toContain('"Galaxy" → keep as "Galaxy", do not translate')
+    expect(buildGlossaryPrompt([])).toBeNull()
+    expect(getGlossaryHashComponent(matches, 'repair')).not.toEqual(getGlossaryHashComponent(edited, 'repair'))
+    expect(getGlossaryHashComponent([], 'repair')).toBeNull()
+  })
+})
+
+describe('checkGlossaryTranslation', () => {
+  it('accepts translations that use the target term', () => {
+    const matches = findGlossaryMatches(createGlossary([createEntry({ term: 'Galaxy', translation: '盖乐世' })]), 'Galaxy S24', 'cmn')
+
+    expect(checkGlossaryTranslation('盖乐世 S24', matches, { repair: true })).toEqual({ translation: '盖乐世 S24', violations: [] })
+  })
+
+  it('replaces a source term the model left untranslated', () => {
+    const matches = findGlossaryMatches(createGlossary([createEntry({ term: 'Galaxy', translation: '盖乐世' })]), 'Galaxy S24', 'cmn')
+
+    expect(checkGlossaryTranslation('Galaxy S24 发布', matches, { repair: true })).toEqual({
+      translation: '盖乐世 S24 发布',
+      violations: [{ term: 'Galaxy', expected: '盖乐世', repaired: true }],
+    })
+  })
+
+  it('fixes the capitalization of case-sensitive terms', () => {
+    const matches = findGlossaryMatches(createGlossary([createEntry({ term: 'One UI', doNotTranslate: true, caseSensitive: true })]), 'One UI 7', 'cmn')
+
+    expect(checkGlossaryTranslation('one ui 7 更新', matches, { repair: true }).translation).toBe('One UI 7 更新')
+  })
+
+  it('only reports violations when repair is off or impossible', () => {
+    const matches = findGlossaryMatches(createGlossary([createEntry({ term: 'Galaxy', doNotTranslate: true })]), 'Galaxy S24', 'cmn')
+
+    expect(checkGlossaryTranslation('银河 S24', matches, { repair: true })).toEqual({
+      translation: '银河 S24',
+      violations: [{ term: 'Galaxy', expected: 'Galaxy', repaired: false }],
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import type { GlossaryMatch } from './match'
+import { createGlossaryTermPattern } from './match'
+
+export interface GlossaryViolation {
+  term: string
+  expected: string
+  repaired: boolean
+}
+
+export interface GlossaryCheckResult {
+  translation: string
+  violations: GlossaryViolation[]
+}
+
+/**
+ * Checks that every matched glossary term made it into the translation. Two mistakes can be fixed
+ * without another request: the target term of a case-sensitive entry written with the wrong
+ * capitalization, and the source term left untranslated. Anything else is only reported.
+ */
+export function checkGlossaryTranslation(
+  translation: string,
+  matches: GlossaryMatch[],
+  { repair }: { repair: boolean },
+): GlossaryCheckResult {
+  let result = translation
+  const violations: GlossaryViolation[] = []
+
+  for (const { entry, target } of matches) {
+    // Case-insensitive entries accept the target term in any capitalization
+    if (createGlossaryTermPattern(target, entry.caseSensitive).test(result))
+      continue
+
+    let repaired = false
+    if (createGlossaryTermPattern(target, false).test(result)) {
+      if (repair) {
+        result = result.replace(createGlossaryTermPattern(target, false, true), target)
+        repaired = true
+      }
+    }
+    else if (target !== entry.term && createGlossaryTermPattern(entry.term, entry.caseSensitive).test(result)) {
+      if (repair) {
+        result = result.replace(createGlossaryTermPattern(entry.term, entry.caseSensitive, true), target)
+        repaired = true
+      }
+    }
+
+    violations.push({ term: entry.term, expected: target, repaired })
+  }
+
+  return { translation: result, violations }
+}
@@ -0,0 +1,64 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { GlossaryViolation } from './check'
+import type { BatchFormat } from '@/types/config/provider'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { BATCH_SEPARATOR } from '@/utils/constants/prompt'
+import { logger } from '@/utils/logger'
+import { parseStructuredBatchSegments, replaceStructuredBatchSegments } from '@/utils/request/batch-format'
+import { checkGlossaryTranslation } from './check'
+import { findGlossaryMatches } from './match'
+
+/**
+ * Runs the configured glossary check on a finished translation and returns the text to keep.
+ * Batched requests are checked segment by segment so a term is only expected where it occurs.
+ */
+export async function enforceGlossary(
+  source: string,
+  translation: string,
+  targetCode: LangCodeISO6393,
+  options?: { isBatch?: boolean, batchFormat?: BatchFormat },
+): Promise<string> {
+  const glossary = (await getConfigFromStorage())?.translate.glossary
+  if (!glossary?.enabled || glossary.checkMode === 'off' || glossary.entries.length === 0)
+    return translation
+
+  const repair = glossary.checkMode === 'repair'
+  const violations: GlossaryViolation[] = []
+  const checkSegment = (sourceSegment: string, translatedSegment: string) => {
+    const matches = findGlossaryMatches(glossary, sourceSegment, targetCode)
+    const result = checkGlossaryTranslation(translatedSegment, matches, { repair })
+    violations.push(...result.violations)
+    return result.translation
+  }
+
+  const checkedTranslation = options?.isBatch && options.batchFormat === 'structured'
+    ? checkStructuredBatch(source, translation, checkSegment)
+    : checkSeparatedBatch(source, translation, checkSegment, options?.isBatch)
+
+  if (violations.length > 0)
+    logger.warn('Translation does not follow the glossary', violations)
+
+  return checkedTranslation
+}
+
+type CheckSegment = (sourceSegment: string, translatedSegment: string) => string
+
+// Segments are matched up by id, one the source has no id for is checked against the whole source
+function checkStructuredBatch(source: string, translation: string, checkSegment: CheckSegment): string {
+  const sourceSegments = parseStructuredBatchSegments(source)
+  if (sourceSegments.size === 0)
+    return checkSegment(source, translation)
+  return replaceStructuredBatchSegments(translation, (segment, id) => checkSegment(sourceSegments.get(id) ?? source, segment))
+}
+
+function checkSeparatedBatch(source: string, translation: string, checkSegment: CheckSegment, isBatch?: boolean): string {
+  const sourceSegments = isBatch ? source.split(BATCH_SEPARATOR) : [source]
+  const translatedSegments = isBatch ? translation.split(BATCH_SEPARATOR) : [translation]
+  // A malformed batch response fails later when it is split, so check it as a whole here
+  const segmentPairs = sourceSegments.length === translatedSegments.length
+    ? sourceSegments.map((segment, index) => [segment, translatedSegments[index]] as const)
+    : [[source, translation] as const]
+
+  const checkedSegments = segmentPairs.map(([sourceSegment, translatedSegment]) => checkSegment(sourceSegment, translatedSegment))
+  return checkedSegments.join(segmentPairs.length === 1 ? '' : BATCH_SEPARATOR)
+}
@@ -0,0 +1,197 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { GlossaryEntry } from '@/types/config/glossary'
+import { ISO6393_TO_6391, LANG_CODE_ISO6393_OPTIONS } from '@read-frog/definitions'
+
+type GlossaryEntryDraft = Omit<GlossaryEntry, 'id'>
+
+const TERM_HEADERS = new Set(['term', 'source'])
+const TRANSLATION_HEADERS = new Set(['translation', 'target'])
+const DO_NOT_TRANSLATE_HEADERS = new Set(['donottranslate', 'dnt'])
+const CASE_SENSITIVE_HEADERS = new Set(['casesensitive'])
+const TRUTHY_VALUES = new Set(['true', '1', 'yes', 'y', 'x'])
+const TRADITIONAL_CHINESE_TAG = /^zh-(?:tw|hk|mo|hant)/
+
+/**
+ * Maps an ISO 639-3 code, ISO 639-1 code or BCP 47 tag (`ja`, `zh-TW`, `pt_BR`) to the language
+ * codes the extension uses.
+ */
+export function toGlossaryLangCode(code: string): LangCodeISO6393 | null {
+  const trimmed = code.trim()
+  if ((LANG_CODE_ISO6393_OPTIONS as readonly string[]).includes(trimmed))
+    return trimmed as LangCodeISO6393
+
+  const tag = trimmed.toLowerCase().replaceAll('_', '-')
+  if (TRADITIONAL_CHINESE_TAG.test(tag))
+    return 'cmn-Hant'
+
+  const primary = tag.split('-')[0]
+  return LANG_CODE_ISO6393_OPTIONS.find(langCode => ISO6393_TO_6391[langCode]?.toLowerCase() === primary) ?? null
+}
+
+function createEntry(
+  term: string,
+  translation: string,
+  translations: GlossaryEntry['translations'],
+  flags: { doNotTranslate?: boolean, caseSensitive?: boolean },
+): GlossaryEntryDraft {
+  const hasTranslation = translation !== '' || Object.keys(translations).length > 0
+  return {
+    term,
+    translation,
+    translations,
+    // A bare term with nothing to translate it into is a name to keep as is
+    doNotTranslate: flags.doNotTranslate ?? !hasTranslation,
+    caseSensitive: flags.caseSensitive ?? false,
+  }
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      }
+      else if (char === '"') {
+        inQuotes = false
+      }
+      else {
+        field += char
+      }
+    }
+    else if (char === '"') {
+      inQuotes = true
+    }
+    else if (char === ',') {
+      row.push(field)
+      field = ''
+    }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n')
+        i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    }
+    else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+/**
+ * Parses a CSV glossary. The header needs a `term` column and may have `translation`,
+ * `doNotTranslate` and `caseSensitive` columns; any column named after a language code holds the
+ * term for that language. Other columns are ignored.
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntryDraft[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header)
+    throw new Error('The CSV file is empty')
+
+  const columns = header.map((name) => {
+    const key = name.trim().toLowerCase().replaceAll(/[\s_-]/g, '')
+    if (TERM_HEADERS.has(key))
+      return { type: 'term' } as const
+    if (TRANSLATION_HEADERS.has(key))
+      return { type: 'translation' } as const
+    if (DO_NOT_TRANSLATE_HEADERS.has(key))
+      return { type: 'doNotTranslate' } as const
+    if (CASE_SENSITIVE_HEADERS.has(key))
+      return { type: 'caseSensitive' } as const
+    const langCode = toGlossaryLangCode(name)
+    return langCode ? { type: 'language', langCode } as const : null
+  })
+  if (!columns.some(column => column?.type === 'term'))
+    throw new Error('The CSV header needs a "term" column')
+
+  return rows.flatMap((cells) => {
+    let term = ''
+    let translation = ''
+    const translations: GlossaryEntry['translations'] = {}
+    const flags: { doNotTranslate?: boolean, caseSensitive?: boolean } = {}
+
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? ''
+      if (!column || value === '')
+        return
+      if (column.type === 'term')
+        term = value
+      else if (column.type === 'translation')
+        translation = value
+      else if (column.type === 'language')
+        translations[column.langCode] = value
+      else
+        flags[column.type] = TRUTHY_VALUES.has(value.toLowerCase())
+    })
+
+    return term ? [createEntry(term, translation, translations, flags)] : []
+  })
+}
+
+function getLangAttribute(element: Element) {
+  return element.getAttribute('xml:lang') ?? element.getAttribute('lang') ?? ''
+}
+
+/**
+ * Parses a TBX (TermBase eXchange) file, both the `termEntry`/`langSet` layout of TBX 2 and the
+ * `conceptEntry`/`langSec` layout of TBX 3. The first language of each entry is the source term,
+ * the others become per-language translations.
+ */
+export function parseGlossaryTbx(xml: string): GlossaryEntryDraft[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0)
+    throw new Error('The TBX file is not valid XML')
+
+  const conceptEntries = [
+    ...Array.from(document.getElementsByTagName('termEntry')),
+    ...Array.from(document.getElementsByTagName('conceptEntry')),
+  ]
+
+  return conceptEntries.flatMap((conceptEntry) => {
+    const languageSections = Array.from(conceptEntry.children)
+      .filter(child => child.localName === 'langSet' || child.localName === 'langSec')
+      .map(section => ({
+        langCode: toGlossaryLangCode(getLangAttribute(section)),
+        term: section.getElementsByTagName('term')[0]?.textContent?.trim() ?? '',
+      }))
+      .filter(section => section.term !== '')
+
+    const [source, ...targets] = languageSections
+    if (!source)
+      return []
+
+    const translations: GlossaryEntry['translations'] = {}
+    for (const { langCode, term } of targets) {
+      if (langCode && langCode !== source.langCode)
+        translations[langCode] = term
+    }
+    return [createEntry(source.term, '', translations, {})]
+  })
+}
+
+/**
+ * Adds imported entries to the glossary; an imported term replaces an existing entry with the
+ * same term.
+ */
+export function mergeGlossaryEntries(entries: GlossaryEntry[], imported: GlossaryEntryDraft[]): GlossaryEntry[] {
+  const importedByTerm = new Map(imported.map(entry => [entry.term.toLowerCase(), entry]))
+  const kept = entries.filter(entry => !importedByTerm.has(entry.term.toLowerCase()))
+  return [
+    ...kept,
+    ...Array.from(importedByTerm.values(), entry => ({ ...entry, id: crypto.randomUUID() })),
+  ]
+}
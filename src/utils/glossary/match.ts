@@ -0,0 +1,73 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { GlossaryConfig, GlossaryEntry } from '@/types/config/glossary'
+
+export interface GlossaryMatch {
+  entry: GlossaryEntry
+  // Term the translation has to contain for the target language
+  target: string
+}
+
+// Scripts that separate words with spaces; CJK terms can't rely on word boundaries
+const WORD_BOUNDARY_CHAR = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}]/u
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Builds a regex for `term` that does not match inside longer words, so "UI" skips "build".
+ */
+export function createGlossaryTermPattern(term: string, caseSensitive: boolean, global = false): RegExp {
+  const start = WORD_BOUNDARY_CHAR.test(term[0] ?? '') ? '(?<![\\p{L}\\p{N}])' : ''
+  const end = WORD_BOUNDARY_CHAR.test(term.at(-1) ?? '') ? '(?![\\p{L}\\p{N}])' : ''
+  const flags = `u${caseSensitive ? '' : 'i'}${global ? 'g' : ''}`
+  return new RegExp(`${start}${escapeRegExp(term)}${end}`, flags)
+}
+
+export function resolveGlossaryTarget(entry: GlossaryEntry, targetCode: LangCodeISO6393): string | null {
+  if (entry.doNotTranslate)
+    return entry.term
+  return entry.translations[targetCode] ?? (entry.translation || null)
+}
+
+/**
+ * Glossary entries that occur in `text` and have a target term for `targetCode`, longest term first
+ * so "Galaxy Watch" is listed before "Galaxy".
+ */
+export function findGlossaryMatches(
+  glossary: GlossaryConfig | undefined,
+  text: string,
+  targetCode: LangCodeISO6393,
+): GlossaryMatch[] {
+  if (!glossary?.enabled)
+    return []
+
+  const matches: GlossaryMatch[] = []
+  for (const entry of glossary.entries) {
+    const target = resolveGlossaryTarget(entry, targetCode)
+    if (target && createGlossaryTermPattern(entry.term, entry.caseSensitive).test(text))
+      matches.push({ entry, target })
+  }
+  return matches.sort((a, b) => b.entry.term.length - a.entry.term.length)
+}
+
+export function buildGlossaryPrompt(matches: GlossaryMatch[]): string | null {
+  if (matches.length === 0)
+    return null
+
+  const lines = matches.map(({ entry, target }) => entry.doNotTranslate
+    ? `- "${entry.term}" → keep as "${target}", do not translate`
+    : `- "${entry.term}" → "${target}"`)
+  return `Glossary: translate these terms exactly as listed, keeping the given spelling and capitalization:\n${lines.join('\n')}`
+}
+
+/**
+ * Stable description of the matched entries for the translation cache key, so editing an entry
+ * only invalidates the cached paragraphs that contain its term.
+ */
+export function getGlossaryHashComponent(matches: GlossaryMatch[], checkMode: GlossaryConfig['checkMode']): string | null {
+  if (matches.length === 0)
+    return null
+  const terms = matches.map(({ entry, target }) => [entry.term, target, entry.doNotTranslate, entry.caseSensitive])
+  return `glossary:${checkMode}:${JSON.stringify(terms)}`
+}
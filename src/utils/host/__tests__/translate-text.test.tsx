@@ -125,6 +125,62 @@ describe('translate-text', () => {
     })
   })
 
+  describe('provider fallback', () => {
+    const fallbackConfig = {
+      ...DEFAULT_CONFIG,
+      providersConfig: DEFAULT_CONFIG.providersConfig.map(p => p.id === 'microsoft-default' ? { ...p, enabled: true } : p),
+      translate: {
+        ...DEFAULT_CONFIG.translate,
+        providerId: 'google-default',
+        fallbackProviderIds: ['microsoft-default'],
+      },
+    }
+
+    it('retries with the next provider on a recoverable error', async () => {
+      mockGetConfigFromStorage.mockResolvedValueOnce(fallbackConfig)
+      mockSendMessage
+        .mockRejectedValueOnce(new Error('Translation request failed: 429 Too Many Requests'))
+        .mockResolvedValueOnce('fallback translation')
+
+      const result = await translateText('test text')
+
+      expect(result).toBe('fallback translation')
+      expect(mockSendMessage).toHaveBeenCalledTimes(2)
+      expect(mockSendMessage.mock.calls[0][1].providerConfig.id).toBe('google-default')
+      expect(mockSendMessage.mock.calls[1][1].providerConfig.id).toBe('microsoft-default')
+      expect(mockSendMessage.mock.calls[0][1].hash).not.toBe(mockSendMessage.mock.calls[1][1].hash)
+    })
+
+    it('does not fall back on unrecoverable errors', async () => {
+      mockGetConfigFromStorage.mockResolvedValueOnce(fallbackConfig)
+      mockSendMessage.mockRejectedValueOnce(new Error('Invalid target language code: xx'))
+
+      await expect(translateText('test text')).rejects.toThrow('Invalid target language code')
+      expect(mockSendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('skips disabled fallback providers', async () => {
+      mockGetConfigFromStorage.mockResolvedValueOnce({
+        ...fallbackConfig,
+        providersConfig: DEFAULT_CONFIG.providersConfig,
+      })
+      mockSendMessage.mockRejectedValueOnce(new Error('Task 1 timed out after 100ms'))
+
+      await expect(translateText('test text')).rejects.toThrow('timed out')
+      expect(mockSendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('uses the explicit provider chain when providerIds is passed', async () => {
+      mockGetConfigFromStorage.mockResolvedValueOnce(fallbackConfig)
+      mockSendMessage.mockResolvedValueOnce('override translation')
+
+      const result = await translateText('test text', { providerIds: ['microsoft-default'] })
+
+      expect(result).toBe('override translation')
+      expect(mockSendMessage.mock.calls[0][1].providerConfig.id).toBe('microsoft-default')
+    })
+  })
+
   describe('executeTranslate', () => {
     const langConfig = {
       sourceCode: 'eng' as const,
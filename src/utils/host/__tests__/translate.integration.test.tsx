@@ -10,7 +10,10 @@ import {
   CONTENT_WRAPPER_CLASS,
   INLINE_ATTRIBUTE,
   INLINE_CONTENT_CLASS,
+  ORIGINAL_TOOLTIP_CLASS,
   PARAGRAPH_ATTRIBUTE,
+  SIDE_BY_SIDE_ORIGINAL_CLASS,
+  SIDE_BY_SIDE_ROW_CLASS,
 } from '@/utils/constants/dom-labels'
 import { flushBatchedOperations } from '@/utils/host/dom/batch-dom'
 import { walkAndLabelElement } from '@/utils/host/dom/traversal'
@@ -43,6 +46,13 @@ const TRANSLATION_ONLY_CONFIG: Config = {
   },
 }
 
+const CONFIG_BY_MODE: Record<TranslationMode, Config> = {
+  bilingual: BILINGUAL_CONFIG,
+  translationOnly: TRANSLATION_ONLY_CONFIG,
+  sideBySide: { ...DEFAULT_CONFIG, translate: { ...DEFAULT_CONFIG.translate, mode: 'sideBySide' } },
+  hoverOriginal: { ...DEFAULT_CONFIG, translate: { ...DEFAULT_CONFIG.translate, mode: 'hoverOriginal' } },
+}
+
 describe('translate', () => {
   // Setup and teardown for getComputedStyle mock
   const originalGetComputedStyle = window.getComputedStyle
@@ -79,9 +89,9 @@ describe('translate', () => {
   async function removeOrShowPageTranslation(translationMode: TranslationMode, toggle: boolean = false) {
     const id = crypto.randomUUID()
 
-    walkAndLabelElement(document.body, id, translationMode === 'bilingual' ? BILINGUAL_CONFIG : TRANSLATION_ONLY_CONFIG)
+    walkAndLabelElement(document.body, id, CONFIG_BY_MODE[translationMode])
     await act(async () => {
-      await translateWalkedElement(document.body, id, translationMode === 'bilingual' ? BILINGUAL_CONFIG : TRANSLATION_ONLY_CONFIG, toggle)
+      await translateWalkedElement(document.body, id, CONFIG_BY_MODE[translationMode], toggle)
       // Flush batched DOM operations to ensure all changes are applied before assertions
       flushBatchedOperations()
     })
@@ -1062,6 +1072,86 @@ describe('translate', () => {
       expect(node.querySelector(`.${CONTENT_WRAPPER_CLASS}`)).toBeFalsy()
     })
   })
+  describe('side by side mode', () => {
+    it('should put the original and the translation in one row', async () => {
+      render(
+        <div data-testid="test-node">
+          {MOCK_ORIGINAL_TEXT}
+        </div>,
+      )
+      const node = screen.getByTestId('test-node')
+      await removeOrShowPageTranslation('sideBySide', true)
+
+      const row = node.querySelector(`.${SIDE_BY_SIDE_ROW_CLASS}`)
+      expect(row).toBe(node.childNodes[0])
+      expect(row?.querySelector(`.${SIDE_BY_SIDE_ORIGINAL_CLASS}`)).toHaveTextContent(MOCK_ORIGINAL_TEXT)
+      const wrapper = expectTranslationWrapper(node, 'sideBySide')
+      expect(wrapper?.parentElement).toBe(row)
+      expectTranslatedContent(wrapper, BLOCK_CONTENT_CLASS)
+
+      await removeOrShowPageTranslation('sideBySide', true)
+      expect(node.querySelector(`.${SIDE_BY_SIDE_ROW_CLASS}`)).toBeFalsy()
+      expect(node.querySelector(`.${CONTENT_WRAPPER_CLASS}`)).toBeFalsy()
+      expect(node.textContent).toBe(MOCK_ORIGINAL_TEXT)
+    })
+    it('should keep the inline markup of the translation like translation only mode', async () => {
+      vi.mocked(translateText).mockResolvedValueOnce('Read the <a href="#docs">docs</a> <em>today</em>')
+      render(
+        <div data-testid="test-node">
+          {MOCK_ORIGINAL_TEXT}
+          <a href="#docs" style={{ display: 'inline' }}>{MOCK_ORIGINAL_TEXT}</a>
+          <em style={{ display: 'inline' }}>{MOCK_ORIGINAL_TEXT}</em>
+        </div>,
+      )
+      const node = screen.getByTestId('test-node')
+      await removeOrShowPageTranslation('sideBySide', true)
+
+      const original = node.querySelector(`.${SIDE_BY_SIDE_ORIGINAL_CLASS}`)
+      expect(original?.querySelector('a')).toHaveTextContent(MOCK_ORIGINAL_TEXT)
+      const content = expectTranslatedContent(expectTranslationWrapper(node, 'sideBySide'), BLOCK_CONTENT_CLASS, 'Read the docs today')
+      expect(content?.querySelector('a')).toHaveAttribute('href', '#docs')
+      expect(content?.querySelector('em')).toHaveTextContent('today')
+    })
+    it('should fall back to bilingual layout for inline nodes', async () => {
+      render(
+        <div data-testid="test-node">
+          <a href="#">{MOCK_ORIGINAL_TEXT}</a>
+        </div>,
+      )
+      const node = screen.getByTestId('test-node')
+      await removeOrShowPageTranslation('sideBySide', true)
+
+      expect(node.querySelector(`.${SIDE_BY_SIDE_ROW_CLASS}`)).toBeFalsy()
+      expectTranslationWrapper(node, 'bilingual')
+    })
+  })
+  describe('hover original mode', () => {
+    it('should replace the original and show it in a tooltip on hover', async () => {
+      render(
+        <div data-testid="test-node">
+          {MOCK_ORIGINAL_TEXT}
+        </div>,
+      )
+      const node = screen.getByTestId('test-node')
+      await removeOrShowPageTranslation('hoverOriginal', true)
+
+      const wrapper = expectTranslationWrapper(node, 'hoverOriginal')
+      expect(wrapper).toBe(node.childNodes[0])
+      expect(node.textContent).toBe(MOCK_TRANSLATION)
+
+      act(() => {
+        wrapper?.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, composed: true }))
+      })
+      const tooltip = document.querySelector<HTMLElement>(`.${ORIGINAL_TOOLTIP_CLASS}`)
+      expect(tooltip).toHaveTextContent(MOCK_ORIGINAL_TEXT)
+      expect(tooltip?.style.display).toBe('block')
+
+      await removeOrShowPageTranslation('hoverOriginal', true)
+      expect(node.querySelector(`.${CONTENT_WRAPPER_CLASS}`)).toBeFalsy()
+      expect(node.textContent).toBe(MOCK_ORIGINAL_TEXT)
+      expect(tooltip?.style.display).toBe('none')
+    })
+  })
   describe('switching between translation modes', () => {
     it('should properly clean up translations when switching from bilingual to translation-only mode', async () => {
       render(
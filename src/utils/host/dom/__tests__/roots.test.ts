@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { addDeepDocumentListener, collectIsolatedRoots, getAccessibleIFrameDocument } from '../roots'
+
+function appendShadowHost(parent: Element | ShadowRoot, mode: ShadowRootMode = 'open') {
+  const host = document.createElement('div')
+  parent.appendChild(host)
+  const shadowRoot = host.attachShadow({ mode })
+  return { host, shadowRoot }
+}
+
+function appendIFrame(parent: Element | ShadowRoot) {
+  const iframe = document.createElement('iframe')
+  parent.appendChild(iframe)
+  return iframe
+}
+
+describe('collectIsolatedRoots', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('should collect nested open shadow roots, outer roots first', () => {
+    const outer = appendShadowHost(document.body)
+    const inner = appendShadowHost(outer.shadowRoot)
+
+    expect(collectIsolatedRoots(document)).toEqual([outer.shadowRoot, inner.shadowRoot])
+    expect(collectIsolatedRoots(outer.shadowRoot)).toEqual([inner.shadowRoot])
+  })
+
+  it('should include the shadow root of the container element itself', () => {
+    const { host, shadowRoot } = appendShadowHost(document.body)
+
+    expect(collectIsolatedRoots(host)).toEqual([shadowRoot])
+  })
+
+  it('should skip closed shadow roots and the extension UI', () => {
+    appendShadowHost(document.body, 'closed')
+    const extensionUI = appendShadowHost(document.body)
+    extensionUI.host.setAttribute('data-wxt-shadow-root', '')
+
+    expect(collectIsolatedRoots(document)).toEqual([])
+  })
+
+  it('should collect same-origin iframe documents and the shadow roots inside them', () => {
+    const iframe = appendIFrame(document.body)
+    const iframeDocument = getAccessibleIFrameDocument(iframe)
+    expect(iframeDocument).not.toBeNull()
+
+    const host = iframeDocument!.createElement('div')
+    iframeDocument!.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: 'open' })
+
+    expect(collectIsolatedRoots(document)).toEqual([iframeDocument, shadowRoot])
+  })
+
+  it('should return null for an iframe that is not attached', () => {
+    expect(getAccessibleIFrameDocument(document.createElement('iframe'))).toBeNull()
+  })
+})
+
+describe('addDeepDocumentListener', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('should receive events from the page and from iframe documents', () => {
+    const iframe = appendIFrame(document.body)
+    const iframeDocument = getAccessibleIFrameDocument(iframe)!
+    const listener = vi.fn()
+
+    const remove = addDeepDocumentListener('mouseup', listener)
+    document.body.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }))
+    iframeDocument.body.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }))
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener.mock.calls[0][1]).toBe(document)
+    expect(listener.mock.calls[1][1]).toBe(iframeDocument)
+
+    remove()
+    iframeDocument.body.dispatchEvent(new MouseEvent('mouseup', { bubbles: true }))
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
@@ -95,6 +95,13 @@ export function batchDOMOperation(operation: DOMOperation): void {
   domBatcher.queue(operation)
 }
 
+/**
+ * Resolves once the operations queued so far have run
+ */
+export function waitForBatchedOperations(): Promise<void> {
+  return new Promise(resolve => batchDOMOperation(resolve))
+}
+
 /**
  * Force flush all pending batched operations immediately
  * Useful for testing or when you need operations to complete synchronously
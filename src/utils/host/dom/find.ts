@@ -2,10 +2,11 @@ import type { Point } from '@/types/dom'
 
 import { CONTENT_WRAPPER_CLASS } from '@/utils/constants/dom-labels'
 import { isHTMLElement, isIFrameElement, isShallowInlineHTMLElement, isTranslatedContentNode, isTranslatedWrapperNode } from './filter'
+import { getAccessibleIFrameDocument } from './roots'
 import { smashTruncationStyle } from './style'
 
 /**
- * Find the deepest element at the given point, including inside shadow roots
+ * Find the deepest element at the given point, including inside shadow roots and same-origin iframes
  * @param root - The root element (Document or ShadowRoot)
  * @param point - The point to find the deepest element
  */
@@ -26,6 +27,22 @@ function findElementAt(root: Document | ShadowRoot, point: Point): Element | nul
     }
   }
 
+  // The point is in the parent's viewport, so shift it into the frame's before looking inside
+  if (isIFrameElement(initialElement)) {
+    const iframeDocument = getAccessibleIFrameDocument(initialElement)
+    if (iframeDocument) {
+      const rect = initialElement.getBoundingClientRect()
+      const framePoint = {
+        x: x - rect.left - initialElement.clientLeft,
+        y: y - rect.top - initialElement.clientTop,
+      }
+      const frameElement = findElementAt(iframeDocument, framePoint)
+      if (frameElement) {
+        return frameElement
+      }
+    }
+  }
+
   // Find the deepest element by traversing children
   function findDeepestElement(element: Element): Element {
     let deepestElement = element
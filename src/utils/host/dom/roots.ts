@@ -0,0 +1,153 @@
+import type { Point } from '@/types/dom'
+import { isIFrameElement } from './filter'
+
+/**
+ * A tree the page translation walks on its own: an open shadow root or the document of a
+ * same-origin iframe. Neither is reachable through `querySelectorAll` or a MutationObserver on the
+ * main document.
+ */
+export type IsolatedRoot = Document | ShadowRoot
+
+export function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node
+}
+
+export function isDocument(node: Node): node is Document {
+  return node.nodeType === Node.DOCUMENT_NODE
+}
+
+/**
+ * The document of an iframe the extension can script, or null when the frame is cross-origin or
+ * has not loaded a body yet
+ */
+export function getAccessibleIFrameDocument(iframe: HTMLIFrameElement): Document | null {
+  try {
+    const iframeDocument = iframe.contentDocument
+    return iframeDocument?.body ? iframeDocument : null
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Collect the open shadow roots and accessible iframe documents nested anywhere inside `container`,
+ * outer roots before the roots nested in them. `container` itself is not included.
+ */
+export function collectIsolatedRoots(container: Element | IsolatedRoot): IsolatedRoot[] {
+  const result: IsolatedRoot[] = []
+
+  const visit = (element: Element) => {
+    // The extension's own UI is mounted in shadow roots tagged by WXT
+    if (element.shadowRoot && !element.hasAttribute('data-wxt-shadow-root')) {
+      result.push(element.shadowRoot)
+      for (const child of element.shadowRoot.children)
+        visit(child)
+    }
+
+    if (isIFrameElement(element)) {
+      const iframeDocument = getAccessibleIFrameDocument(element)
+      if (iframeDocument) {
+        result.push(iframeDocument)
+        visit(iframeDocument.documentElement)
+      }
+    }
+
+    for (const child of element.children)
+      visit(child)
+  }
+
+  if (isDocument(container)) {
+    if (container.documentElement)
+      visit(container.documentElement)
+  }
+  else if (isShadowRoot(container)) {
+    for (const child of container.children)
+      visit(child)
+  }
+  else {
+    visit(container)
+  }
+
+  return result
+}
+
+/**
+ * Position of a frame document's viewport inside the top-level viewport, so coordinates from
+ * events inside the frame can be compared with the page's own
+ */
+export function getFrameViewportOffset(frameDocument: Document): Point {
+  const offset: Point = { x: 0, y: 0 }
+  let currentDocument = frameDocument
+
+  while (currentDocument !== document) {
+    const frameElement = currentDocument.defaultView?.frameElement
+    if (!frameElement)
+      break
+    const rect = frameElement.getBoundingClientRect()
+    offset.x += rect.left + frameElement.clientLeft
+    offset.y += rect.top + frameElement.clientTop
+    currentDocument = frameElement.ownerDocument
+  }
+
+  return offset
+}
+
+/**
+ * Listen to `type` on the main document and on the documents of every accessible iframe, including
+ * frames that load after the call. The listener also receives the document the event came from.
+ * Returns a function that removes every listener.
+ */
+export function addDeepDocumentListener<K extends keyof DocumentEventMap>(
+  type: K,
+  listener: (event: DocumentEventMap[K], sourceDocument: Document) => void,
+  options?: AddEventListenerOptions,
+): () => void {
+  const removers = new Map<Document, () => void>()
+
+  const attach = (targetDocument: Document) => {
+    if (removers.has(targetDocument))
+      return
+    const handler = (event: DocumentEventMap[K]) => listener(event, targetDocument)
+    targetDocument.addEventListener(type, handler, options)
+    removers.set(targetDocument, () => targetDocument.removeEventListener(type, handler, options))
+  }
+
+  const attachFrames = () => {
+    collectIsolatedRoots(document)
+      .filter(isDocument)
+      .forEach(attach)
+  }
+
+  // `load` does not bubble, but an iframe's load event still passes the capture phase of its parent
+  const handleLoad = (event: Event) => {
+    const loadedNode = event.target as Node | null
+    if (loadedNode && isIFrameElement(loadedNode))
+      attachFrames()
+  }
+
+  attach(document)
+  attachFrames()
+  document.addEventListener('load', handleLoad, true)
+
+  return () => {
+    document.removeEventListener('load', handleLoad, true)
+    removers.forEach(remove => remove())
+    removers.clear()
+  }
+}
+
+/**
+ * Selection made inside the shadow root an event happened in, if any. Chromium keeps such a
+ * selection on the shadow root, while the document's selection only sees the host.
+ */
+export function getShadowRootSelection(event: Event): Selection | null {
+  for (const target of event.composedPath()) {
+    if (!isShadowRoot(target as Node))
+      continue
+    const selection = (target as ShadowRoot & { getSelection?: () => Selection | null }).getSelection?.()
+    if (selection && !selection.isCollapsed)
+      return selection
+  }
+  return null
+}
@@ -0,0 +1,91 @@
+import type { ProviderConfig } from '@/types/config/provider'
+import { describe, expect, it } from 'vitest'
+import { getFinalSourceCode } from '@/utils/config/languages'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { DEFAULT_PROVIDER_CONFIG } from '@/utils/constants/providers'
+import { Sha256Hex } from '@/utils/hash'
+import { getTranslatePrompt } from '@/utils/prompts/translate'
+import { buildTranslationCacheKeys, getProviderCacheIdentity } from '../cache-key'
+
+const genaiConfig = DEFAULT_PROVIDER_CONFIG.genai as ProviderConfig
+
+function buildKeys(providerConfig: ProviderConfig) {
+  return buildTranslationCacheKeys({
+    text: 'Hello world',
+    providerConfig,
+    langConfig: DEFAULT_CONFIG.language,
+    enableAIContentAware: false,
+    promptId: null,
+    glossary: DEFAULT_CONFIG.translate.glossary,
+  })
+}
+
+describe('getProviderCacheIdentity', () => {
+  it('ignores fields that do not change the translation', () => {
+    const edited = {
+      ...DEFAULT_PROVIDER_CONFIG.genai,
+      name: 'Renamed',
+      description: 'Edited',
+      apiKey: 'sk-rotated',
+      baseURL: `${DEFAULT_PROVIDER_CONFIG.genai.baseURL}/`,
+      cookieBridge: { ...DEFAULT_PROVIDER_CONFIG.genai.cookieBridge, port: 12345 },
+    } as ProviderConfig
+    expect(getProviderCacheIdentity(edited)).toBe(getProviderCacheIdentity(genaiConfig))
+  })
+
+  it('changes with the endpoint and the translate model', () => {
+    const otherEndpoint = { ...DEFAULT_PROVIDER_CONFIG.genai, baseURL: 'https://example.com' } as ProviderConfig
+    const otherModel = {
+      ...DEFAULT_PROVIDER_CONFIG.genai,
+      models: {
+        ...DEFAULT_PROVIDER_CONFIG.genai.models,
+        translate: { model: DEFAULT_PROVIDER_CONFIG.genai.models.translate.model, isCustomModel: true, customModel: 'other-model' },
+      },
+    } as ProviderConfig
+    expect(getProviderCacheIdentity(otherEndpoint)).not.toBe(getProviderCacheIdentity(genaiConfig))
+    expect(getProviderCacheIdentity(otherModel)).not.toBe(getProviderCacheIdentity(genaiConfig))
+  })
+
+  it('does not include secrets', () => {
+    const withKey = { ...DEFAULT_PROVIDER_CONFIG.genai, apiKey: 'sk-secret' } as ProviderConfig
+    expect(getProviderCacheIdentity(withKey)).not.toContain('sk-secret')
+  })
+})
+
+describe('buildTranslationCacheKeys', () => {
+  it('keeps the key when a provider is renamed but changes the legacy key', async () => {
+    const renamed = { ...DEFAULT_PROVIDER_CONFIG.genai, name: 'Renamed' } as ProviderConfig
+    const [original, edited] = await Promise.all([buildKeys(genaiConfig), buildKeys(renamed)])
+    expect(edited.key).toBe(original.key)
+    expect(edited.legacyKey).not.toBe(original.legacyKey)
+  })
+
+  it('builds the legacy key from the provider config as it was stored before the pairing token and batch format', async () => {
+    const { cookieBridge } = DEFAULT_PROVIDER_CONFIG.genai
+    const current = {
+      ...DEFAULT_PROVIDER_CONFIG.genai,
+      batchFormat: 'structured',
+      cookieBridge: { ...cookieBridge, pairingToken: 'secret-token' },
+    } as ProviderConfig
+    const stored = { ...DEFAULT_PROVIDER_CONFIG.genai, cookieBridge: { enabled: cookieBridge.enabled, port: cookieBridge.port } }
+    const { language } = DEFAULT_CONFIG
+    const { systemPrompt, prompt } = await getTranslatePrompt(language.targetCode, 'Hello world', { isBatch: true, batchFormat: 'separator', promptId: null })
+
+    const { legacyKey } = await buildKeys(current)
+
+    expect(legacyKey).toBe(Sha256Hex(
+      'Hello world',
+      JSON.stringify(stored),
+      getFinalSourceCode(language.sourceCode, language.detectedCode),
+      language.targetCode,
+      systemPrompt,
+      prompt,
+      'enableAIContentAware=false',
+    ))
+  })
+
+  it('separates providers of different types', async () => {
+    const [genai, google] = await Promise.all([buildKeys(genaiConfig), buildKeys(DEFAULT_PROVIDER_CONFIG.google as ProviderConfig)])
+    expect(genai.key).not.toBe(google.key)
+  })
+})
@@ -1,43 +1,51 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
 import type { LLMTranslateProviderConfig } from '@/types/config/provider'
 import type { ArticleContent } from '@/types/content'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
 import { generateText } from 'ai'
-import { isGenAIProviderConfig } from '@/types/config/provider'
+import { isSessionProviderConfig } from '@/types/config/provider'
 import { getProviderOptions } from '@/utils/constants/model'
-import { genaiTranslate } from '@/utils/genai/client'
+import { recordLLMUsage } from '@/utils/llm-usage/record'
 import { getTranslatePrompt } from '@/utils/prompts/translate'
 import { getTranslateModelById } from '@/utils/providers/model'
+import { getBatchFormat } from '@/utils/request/batch-format'
+import { sessionProviderTranslate } from '@/utils/session-provider/chat'
 
 export interface AITranslateOptions {
   isBatch?: boolean
   content?: ArticleContent
   chunkMetadata?: TranslationChunkMetadata
   chunkMetadataList?: Array<TranslationChunkMetadata | undefined>
+  promptId?: string | null
+  references?: TranslationMemoryReference[]
   clientRequestId?: string
+  onText?: (text: string) => void
 }
 
 export async function aiTranslate(
   text: string,
-  targetLangName: string,
+  targetCode: LangCodeISO6393,
   providerConfig: LLMTranslateProviderConfig,
   options?: AITranslateOptions,
 ) {
-  if (isGenAIProviderConfig(providerConfig))
-    return await genaiTranslate(text, targetLangName, providerConfig, options)
+  if (isSessionProviderConfig(providerConfig))
+    return await sessionProviderTranslate(text, targetCode, providerConfig, options)
 
   const { id: providerId, models: { translate } } = providerConfig
   const translateModel = translate.isCustomModel ? translate.customModel : translate.model
   const model = await getTranslateModelById(providerId)
 
   const providerOptions = getProviderOptions(translateModel ?? '')
-  const { systemPrompt, prompt } = await getTranslatePrompt(targetLangName, text, options)
+  const { systemPrompt, prompt } = await getTranslatePrompt(targetCode, text, { ...options, batchFormat: getBatchFormat(providerConfig) })
 
-  const { text: translatedText } = await generateText({
+  const { text: translatedText, usage } = await generateText({
     model,
     system: systemPrompt,
     prompt,
     providerOptions,
   })
+  void recordLLMUsage({ feature: 'translate', providerConfig, modelType: 'translate' }, usage)
 
   const [, finalTranslation = translatedText] = translatedText.match(/<\/think>([\s\S]*)/) || []
 
@@ -0,0 +1,120 @@
+import type { Config } from '@/types/config/config'
+import type { GlossaryConfig } from '@/types/config/glossary'
+import type { BatchFormat, ProviderConfig } from '@/types/config/provider'
+import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import { isAPIProviderConfig, isLLMTranslateProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { getFinalSourceCode } from '@/utils/config/languages'
+import { findGlossaryMatches, getGlossaryHashComponent } from '@/utils/glossary/match'
+import { Sha256Hex } from '@/utils/hash'
+import { getTranslatePrompt } from '@/utils/prompts/translate'
+import { getBatchFormat } from '@/utils/request/batch-format'
+
+/**
+ * The parts of a provider config that decide what it returns: the provider type, endpoint and
+ * translate model. Names, descriptions, API keys and connection settings such as the cookie
+ * bridge are left out, so editing them keeps the cache and no secret ends up in a key.
+ */
+export function getProviderCacheIdentity(providerConfig: ProviderConfig): string {
+  const baseURL = isAPIProviderConfig(providerConfig)
+    ? (providerConfig.baseURL?.trim().replace(/\/+$/, '').toLowerCase() ?? '')
+    : ''
+
+  let model = ''
+  if (isLLMTranslateProviderConfig(providerConfig)) {
+    const { translate } = providerConfig.models
+    model = (translate.isCustomModel ? translate.customModel : translate.model) ?? ''
+  }
+
+  return `provider:${providerConfig.provider}|baseURL:${baseURL}|model:${model}`
+}
+
+/**
+ * The provider config serialized the way the legacy key hashed it, without the fields added since:
+ * the batch format and the cookie bridge pairing token. Key order is kept, it is part of the hash.
+ */
+export function getLegacyProviderConfigJSON(providerConfig: ProviderConfig): string {
+  const { batchFormat: _batchFormat, ...legacyConfig } = providerConfig as ProviderConfig & { batchFormat?: BatchFormat }
+  if (!isSessionProviderConfig(providerConfig))
+    return JSON.stringify(legacyConfig)
+
+  const { pairingToken: _pairingToken, ...cookieBridge } = providerConfig.cookieBridge
+  return JSON.stringify({ ...legacyConfig, cookieBridge })
+}
+
+export interface TranslationCacheKeyParams {
+  text: string
+  providerConfig: ProviderConfig
+  langConfig: Config['language']
+  enableAIContentAware: boolean
+  promptId: string | null
+  glossary: GlossaryConfig
+  articleContext?: { title?: string, textContent?: string }
+  chunkMetadata?: TranslationChunkMetadata
+}
+
+export interface TranslationCacheKeys {
+  key: string
+  // What the key used to be, when the whole provider config was hashed and batches were always
+  // separated by `BATCH_SEPARATOR`. Lets the background reach entries stored before the switch
+  // until they expire.
+  legacyKey: string
+}
+
+// Everything after the provider component, in the order the legacy key hashed it
+async function buildRequestComponents(batchFormat: BatchFormat, {
+  text,
+  providerConfig,
+  langConfig,
+  enableAIContentAware,
+  promptId,
+  glossary,
+  articleContext,
+  chunkMetadata,
+}: TranslationCacheKeyParams): Promise<string[]> {
+  const components: string[] = [
+    getFinalSourceCode(langConfig.sourceCode, langConfig.detectedCode),
+    langConfig.targetCode,
+  ]
+
+  // Non-LLM providers get no prompt, but their output is still checked against the glossary
+  const glossaryComponent = getGlossaryHashComponent(
+    findGlossaryMatches(glossary, text, langConfig.targetCode),
+    glossary.checkMode,
+  )
+  if (glossaryComponent)
+    components.push(glossaryComponent)
+
+  if (isLLMTranslateProviderConfig(providerConfig)) {
+    const { systemPrompt, prompt } = await getTranslatePrompt(langConfig.targetCode, text, { isBatch: true, batchFormat, promptId })
+    components.push(systemPrompt, prompt)
+    components.push(enableAIContentAware ? 'enableAIContentAware=true' : 'enableAIContentAware=false')
+
+    // The same paragraph on a different article gets a different summary, so a different entry
+    if (enableAIContentAware && articleContext) {
+      if (articleContext.title)
+        components.push(`title:${articleContext.title}`)
+      if (articleContext.textContent)
+        components.push(`content:${articleContext.textContent.slice(0, 1000)}`)
+    }
+  }
+
+  if (chunkMetadata?.groupId)
+    components.push(`chunkGroup:${chunkMetadata.groupId}`)
+  if (typeof chunkMetadata?.index === 'number')
+    components.push(`chunkIndex:${chunkMetadata.index}`)
+  if (typeof chunkMetadata?.total === 'number')
+    components.push(`chunkTotal:${chunkMetadata.total}`)
+
+  return components
+}
+
+export async function buildTranslationCacheKeys(params: TranslationCacheKeyParams): Promise<TranslationCacheKeys> {
+  const [requestComponents, legacyRequestComponents] = await Promise.all([
+    buildRequestComponents(getBatchFormat(params.providerConfig), params),
+    buildRequestComponents('separator', params),
+  ])
+  return {
+    key: Sha256Hex(params.text, getProviderCacheIdentity(params.providerConfig), ...requestComponents),
+    legacyKey: Sha256Hex(params.text, getLegacyProviderConfigJSON(params.providerConfig), ...legacyRequestComponents),
+  }
+}
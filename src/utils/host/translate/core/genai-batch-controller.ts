@@ -5,11 +5,13 @@ import type { TranslationChunkMetadata } from '@/types/translation-chunk'
 import { Sha256Hex } from '@/utils/hash'
 import { logger } from '@/utils/logger'
 import { sendMessage } from '@/utils/message'
+import { getProviderCacheIdentity } from '../cache-key'
 
 interface PendingChunk {
   id: string
   text: string
   hash: string
+  legacyHash?: string
   chunkMetadata?: TranslationChunkMetadata
   scheduleAt: number
   resolve: (value: string) => void
@@ -18,11 +20,14 @@ interface PendingChunk {
   cancelled?: boolean
   phase: 'pending' | 'in-flight' | 'settled'
   cleanedUp?: boolean
+  // Whether the chunk was already sent again after a response came back without it
+  requeued?: boolean
 }
 
 interface EnqueueOptions {
   text: string
   hash: string
+  legacyHash?: string
   langConfig: Config['language']
   providerConfig: GenAIProviderConfig
   batchQueueConfig: BatchQueueConfig
@@ -30,12 +35,14 @@ interface EnqueueOptions {
   articleTitle?: string
   articleTextContent?: string
   chunkMetadata?: TranslationChunkMetadata
+  promptId?: string | null
   signal?: AbortSignal
 }
 
 interface ControllerContext {
   langConfig: Config['language']
   providerConfig: GenAIProviderConfig
+  promptId?: string | null
   articleTitle?: string
   articleTextContent?: string
 }
@@ -65,6 +72,7 @@ class GenAIBatchController {
         id: crypto.randomUUID(),
         text: options.text,
         hash: options.hash,
+        legacyHash: options.legacyHash,
         chunkMetadata: options.chunkMetadata,
         scheduleAt: options.scheduleAt,
         resolve,
@@ -97,7 +105,7 @@ class GenAIBatchController {
   }
 
   private async prepareContext(options: EnqueueOptions): Promise<void> {
-    const nextKey = this.computeContextKey(options.langConfig, options.providerConfig)
+    const nextKey = this.computeContextKey(options.langConfig, options.providerConfig, options.promptId)
     const requiresFlush = this.contextKey && this.contextKey !== nextKey
     if (requiresFlush)
       await this.flushPending('context-change')
@@ -108,6 +116,7 @@ class GenAIBatchController {
     this.context = {
       langConfig: options.langConfig,
       providerConfig: options.providerConfig,
+      promptId: options.promptId,
       articleTitle: options.articleTitle ?? previousContext?.articleTitle,
       articleTextContent: options.articleTextContent ?? previousContext?.articleTextContent,
     }
@@ -149,8 +158,10 @@ class GenAIBatchController {
 
     const payload = {
       chunks: chunks.map(chunk => ({
+        id: chunk.id,
         text: chunk.text,
         hash: chunk.hash,
+        legacyHash: chunk.legacyHash,
         chunkMetadata: chunk.chunkMetadata,
       })),
       langConfig: context.langConfig,
@@ -159,6 +170,7 @@ class GenAIBatchController {
       clientRequestId: crypto.randomUUID(),
       articleTitle: context.articleTitle,
       articleTextContent: context.articleTextContent,
+      promptId: context.promptId,
     }
 
     const chunkCount = chunks.length
@@ -167,13 +179,20 @@ class GenAIBatchController {
     this.cancelledBeforeFlush = 0
 
     const flushPromise = sendMessage('enqueueGenAIBatch', payload)
-      .then((translations: string[]) => {
-        if (!Array.isArray(translations) || translations.length !== chunks.length)
+      .then((translations) => {
+        if (!Array.isArray(translations))
           throw new Error('GenAI batch response size mismatch')
 
-        translations.forEach((translation, index) => {
-          chunks[index].resolve(translation)
+        const translationById = new Map(translations.map(({ id, translation }) => [id, translation]))
+        const missingChunks: PendingChunk[] = []
+        chunks.forEach((chunk) => {
+          const translation = translationById.get(chunk.id)
+          if (translation !== undefined)
+            chunk.resolve(translation)
+          else
+            missingChunks.push(chunk)
         })
+        this.requeueMissingChunks(missingChunks)
       })
       .catch((error: Error) => {
         chunks.forEach(chunk => chunk.reject(error))
@@ -200,6 +219,25 @@ class GenAIBatchController {
     return flushPromise
   }
 
+  /**
+   * Chunks the response has no translation for go back into the queue once, so only they are
+   * requested again instead of failing the whole batch
+   */
+  private requeueMissingChunks(chunks: PendingChunk[]): void {
+    for (const chunk of chunks) {
+      if (chunk.cancelled)
+        continue
+      if (chunk.requeued) {
+        chunk.reject(new Error('GenAI batch response size mismatch'))
+        continue
+      }
+      chunk.requeued = true
+      chunk.phase = 'pending'
+      this.pendingChunks.push(chunk)
+      this.pendingCharacters += chunk.text.length
+    }
+  }
+
   public cancelChunk(chunkId: string, reason?: Error): boolean {
     const chunk = this.chunkMap.get(chunkId)
     if (!chunk)
@@ -283,8 +321,10 @@ class GenAIBatchController {
     }
   }
 
-  private computeContextKey(langConfig: Config['language'], providerConfig: GenAIProviderConfig): string {
-    return Sha256Hex(JSON.stringify(langConfig), JSON.stringify(providerConfig))
+  private computeContextKey(langConfig: Config['language'], providerConfig: GenAIProviderConfig, promptId?: string | null): string {
+    // Edits that don't change the output (a renamed provider, a rotated key) must not split a batch;
+    // the context still picks up the latest config on every enqueue
+    return Sha256Hex(JSON.stringify(langConfig), providerConfig.id, getProviderCacheIdentity(providerConfig), String(promptId))
   }
 }
 
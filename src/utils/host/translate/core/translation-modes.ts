@@ -1,29 +1,41 @@
+import type { TranslateTextOptions, TranslationResultInfo } from '../translate-text'
+import type { TranslatedParagraph } from './translation-state'
 import type { Config } from '@/types/config/config'
 import type { TranslationMode } from '@/types/config/translate'
 import type { TransNode } from '@/types/dom'
 import {
+  BLOCK_CONTENT_CLASS,
   CONTENT_WRAPPER_CLASS,
   NOTRANSLATE_CLASS,
+  SIDE_BY_SIDE_ORIGINAL_CLASS,
+  SIDE_BY_SIDE_ROW_CLASS,
   TRANSLATION_MODE_ATTRIBUTE,
   WALKED_ATTRIBUTE,
 } from '../../../constants/dom-labels'
-import { batchDOMOperation } from '../../dom/batch-dom'
+import { batchDOMOperation, waitForBatchedOperations } from '../../dom/batch-dom'
 import { isBlockTransNode, isHTMLElement, isTextNode, isTransNode } from '../../dom/filter'
 import { unwrapDeepestOnlyHTMLChild } from '../../dom/find'
 import { getOwnerDocument } from '../../dom/node'
 import { extractTextContent } from '../../dom/traversal'
 import { nextChunkMetadata } from '../chunk-registry'
+import { decorateTranslationNode } from '../decorate-translation'
 import { removeTranslatedWrapperWithRestore } from '../dom/translation-cleanup'
-import { insertTranslatedNodeIntoWrapper } from '../dom/translation-insertion'
+import { insertTranslatedNodeIntoWrapper, setOutOfPlaceTranslationContent } from '../dom/translation-insertion'
+import { createTranslationPreview } from '../dom/translation-preview'
 import { findPreviousTranslatedWrapperInside } from '../dom/translation-wrapper'
 import { setTranslationDirAndLang } from '../translation-attributes'
+import { setUpOriginalTooltip } from '../ui/original-tooltip'
+import { setUpParagraphActions } from '../ui/paragraph-actions'
+import { markLowQualityTranslation } from '../ui/quality-indicator'
 import { createSpinnerInside, getTranslatedTextAndRemoveSpinner } from '../ui/spinner'
-import { isNumericContent } from '../ui/translation-utils'
+import { isForceInlineTranslation, isNumericContent } from '../ui/translation-utils'
 import {
   clearTranslationAbortController,
   MARK_ATTRIBUTES_REGEX,
   originalContentMap,
+  originalTextMap,
   registerTranslationAbortController,
+  translatedParagraphMap,
   translatingNodes,
 } from './translation-state'
 
@@ -43,28 +55,74 @@ function resetRetryCount(node: Node) {
   translationRetryCounts.delete(node)
 }
 
+// Choices for translating particular paragraphs again, from the quality mark or the paragraph actions
+export type TranslateNodesOptions = Pick<TranslateTextOptions, 'providerIds' | 'promptId' | 'bypassCache' | 'replaceCacheKey'>
+
 export async function translateNodes(
   nodes: ChildNode[],
   walkId: string,
   toggle: boolean = false,
   config: Config,
   forceBlockTranslation: boolean = false,
+  options?: TranslateNodesOptions,
 ): Promise<void> {
   const translationMode = config.translate.mode
   if (translationMode === 'translationOnly') {
-    await translateNodeTranslationOnlyMode(nodes, walkId, config, toggle)
+    await translateNodeTranslationOnlyMode(nodes, walkId, config, toggle, options)
   }
   else if (translationMode === 'bilingual') {
-    await translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation)
+    await translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation, options)
+  }
+  else if (translationMode === 'sideBySide') {
+    await translateNodesSideBySideMode(nodes, walkId, config, toggle, forceBlockTranslation, options)
+  }
+  else if (translationMode === 'hoverOriginal') {
+    await translateNodesHoverOriginalMode(nodes, walkId, config, toggle, options)
   }
 }
 
+/**
+ * Translates the paragraph of a translated wrapper again, skipping the cache. The new translation
+ * replaces the cached one of the paragraph, also when it comes from another provider or prompt.
+ */
+export async function retranslateParagraph(
+  translatedWrapperNode: HTMLElement,
+  options?: Pick<TranslateNodesOptions, 'providerIds' | 'promptId'>,
+): Promise<void> {
+  const paragraph = translatedParagraphMap.get(translatedWrapperNode)
+  if (!paragraph)
+    return
+
+  // A new walk id, so the wrapper of the current translation is found and removed first
+  await translateNodes(paragraph.nodes, crypto.randomUUID(), false, paragraph.config, paragraph.forceBlockTranslation, {
+    ...options,
+    bypassCache: true,
+    replaceCacheKey: paragraph.result.hash,
+  })
+}
+
+/**
+ * Remembers how a paragraph was translated for the paragraph actions and starts its quality check
+ * when that is turned on
+ */
+function registerTranslatedParagraph(translatedWrapperNode: HTMLElement, paragraph: TranslatedParagraph) {
+  translatedParagraphMap.set(translatedWrapperNode, paragraph)
+  setUpParagraphActions(getOwnerDocument(translatedWrapperNode), retranslateParagraph)
+
+  const { qualityCheck } = paragraph.config.translate
+  if (!qualityCheck.enabled)
+    return
+  void markLowQualityTranslation(translatedWrapperNode, paragraph.result, paragraph.translation, qualityCheck.threshold, () =>
+    retranslateParagraph(translatedWrapperNode))
+}
+
 export async function translateNodesBilingualMode(
   nodes: ChildNode[],
   walkId: string,
   config: Config,
   toggle: boolean = false,
   forceBlockTranslation: boolean = false,
+  options?: TranslateNodesOptions,
 ): Promise<void> {
   const transNodes = nodes.filter(node => isTransNode(node))
   if (transNodes.length === 0) {
@@ -90,7 +148,9 @@ export async function translateNodesBilingualMode(
       }
       else {
         nodes.forEach(node => translatingNodes.delete(node))
-        void translateNodesBilingualMode(nodes, walkId, config, toggle)
+        // After the batched removal, or the same wrapper is found again and removed over and over
+        await waitForBatchedOperations()
+        await translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation, options)
         return
       }
     }
@@ -123,7 +183,14 @@ export async function translateNodesBilingualMode(
     }
     batchDOMOperation(insertOperation)
 
+    // Streamed GenAI output is laid out like the final translation and replaced by it
+    const preview = createTranslationPreview(translatedWrapperNode, spinner, async (previewNode, text) => {
+      await insertTranslatedNodeIntoWrapper(previewNode, targetNode, text, config.translate.translationNodeStyle, forceBlockTranslation)
+      return previewNode.lastElementChild as HTMLElement | null
+    })
+
     let realTranslatedText: string | undefined
+    let translationResult: TranslationResultInfo | undefined
     try {
       const chunkMetadata = nextChunkMetadata(walkId)
       realTranslatedText = await getTranslatedTextAndRemoveSpinner(
@@ -132,10 +199,16 @@ export async function translateNodesBilingualMode(
         spinner,
         translatedWrapperNode,
         abortController.signal,
-        { chunkMetadata },
+        {
+          chunkMetadata,
+          onText: preview.update,
+          ...options,
+          onResult: (result) => { translationResult = result },
+        },
       )
     }
     finally {
+      preview.remove()
       clearTranslationAbortController(translatedWrapperNode)
     }
 
@@ -146,7 +219,7 @@ export async function translateNodesBilingualMode(
     if (!translatedWrapperNode.isConnected) {
       if (!toggle && targetNode.isConnected && shouldRetryTarget(targetNode)) {
         queueMicrotask(() => {
-          void translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation)
+          void translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation, options)
         })
       }
       return
@@ -171,7 +244,10 @@ export async function translateNodesBilingualMode(
       config.translate.translationNodeStyle,
       forceBlockTranslation,
     )
+    originalTextMap.set(translatedWrapperNode, textContent)
     resetRetryCount(targetNode)
+    if (translationResult)
+      registerTranslatedParagraph(translatedWrapperNode, { nodes, config, forceBlockTranslation, result: translationResult, translation: translatedText })
   }
   finally {
     transNodes.forEach(node => translatingNodes.delete(node))
@@ -183,6 +259,71 @@ export async function translateNodeTranslationOnlyMode(
   walkId: string,
   config: Config,
   toggle: boolean = false,
+  options?: TranslateNodesOptions,
+): Promise<void> {
+  await translateNodesOutOfPlace(nodes, walkId, config, toggle, 'translationOnly', options)
+}
+
+/**
+ * Like translation only, but the original text of each paragraph shows in a tooltip when hovering
+ * or long-pressing its translation
+ */
+export async function translateNodesHoverOriginalMode(
+  nodes: ChildNode[],
+  walkId: string,
+  config: Config,
+  toggle: boolean = false,
+  options?: TranslateNodesOptions,
+): Promise<void> {
+  await translateNodesOutOfPlace(nodes, walkId, config, toggle, 'hoverOriginal', options)
+}
+
+function isSideBySideParagraph(nodes: ChildNode[]): boolean {
+  const outerTransNodes = nodes.filter(isTransNode)
+  if (outerTransNodes.length !== 1)
+    return false
+
+  const [paragraph] = outerTransNodes
+  if (!isHTMLElement(paragraph) || !isBlockTransNode(paragraph))
+    return false
+  // Already laid out side by side, toggling must go through the same path to restore it
+  if (paragraph.querySelector(`.${SIDE_BY_SIDE_ROW_CLASS}`))
+    return true
+  return !isForceInlineTranslation(unwrapDeepestOnlyHTMLChild(paragraph))
+}
+
+/**
+ * Lay each paragraph out as a row with the original on the left and the translation on the right.
+ * Every paragraph gets its own row, so both sides stay aligned and scroll together with the page.
+ * Inline content, such as links and buttons, falls back to the bilingual layout.
+ */
+export async function translateNodesSideBySideMode(
+  nodes: ChildNode[],
+  walkId: string,
+  config: Config,
+  toggle: boolean = false,
+  forceBlockTranslation: boolean = false,
+  options?: TranslateNodesOptions,
+): Promise<void> {
+  if (!forceBlockTranslation && !isSideBySideParagraph(nodes)) {
+    await translateNodesBilingualMode(nodes, walkId, config, toggle, forceBlockTranslation, options)
+    return
+  }
+
+  await translateNodesOutOfPlace(nodes, walkId, config, toggle, 'sideBySide', options)
+}
+
+/**
+ * The modes that move the original nodes out of the paragraph. The paragraph's HTML is kept in
+ * `originalContentMap` so removing the translation restores the untouched original.
+ */
+async function translateNodesOutOfPlace(
+  nodes: ChildNode[],
+  walkId: string,
+  config: Config,
+  toggle: boolean,
+  mode: Exclude<TranslationMode, 'bilingual'>,
+  options?: TranslateNodesOptions,
 ): Promise<void> {
   const isTransNodeAndNotTranslatedWrapper = (node: Node): node is TransNode => {
     if (isHTMLElement(node) && node.classList.contains(CONTENT_WRAPPER_CLASS))
@@ -255,11 +396,13 @@ export async function translateNodeTranslationOnlyMode(
         // In translationOnly mode, removeTranslatedWrapperWithRestore uses innerHTML to restore content,
         // which destroys the original DOM nodes and creates new ones. The 'nodes' array still references
         // the old detached nodes, and targetNode can't reference to the new dom added by innerHTML anymore.
-        // Therefore, by recursively calling translateNodeTranslationOnlyMode here with the
+        // Therefore, by recursively calling translateNodesOutOfPlace here with the
         // same nodes array, we ensure the translation uses the newly created DOM elements since the
         // function will re-query and find the correct parent and child nodes from the restored DOM.
         nodes.forEach(node => translatingNodes.delete(node))
-        void translateNodeTranslationOnlyMode(nodes, walkId, config, toggle)
+        // After the batched restore, like in the bilingual mode
+        await waitForBatchedOperations()
+        await translateNodesOutOfPlace(nodes, walkId, config, toggle, mode, options)
         return
       }
     }
@@ -292,9 +435,11 @@ export async function translateNodeTranslationOnlyMode(
     const ownerDoc = getOwnerDocument(targetNode)
     const translatedWrapperNode = ownerDoc.createElement('span')
     translatedWrapperNode.className = `${NOTRANSLATE_CLASS} ${CONTENT_WRAPPER_CLASS}`
-    translatedWrapperNode.setAttribute(TRANSLATION_MODE_ATTRIBUTE, 'translationOnly' satisfies TranslationMode)
+    translatedWrapperNode.setAttribute(TRANSLATION_MODE_ATTRIBUTE, mode)
     translatedWrapperNode.setAttribute(WALKED_ATTRIBUTE, walkId)
-    translatedWrapperNode.style.display = 'contents'
+    // The hover tooltip and the side-by-side column need a box to attach to
+    if (mode === 'translationOnly')
+      translatedWrapperNode.style.display = 'contents'
     setTranslationDirAndLang(translatedWrapperNode, config)
     const spinner = createSpinnerInside(translatedWrapperNode)
     const abortController = new AbortController()
@@ -314,7 +459,11 @@ export async function translateNodeTranslationOnlyMode(
     }
     batchDOMOperation(insertOperation)
 
+    // The original stays in place until the final translation replaces it, so stream next to it
+    const preview = createTranslationPreview(translatedWrapperNode, spinner, async previewNode => previewNode)
+
     let translatedText: string | undefined
+    let translationResult: TranslationResultInfo | undefined
     try {
       const chunkMetadata = nextChunkMetadata(walkId)
       translatedText = await getTranslatedTextAndRemoveSpinner(
@@ -323,10 +472,16 @@ export async function translateNodeTranslationOnlyMode(
         spinner,
         translatedWrapperNode,
         abortController.signal,
-        { chunkMetadata },
+        {
+          chunkMetadata,
+          onText: preview.update,
+          ...options,
+          onResult: (result) => { translationResult = result },
+        },
       )
     }
     finally {
+      preview.remove()
       clearTranslationAbortController(translatedWrapperNode)
     }
 
@@ -337,7 +492,7 @@ export async function translateNodeTranslationOnlyMode(
     if (!translatedWrapperNode.isConnected) {
       if (!toggle && targetNode.isConnected && shouldRetryTarget(targetNode)) {
         queueMicrotask(() => {
-          void translateNodeTranslationOnlyMode(nodes, walkId, config, toggle)
+          void translateNodesOutOfPlace(nodes, walkId, config, toggle, mode, options)
         })
       }
       return
@@ -349,8 +504,35 @@ export async function translateNodeTranslationOnlyMode(
       return
     }
 
-    translatedWrapperNode.innerHTML = translatedText
+    originalTextMap.set(translatedWrapperNode, textContent)
     resetRetryCount(targetNode)
+    if (translationResult)
+      registerTranslatedParagraph(translatedWrapperNode, { nodes, config, forceBlockTranslation: false, result: translationResult, translation: translatedText })
+
+    if (mode === 'sideBySide') {
+      const translatedNode = ownerDoc.createElement('span')
+      translatedNode.className = `${NOTRANSLATE_CLASS} ${BLOCK_CONTENT_CLASS}`
+      setOutOfPlaceTranslationContent(translatedNode, translatedText)
+      await decorateTranslationNode(translatedNode, config.translate.translationNodeStyle)
+      translatedWrapperNode.appendChild(translatedNode)
+
+      const row = ownerDoc.createElement('span')
+      row.className = `${NOTRANSLATE_CLASS} ${SIDE_BY_SIDE_ROW_CLASS}`
+      const originalColumn = ownerDoc.createElement('span')
+      originalColumn.className = SIDE_BY_SIDE_ORIGINAL_CLASS
+
+      // The original nodes are moved rather than copied, so listeners of the page keep working
+      batchDOMOperation(() => {
+        allChildNodes[0].parentNode?.insertBefore(row, allChildNodes[0])
+        originalColumn.append(...allChildNodes)
+        row.append(originalColumn, translatedWrapperNode)
+      })
+      return
+    }
+
+    setOutOfPlaceTranslationContent(translatedWrapperNode, translatedText)
+    if (mode === 'hoverOriginal')
+      setUpOriginalTooltip(ownerDoc)
 
     // Batch final DOM mutations to reduce layout thrashing
     batchDOMOperation(() => {
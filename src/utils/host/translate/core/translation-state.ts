@@ -1,8 +1,22 @@
+import type { TranslationResultInfo } from '../translate-text'
+import type { Config } from '@/types/config/config'
 import { MARK_ATTRIBUTES } from '../../../constants/dom-labels'
 
+// What a translated wrapper was made from, to translate that one paragraph again
+export interface TranslatedParagraph {
+  nodes: ChildNode[]
+  config: Config
+  forceBlockTranslation: boolean
+  result: TranslationResultInfo
+  translation: string
+}
+
 // State management for translation operations
 export const translatingNodes = new WeakSet<ChildNode>()
 export const originalContentMap = new Map<Element, string>()
+// Text sent for translation by each translated wrapper, for the hoverOriginal tooltip and exports
+export const originalTextMap = new WeakMap<HTMLElement, string>()
+export const translatedParagraphMap = new WeakMap<HTMLElement, TranslatedParagraph>()
 const translationAbortControllers = new WeakMap<HTMLElement, AbortController>()
 
 // Pre-compiled regex for better performance - removes all mark attributes
@@ -4,6 +4,8 @@ import { batchDOMOperation } from '../../dom/batch-dom'
 import { isHTMLElement, isTranslatedWrapperNode } from '../../dom/filter'
 import { deepQueryTopLevelSelector } from '../../dom/find'
 import { abortTranslationForWrapper, originalContentMap } from '../core/translation-state'
+import { hideOriginalTooltip } from '../ui/original-tooltip'
+import { hideParagraphActions } from '../ui/paragraph-actions'
 
 export function removeShadowHostInTranslatedWrapper(wrapper: HTMLElement): void {
   // Remove React shadow hosts (for error components)
@@ -29,8 +31,12 @@ export function removeTranslatedWrapperWithRestore(wrapper: HTMLElement): void {
 
   const translationMode = wrapper.getAttribute(TRANSLATION_MODE_ATTRIBUTE)
 
-  if (translationMode === 'translationOnly') {
-    // For translation-only mode, find nearest ancestor in originalContentMap and restore
+  if (translationMode === 'hoverOriginal')
+    hideOriginalTooltip(wrapper.ownerDocument)
+  hideParagraphActions(wrapper)
+
+  if (translationMode === 'translationOnly' || translationMode === 'hoverOriginal' || translationMode === 'sideBySide') {
+    // For the modes moving the original nodes, find nearest ancestor in originalContentMap and restore
     let currentNode = wrapper.parentNode
 
     while (currentNode && isHTMLElement(currentNode)) {
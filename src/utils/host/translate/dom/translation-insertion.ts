@@ -6,6 +6,14 @@ import { getOwnerDocument } from '../../dom/node'
 import { decorateTranslationNode } from '../decorate-translation'
 import { isForceInlineTranslation } from '../ui/translation-utils'
 
+/**
+ * Writes the translation of the modes that move the original out of the paragraph, as HTML so
+ * inline markup such as links and emphasis renders the same in all of them.
+ */
+export function setOutOfPlaceTranslationContent(translatedNode: HTMLElement, translatedText: string): void {
+  translatedNode.innerHTML = translatedText
+}
+
 export function addInlineTranslation(ownerDoc: Document, translatedWrapperNode: HTMLElement, translatedNode: HTMLElement): void {
   const spaceNode = ownerDoc.createElement('span')
   spaceNode.textContent = '  '
@@ -0,0 +1,53 @@
+import { NOTRANSLATE_CLASS } from '../../../constants/dom-labels'
+import { getOwnerDocument } from '../../dom/node'
+
+export interface TranslationPreview {
+  update: (text: string) => void
+  remove: () => void
+}
+
+/**
+ * Shows a translation while it is still streaming in. The preview is mounted in front of the
+ * spinner the first time text arrives, and `mount` returns the element whose text then follows
+ * the stream. Callers remove the preview before inserting the final translation.
+ */
+export function createTranslationPreview(
+  translatedWrapperNode: HTMLElement,
+  spinner: HTMLElement,
+  mount: (previewNode: HTMLElement, text: string) => Promise<HTMLElement | null>,
+): TranslationPreview {
+  const previewNode = getOwnerDocument(translatedWrapperNode).createElement('span')
+  previewNode.className = NOTRANSLATE_CLASS
+  previewNode.style.display = 'contents'
+
+  let textNode: HTMLElement | null = null
+  let isMounting = false
+  let isRemoved = false
+  let latestText = ''
+
+  return {
+    update(text) {
+      latestText = text
+      if (isRemoved)
+        return
+      if (textNode) {
+        textNode.textContent = text
+        return
+      }
+      if (isMounting)
+        return
+
+      isMounting = true
+      translatedWrapperNode.insertBefore(previewNode, spinner.parentNode === translatedWrapperNode ? spinner : null)
+      void mount(previewNode, text).then((node) => {
+        textNode = node
+        if (textNode)
+          textNode.textContent = latestText
+      })
+    },
+    remove() {
+      isRemoved = true
+      previewNode.remove()
+    },
+  }
+}
@@ -2,8 +2,11 @@ import type { Config } from '@/types/config/config'
 import type { ProviderConfig } from '@/types/config/provider'
 import type { ArticleContent } from '@/types/content'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
-import { ISO6393_TO_6391, LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+import { ISO6393_TO_6391 } from '@read-frog/definitions'
 import { isLLMTranslateProviderConfig, isNonAPIProvider, isPureAPIProvider } from '@/types/config/provider'
+import { enforceGlossary } from '@/utils/glossary/enforce'
+import { getBatchFormat } from '@/utils/request/batch-format'
 import { aiTranslate } from './api/ai'
 import { deeplxTranslate } from './api/deeplx'
 import { googleTranslate } from './api/google'
@@ -19,7 +22,11 @@ export async function executeTranslate(
     content?: ArticleContent
     chunkMetadata?: TranslationChunkMetadata
     chunkMetadataList?: Array<TranslationChunkMetadata | undefined>
+    promptId?: string | null
+    references?: TranslationMemoryReference[]
     clientRequestId?: string
+    // Streamed partial output; only GenAI providers report it
+    onText?: (text: string) => void
   },
 ) {
   const cleanText = text.replace(/\u200B/g, '').trim()
@@ -54,12 +61,14 @@ export async function executeTranslate(
     }
   }
   else if (isLLMTranslateProviderConfig(providerConfig)) {
-    const targetLangName = LANG_CODE_TO_EN_NAME[langConfig.targetCode]
-    translatedText = await aiTranslate(text, targetLangName, providerConfig, options)
+    translatedText = await aiTranslate(text, langConfig.targetCode, providerConfig, options)
   }
   else {
     throw new Error(`Unknown provider: ${provider}`)
   }
 
-  return translatedText.trim()
+  return await enforceGlossary(text, translatedText.trim(), langConfig.targetCode, {
+    isBatch: options?.isBatch,
+    batchFormat: getBatchFormat(providerConfig),
+  })
 }
@@ -0,0 +1,35 @@
+import { onMessage } from '@/utils/message'
+
+type GenAIProgressListener = (text: string) => void
+
+// Listeners keyed by chunk hash; identical paragraphs share a hash and all receive the updates
+const progressListeners = new Map<string, Set<GenAIProgressListener>>()
+let hasRegisteredMessageListener = false
+
+function ensureMessageListener() {
+  if (hasRegisteredMessageListener)
+    return
+
+  onMessage('genaiTranslationProgress', ({ data }) => {
+    progressListeners.get(data.hash)?.forEach(listener => listener(data.text))
+  })
+  hasRegisteredMessageListener = true
+}
+
+/**
+ * Subscribes to the partial GenAI translation the background streams for `hash`, until the
+ * returned function is called.
+ */
+export function subscribeGenAITranslationProgress(hash: string, listener: GenAIProgressListener): () => void {
+  ensureMessageListener()
+
+  const listeners = progressListeners.get(hash) ?? new Set<GenAIProgressListener>()
+  listeners.add(listener)
+  progressListeners.set(hash, listeners)
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && progressListeners.get(hash) === listeners)
+      progressListeners.delete(hash)
+  }
+}
@@ -7,7 +7,7 @@ import { translateWalkedElement } from './core/translation-walker'
 import { validateTranslationConfig } from './translate-text'
 
 // Re-export public APIs
-export { translateNodes, translateNodesBilingualMode, translateNodeTranslationOnlyMode } from './core/translation-modes'
+export { translateNodes, translateNodesBilingualMode, translateNodesHoverOriginalMode, translateNodesSideBySideMode, translateNodeTranslationOnlyMode } from './core/translation-modes'
 export { translateWalkedElement } from './core/translation-walker'
 export { removeAllTranslatedWrapperNodes } from './dom/translation-cleanup'
 
@@ -0,0 +1,78 @@
+import type { Config } from '@/types/config/config'
+import type { ProviderConfig } from '@/types/config/provider'
+import { getProviderConfigById } from '@/utils/config/helpers'
+import { GENAI_BATCH_MISMATCH_ERROR_PREFIX } from '@/utils/genai/constants'
+
+export type TranslateErrorKind
+  = | 'abort'
+    | 'auth'
+    | 'rate-limit'
+    | 'timeout'
+    | 'batch-mismatch'
+    | 'session'
+    | 'network'
+    | 'unknown'
+
+export interface TranslateErrorClassification {
+  kind: TranslateErrorKind
+  // Whether the next provider in the fallback chain should be tried
+  fallbackable: boolean
+}
+
+// Errors cross the messaging boundary as plain messages, so classification is message based
+const TRANSLATE_ERROR_PATTERNS: Array<{ kind: Exclude<TranslateErrorKind, 'abort' | 'unknown'>, pattern: RegExp }> = [
+  { kind: 'auth', pattern: /\b(?:401|403)\b|unauthori[sz]ed|forbidden|invalid api key|incorrect api key|api key is required/i },
+  { kind: 'rate-limit', pattern: /\b429\b|rate.?limit|too many requests|quota/i },
+  { kind: 'session', pattern: /GenAI login|GenAI session/i },
+  { kind: 'timeout', pattern: /timed out|timeout/i },
+  { kind: 'batch-mismatch', pattern: new RegExp(`${GENAI_BATCH_MISMATCH_ERROR_PREFIX}|GenAI batch response size mismatch`, 'i') },
+  { kind: 'network', pattern: /network error|failed to fetch|networkerror/i },
+]
+
+function isAbortLikeError(error: unknown): boolean {
+  return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError'
+}
+
+export function classifyTranslateError(error: unknown): TranslateErrorClassification {
+  if (isAbortLikeError(error))
+    return { kind: 'abort', fallbackable: false }
+
+  const message = error instanceof Error ? error.message : String(error ?? '')
+  const match = TRANSLATE_ERROR_PATTERNS.find(({ pattern }) => pattern.test(message))
+  if (match)
+    return { kind: match.kind, fallbackable: true }
+
+  return { kind: 'unknown', fallbackable: false }
+}
+
+/**
+ * Resolve the ordered providers used for a translation: the primary provider followed by
+ * its fallbacks. Missing, disabled and duplicate fallbacks are dropped, the primary is
+ * always kept so a misconfigured chain still surfaces the original error.
+ */
+export function resolveTranslateProviderChain(
+  config: Pick<Config, 'providersConfig' | 'translate'>,
+  providerIds?: string[],
+): ProviderConfig[] {
+  const [primaryId, ...fallbackIds] = providerIds ?? [config.translate.providerId, ...config.translate.fallbackProviderIds]
+  const chain: ProviderConfig[] = []
+  const seen = new Set<string>()
+
+  const primary = primaryId ? getProviderConfigById(config.providersConfig, primaryId) : undefined
+  if (primary) {
+    chain.push(primary)
+    seen.add(primary.id)
+  }
+
+  for (const id of fallbackIds) {
+    if (seen.has(id))
+      continue
+    const providerConfig = getProviderConfigById(config.providersConfig, id)
+    if (!providerConfig?.enabled)
+      continue
+    chain.push(providerConfig)
+    seen.add(id)
+  }
+
+  return chain
+}
@@ -1,25 +1,29 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
 import type { Config } from '@/types/config/config'
 import type { ProviderConfig } from '@/types/config/provider'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
 
 import { i18n } from '#imports'
 import { Readability } from '@mozilla/readability'
-import { LANG_CODE_TO_EN_NAME, LANG_CODE_TO_LOCALE_NAME } from '@read-frog/definitions'
+import { LANG_CODE_TO_LOCALE_NAME } from '@read-frog/definitions'
 import { franc } from 'franc-min'
 import { toast } from 'sonner'
-import { isAPIProviderConfig, isGenAIProviderConfig, isLLMTranslateProviderConfig, providerRequiresAPIKey } from '@/types/config/provider'
+import { isAPIProviderConfig, isLLMTranslateProviderConfig, isSessionProviderConfig, providerRequiresAPIKey } from '@/types/config/provider'
 import { getProviderConfigById } from '@/utils/config/helpers'
-import { getFinalSourceCode } from '@/utils/config/languages'
 import { normalizeHtmlForTranslation, removeDummyNodes } from '@/utils/content/utils'
 import { logger } from '@/utils/logger'
 import { createPerfTimer } from '@/utils/perf/perf-timer'
-import { getTranslatePrompt } from '@/utils/prompts/translate'
 import { getConfigFromStorage } from '../../config/config'
-import { Sha256Hex } from '../../hash'
+import { resolveSiteConfig } from '../../config/site-profiles'
 import { sendMessage } from '../../message'
+import { buildTranslationCacheKeys } from './cache-key'
 import { getGenAIBatchController } from './core/genai-batch-controller'
+import { subscribeGenAITranslationProgress } from './genai-progress'
+import { classifyTranslateError, resolveTranslateProviderChain } from './provider-fallback'
 
 const MIN_LENGTH_FOR_LANG_DETECTION = 50
+// The request queues run the earliest scheduled task first, so low priority requests are scheduled a bit later
+const LOW_PRIORITY_SCHEDULE_DELAY_MS = 2000
 
 // Module-level cache for article data (only meaningful in content script context)
 let cachedArticleData: {
@@ -95,59 +99,168 @@ async function getOrFetchArticleData(
   }
 }
 
-async function buildHashComponents(
-  text: string,
-  providerConfig: ProviderConfig,
-  langConfig: Config['language'],
-  enableAIContentAware: boolean,
-  articleContext?: { title?: string, textContent?: string },
-): Promise<string[]> {
-  const hashComponents = [
-    text,
-    JSON.stringify(providerConfig),
-    getFinalSourceCode(langConfig.sourceCode, langConfig.detectedCode),
-    langConfig.targetCode,
-  ]
+// Where a translation came from, enough to look up its cache entry
+export interface TranslationResultInfo {
+  hash: string
+  providerId: string
+  // The text as it was sent, after normalization
+  sourceText: string
+  langConfig: Config['language']
+}
+
+export interface TranslateTextOptions {
+  chunkMetadata?: TranslationChunkMetadata
+  signal?: AbortSignal
+  // Overrides the configured provider chain, first id is treated as the primary provider
+  providerIds?: string[]
+  // Receives the partial translation while a GenAI response is still streaming
+  onText?: (text: string) => void
+  // Lets requests for content on screen go first, e.g. for subtitle cues translated ahead of playback
+  lowPriority?: boolean
+  // Translates into this language instead of the configured target, with the source detected from the text
+  targetCode?: LangCodeISO6393
+  // Translates with this custom prompt instead of the configured one, null picks the default prompt
+  promptId?: string | null
+  // Requests a new translation even if one is cached, the result replaces the cached one
+  bypassCache?: boolean
+  // Cache entry the new translation replaces as well when the provider or prompt differs from the
+  // one it was cached with. Only used together with `bypassCache`.
+  replaceCacheKey?: string
+  // Receives the cache key and provider of a successful translation
+  onResult?: (result: TranslationResultInfo) => void
+}
+
+interface TranslateWithProviderParams {
+  config: Config
+  providerConfig: ProviderConfig
+  normalizedText: string
+  chunkMetadata?: TranslationChunkMetadata
+  clientRequestId: string
+  signal?: AbortSignal
+  onText?: (text: string) => void
+  lowPriority?: boolean
+  bypassCache?: boolean
+  replaceCacheKey?: string
+  onResult?: (result: TranslationResultInfo) => void
+  perf: ReturnType<typeof createPerfTimer>
+}
+
+async function translateWithProvider({
+  config,
+  providerConfig,
+  normalizedText,
+  chunkMetadata,
+  clientRequestId,
+  signal,
+  onText,
+  lowPriority,
+  bypassCache,
+  replaceCacheKey,
+  onResult,
+  perf,
+}: TranslateWithProviderParams): Promise<string> {
+  const langConfig = config.language
+  // Resolved from the site profile on the content side, the background only sees the global config
+  const { promptId } = config.translate.customPromptsConfig
+
+  // Get article data for LLM providers first (needed for both hash and request)
+  let articleTitle: string | undefined
+  let articleTextContent: string | undefined
 
   if (isLLMTranslateProviderConfig(providerConfig)) {
-    const targetLangName = LANG_CODE_TO_EN_NAME[langConfig.targetCode]
-    const { systemPrompt, prompt } = await getTranslatePrompt(targetLangName, text, { isBatch: true })
-    hashComponents.push(systemPrompt, prompt)
-    hashComponents.push(enableAIContentAware ? 'enableAIContentAware=true' : 'enableAIContentAware=false')
-
-    // Include article context in hash when AI Content Aware is enabled
-    // to ensure when we get different content from the same url, we get different cache entries
-    if (enableAIContentAware && articleContext) {
-      if (articleContext.title) {
-        hashComponents.push(`title:${articleContext.title}`)
-      }
-      if (articleContext.textContent) {
-        // Use a substring hash to avoid huge hash inputs while still differentiating articles
-        hashComponents.push(`content:${articleContext.textContent.slice(0, 1000)}`)
-      }
+    const articleData = await getOrFetchArticleData(config.translate.enableAIContentAware)
+    if (articleData) {
+      articleTitle = articleData.title
+      articleTextContent = articleData.textContent
     }
   }
 
-  return hashComponents
-}
+  const { key: hash, legacyKey: legacyHash } = await buildTranslationCacheKeys({
+    text: normalizedText,
+    providerConfig,
+    langConfig,
+    enableAIContentAware: config.translate.enableAIContentAware,
+    promptId,
+    glossary: config.translate.glossary,
+    articleContext: { title: articleTitle, textContent: articleTextContent },
+    chunkMetadata,
+  })
 
-interface TranslateTextOptions {
-  chunkMetadata?: TranslationChunkMetadata
-  signal?: AbortSignal
+  const replacedCacheKey = bypassCache ? replaceCacheKey : undefined
+  const scheduleAt = lowPriority ? Date.now() + LOW_PRIORITY_SCHEDULE_DELAY_MS : Date.now()
+  perf.step('queue:hash-ready', { hash, providerId: providerConfig.id })
+
+  const unsubscribeProgress = onText && isSessionProviderConfig(providerConfig)
+    ? subscribeGenAITranslationProgress(hash, onText)
+    : undefined
+
+  try {
+    // The batch controller answers from the cache, a bypassing request goes out on its own
+    if (isSessionProviderConfig(providerConfig) && config.translate.useGenAIBatching && !bypassCache) {
+      const controller = getGenAIBatchController()
+      const result = await controller.enqueue({
+        text: normalizedText,
+        hash,
+        legacyHash,
+        langConfig,
+        providerConfig,
+        batchQueueConfig: config.translate.batchQueueConfig,
+        scheduleAt,
+        articleTitle,
+        articleTextContent,
+        chunkMetadata,
+        promptId,
+        signal,
+      })
+      perf.step('api:dispatched', { pathway: 'genai-batch' })
+      onResult?.({ hash, providerId: providerConfig.id, sourceText: normalizedText, langConfig })
+      return result
+    }
+
+    const response = await sendMessage('enqueueTranslateRequest', {
+      text: normalizedText,
+      langConfig,
+      providerConfig,
+      scheduleAt,
+      hash,
+      legacyHash,
+      clientRequestId,
+      articleTitle,
+      articleTextContent,
+      chunkMetadata,
+      promptId,
+      bypassCache,
+      replaceCacheKey: replacedCacheKey,
+    })
+    perf.step('api:dispatched', { pathway: 'enqueue' })
+    // The paragraph's translation is found under the replaced entry from now on
+    onResult?.({ hash: replacedCacheKey ?? hash, providerId: providerConfig.id, sourceText: normalizedText, langConfig })
+    return response
+  }
+  finally {
+    unsubscribeProgress?.()
+  }
 }
 
 export async function translateText(text: string, options?: TranslateTextOptions) {
-  const config = await getConfigFromStorage()
-  if (!config) {
+  const siteConfig = resolveSiteConfig(await getConfigFromStorage())
+  if (!siteConfig) {
     throw new Error('No global config when translate text')
   }
+  const languageConfig = options?.targetCode
+    ? { ...siteConfig.language, sourceCode: 'auto' as const, targetCode: options.targetCode }
+    : siteConfig.language
+  const translateConfig = options?.promptId !== undefined
+    ? { ...siteConfig.translate, customPromptsConfig: { ...siteConfig.translate.customPromptsConfig, promptId: options.promptId } }
+    : siteConfig.translate
+  const config = { ...siteConfig, language: languageConfig, translate: translateConfig }
   const clientRequestId = crypto.randomUUID()
   const perf = createPerfTimer(`translate:${clientRequestId}`)
   perf.step('init', { rawChars: text.length })
-  const providerId = config.translate.providerId
-  const providerConfig = getProviderConfigById(config.providersConfig, providerId)
+  const providerChain = resolveTranslateProviderChain(config, options?.providerIds)
 
-  if (!providerConfig) {
+  if (providerChain.length === 0) {
+    const providerId = options?.providerIds?.[0] ?? config.translate.providerId
     throw new Error(`No provider config for id ${providerId} when translate text`)
   }
 
@@ -173,7 +286,7 @@ export async function translateText(text: string, options?: TranslateTextOptions
     return ''
   }
 
-  const enrichedChunkMetadata = options?.chunkMetadata
+  const chunkMetadata = options?.chunkMetadata
     ? {
         ...options.chunkMetadata,
         rawChars: text.length,
@@ -182,70 +295,35 @@ export async function translateText(text: string, options?: TranslateTextOptions
       }
     : undefined
 
-  // Get article data for LLM providers first (needed for both hash and request)
-  let articleTitle: string | undefined
-  let articleTextContent: string | undefined
-
-  if (isLLMTranslateProviderConfig(providerConfig)) {
-    const articleData = await getOrFetchArticleData(config.translate.enableAIContentAware)
-    if (articleData) {
-      articleTitle = articleData.title
-      articleTextContent = articleData.textContent
+  for (const [index, providerConfig] of providerChain.entries()) {
+    try {
+      return await translateWithProvider({
+        config,
+        providerConfig,
+        normalizedText,
+        chunkMetadata,
+        clientRequestId,
+        signal: options?.signal,
+        onText: options?.onText,
+        lowPriority: options?.lowPriority,
+        bypassCache: options?.bypassCache,
+        replaceCacheKey: options?.replaceCacheKey,
+        onResult: options?.onResult,
+        perf,
+      })
+    }
+    catch (error) {
+      const nextProvider = providerChain[index + 1]
+      const { kind, fallbackable } = classifyTranslateError(error)
+      if (!nextProvider || !fallbackable || options?.signal?.aborted)
+        throw error
+      logger.warn(`translateText: provider ${providerConfig.id} failed (${kind}), falling back to ${nextProvider.id}`, error)
+      perf.step('provider:fallback', { from: providerConfig.id, to: nextProvider.id, kind })
     }
   }
 
-  const hashComponents = await buildHashComponents(
-    normalizedText,
-    providerConfig,
-    langConfig,
-    config.translate.enableAIContentAware,
-    { title: articleTitle, textContent: articleTextContent },
-  )
-
-  const chunkMetadata = enrichedChunkMetadata
-  if (chunkMetadata?.groupId)
-    hashComponents.push(`chunkGroup:${chunkMetadata.groupId}`)
-  if (typeof chunkMetadata?.index === 'number')
-    hashComponents.push(`chunkIndex:${chunkMetadata.index}`)
-  if (typeof chunkMetadata?.total === 'number')
-    hashComponents.push(`chunkTotal:${chunkMetadata.total}`)
-
-  const hash = Sha256Hex(...hashComponents)
-
-  const scheduleAt = Date.now()
-  perf.step('queue:hash-ready', { hash })
-
-  if (isGenAIProviderConfig(providerConfig) && config.translate.useGenAIBatching) {
-    const controller = getGenAIBatchController()
-    const result = await controller.enqueue({
-      text: normalizedText,
-      hash,
-      langConfig,
-      providerConfig,
-      batchQueueConfig: config.translate.batchQueueConfig,
-      scheduleAt,
-      articleTitle,
-      articleTextContent,
-      chunkMetadata,
-      signal: options?.signal,
-    })
-    perf.step('api:dispatched', { pathway: 'genai-batch' })
-    return result
-  }
-
-  const response = await sendMessage('enqueueTranslateRequest', {
-    text: normalizedText,
-    langConfig,
-    providerConfig,
-    scheduleAt,
-    hash,
-    clientRequestId,
-    articleTitle,
-    articleTextContent,
-    chunkMetadata,
-  })
-  perf.step('api:dispatched', { pathway: 'enqueue' })
-  return response
+  // Unreachable: the last provider in the chain always rethrows
+  throw new Error('No provider available when translate text')
 }
 
 export function validateTranslationConfig(config: Pick<Config, 'providersConfig' | 'translate' | 'language'>): boolean {
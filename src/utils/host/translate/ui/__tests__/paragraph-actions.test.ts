@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import type { TranslateTextOptions, TranslationResultInfo } from '../../translate-text'
+import type { Config } from '@/types/config/config'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { BLOCK_ATTRIBUTE, BLOCK_CONTENT_CLASS, CONTENT_WRAPPER_CLASS, PARAGRAPH_ATTRIBUTE } from '@/utils/constants/dom-labels'
+import { flushBatchedOperations } from '@/utils/host/dom/batch-dom'
+
+const TEST_CONFIG: Config = {
+  ...DEFAULT_CONFIG,
+  translate: {
+    ...DEFAULT_CONFIG.translate,
+    mode: 'bilingual' as const,
+  },
+}
+
+const FIRST_RESULT: TranslationResultInfo = {
+  hash: 'first-hash',
+  providerId: 'microsoft-default',
+  sourceText: 'Hello world',
+  langConfig: DEFAULT_CONFIG.language,
+}
+
+vi.mock('@/utils/host/translate/translate-text', () => ({
+  translateText: vi.fn(),
+  validateTranslationConfig: vi.fn(() => true),
+}))
+
+vi.mock('@/utils/config/config', () => ({
+  getConfigFromStorage: vi.fn(),
+}))
+
+// Only the props matter here, the menu itself is a React component
+vi.mock('@/utils/react-shadow-host/create-shadow-host', () => ({
+  createReactShadowHost: vi.fn(() => document.createElement('div')),
+}))
+
+vi.mock('@/components/translation/paragraph-actions', () => ({
+  ParagraphActions: () => null,
+}))
+
+const { translateText } = await import('@/utils/host/translate/translate-text')
+const { getConfigFromStorage } = await import('@/utils/config/config')
+const { createReactShadowHost } = await import('@/utils/react-shadow-host/create-shadow-host')
+const { translateNodesBilingualMode } = await import('../../core/translation-modes')
+
+// The wrapper is inserted by a batched DOM operation while a real request is still in flight
+function resolveTranslation(translation: string, result?: TranslationResultInfo) {
+  return async (_text: string, options?: TranslateTextOptions) => {
+    flushBatchedOperations()
+    if (result)
+      options?.onResult?.(result)
+    return translation
+  }
+}
+
+function getParagraphActionsProps() {
+  const [element] = vi.mocked(createReactShadowHost).mock.calls[0]
+  return (element as { props: { onRetranslate: (options?: Pick<TranslateTextOptions, 'providerIds' | 'promptId'>) => Promise<void> } }).props
+}
+
+describe('paragraph actions', () => {
+  const originalGetComputedStyle = window.getComputedStyle
+
+  beforeAll(() => {
+    vi.mocked(getConfigFromStorage).mockResolvedValue(TEST_CONFIG)
+    window.getComputedStyle = vi.fn((element) => {
+      const style = originalGetComputedStyle(element)
+      if (style.float === '')
+        Object.defineProperty(style, 'float', { value: 'none', configurable: true })
+      return style
+    })
+  })
+
+  afterAll(() => {
+    window.getComputedStyle = originalGetComputedStyle
+  })
+
+  it('translates the paragraph under the pointer again, skipping the cache, and replaces its text', async () => {
+    vi.mocked(translateText)
+      .mockImplementationOnce(resolveTranslation('first translation', FIRST_RESULT))
+      .mockImplementationOnce(resolveTranslation('second translation'))
+
+    const node = document.createElement('div')
+    node.textContent = 'Hello world'
+    // Labeled the way the page walker does
+    node.setAttribute(BLOCK_ATTRIBUTE, '')
+    node.setAttribute(PARAGRAPH_ATTRIBUTE, '')
+    document.body.appendChild(node)
+
+    await translateNodesBilingualMode([node], 'first-walk', TEST_CONFIG)
+    flushBatchedOperations()
+
+    const wrapper = node.querySelector<HTMLElement>(`.${CONTENT_WRAPPER_CLASS}`)
+    expect(wrapper?.querySelector(`.${BLOCK_CONTENT_CLASS}`)).toHaveTextContent('first translation')
+
+    wrapper!.querySelector(`.${BLOCK_CONTENT_CLASS}`)!.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, composed: true }))
+    // Resolves once the new translation is in place
+    await getParagraphActionsProps().onRetranslate({ providerIds: ['google-default'] })
+    flushBatchedOperations()
+
+    expect(translateText).toHaveBeenLastCalledWith('Hello world', expect.objectContaining({
+      providerIds: ['google-default'],
+      bypassCache: true,
+      replaceCacheKey: 'first-hash',
+    }))
+    const wrappers = node.querySelectorAll(`.${CONTENT_WRAPPER_CLASS}`)
+    expect(wrappers).toHaveLength(1)
+    expect(wrappers[0].querySelector(`.${BLOCK_CONTENT_CLASS}`)).toHaveTextContent('second translation')
+  })
+})
@@ -0,0 +1,129 @@
+import { NOTRANSLATE_CLASS, ORIGINAL_TOOLTIP_CLASS, TRANSLATION_MODE_ATTRIBUTE } from '../../../constants/dom-labels'
+import { originalTextMap } from '../core/translation-state'
+
+const LONG_PRESS_DELAY_MS = 500
+const TOOLTIP_OFFSET_PX = 6
+
+const HOVER_ORIGINAL_WRAPPER_SELECTOR = `[${TRANSLATION_MODE_ATTRIBUTE}="hoverOriginal"]`
+
+const documentsWithTooltip = new WeakSet<Document>()
+const tooltips = new WeakMap<Document, HTMLElement>()
+
+function createTooltip(ownerDoc: Document): HTMLElement {
+  const tooltip = ownerDoc.createElement('div')
+  tooltip.className = `${NOTRANSLATE_CLASS} ${ORIGINAL_TOOLTIP_CLASS}`
+  // Inline important styles, the host page styles must not restyle or hide the tooltip
+  tooltip.style.cssText = `
+    position: fixed !important;
+    z-index: 2147483647 !important;
+    max-width: min(480px, calc(100vw - 16px)) !important;
+    padding: 6px 10px !important;
+    border-radius: 6px !important;
+    background: rgb(17 24 39 / 95%) !important;
+    color: #f9fafb !important;
+    font-size: 13px !important;
+    line-height: 1.5 !important;
+    white-space: pre-wrap !important;
+    pointer-events: none !important;
+    box-shadow: 0 4px 12px rgb(0 0 0 / 20%) !important;
+  `
+  setTooltipVisible(tooltip, false)
+  return tooltip
+}
+
+function setTooltipVisible(tooltip: HTMLElement, visible: boolean) {
+  tooltip.style.setProperty('display', visible ? 'block' : 'none', 'important')
+}
+
+function findWrapper(event: Event): HTMLElement | null {
+  // composedPath reaches wrappers inside shadow roots, where the event target is retargeted to the host
+  const [target] = event.composedPath()
+  if (!(target instanceof Element))
+    return null
+  return target.closest<HTMLElement>(HOVER_ORIGINAL_WRAPPER_SELECTOR)
+}
+
+function showTooltip(ownerDoc: Document, wrapper: HTMLElement) {
+  const originalText = originalTextMap.get(wrapper)
+  if (!originalText)
+    return
+
+  const tooltip = tooltips.get(ownerDoc) ?? createTooltip(ownerDoc)
+  tooltips.set(ownerDoc, tooltip)
+  // Single page apps may replace the body
+  if (!tooltip.isConnected)
+    ownerDoc.body.appendChild(tooltip)
+  tooltip.textContent = originalText
+  setTooltipVisible(tooltip, true)
+
+  // Below the translation, or above it when there is no room left in the viewport
+  const view = ownerDoc.defaultView
+  const rect = wrapper.getBoundingClientRect()
+  const tooltipRect = tooltip.getBoundingClientRect()
+  const viewportWidth = view?.innerWidth ?? tooltipRect.width
+  const viewportHeight = view?.innerHeight ?? rect.bottom + tooltipRect.height
+  const fitsBelow = rect.bottom + TOOLTIP_OFFSET_PX + tooltipRect.height <= viewportHeight
+  const top = fitsBelow ? rect.bottom + TOOLTIP_OFFSET_PX : rect.top - TOOLTIP_OFFSET_PX - tooltipRect.height
+  const left = Math.min(Math.max(rect.left, 8), viewportWidth - tooltipRect.width - 8)
+  tooltip.style.setProperty('top', `${Math.max(top, 8)}px`, 'important')
+  tooltip.style.setProperty('left', `${Math.max(left, 8)}px`, 'important')
+}
+
+export function hideOriginalTooltip(ownerDoc: Document = document) {
+  const tooltip = tooltips.get(ownerDoc)
+  if (tooltip)
+    setTooltipVisible(tooltip, false)
+}
+
+/**
+ * Show the original text of hoverOriginal translations on hover, or on long-press for touch screens.
+ * Listeners are delegated once per document, so wrappers added later need no setup.
+ */
+export function setUpOriginalTooltip(ownerDoc: Document) {
+  if (documentsWithTooltip.has(ownerDoc))
+    return
+  documentsWithTooltip.add(ownerDoc)
+
+  let hoveredWrapper: HTMLElement | null = null
+  let longPressTimer: ReturnType<typeof setTimeout> | null = null
+
+  const clearLongPress = () => {
+    if (longPressTimer) {
+      clearTimeout(longPressTimer)
+      longPressTimer = null
+    }
+  }
+
+  ownerDoc.addEventListener('mouseover', (event) => {
+    const wrapper = findWrapper(event)
+    if (wrapper === hoveredWrapper)
+      return
+    hoveredWrapper = wrapper
+    if (wrapper)
+      showTooltip(ownerDoc, wrapper)
+    else
+      hideOriginalTooltip(ownerDoc)
+  }, { passive: true })
+
+  ownerDoc.addEventListener('touchstart', (event) => {
+    clearLongPress()
+    const wrapper = findWrapper(event)
+    if (!wrapper) {
+      hideOriginalTooltip(ownerDoc)
+      return
+    }
+    longPressTimer = setTimeout(() => {
+      longPressTimer = null
+      showTooltip(ownerDoc, wrapper)
+    }, LONG_PRESS_DELAY_MS)
+  }, { passive: true })
+
+  for (const type of ['touchend', 'touchmove', 'touchcancel'] as const)
+    ownerDoc.addEventListener(type, clearLongPress, { passive: true })
+
+  // The tooltip is fixed to where the translation was, so it would drift away while scrolling
+  ownerDoc.addEventListener('scroll', () => {
+    hoveredWrapper = null
+    hideOriginalTooltip(ownerDoc)
+  }, { passive: true, capture: true })
+}
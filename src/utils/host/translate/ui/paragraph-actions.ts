@@ -0,0 +1,144 @@
+import type { TranslateNodesOptions } from '../core/translation-modes'
+import React from 'react'
+import textSmallCSS from '@/assets/styles/text-small.css?inline'
+import themeCSS from '@/assets/styles/theme.css?inline'
+import { ParagraphActions } from '@/components/translation/paragraph-actions'
+import { createReactShadowHost } from '@/utils/react-shadow-host/create-shadow-host'
+import { CONTENT_WRAPPER_CLASS, NOTRANSLATE_CLASS, PARAGRAPH_ACTIONS_CLASS } from '../../../constants/dom-labels'
+import { translatedParagraphMap } from '../core/translation-state'
+
+type RetranslateParagraph = (wrapper: HTMLElement, options?: Pick<TranslateNodesOptions, 'providerIds' | 'promptId'>) => Promise<void>
+
+// Time to move the pointer from the translation over to the button before it goes away
+const HIDE_DELAY_MS = 300
+const ACTIONS_OFFSET_PX = 4
+const ACTIONS_SIZE_PX = 20
+
+const documentsWithActions = new WeakSet<Document>()
+const hideActionsOfWrapper = new WeakMap<Document, (wrapper: HTMLElement) => void>()
+
+function findTranslatedWrapper(path: EventTarget[]): HTMLElement | null {
+  const [target] = path
+  if (!(target instanceof Element))
+    return null
+  const wrapper = target.closest<HTMLElement>(`.${CONTENT_WRAPPER_CLASS}`)
+  return wrapper && translatedParagraphMap.has(wrapper) ? wrapper : null
+}
+
+function setActionsVisible(host: HTMLElement, visible: boolean) {
+  host.style.setProperty('display', visible ? 'block' : 'none', 'important')
+}
+
+// Right after the last line of the translation, where it doesn't cover any text
+function positionActions(ownerDoc: Document, host: HTMLElement, wrapper: HTMLElement) {
+  const rects = wrapper.getClientRects()
+  const lastLine = rects[rects.length - 1] ?? wrapper.getBoundingClientRect()
+  const viewportWidth = ownerDoc.defaultView?.innerWidth ?? lastLine.right + ACTIONS_SIZE_PX
+  const top = lastLine.top + (lastLine.height - ACTIONS_SIZE_PX) / 2
+  const left = Math.min(lastLine.right + ACTIONS_OFFSET_PX, viewportWidth - ACTIONS_SIZE_PX - ACTIONS_OFFSET_PX)
+  host.style.setProperty('top', `${Math.max(top, 0)}px`, 'important')
+  host.style.setProperty('left', `${Math.max(left, 0)}px`, 'important')
+}
+
+export function hideParagraphActions(wrapper: HTMLElement) {
+  hideActionsOfWrapper.get(wrapper.ownerDocument)?.(wrapper)
+}
+
+/**
+ * Show a button with actions for the translated paragraph under the pointer: translate it again,
+ * with another provider or prompt, copy it or report it. One button per document follows the
+ * pointer, listeners are delegated once so wrappers added later need no setup.
+ */
+export function setUpParagraphActions(ownerDoc: Document, retranslate: RetranslateParagraph) {
+  if (documentsWithActions.has(ownerDoc))
+    return
+  documentsWithActions.add(ownerDoc)
+
+  let activeWrapper: HTMLElement | null = null
+  let isMenuOpen = false
+  let hideTimer: ReturnType<typeof setTimeout> | null = null
+
+  const host = createReactShadowHost(
+    React.createElement(ParagraphActions, {
+      getParagraph: () => activeWrapper ? translatedParagraphMap.get(activeWrapper) : undefined,
+      onRetranslate: async (options) => {
+        const wrapper = activeWrapper
+        // The translation is replaced, so the button would point at a removed wrapper
+        hide()
+        if (wrapper)
+          await retranslate(wrapper, options)
+      },
+      onOpenChange: (open) => {
+        isMenuOpen = open
+        if (open)
+          cancelHide()
+        else
+          scheduleHide()
+      },
+    }),
+    {
+      className: `${NOTRANSLATE_CLASS} ${PARAGRAPH_ACTIONS_CLASS}`,
+      position: 'block',
+      inheritStyles: false,
+      cssContent: [themeCSS, textSmallCSS],
+    },
+  )
+  // Inline important styles, the host page styles must not restyle or hide the button
+  host.style.setProperty('position', 'fixed', 'important')
+  host.style.setProperty('z-index', '2147483647', 'important')
+  setActionsVisible(host, false)
+
+  function cancelHide() {
+    if (hideTimer) {
+      clearTimeout(hideTimer)
+      hideTimer = null
+    }
+  }
+
+  function hide() {
+    cancelHide()
+    activeWrapper = null
+    setActionsVisible(host, false)
+  }
+
+  function scheduleHide() {
+    if (isMenuOpen || hideTimer)
+      return
+    hideTimer = setTimeout(hide, HIDE_DELAY_MS)
+  }
+
+  hideActionsOfWrapper.set(ownerDoc, (wrapper) => {
+    if (wrapper === activeWrapper)
+      hide()
+  })
+
+  ownerDoc.addEventListener('mouseover', (event) => {
+    const path = event.composedPath()
+    if (path.includes(host)) {
+      cancelHide()
+      return
+    }
+
+    const wrapper = findTranslatedWrapper(path)
+    if (!wrapper) {
+      scheduleHide()
+      return
+    }
+    if (isMenuOpen)
+      return
+
+    cancelHide()
+    activeWrapper = wrapper
+    // Single page apps may replace the body
+    if (!host.isConnected)
+      ownerDoc.body.appendChild(host)
+    setActionsVisible(host, true)
+    positionActions(ownerDoc, host, wrapper)
+  }, { passive: true })
+
+  // The button is fixed to where the translation was, so it would drift away while scrolling
+  ownerDoc.addEventListener('scroll', () => {
+    if (!isMenuOpen)
+      hide()
+  }, { passive: true, capture: true })
+}
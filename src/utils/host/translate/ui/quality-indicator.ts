@@ -0,0 +1,52 @@
+import type { TranslationResultInfo } from '../translate-text'
+import type { TranslationQuality } from '@/types/translation-quality'
+import React from 'react'
+import textSmallCSS from '@/assets/styles/text-small.css?inline'
+import themeCSS from '@/assets/styles/theme.css?inline'
+import { TranslationQualityIndicator } from '@/components/translation/quality'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+import { createReactShadowHost } from '@/utils/react-shadow-host/create-shadow-host'
+import { BLOCK_CONTENT_CLASS, INLINE_CONTENT_CLASS, TRANSLATION_QUALITY_CONTAINER_CLASS } from '../../../constants/dom-labels'
+
+/**
+ * Has the background score a translated paragraph and marks it when the score is below
+ * `threshold`. The check waits behind the translations in the request queue, so the mark shows up
+ * some time after the translation.
+ */
+export async function markLowQualityTranslation(
+  translatedWrapperNode: HTMLElement,
+  result: TranslationResultInfo,
+  translation: string,
+  threshold: number,
+  onRetranslate: () => Promise<void>,
+): Promise<void> {
+  let quality: Pick<TranslationQuality, 'score' | 'issues'> | null
+  try {
+    quality = await sendMessage('checkTranslationQuality', { ...result, translation })
+  }
+  catch (error) {
+    logger.warn('Translation quality check failed', error)
+    return
+  }
+
+  if (!quality || quality.score >= threshold || !translatedWrapperNode.isConnected)
+    return
+
+  const container = createReactShadowHost(
+    React.createElement(TranslationQualityIndicator, { quality, onRetranslate }),
+    {
+      className: TRANSLATION_QUALITY_CONTAINER_CLASS,
+      position: 'inline',
+      inheritStyles: false,
+      cssContent: [themeCSS, textSmallCSS],
+      style: {
+        verticalAlign: 'middle',
+      },
+    },
+  )
+
+  // Right after the translated text rather than below a block translation
+  const translatedNode = translatedWrapperNode.querySelector(`.${BLOCK_CONTENT_CLASS}, .${INLINE_CONTENT_CLASS}`)
+  ;(translatedNode ?? translatedWrapperNode).appendChild(container)
+}
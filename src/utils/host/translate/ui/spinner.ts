@@ -1,5 +1,5 @@
 import type { APICallError } from 'ai'
-import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslateTextOptions } from '../translate-text'
 import React from 'react'
 import textSmallCSS from '@/assets/styles/text-small.css?inline'
 import themeCSS from '@/assets/styles/theme.css?inline'
@@ -71,13 +71,10 @@ export async function getTranslatedTextAndRemoveSpinner(
   spinner: HTMLElement,
   translatedWrapperNode: HTMLElement,
   signal?: AbortSignal,
-  options?: { chunkMetadata?: TranslationChunkMetadata },
+  options?: Pick<TranslateTextOptions, 'chunkMetadata' | 'onText' | 'providerIds' | 'promptId' | 'bypassCache' | 'replaceCacheKey' | 'onResult'>,
 ): Promise<string | undefined> {
   let translatedText: string | undefined
-  const translationPromise = translateText(textContent, {
-    chunkMetadata: options?.chunkMetadata,
-    signal,
-  })
+  const translationPromise = translateText(textContent, { ...options, signal })
 
   const abortPromise = signal
     ? new Promise<never>((_, reject) => {
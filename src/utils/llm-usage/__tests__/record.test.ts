@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { estimateLLMCost } from '../record'
+
+const PRICES = [
+  { model: 'gpt-4.1-mini', inputCostPerMillionTokens: 0.4, outputCostPerMillionTokens: 1.6 },
+]
+
+describe('estimateLLMCost', () => {
+  it('prices input and output tokens per million', () => {
+    expect(estimateLLMCost(PRICES, 'gpt-4.1-mini', 1_000_000, 500_000)).toBeCloseTo(1.2)
+  })
+
+  it('matches models case-insensitively and without an aggregator vendor prefix', () => {
+    expect(estimateLLMCost(PRICES, 'openai/GPT-4.1-mini', 1_000_000, 0)).toBeCloseTo(0.4)
+  })
+
+  it('returns null for models missing from the price table', () => {
+    expect(estimateLLMCost(PRICES, 'llama3.2:3b', 1000, 1000)).toBeNull()
+  })
+})
@@ -0,0 +1,64 @@
+import type LLMUsageRecord from '@/utils/db/dexie/tables/llm-usage-record'
+import { describe, expect, it } from 'vitest'
+import { buildLLMSpendDailySeries, buildLLMUsageBreakdown, summarizeLLMUsage } from '../report'
+
+function createRecord(overrides: Partial<LLMUsageRecord>): LLMUsageRecord {
+  return {
+    key: crypto.randomUUID(),
+    createdAt: new Date(2025, 0, 1, 12),
+    feature: 'translate',
+    providerId: 'openai-default',
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    inputTokens: 100,
+    outputTokens: 50,
+    cost: 0.5,
+    ...overrides,
+  } as LLMUsageRecord
+}
+
+describe('llm usage report', () => {
+  it('sums tokens and cost and counts calls without a price', () => {
+    const records = [
+      createRecord({}),
+      createRecord({ inputTokens: 300, outputTokens: 150, cost: 1 }),
+      createRecord({ model: 'my-local-model', cost: null }),
+    ]
+
+    expect(summarizeLLMUsage(records)).toEqual({
+      requestCount: 3,
+      inputTokens: 500,
+      outputTokens: 250,
+      cost: 1.5,
+      unpricedRequestCount: 1,
+    })
+  })
+
+  it('groups spend per day and provider', () => {
+    const day1 = new Date(2025, 0, 1, 10)
+    const day2 = new Date(2025, 0, 2, 10)
+    const records = [
+      createRecord({ createdAt: day2, providerId: 'deepseek-default', cost: 0.25 }),
+      createRecord({ createdAt: day1, cost: 0.5 }),
+      createRecord({ createdAt: day1, cost: 0.75 }),
+    ]
+
+    expect(buildLLMSpendDailySeries(records)).toEqual([
+      { date: '2025-01-01', providerId: 'openai-default', cost: 1.25 },
+      { date: '2025-01-02', providerId: 'deepseek-default', cost: 0.25 },
+    ])
+  })
+
+  it('breaks usage down by feature, most expensive first', () => {
+    const records = [
+      createRecord({ feature: 'translate', cost: 0.5 }),
+      createRecord({ feature: 'summary', cost: 2 }),
+      createRecord({ feature: 'translate', cost: 0.5 }),
+    ]
+
+    expect(buildLLMUsageBreakdown(records, 'feature')).toEqual([
+      { label: 'summary', requestCount: 1, inputTokens: 100, outputTokens: 50, cost: 2 },
+      { label: 'translate', requestCount: 2, inputTokens: 200, outputTokens: 100, cost: 1 },
+    ])
+  })
+})
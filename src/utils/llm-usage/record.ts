@@ -0,0 +1,104 @@
+import type { LanguageModelUsage } from 'ai'
+import type { LLMProviderConfig } from '@/types/config/provider'
+import type { ModelPrice } from '@/types/config/usage'
+import type { LLMUsageFeature } from '@/utils/db/dexie/tables/llm-usage-record'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { DEFAULT_MODEL_PRICES } from '@/utils/constants/usage'
+import { db } from '@/utils/db/dexie/db'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000
+const EXTENSION_PROTOCOLS = new Set(['chrome-extension:', 'moz-extension:', 'safari-web-extension:'])
+
+export interface LLMUsageContext {
+  feature: LLMUsageFeature
+  providerConfig: LLMProviderConfig
+  modelType: 'read' | 'translate'
+}
+
+export interface LLMUsageEntry {
+  feature: LLMUsageFeature
+  providerId: string
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cost: number | null
+}
+
+function findModelPrice(modelPrices: ModelPrice[], model: string): ModelPrice | undefined {
+  const normalized = model.trim().toLowerCase()
+  // Aggregators such as OpenRouter prefix the vendor, e.g. `openai/gpt-4.1-mini`
+  const withoutVendor = normalized.slice(normalized.lastIndexOf('/') + 1)
+  return modelPrices.find(price => price.model.trim().toLowerCase() === normalized)
+    ?? modelPrices.find(price => price.model.trim().toLowerCase() === withoutVendor)
+}
+
+/**
+ * Estimated USD cost of a call, or `null` when the price table has no entry for `model`.
+ */
+export function estimateLLMCost(modelPrices: ModelPrice[], model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = findModelPrice(modelPrices, model)
+  if (!price)
+    return null
+  return (inputTokens * price.inputCostPerMillionTokens + outputTokens * price.outputCostPerMillionTokens) / TOKENS_PER_PRICE_UNIT
+}
+
+// Content scripts share the page's IndexedDB, so only extension pages and the background write directly
+function canWriteUsageDatabase(): boolean {
+  const protocol = globalThis.location?.protocol
+  return typeof protocol === 'string' && EXTENSION_PROTOCOLS.has(protocol)
+}
+
+export async function putLLMUsageRecord(entry: LLMUsageEntry): Promise<void> {
+  try {
+    await db.llmUsageRecord.put({
+      key: crypto.randomUUID(),
+      createdAt: new Date(),
+      ...entry,
+    })
+  }
+  catch (error) {
+    logger.error('Failed to put LLM usage record', error)
+  }
+}
+
+/**
+ * Stores the token usage the AI SDK reported for one call. `usage` may be the promise exposed by
+ * `streamText`, which settles once the stream is consumed. Never throws: usage accounting must not
+ * break the feature that made the call.
+ */
+export async function recordLLMUsage(
+  { feature, providerConfig, modelType }: LLMUsageContext,
+  usage: LanguageModelUsage | PromiseLike<LanguageModelUsage> | undefined,
+): Promise<void> {
+  try {
+    const resolvedUsage = await usage
+    const inputTokens = resolvedUsage?.inputTokens ?? 0
+    const outputTokens = resolvedUsage?.outputTokens ?? 0
+    if (inputTokens === 0 && outputTokens === 0)
+      return
+
+    const modelConfig = providerConfig.models[modelType]
+    const model = (modelConfig.isCustomModel ? modelConfig.customModel : modelConfig.model) ?? ''
+    const config = await getConfigFromStorage()
+    const entry: LLMUsageEntry = {
+      feature,
+      providerId: providerConfig.id,
+      provider: providerConfig.provider,
+      model,
+      inputTokens,
+      outputTokens,
+      cost: estimateLLMCost(config?.usage.modelPrices ?? DEFAULT_MODEL_PRICES, model, inputTokens, outputTokens),
+    }
+
+    if (canWriteUsageDatabase())
+      await putLLMUsageRecord(entry)
+    else
+      await sendMessage('recordLLMUsage', entry)
+  }
+  catch (error) {
+    logger.warn('Failed to record LLM usage', error)
+  }
+}
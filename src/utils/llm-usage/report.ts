@@ -0,0 +1,85 @@
+import type LLMUsageRecord from '@/utils/db/dexie/tables/llm-usage-record'
+import { db } from '@/utils/db/dexie/db'
+
+export type LLMUsageBreakdownKey = 'providerId' | 'feature' | 'model'
+
+export interface LLMSpendDailyPoint {
+  date: string
+  providerId: string
+  cost: number
+}
+
+export interface LLMUsageBreakdownRow {
+  label: string
+  requestCount: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+export interface LLMUsageSummary {
+  requestCount: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  // Calls whose model had no price, so `cost` understates the real spend
+  unpricedRequestCount: number
+}
+
+function toDateKey(date: Date) {
+  return date.toLocaleDateString('en-CA')
+}
+
+export async function getLLMUsageRecords(startDate: Date, endDate: Date): Promise<LLMUsageRecord[]> {
+  return await db.llmUsageRecord
+    .where('createdAt')
+    .between(startDate, endDate, true, true)
+    .toArray()
+}
+
+export function summarizeLLMUsage(records: LLMUsageRecord[]): LLMUsageSummary {
+  return records.reduce<LLMUsageSummary>((summary, record) => ({
+    requestCount: summary.requestCount + 1,
+    inputTokens: summary.inputTokens + record.inputTokens,
+    outputTokens: summary.outputTokens + record.outputTokens,
+    cost: summary.cost + (record.cost ?? 0),
+    unpricedRequestCount: summary.unpricedRequestCount + (record.cost === null ? 1 : 0),
+  }), { requestCount: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedRequestCount: 0 })
+}
+
+/**
+ * Spend per day and provider, sorted by date, ready to be stacked in a bar chart.
+ */
+export function buildLLMSpendDailySeries(records: LLMUsageRecord[]): LLMSpendDailyPoint[] {
+  const points = new Map<string, LLMSpendDailyPoint>()
+  for (const record of records) {
+    const date = toDateKey(record.createdAt)
+    const key = `${date}:${record.providerId}`
+    let point = points.get(key)
+    if (!point) {
+      point = { date, providerId: record.providerId, cost: 0 }
+      points.set(key, point)
+    }
+    point.cost += record.cost ?? 0
+  }
+  return Array.from(points.values())
+    .sort((a, b) => a.date.localeCompare(b.date) || a.providerId.localeCompare(b.providerId))
+}
+
+export function buildLLMUsageBreakdown(records: LLMUsageRecord[], key: LLMUsageBreakdownKey): LLMUsageBreakdownRow[] {
+  const rows = new Map<string, LLMUsageBreakdownRow>()
+  for (const record of records) {
+    const label = record[key]
+    let row = rows.get(label)
+    if (!row) {
+      row = { label, requestCount: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+      rows.set(label, row)
+    }
+    row.requestCount += 1
+    row.inputTokens += record.inputTokens
+    row.outputTokens += record.outputTokens
+    row.cost += record.cost ?? 0
+  }
+  return Array.from(rows.values())
+    .sort((a, b) => b.cost - a.cost || b.requestCount - a.requestCount || a.label.localeCompare(b.label))
+}
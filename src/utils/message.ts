@@ -4,6 +4,11 @@ import type { ProviderConfig } from '@/types/config/provider'
 import type { BatchQueueConfig, RequestQueueConfig } from '@/types/config/translate'
 import type { ProxyRequest, ProxyResponse } from '@/types/proxy-fetch'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslationQuality } from '@/types/translation-quality'
+import type { GenAICookieBridgeStatus } from '@/utils/genai/cookie-bridge'
+import type { LLMUsageEntry } from '@/utils/llm-usage/record'
+import type { SessionChatPoolInspection, SessionChatPurpose } from '@/utils/session-provider/chat-pool'
+import type { TranslationExportFormat } from '@/utils/translation-export/format'
 import { defineExtensionMessaging } from '@webext-core/messaging'
 
 interface ProtocolMap {
@@ -24,12 +29,26 @@ interface ProtocolMap {
   // read article
   readArticle: () => void
   popupRequestReadArticle: (data: { tabId: number }) => void
+  // context menu
+  togglePageTranslation: () => void
+  translateSelectionFromContextMenu: (data: { text: string, promptId?: string | null }) => void
+  speakSelectionFromContextMenu: (data: { text: string }) => void
+  translateLinkTextFromContextMenu: () => void
+  // commands
+  cycleTranslationMode: () => void
+  switchTranslateProvider: () => void
+  translateClipboard: () => void
+  // export translation, requested from the popup or the side content and run by the page
+  requestExportPageTranslation: (data: { format: TranslationExportFormat, tabId?: number }) => void
+  exportPageTranslation: (data: { format: TranslationExportFormat }) => void
   // user guide
   pinStateChanged: (data: { isPinned: boolean }) => void
   getPinState: () => boolean
   returnPinState: (data: { isPinned: boolean }) => void
   // selection helpers
   analyzeSelection: (data: { providerId: string, systemPrompt: string, userMessage: string, temperature?: number }) => Promise<string>
+  // usage accounting
+  recordLLMUsage: (data: LLMUsageEntry) => void
   // request
   enqueueTranslateRequest: (data: {
     text: string
@@ -37,15 +56,33 @@ interface ProtocolMap {
     providerConfig: ProviderConfig
     scheduleAt: number
     hash: string
+    legacyHash?: string
     clientRequestId: string
     articleTitle?: string
     articleTextContent?: string
     chunkMetadata?: TranslationChunkMetadata
+    promptId?: string | null
+    // Skips the cache and the translation memory, the new translation replaces the cached one
+    bypassCache?: boolean
+    // Also stores the translation under this key, for a paragraph translated again with another provider or prompt
+    replaceCacheKey?: string
   }) => Promise<string>
+  // Scores a translated paragraph, null when the quality check is turned off
+  checkTranslationQuality: (data: {
+    hash: string
+    providerId: string
+    sourceText: string
+    translation: string
+    langConfig: Config['language']
+  }) => Promise<Pick<TranslationQuality, 'score' | 'issues'> | null>
+  reportBadTranslation: (data: { hash: string, sourceText: string, targetCode: LangCodeISO6393 }) => void
   enqueueGenAIBatch: (data: {
+    // Translations come back tagged with the id of their chunk
     chunks: Array<{
+      id: string
       text: string
       hash: string
+      legacyHash?: string
       chunkMetadata?: TranslationChunkMetadata
     }>
     langConfig: Config['language']
@@ -54,13 +91,22 @@ interface ProtocolMap {
     clientRequestId: string
     articleTitle?: string
     articleTextContent?: string
-  }) => Promise<string[]>
+    promptId?: string | null
+  }) => Promise<Array<{ id: string, translation: string }>>
+  genaiTranslationProgress: (data: { hash: string, text: string }) => void
   setTranslateRequestQueueConfig: (data: Partial<RequestQueueConfig>) => void
   setTranslateBatchQueueConfig: (data: Partial<BatchQueueConfig>) => void
   // network proxy
   backgroundFetch: (data: ProxyRequest) => Promise<ProxyResponse>
   // cache management
   clearAllTranslationRelatedCache: () => Promise<void>
+  // genai chat pool inspector
+  inspectSessionChatPool: () => SessionChatPoolInspection[]
+  invalidateSessionChatSlot: (data: { key: string, slotId: string }) => boolean
+  scaleGenAIChatPool: (data: { providerId: string, purpose: SessionChatPurpose, desiredSlots: number }) => void
+  deleteAllGenAIChats: (data: { providerId: string }) => number
+  // genai cookie bridge
+  syncGenAICookieBridge: () => GenAICookieBridgeStatus
 }
 
 export const { sendMessage, onMessage }
@@ -0,0 +1,29 @@
+import type { PdfPageTranslation } from '../export'
+import { describe, expect, it } from 'vitest'
+import { formatPdfTranslationExport } from '../export'
+
+const pages: PdfPageTranslation[] = [
+  {
+    pageNumber: 1,
+    blocks: [
+      { text: 'Hello', translation: '你好' },
+      { text: 'Already translated', translation: '' },
+      { text: 'Failed', translation: null },
+    ],
+  },
+  { pageNumber: 2, blocks: [] },
+]
+
+describe('formatPdfTranslationExport', () => {
+  it('should keep originals next to translations in bilingual mode', () => {
+    const output = formatPdfTranslationExport({ title: 'paper.pdf', pages, mode: 'bilingual', getPageHeading: n => `Page ${n}` })
+
+    expect(output).toBe('# paper.pdf\n\n## Page 1\n\nHello\n\n你好\n\nAlready translated\n\nFailed\n')
+  })
+
+  it('should only keep translations in translationOnly mode, falling back to the original', () => {
+    const output = formatPdfTranslationExport({ title: 'paper.pdf', pages, mode: 'translationOnly', getPageHeading: n => `Page ${n}` })
+
+    expect(output).toBe('# paper.pdf\n\n## Page 1\n\n你好\n\nAlready translated\n\nFailed\n')
+  })
+})
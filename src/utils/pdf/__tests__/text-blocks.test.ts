@@ -0,0 +1,67 @@
+import type { PdfTextItem } from '../text-blocks'
+import { describe, expect, it } from 'vitest'
+import { groupTextItemsIntoBlocks } from '../text-blocks'
+
+function item(str: string, x: number, y: number, overrides: Partial<PdfTextItem> = {}): PdfTextItem {
+  return { str, x, y, width: str.length * 5, fontSize: 10, hasEOL: false, ...overrides }
+}
+
+describe('groupTextItemsIntoBlocks', () => {
+  it('should join items on one baseline and consecutive lines into one block', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('The quick', 0, 700),
+      item('brown fox', 50, 700),
+      item('jumps over the dog.', 0, 688),
+    ], 1)
+
+    expect(blocks).toEqual([{ id: '1-0', text: 'The quick brown fox jumps over the dog.', fontSize: 10 }])
+  })
+
+  it('should not add a space between items that touch', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('Data', 0, 700, { width: 20 }),
+      item('sheet', 20, 700),
+    ], 1)
+
+    expect(blocks[0].text).toBe('Datasheet')
+  })
+
+  it('should split blocks on large vertical gaps and font size changes', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('Introduction', 0, 740, { fontSize: 16 }),
+      item('First paragraph.', 0, 716),
+      item('Second paragraph.', 0, 680),
+    ], 2)
+
+    expect(blocks.map(block => block.text)).toEqual(['Introduction', 'First paragraph.', 'Second paragraph.'])
+    expect(blocks.map(block => block.id)).toEqual(['2-0', '2-1', '2-2'])
+  })
+
+  it('should start a new block when the next line is higher on the page', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('End of the left column.', 0, 100),
+      item('Top of the right column.', 300, 700),
+    ], 1)
+
+    expect(blocks).toHaveLength(2)
+  })
+
+  it('should rejoin words hyphenated across lines', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('machine trans-', 0, 700, { hasEOL: true }),
+      item('lation works', 0, 688),
+    ], 1)
+
+    expect(blocks[0].text).toBe('machine translation works')
+  })
+
+  it('should join CJK lines without spaces and skip blank items', () => {
+    const blocks = groupTextItemsIntoBlocks([
+      item('这是第一行', 0, 700),
+      item(' ', 60, 700, { hasEOL: true }),
+      item('这是第二行', 0, 688),
+    ], 1)
+
+    expect(blocks).toEqual([{ id: '1-0', text: '这是第一行这是第二行', fontSize: 10 }])
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { getNativePdfViewerUrl, getPdfFileName, shouldOpenInPdfViewer } from '../url'
+
+describe('shouldOpenInPdfViewer', () => {
+  it('should match web and local PDF files', () => {
+    expect(shouldOpenInPdfViewer('https://example.com/docs/datasheet.PDF')).toBe(true)
+    expect(shouldOpenInPdfViewer('file:///home/user/paper.pdf')).toBe(true)
+  })
+
+  it('should ignore other pages, extension pages and PDFs opened natively on purpose', () => {
+    expect(shouldOpenInPdfViewer('https://example.com/docs/index.html')).toBe(false)
+    expect(shouldOpenInPdfViewer('chrome-extension://id/viewer.pdf')).toBe(false)
+    expect(shouldOpenInPdfViewer(getNativePdfViewerUrl('https://example.com/paper.pdf'))).toBe(false)
+    expect(shouldOpenInPdfViewer('not a url')).toBe(false)
+  })
+})
+
+describe('getPdfFileName', () => {
+  it('should use the decoded last path segment', () => {
+    expect(getPdfFileName('https://example.com/files/my%20paper.pdf?download=1')).toBe('my paper.pdf')
+    expect(getPdfFileName('https://example.com/')).toBe('document.pdf')
+  })
+})
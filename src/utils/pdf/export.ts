@@ -0,0 +1,40 @@
+import type { TranslationMode } from '@/types/config/translate'
+import { isReplacingTranslationMode } from '@/types/config/translate'
+
+export interface PdfBlockTranslation {
+  text: string
+  // Null when the block failed to translate, empty when it is already in the target language
+  translation: string | null
+}
+
+export interface PdfPageTranslation {
+  pageNumber: number
+  blocks: PdfBlockTranslation[]
+}
+
+export interface PdfTranslationExportOptions {
+  title: string
+  pages: PdfPageTranslation[]
+  mode: TranslationMode
+  // Localized heading for a page, e.g. "Page 3"
+  getPageHeading: (pageNumber: number) => string
+}
+
+/**
+ * Format translated PDF pages as Markdown: one heading per page and one paragraph per block. In
+ * the modes replacing the original a block without translation keeps its original text, so nothing is lost.
+ */
+export function formatPdfTranslationExport({ title, pages, mode, getPageHeading }: PdfTranslationExportOptions): string {
+  const sections = pages
+    .filter(page => page.blocks.length > 0)
+    .map((page) => {
+      const paragraphs = page.blocks.flatMap(({ text, translation }) => {
+        if (!translation)
+          return [text]
+        return isReplacingTranslationMode(mode) ? [translation] : [text, translation]
+      })
+      return [`## ${getPageHeading(page.pageNumber)}`, ...paragraphs].join('\n\n')
+    })
+
+  return `${[`# ${title}`, ...sections].join('\n\n')}\n`
+}
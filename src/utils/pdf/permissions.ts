@@ -0,0 +1,15 @@
+import { browser } from '#imports'
+
+// PDFs are loaded from the viewer page, so any site serving them without CORS headers needs access
+const PDF_VIEWER_HOST_PERMISSIONS = { origins: ['<all_urls>'] }
+
+export async function hasPdfViewerHostPermission(): Promise<boolean> {
+  return await browser.permissions.contains(PDF_VIEWER_HOST_PERMISSIONS)
+}
+
+/**
+ * Asks for access to all sites. Must run in a user gesture, before any other await.
+ */
+export async function requestPdfViewerHostPermission(): Promise<boolean> {
+  return await browser.permissions.request(PDF_VIEWER_HOST_PERMISSIONS)
+}
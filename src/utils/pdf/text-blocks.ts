@@ -0,0 +1,129 @@
+/**
+ * A run of text from pdf.js `getTextContent`, reduced to what the block grouping needs. `x` and `y`
+ * are the baseline origin in PDF units, `y` grows upwards.
+ */
+export interface PdfTextItem {
+  str: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+  hasEOL: boolean
+}
+
+/**
+ * A paragraph-like run of lines that is translated as one unit
+ */
+export interface PdfTextBlock {
+  id: string
+  text: string
+  fontSize: number
+}
+
+interface PdfTextLine {
+  text: string
+  y: number
+  fontSize: number
+  endX: number
+}
+
+// Items whose baselines differ by less than this share of the font size sit on the same line
+const SAME_LINE_TOLERANCE = 0.5
+// A horizontal gap wider than this share of the font size means a word boundary
+const WORD_GAP_RATIO = 0.15
+// Lines further apart than this multiple of the font size start a new block
+const PARAGRAPH_GAP_RATIO = 1.8
+// A font size change beyond this ratio separates headings from body text
+const FONT_SIZE_CHANGE_RATIO = 1.2
+
+const CJK_PATTERN = /[\u3000-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/
+
+function joinWithSpace(left: string, right: string): string {
+  if (!left || !right || /\s$/.test(left) || /^\s/.test(right))
+    return left + right
+  if (CJK_PATTERN.test(left.at(-1)!) && CJK_PATTERN.test(right[0]))
+    return left + right
+  return `${left} ${right}`
+}
+
+// "trans-" at the end of a line followed by "lation" is one word broken by the layout
+function joinLines(previous: string, next: string): string {
+  if (/\p{L}-$/u.test(previous) && /^\p{Ll}/u.test(next))
+    return previous.slice(0, -1) + next
+  return joinWithSpace(previous, next)
+}
+
+function groupItemsIntoLines(items: PdfTextItem[]): PdfTextLine[] {
+  const lines: PdfTextLine[] = []
+  let current: PdfTextLine | null = null
+  let breakAfterPrevious = false
+
+  for (const item of items) {
+    if (!item.str.trim()) {
+      breakAfterPrevious ||= item.hasEOL
+      continue
+    }
+
+    const fontSize = item.fontSize || 1
+    const sameLine = current
+      && !breakAfterPrevious
+      && Math.abs(current.y - item.y) <= Math.max(current.fontSize, fontSize) * SAME_LINE_TOLERANCE
+
+    if (current && sameLine) {
+      const gap = item.x - current.endX
+      current.text = gap > fontSize * WORD_GAP_RATIO
+        ? joinWithSpace(current.text, item.str)
+        : current.text + item.str
+      current.endX = Math.max(current.endX, item.x + item.width)
+      current.fontSize = Math.max(current.fontSize, fontSize)
+    }
+    else {
+      current = { text: item.str, y: item.y, fontSize, endX: item.x + item.width }
+      lines.push(current)
+    }
+    breakAfterPrevious = item.hasEOL
+  }
+
+  return lines
+}
+
+/**
+ * Group the text items of one page into blocks: items on the same baseline form lines, and lines
+ * close together with a similar font size form a block. Columns are kept apart as long as the PDF
+ * lists their items column by column, which is what most generators do.
+ */
+export function groupTextItemsIntoBlocks(items: PdfTextItem[], pageNumber: number): PdfTextBlock[] {
+  const blocks: PdfTextBlock[] = []
+  let current: { text: string, fontSize: number, lastLine: PdfTextLine } | null = null
+
+  const flush = () => {
+    const text = current?.text.replace(/\s+/g, ' ').trim()
+    if (current && text)
+      blocks.push({ id: `${pageNumber}-${blocks.length}`, text, fontSize: current.fontSize })
+    current = null
+  }
+
+  for (const line of groupItemsIntoLines(items)) {
+    if (current) {
+      const { lastLine } = current
+      const gap = lastLine.y - line.y
+      const fontRatio = Math.max(lastLine.fontSize, line.fontSize) / Math.min(lastLine.fontSize, line.fontSize)
+      // A negative gap means the next line sits higher on the page, e.g. the top of the next column
+      const startsNewBlock = gap < 0
+        || gap > Math.max(lastLine.fontSize, line.fontSize) * PARAGRAPH_GAP_RATIO
+        || fontRatio > FONT_SIZE_CHANGE_RATIO
+
+      if (!startsNewBlock) {
+        current.text = joinLines(current.text, line.text.trim())
+        current.fontSize = Math.max(current.fontSize, line.fontSize)
+        current.lastLine = line
+        continue
+      }
+      flush()
+    }
+    current = { text: line.text.trim(), fontSize: line.fontSize, lastLine: line }
+  }
+  flush()
+
+  return blocks
+}
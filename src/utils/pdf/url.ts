@@ -0,0 +1,47 @@
+import { browser } from '#imports'
+
+export const PDF_VIEWER_PATH = '/pdf-viewer.html'
+export const PDF_VIEWER_FILE_PARAM = 'file'
+// Marks a PDF URL the user chose to open in the browser's own viewer, so it isn't redirected again
+export const PDF_NATIVE_VIEWER_HASH = 'read-frog-native'
+
+const PDF_VIEWER_PROTOCOLS = new Set(['http:', 'https:', 'file:'])
+
+/**
+ * Whether a navigation to `url` should be taken over by the extension's PDF viewer
+ */
+export function shouldOpenInPdfViewer(url: string): boolean {
+  try {
+    const { protocol, pathname, hash } = new URL(url)
+    return PDF_VIEWER_PROTOCOLS.has(protocol)
+      && pathname.toLowerCase().endsWith('.pdf')
+      && hash !== `#${PDF_NATIVE_VIEWER_HASH}`
+  }
+  catch {
+    return false
+  }
+}
+
+export function getPdfViewerUrl(fileUrl?: string): string {
+  const viewerUrl = browser.runtime.getURL(PDF_VIEWER_PATH)
+  return fileUrl ? `${viewerUrl}?${PDF_VIEWER_FILE_PARAM}=${encodeURIComponent(fileUrl)}` : viewerUrl
+}
+
+export function getNativePdfViewerUrl(fileUrl: string): string {
+  const url = new URL(fileUrl)
+  url.hash = PDF_NATIVE_VIEWER_HASH
+  return url.href
+}
+
+/**
+ * File name for exports and the page title, taken from the last path segment of the PDF URL
+ */
+export function getPdfFileName(fileUrl: string): string {
+  try {
+    const segment = new URL(fileUrl).pathname.split('/').filter(Boolean).at(-1)
+    return segment ? decodeURIComponent(segment) : 'document.pdf'
+  }
+  catch {
+    return 'document.pdf'
+  }
+}
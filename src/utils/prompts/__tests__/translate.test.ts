@@ -0,0 +1,39 @@
+import type { Config } from '@/types/config/config'
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+
+const GLOSSARY_CONFIG: Config = {
+  ...DEFAULT_CONFIG,
+  language: { ...DEFAULT_CONFIG.language, targetCode: 'cmn' },
+  translate: {
+    ...DEFAULT_CONFIG.translate,
+    glossary: {
+      ...DEFAULT_CONFIG.translate.glossary,
+      enabled: true,
+      entries: [{
+        id: 'frog',
+        term: 'Read Frog',
+        translation: '',
+        translations: { cmn: '陪读蛙', jpn: 'リードフロッグ' },
+        doNotTranslate: false,
+        caseSensitive: false,
+      }],
+    },
+  },
+}
+
+vi.mock('@/utils/config/config', () => ({
+  getConfigFromStorage: vi.fn(async () => GLOSSARY_CONFIG),
+}))
+
+const { getTranslatePrompt } = await import('../translate')
+
+describe('getTranslatePrompt', () => {
+  it('uses the glossary terms of the requested language, not the configured one', async () => {
+    const { systemPrompt, prompt } = await getTranslatePrompt('jpn', 'Read Frog is open source')
+
+    expect(systemPrompt).toContain('"Read Frog" → "リードフロッグ"')
+    expect(systemPrompt).not.toContain('陪读蛙')
+    expect(`${systemPrompt}\n${prompt}`).toContain('Japanese')
+  })
+})
@@ -0,0 +1,31 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import { LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
+
+export function getQualityJudgePrompt(sourceText: string, translation: string, targetCode: LangCodeISO6393) {
+  const targetLangName = LANG_CODE_TO_EN_NAME[targetCode]
+
+  return `
+    You review machine translations into ${targetLangName}. Rate how faithfully the translation conveys the meaning of the source text.
+
+    # Scoring
+    - 100: complete and accurate, nothing added or left out.
+    - 60-99: the meaning comes across, with minor errors or awkward wording.
+    - 0-59: meaning is lost, distorted, left out or made up.
+
+    # Issues
+    List every issue that applies, using only these names:
+    - untranslated: the translation repeats the source text instead of translating it.
+    - wrongLanguage: the translation is not in ${targetLangName}.
+    - truncated: the translation stops before the end of the source text.
+    - addition: the translation contains content that is not in the source text.
+
+    # Output
+    Reply with a single JSON object and nothing else, for example {"score": 85, "issues": []}
+
+    # Source text
+    ${sourceText}
+
+    # Translation
+    ${translation}
+  `
+}
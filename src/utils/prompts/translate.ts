@@ -1,14 +1,26 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { BatchFormat } from '@/types/config/provider'
 import type { ArticleContent } from '@/types/content'
 import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+import { LANG_CODE_TO_EN_NAME } from '@read-frog/definitions'
 import { getConfigFromStorage } from '@/utils/config/config'
+import { buildGlossaryPrompt, findGlossaryMatches } from '@/utils/glossary/match'
+import { buildTranslationMemoryPrompt } from '@/utils/translation-memory/prompt'
 import { DEFAULT_CONFIG } from '../constants/config'
-import { DEFAULT_BATCH_TRANSLATE_PROMPT, DEFAULT_TRANSLATE_PROMPT, DEFAULT_TRANSLATE_SYSTEM_PROMPT, getTokenCellText, INPUT, SUMMARY, TARGET_LANG, TITLE } from '../constants/prompt'
+import { DEFAULT_BATCH_TRANSLATE_PROMPT, DEFAULT_TRANSLATE_PROMPT, DEFAULT_TRANSLATE_SYSTEM_PROMPT, getTokenCellText, INPUT, SEPARATOR_BATCH_TRANSLATE_PROMPT, SUMMARY, TARGET_LANG, TITLE } from '../constants/prompt'
 
 export interface TranslatePromptOptions {
   isBatch?: boolean
+  // How the batched input marks its segments, the structured format when unset
+  batchFormat?: BatchFormat
   content?: ArticleContent
   chunkMetadata?: TranslationChunkMetadata
   chunkMetadataList?: Array<TranslationChunkMetadata | undefined>
+  // Custom prompt picked by a site profile; `undefined` falls back to the configured prompt
+  promptId?: string | null
+  // Earlier translations of similar paragraphs from the translation memory
+  references?: TranslationMemoryReference[]
 }
 
 export interface TranslatePromptResult {
@@ -17,13 +29,15 @@ export interface TranslatePromptResult {
 }
 
 export async function getTranslatePrompt(
-  targetLang: string,
+  targetCode: LangCodeISO6393,
   input: string,
   options?: TranslatePromptOptions,
 ): Promise<TranslatePromptResult> {
   const config = await getConfigFromStorage() ?? DEFAULT_CONFIG
+  const targetLang = LANG_CODE_TO_EN_NAME[targetCode]
   const customPromptsConfig = config.translate.customPromptsConfig
-  const { patterns = [], promptId } = customPromptsConfig
+  const { patterns = [] } = customPromptsConfig
+  const promptId = options?.promptId !== undefined ? options.promptId : customPromptsConfig.promptId
 
   // Resolve system prompt and user prompt
   let systemPrompt: string
@@ -43,9 +57,10 @@ export async function getTranslatePrompt(
 
   // For batch mode, append batch rules to system prompt
   if (options?.isBatch) {
+    const batchPrompt = options.batchFormat === 'separator' ? SEPARATOR_BATCH_TRANSLATE_PROMPT : DEFAULT_BATCH_TRANSLATE_PROMPT
     systemPrompt = `${systemPrompt}
 
-${DEFAULT_BATCH_TRANSLATE_PROMPT}`
+${batchPrompt}`
   }
 
   // Build title and summary replacement values
@@ -84,6 +99,18 @@ ${DEFAULT_BATCH_TRANSLATE_PROMPT}`
     systemPrompt = `${systemPrompt}\n\n${chunkListPrompt}`.trim()
   }
 
+  // Only the entries that occur in the input, so a large glossary doesn't bloat every request. The
+  // request may target another language than the configured one, like the composer does
+  const glossaryPrompt = buildGlossaryPrompt(findGlossaryMatches(config.translate.glossary, input, targetCode))
+  if (glossaryPrompt) {
+    systemPrompt = `${systemPrompt}\n\n${glossaryPrompt}`.trim()
+  }
+
+  const translationMemoryPrompt = buildTranslationMemoryPrompt(options?.references)
+  if (translationMemoryPrompt) {
+    systemPrompt = `${systemPrompt}\n\n${translationMemoryPrompt}`.trim()
+  }
+
   // Replace tokens in both prompts
   const replaceTokens = (text: string) =>
     text
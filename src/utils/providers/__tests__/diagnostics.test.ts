@@ -0,0 +1,82 @@
+import type { APIProviderConfig } from '@/types/config/provider'
+import { APICallError } from 'ai'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { classifyProviderError, ProviderDiagnosticError, runProviderDiagnostics } from '../diagnostics'
+
+const executeTranslateMock = vi.hoisted(() => vi.fn())
+
+vi.mock('@/utils/host/translate/execute-translate', () => ({
+  executeTranslate: executeTranslateMock,
+}))
+
+function createAPICallError(statusCode: number, responseBody = '') {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+    responseBody,
+  })
+}
+
+const deeplxConfig = {
+  id: 'deeplx-default',
+  name: 'DeepLX',
+  enabled: true,
+  provider: 'deeplx',
+  baseURL: 'https://deeplx.example.com',
+  apiKey: undefined,
+} as APIProviderConfig
+
+describe('classifyProviderError', () => {
+  it('maps HTTP statuses to error kinds', () => {
+    expect(classifyProviderError(createAPICallError(401))).toBe('auth')
+    expect(classifyProviderError(createAPICallError(429))).toBe('rateLimit')
+    expect(classifyProviderError(createAPICallError(404))).toBe('notFound')
+    expect(classifyProviderError(createAPICallError(503))).toBe('server')
+  })
+
+  it('recognizes a missing model from the response body', () => {
+    expect(classifyProviderError(createAPICallError(404, '{"error":{"message":"The model `gpt-9` does not exist"}}'))).toBe('modelNotFound')
+  })
+
+  it('treats fetch failures as network errors and keeps explicit kinds', () => {
+    expect(classifyProviderError(new TypeError('Failed to fetch'))).toBe('network')
+    expect(classifyProviderError(new ProviderDiagnosticError('cors', 'blocked'))).toBe('cors')
+    expect(classifyProviderError(new SyntaxError('Unexpected token'))).toBe('structuredOutput')
+  })
+})
+
+describe('runProviderDiagnostics', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    executeTranslateMock.mockReset()
+  })
+
+  it('reports every step with latency when the provider works', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 200 })))
+    executeTranslateMock.mockResolvedValue('Hallo')
+
+    const steps = await runProviderDiagnostics(deeplxConfig)
+
+    expect(steps.map(step => [step.id, step.status])).toEqual([['reachability', 'success'], ['translate', 'success']])
+    expect(steps[0].detail).toBe('HTTP 200')
+    expect(steps.every(step => typeof step.latencyMs === 'number')).toBe(true)
+  })
+
+  it('flags CORS when only an opaque request gets through and skips the remaining steps', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.mode === 'no-cors')
+        return new Response(null, { status: 200 })
+      throw new TypeError('Failed to fetch')
+    }))
+    const onUpdate = vi.fn()
+
+    const steps = await runProviderDiagnostics(deeplxConfig, onUpdate)
+
+    expect(steps[0]).toMatchObject({ status: 'error', errorKind: 'cors' })
+    expect(steps[1]).toMatchObject({ status: 'skipped' })
+    expect(executeTranslateMock).not.toHaveBeenCalled()
+    expect(onUpdate).toHaveBeenLastCalledWith(steps)
+  })
+})
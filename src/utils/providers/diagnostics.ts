@@ -0,0 +1,307 @@
+import type { APIProviderConfig, LLMTranslateProviderConfig, SessionProviderConfig } from '@/types/config/provider'
+import { APICallError, generateObject, generateText, NoObjectGeneratedError } from 'ai'
+import { z } from 'zod'
+import { isLLMTranslateProviderConfig, isSessionProviderConfig } from '@/types/config/provider'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { executeTranslate } from '@/utils/host/translate/execute-translate'
+import { getSessionProviderBaseURL, sessionProviderGenerateText } from '@/utils/session-provider/chat'
+import { isAbortError } from '@/utils/session-provider/errors'
+import { getSessionProviderAdapter } from '@/utils/session-provider/registry'
+import { ensureProviderSession } from '@/utils/session-provider/session'
+import { getReadModelById, getTranslateModelById } from './model'
+
+const DIAGNOSTIC_REQUEST_TIMEOUT_MS = 20000
+const PROBE_PROMPT = 'Reply with the single word OK.'
+const STRUCTURED_OUTPUT_SCHEMA = z.object({ ok: z.boolean() })
+
+export type ProviderDiagnosticStepId = 'reachability' | 'session' | 'auth' | 'models' | 'chatRoundTrip' | 'structuredOutput' | 'translate'
+export type ProviderDiagnosticStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped'
+export type ProviderDiagnosticErrorKind = 'network' | 'cors' | 'timeout' | 'notFound' | 'auth' | 'modelNotFound' | 'rateLimit' | 'server' | 'session' | 'structuredOutput' | 'unknown'
+
+export interface ProviderDiagnosticStep {
+  id: ProviderDiagnosticStepId
+  status: ProviderDiagnosticStatus
+  latencyMs: number | null
+  // Short technical detail: the HTTP status, the models found or the raw error message
+  detail: string | null
+  errorKind: ProviderDiagnosticErrorKind | null
+}
+
+/**
+ * Thrown by a diagnostic step when it already knows what went wrong, so the classification does
+ * not have to guess from the error message.
+ */
+export class ProviderDiagnosticError extends Error {
+  kind: ProviderDiagnosticErrorKind
+
+  constructor(kind: ProviderDiagnosticErrorKind, message: string) {
+    super(message)
+    this.name = 'ProviderDiagnosticError'
+    this.kind = kind
+  }
+}
+
+function getErrorStatus(error: unknown): number | null {
+  if (APICallError.isInstance(error))
+    return error.statusCode ?? null
+  if (error && typeof error === 'object') {
+    const { status, statusCode } = error as { status?: unknown, statusCode?: unknown }
+    if (typeof status === 'number')
+      return status
+    if (typeof statusCode === 'number')
+      return statusCode
+  }
+  return null
+}
+
+const MODEL_NOT_FOUND_PATTERN = /model.*(?:not found|not exist|does not exist|unknown|invalid|not supported)|(?:unknown|invalid|no such) model/i
+
+export function classifyProviderError(error: unknown): ProviderDiagnosticErrorKind {
+  if (error instanceof ProviderDiagnosticError)
+    return error.kind
+  if (isAbortError(error) || (error instanceof Error && error.name === 'TimeoutError'))
+    return 'timeout'
+  if (NoObjectGeneratedError.isInstance(error) || error instanceof SyntaxError || error instanceof z.ZodError)
+    return 'structuredOutput'
+
+  const message = error instanceof Error ? error.message : String(error)
+  const status = getErrorStatus(error)
+  if (status !== null) {
+    if (status === 401 || status === 403)
+      return 'auth'
+    if (status === 429)
+      return 'rateLimit'
+    if (MODEL_NOT_FOUND_PATTERN.test(message) || (APICallError.isInstance(error) && MODEL_NOT_FOUND_PATTERN.test(error.responseBody ?? '')))
+      return 'modelNotFound'
+    if (status === 404)
+      return 'notFound'
+    if (status >= 500)
+      return 'server'
+  }
+
+  if (MODEL_NOT_FOUND_PATTERN.test(message))
+    return 'modelNotFound'
+  if (/login|session/i.test(message))
+    return 'session'
+  if (error instanceof TypeError || /failed to fetch|networkerror|load failed/i.test(message))
+    return 'network'
+  if (/api key|unauthori[sz]ed|forbidden/i.test(message))
+    return 'auth'
+  return 'unknown'
+}
+
+async function probeReachability(baseURL: string): Promise<string> {
+  try {
+    const response = await fetch(baseURL, { method: 'GET', signal: AbortSignal.timeout(DIAGNOSTIC_REQUEST_TIMEOUT_MS) })
+    return `HTTP ${response.status}`
+  }
+  catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || isAbortError(error)))
+      throw error
+    // An opaque no-cors response proves the server answers and only the CORS policy is in the way
+    const reachableWithoutCors = await fetch(baseURL, { mode: 'no-cors', signal: AbortSignal.timeout(DIAGNOSTIC_REQUEST_TIMEOUT_MS) })
+      .then(() => true, () => false)
+    if (reachableWithoutCors)
+      throw new ProviderDiagnosticError('cors', `${baseURL} answers but does not allow requests from the extension`)
+    throw error
+  }
+}
+
+function getModelId(providerConfig: APIProviderConfig, type: 'read' | 'translate'): string | null {
+  if (!isLLMTranslateProviderConfig(providerConfig))
+    return null
+  const modelConfig = providerConfig.models[type]
+  return (modelConfig.isCustomModel ? modelConfig.customModel : modelConfig.model) ?? null
+}
+
+async function probeLanguageModel(providerId: string, type: 'read' | 'translate') {
+  const model = type === 'read' ? await getReadModelById(providerId) : await getTranslateModelById(providerId)
+  await generateText({
+    model,
+    prompt: PROBE_PROMPT,
+    abortSignal: AbortSignal.timeout(DIAGNOSTIC_REQUEST_TIMEOUT_MS),
+  })
+}
+
+function parseStructuredOutput(text: string) {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  const payload = start !== -1 && end >= start ? text.slice(start, end + 1) : text
+  return STRUCTURED_OUTPUT_SCHEMA.parse(JSON.parse(payload))
+}
+
+interface DiagnosticStepPlan {
+  id: ProviderDiagnosticStepId
+  // Resolves to an optional detail; returning `null` from a skippable step marks it skipped
+  run: () => Promise<string | null | void>
+  skippable?: boolean
+}
+
+function getSessionProviderPlan(providerConfig: SessionProviderConfig): DiagnosticStepPlan[] {
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const baseURL = getSessionProviderBaseURL(adapter, providerConfig)
+  const configuredModels = Array.from(new Set([getModelId(providerConfig, 'read'), getModelId(providerConfig, 'translate')]))
+    .filter((model): model is string => Boolean(model))
+
+  return [
+    { id: 'reachability', run: () => probeReachability(baseURL) },
+    {
+      id: 'session',
+      run: async () => {
+        await ensureProviderSession(adapter, baseURL)
+      },
+    },
+    {
+      id: 'models',
+      skippable: true,
+      run: async () => {
+        if (!adapter.listModels)
+          return null
+        const available = await adapter.listModels(baseURL)
+        const availableLower = new Set(available.map(title => title.toLowerCase()))
+        const missing = configuredModels.filter(model => !availableLower.has(model.toLowerCase()))
+        if (missing.length > 0)
+          throw new ProviderDiagnosticError('modelNotFound', `${missing.join(', ')} not offered by the portal (available: ${available.join(', ')})`)
+        return configuredModels.join(', ')
+      },
+    },
+    {
+      id: 'chatRoundTrip',
+      run: async () => {
+        const chatId = await adapter.createChat(baseURL)
+        await adapter.deleteChats(baseURL, [chatId])
+      },
+    },
+    {
+      id: 'structuredOutput',
+      run: async () => {
+        const response = await sessionProviderGenerateText(
+          'Answer with the JSON object {"ok": true} and nothing else.',
+          providerConfig,
+          { modelType: 'read' },
+        )
+        parseStructuredOutput(response)
+      },
+    },
+  ]
+}
+
+function getLanguageModelPlan(providerConfig: LLMTranslateProviderConfig): DiagnosticStepPlan[] {
+  const { id: providerId, baseURL } = providerConfig
+  const readModel = getModelId(providerConfig, 'read')
+  const translateModel = getModelId(providerConfig, 'translate')
+
+  const steps: DiagnosticStepPlan[] = [
+    {
+      id: 'reachability',
+      skippable: true,
+      // Without a base URL the SDK talks to the provider's default endpoint, which is always up
+      run: async () => baseURL ? await probeReachability(baseURL) : null,
+    },
+    {
+      id: 'auth',
+      run: async () => {
+        await probeLanguageModel(providerId, 'translate')
+      },
+    },
+    {
+      id: 'models',
+      run: async () => {
+        // The auth probe already ran the translate model, so only a different read model needs a call
+        if (readModel !== translateModel)
+          await probeLanguageModel(providerId, 'read')
+        return [translateModel, readModel].filter(Boolean).join(', ')
+      },
+    },
+  ]
+
+  if (readModel) {
+    steps.push({
+      id: 'structuredOutput',
+      run: async () => {
+        const model = await getReadModelById(providerId)
+        await generateObject({
+          model,
+          prompt: 'Set "ok" to true.',
+          schema: STRUCTURED_OUTPUT_SCHEMA,
+          abortSignal: AbortSignal.timeout(DIAGNOSTIC_REQUEST_TIMEOUT_MS),
+        })
+      },
+    })
+  }
+
+  return steps
+}
+
+function getTranslateOnlyPlan(providerConfig: APIProviderConfig): DiagnosticStepPlan[] {
+  return [
+    {
+      id: 'reachability',
+      skippable: true,
+      run: async () => providerConfig.baseURL ? await probeReachability(providerConfig.baseURL) : null,
+    },
+    {
+      id: 'translate',
+      run: async () => {
+        await executeTranslate('Hi', DEFAULT_CONFIG.language, providerConfig)
+      },
+    },
+  ]
+}
+
+export function getProviderDiagnosticPlan(providerConfig: APIProviderConfig): DiagnosticStepPlan[] {
+  if (isSessionProviderConfig(providerConfig))
+    return getSessionProviderPlan(providerConfig)
+  if (isLLMTranslateProviderConfig(providerConfig))
+    return getLanguageModelPlan(providerConfig)
+  return getTranslateOnlyPlan(providerConfig)
+}
+
+/**
+ * Runs the diagnostic steps of a provider one after another. `onUpdate` receives a fresh snapshot
+ * of every step whenever one changes; steps after the first failure are marked skipped.
+ */
+export async function runProviderDiagnostics(
+  providerConfig: APIProviderConfig,
+  onUpdate?: (steps: ProviderDiagnosticStep[]) => void,
+): Promise<ProviderDiagnosticStep[]> {
+  const plan = getProviderDiagnosticPlan(providerConfig)
+  let steps: ProviderDiagnosticStep[] = plan.map(({ id }) => ({ id, status: 'pending', latencyMs: null, detail: null, errorKind: null }))
+
+  const updateStep = (index: number, patch: Partial<ProviderDiagnosticStep>) => {
+    steps = steps.map((step, i) => i === index ? { ...step, ...patch } : step)
+    onUpdate?.(steps)
+  }
+
+  onUpdate?.(steps)
+
+  let failed = false
+  for (const [index, { run, skippable }] of plan.entries()) {
+    if (failed) {
+      updateStep(index, { status: 'skipped' })
+      continue
+    }
+
+    updateStep(index, { status: 'running' })
+    const startedAt = performance.now()
+    try {
+      const detail = await run()
+      const latencyMs = Math.round(performance.now() - startedAt)
+      if (detail === null && skippable)
+        updateStep(index, { status: 'skipped', latencyMs: null })
+      else
+        updateStep(index, { status: 'success', latencyMs, detail: detail || null })
+    }
+    catch (error) {
+      failed = true
+      updateStep(index, {
+        status: 'error',
+        latencyMs: Math.round(performance.now() - startedAt),
+        detail: error instanceof Error ? error.message : String(error),
+        errorKind: classifyProviderError(error),
+      })
+    }
+  }
+
+  return steps
+}
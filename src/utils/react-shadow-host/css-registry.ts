@@ -1,41 +1,59 @@
 import { Sha256Hex } from '../hash'
 
+type StyleRoot = Document | ShadowRoot
+
 export class CSSRegistry {
-  private registry = new Map<string, { node: HTMLStyleElement, count: number }>()
+  private registries = new WeakMap<StyleRoot, Map<string, { node: HTMLStyleElement, count: number }>>()
 
   private static hash(content: string): string {
     return Sha256Hex(content)
   }
 
-  inject(css: string): string {
+  private getRegistry(root: StyleRoot) {
+    let registry = this.registries.get(root)
+    if (!registry) {
+      registry = new Map()
+      this.registries.set(root, registry)
+    }
+    return registry
+  }
+
+  /** Styles land in the document head, or directly in the shadow root when one is given */
+  inject(css: string, root: StyleRoot = document): string {
     const key = CSSRegistry.hash(css)
+    const registry = this.getRegistry(root)
 
-    const existing = this.registry.get(key)
+    const existing = registry.get(key)
     if (existing) {
       existing.count += 1
       return key
     }
 
-    const style = document.createElement('style')
+    const ownerDocument = root.nodeType === Node.DOCUMENT_NODE ? root as Document : root.ownerDocument ?? document
+    const style = ownerDocument.createElement('style')
     style.textContent = css
     style.setAttribute('data-read-frog-react-shadow-css-key', key)
-    document.head.appendChild(style)
-    this.registry.set(key, { node: style, count: 1 })
+    const parent = root.nodeType === Node.DOCUMENT_NODE
+      ? (root as Document).head ?? (root as Document).documentElement
+      : root
+    parent.appendChild(style)
+    registry.set(key, { node: style, count: 1 })
 
     return key
   }
 
   /** Caller must return the key when unloading, and do reference count decrement */
-  remove(key: string) {
-    const entry = this.registry.get(key)
-    if (!entry)
+  remove(key: string, root: StyleRoot = document) {
+    const registry = this.registries.get(root)
+    const entry = registry?.get(key)
+    if (!registry || !entry)
       return
 
     entry.count -= 1
 
     if (entry.count === 0) {
       entry.node.remove()
-      this.registry.delete(key)
+      registry.delete(key)
     }
   }
 }
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { BATCH_SEPARATOR } from '@/utils/constants/prompt'
+import {
+  formatBatchInput,
+  parseBatchTranslations,
+  parsePartialBatchTranslations,
+  replaceStructuredBatchSegments,
+} from '../batch-format'
+
+describe('formatBatchInput', () => {
+  it('tags every text with its position', () => {
+    expect(formatBatchInput(['A', 'B'], 'structured')).toBe('<seg id="1">A</seg>\n<seg id="2">B</seg>')
+  })
+
+  it('joins texts with the separator', () => {
+    expect(formatBatchInput(['A', 'B'], 'separator')).toBe(`A\n\n${BATCH_SEPARATOR}\n\nB`)
+  })
+
+  it('sends a single text as is', () => {
+    expect(formatBatchInput(['A'], 'structured')).toBe('A')
+  })
+})
+
+describe('parseBatchTranslations', () => {
+  it('matches structured segments by id, not by position', () => {
+    const result = '<seg id="2">Translation B</seg>\n<seg id="1">Translation A</seg>'
+    expect(parseBatchTranslations(result, 2, 'structured')).toEqual(['Translation A', 'Translation B'])
+  })
+
+  it('leaves dropped segments undefined', () => {
+    const result = '<seg id="1">Translation A</seg>\n<seg id="3">Translation C</seg>'
+    expect(parseBatchTranslations(result, 3, 'structured')).toEqual(['Translation A', undefined, 'Translation C'])
+  })
+
+  it('tolerates loose tags and text around them', () => {
+    const result = '```xml\nHere you go:\n<SEG id=1> Translation A </SEG>\n< seg id=\'2\' >Translation B\n```'
+    expect(parseBatchTranslations(result, 2, 'structured')).toEqual(['Translation A', 'Translation B'])
+  })
+
+  it('keeps the first non-empty segment of a repeated id', () => {
+    const result = '<seg id="1"></seg><seg id="1">Translation A</seg><seg id="1">Again</seg><seg id="2">Translation B</seg>'
+    expect(parseBatchTranslations(result, 2, 'structured')).toEqual(['Translation A', 'Translation B'])
+  })
+
+  it('takes an untagged response to a single text as its translation', () => {
+    expect(parseBatchTranslations('  Translation A\n', 1, 'structured')).toEqual(['Translation A'])
+  })
+
+  it('yields nothing when the separator count is off', () => {
+    const result = `Translation A\n\n${BATCH_SEPARATOR}\n\nTranslation B`
+    expect(parseBatchTranslations(result, 2, 'separator')).toEqual(['Translation A', 'Translation B'])
+    expect(parseBatchTranslations(result, 3, 'separator')).toEqual([undefined, undefined, undefined])
+  })
+})
+
+describe('parsePartialBatchTranslations', () => {
+  it('drops a half written tag at the end of the stream', () => {
+    const text = '<seg id="1">Translation A</seg>\n<seg id="2">Transl</se'
+    expect(parsePartialBatchTranslations(text, 3, 'structured')).toEqual(['Translation A', 'Transl', undefined])
+  })
+
+  it('drops a half written separator at the end of the stream', () => {
+    const text = `Translation A\n\n${BATCH_SEPARATOR}\n\nTranslation B\n\n${BATCH_SEPARATOR.slice(0, 1)}`
+    expect(parsePartialBatchTranslations(text, 3, 'separator')).toEqual(['Translation A', 'Translation B'])
+  })
+})
+
+describe('replaceStructuredBatchSegments', () => {
+  it('rewrites segment contents and keeps the tags', () => {
+    const result = '<seg id="1">a</seg>\n<seg id="2">b</seg>'
+    expect(replaceStructuredBatchSegments(result, (segment, id) => `${segment.toUpperCase()}${id}`))
+      .toBe('<seg id="1">A1</seg>\n<seg id="2">B2</seg>')
+  })
+})
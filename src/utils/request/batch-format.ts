@@ -0,0 +1,121 @@
+import type { BatchFormat, ProviderConfig } from '@/types/config/provider'
+import { BATCH_SEGMENT_TAG, BATCH_SEPARATOR } from '@/utils/constants/prompt'
+
+export const DEFAULT_BATCH_FORMAT: BatchFormat = 'structured'
+
+// Models write the tag in all kinds of ways: `id=1`, `id='1'`, upper case, extra spaces
+const SEGMENT_OPEN_TAG_PATTERN = new RegExp(`<\\s*${BATCH_SEGMENT_TAG}\\s+id\\s*=\\s*["']?(\\d+)["']?\\s*>`, 'gi')
+const SEGMENT_CLOSE_TAG_PATTERN = new RegExp(`<\\s*/\\s*${BATCH_SEGMENT_TAG}\\s*>`, 'i')
+const TRAILING_CODE_FENCE_PATTERN = /\n?```\s*$/
+// A streamed response can end halfway through a tag
+const TRAILING_PARTIAL_TAG_PATTERN = /<[^<>]*$/
+
+export function getBatchFormat(providerConfig: ProviderConfig): BatchFormat {
+  return 'batchFormat' in providerConfig && providerConfig.batchFormat ? providerConfig.batchFormat : DEFAULT_BATCH_FORMAT
+}
+
+/**
+ * Join texts into the input of one batched request. Segment ids are 1-based positions in `texts`.
+ * A single text is sent as is, the batch prompt asks for a plain translation then.
+ */
+export function formatBatchInput(texts: string[], format: BatchFormat): string {
+  if (texts.length === 1)
+    return texts[0]
+  if (format === 'separator')
+    return texts.join(`\n\n${BATCH_SEPARATOR}\n\n`)
+  return texts.map((text, index) => `<${BATCH_SEGMENT_TAG} id="${index + 1}">${text}</${BATCH_SEGMENT_TAG}>`).join('\n')
+}
+
+export function parseBatchResult(result: string): string[] {
+  return result.split(BATCH_SEPARATOR).map(t => t.trim())
+}
+
+interface StructuredSegment {
+  id: number
+  // Range of the segment content in the response, without the tags
+  start: number
+  end: number
+}
+
+// A segment without a closing tag ends at the next opening tag
+function findStructuredSegments(result: string): StructuredSegment[] {
+  const openTags = [...result.matchAll(SEGMENT_OPEN_TAG_PATTERN)]
+
+  return openTags.map((openTag, index) => {
+    const start = openTag.index + openTag[0].length
+    const content = result.slice(start, openTags[index + 1]?.index ?? result.length)
+    const closeTag = SEGMENT_CLOSE_TAG_PATTERN.exec(content)
+    const length = closeTag ? closeTag.index : content.replace(TRAILING_CODE_FENCE_PATTERN, '').length
+    return { id: Number(openTag[1]), start, end: start + length }
+  })
+}
+
+/**
+ * Segments of a structured batch keyed by id. The first non-empty segment wins when an id is
+ * repeated.
+ */
+export function parseStructuredBatchSegments(result: string): Map<number, string> {
+  const segments = new Map<number, string>()
+  for (const { id, start, end } of findStructuredSegments(result)) {
+    const content = result.slice(start, end).trim()
+    if (content && !segments.has(id))
+      segments.set(id, content)
+  }
+  return segments
+}
+
+/**
+ * Rewrite the content of every segment of a structured batch in place, keeping the tags and ids
+ */
+export function replaceStructuredBatchSegments(result: string, replace: (segment: string, id: number) => string): string {
+  let replaced = ''
+  let position = 0
+  for (const { id, start, end } of findStructuredSegments(result)) {
+    replaced += `${result.slice(position, start)}${replace(result.slice(start, end).trim(), id)}`
+    position = end
+  }
+  return replaced + result.slice(position)
+}
+
+/**
+ * Translations of a batch of `count` texts in input order. Texts the response has no translation
+ * for are `undefined` so only those need to be requested again. The separator format can't tell
+ * which segment went missing, so a response with the wrong number of segments yields nothing.
+ */
+export function parseBatchTranslations(result: string, count: number, format: BatchFormat): Array<string | undefined> {
+  if (count === 1 && (format === 'separator' || result.search(SEGMENT_OPEN_TAG_PATTERN) === -1)) {
+    const translation = result.trim()
+    return [translation || undefined]
+  }
+
+  if (format === 'separator') {
+    const translations = parseBatchResult(result)
+    return translations.length === count ? translations : Array.from({ length: count }, () => undefined)
+  }
+
+  const segments = parseStructuredBatchSegments(result)
+  return Array.from({ length: count }, (_, index) => segments.get(index + 1))
+}
+
+/**
+ * The translations streamed so far for a batch of `count` texts, with a half written marker at the
+ * end of the text left out
+ */
+export function parsePartialBatchTranslations(text: string, count: number, format: BatchFormat): Array<string | undefined> {
+  if (count === 1)
+    return [text.trim() || undefined]
+
+  if (format === 'separator') {
+    return text.split(BATCH_SEPARATOR).slice(0, count).map(part => trimPartialBatchSeparator(part).trim() || undefined)
+  }
+
+  return parseBatchTranslations(text.replace(TRAILING_PARTIAL_TAG_PATTERN, ''), count, format)
+}
+
+function trimPartialBatchSeparator(text: string) {
+  for (let length = BATCH_SEPARATOR.length - 1; length > 0; length--) {
+    if (text.endsWith(BATCH_SEPARATOR.slice(0, length)))
+      return text.slice(0, -length)
+  }
+  return text
+}
@@ -0,0 +1,240 @@
+import type { GenAIProviderConfig } from '@/types/config/provider'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GENAI_COOKIE_BRIDGE_DEFAULT_PORT } from '@/utils/constants/providers'
+import { SESSION_CHAT_IDLE_TTL_MS, SESSION_CHAT_MAX_SLOTS_PER_KEY } from '../constants'
+
+const storageMock = vi.hoisted(() => {
+  const state: Record<string, any> = {}
+  const storage = {
+    getItem: vi.fn(async (key: string) => state[key] ?? null),
+    setItem: vi.fn(async (key: string, value: any) => {
+      state[key] = value
+    }),
+  }
+  return { state, storage }
+})
+
+const { acquireSessionChat, clearSessionChatPool, inspectSessionChatPool, invalidateSessionChatSlot, scaleSessionChatPool, __private__ } = await import('../chat-pool')
+__private__.setStorageOverrideForTest(storageMock.storage as any)
+
+function resetStorageState() {
+  Object.keys(storageMock.state).forEach(key => delete storageMock.state[key])
+  storageMock.storage.getItem.mockClear()
+  storageMock.storage.setItem.mockClear()
+}
+
+const baseProviderConfig: GenAIProviderConfig = {
+  id: 'genai-default',
+  name: 'Samsung GenAI',
+  enabled: true,
+  provider: 'genai',
+  baseURL: 'https://genai.sec.samsung.net',
+  description: 'test',
+  cookieBridge: {
+    enabled: false,
+    port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT,
+    pairingToken: '',
+  },
+  models: {
+    read: {
+      model: 'GPT-OSS',
+      isCustomModel: false,
+      customModel: null,
+    },
+    translate: {
+      model: 'GPT-OSS',
+      isCustomModel: false,
+      customModel: null,
+    },
+  },
+}
+
+describe('acquireSessionChat', () => {
+  afterEach(async () => {
+    await __private__.clearPoolsForTest()
+    resetStorageState()
+    vi.useRealTimers()
+  })
+
+  it('reuses the same chat for sequential acquisitions', async () => {
+    const createChat = vi.fn().mockResolvedValue('chat-1')
+
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseA.release()
+
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseB.release()
+
+    expect(createChat).toHaveBeenCalledTimes(1)
+    expect(leaseB.chatGuid).toBe('chat-1')
+  })
+
+  it('creates a new chat after invalidation', async () => {
+    const createChat = vi.fn().mockResolvedValueOnce('chat-1').mockResolvedValueOnce('chat-2')
+
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseA.invalidate()
+
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseB.release()
+
+    expect(createChat).toHaveBeenCalledTimes(2)
+    expect(leaseB.chatGuid).toBe('chat-2')
+  })
+
+  it('evicts idle chats after the TTL elapses', async () => {
+    vi.useFakeTimers()
+    const createChat = vi.fn().mockResolvedValueOnce('chat-ttl-1').mockResolvedValueOnce('chat-ttl-2')
+
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseA.release()
+
+    await vi.advanceTimersByTimeAsync(SESSION_CHAT_IDLE_TTL_MS + 1)
+
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseB.release()
+
+    expect(createChat).toHaveBeenCalledTimes(2)
+    expect(leaseB.chatGuid).toBe('chat-ttl-2')
+  })
+
+  it('tracks parent message guid across leases and resets on invalidation', async () => {
+    const createChat = vi.fn().mockResolvedValue('chat-parent')
+
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseA.parentMessageGuid).toBeNull()
+    leaseA.setParentMessageGuid('assistant-1')
+    await leaseA.release()
+
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseB.parentMessageGuid).toBe('assistant-1')
+    await leaseB.invalidate()
+
+    const leaseC = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseC.parentMessageGuid).toBeNull()
+    await leaseC.release()
+  })
+
+  it('persists pending message guid so busy chats can be skipped later', async () => {
+    const createChat = vi.fn().mockResolvedValue('chat-pending')
+
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseA.pendingMessageGuid).toBeNull()
+    leaseA.setPendingMessageGuid('user-1')
+    await leaseA.release()
+
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseB.pendingMessageGuid).toBe('user-1')
+    await leaseB.invalidate()
+
+    const leaseC = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    expect(leaseC.pendingMessageGuid).toBeNull()
+    await leaseC.release()
+  })
+
+  it('hydrates persisted chat state on first acquisition', async () => {
+    const now = Date.now()
+    storageMock.state['local:genai_chat_pool'] = {
+      'genai-default:translate:https://genai.sec.samsung.net': {
+        slots: [
+          {
+            slotId: 'slot-1',
+            chatGuid: 'persisted-chat',
+            lastMessageGuid: 'assistant-prev',
+            lastUsed: now,
+            pendingMessageGuid: null,
+            pendingSince: null,
+          },
+        ],
+      },
+    }
+
+    const createChat = vi.fn()
+    const lease = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+
+    expect(createChat).not.toHaveBeenCalled()
+    expect(lease.chatGuid).toBe('persisted-chat')
+    expect(lease.parentMessageGuid).toBe('assistant-prev')
+    await lease.release()
+  })
+
+  it('warms idle slots up to the requested capacity', async () => {
+    const createChat = vi.fn().mockResolvedValueOnce('warm-1').mockResolvedValueOnce('warm-2')
+
+    await scaleSessionChatPool(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', 2, createChat)
+
+    const snapshot = __private__.getPoolSnapshot()
+    const entry = snapshot.get('genai-default:translate:https://genai.sec.samsung.net')
+    expect(entry?.slots).toHaveLength(2)
+    entry?.slots.forEach(slot => expect(slot.busy).toBe(false))
+    expect(createChat).toHaveBeenCalledTimes(2)
+  })
+
+  it('respects the max slots per key when warming', async () => {
+    const createChat = vi.fn().mockImplementation(() => Promise.resolve(`chat-${crypto.randomUUID()}`))
+
+    await scaleSessionChatPool(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', 10, createChat)
+
+    const snapshot = __private__.getPoolSnapshot()
+    const entry = snapshot.get('genai-default:translate:https://genai.sec.samsung.net')
+    expect(entry?.slots.length).toBeLessThanOrEqual(SESSION_CHAT_MAX_SLOTS_PER_KEY)
+  })
+})
+
+describe('chat pool inspection', () => {
+  const poolKey = `${baseProviderConfig.id}:translate:${baseProviderConfig.baseURL}`
+
+  afterEach(async () => {
+    await __private__.clearPoolsForTest()
+    resetStorageState()
+  })
+
+  it('reports slots, busy state and pool key parts', async () => {
+    const createChat = vi.fn().mockResolvedValueOnce('chat-1').mockResolvedValueOnce('chat-2')
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    leaseB.setPendingMessageGuid('message-1')
+    await leaseB.release()
+
+    const [pool] = await inspectSessionChatPool()
+
+    expect(pool).toMatchObject({
+      key: poolKey,
+      providerId: baseProviderConfig.id,
+      purpose: 'translate',
+      baseURL: baseProviderConfig.baseURL,
+      waiterCount: 0,
+    })
+    expect(pool.slots).toEqual([
+      expect.objectContaining({ chatGuid: 'chat-1', busy: true }),
+      expect.objectContaining({ chatGuid: 'chat-2', busy: false, pendingMessageGuid: 'message-1' }),
+    ])
+    await leaseA.release()
+  })
+
+  it('invalidates a slot so it is never handed out again', async () => {
+    const createChat = vi.fn().mockResolvedValueOnce('chat-1').mockResolvedValueOnce('chat-2')
+    const leaseA = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    const [pool] = await inspectSessionChatPool()
+
+    const removed = await invalidateSessionChatSlot(poolKey, pool.slots[0].slotId)
+    await leaseA.release()
+    const leaseB = await acquireSessionChat(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', createChat)
+    await leaseB.release()
+
+    expect(removed).toEqual({ chatGuid: 'chat-1', baseURL: baseProviderConfig.baseURL })
+    expect(leaseB.chatGuid).toBe('chat-2')
+    expect(await invalidateSessionChatSlot(poolKey, 'missing-slot')).toBeNull()
+  })
+
+  it('clears every pool of a provider', async () => {
+    const createChat = vi.fn().mockResolvedValueOnce('chat-1').mockResolvedValueOnce('chat-2')
+    await scaleSessionChatPool(baseProviderConfig, baseProviderConfig.baseURL!, 'translate', 1, createChat)
+    await scaleSessionChatPool(baseProviderConfig, baseProviderConfig.baseURL!, 'read', 1, createChat)
+
+    const chatGuids = await clearSessionChatPool(baseProviderConfig.id)
+
+    expect(chatGuids.sort()).toEqual(['chat-1', 'chat-2'])
+    expect(await inspectSessionChatPool()).toEqual([])
+  })
+})
@@ -0,0 +1,141 @@
+import type { SessionProviderAdapter } from '../types'
+import type { SessionProviderConfig } from '@/types/config/provider'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GENAI_COOKIE_BRIDGE_DEFAULT_PORT } from '@/utils/constants/providers'
+import { SessionChatBusyError } from '../errors'
+
+const storageMock = vi.hoisted(() => {
+  const state: Record<string, any> = {}
+  const storage = {
+    getItem: vi.fn(async (key: string) => state[key] ?? null),
+    setItem: vi.fn(async (key: string, value: any) => {
+      state[key] = value
+    }),
+  }
+  return { state, storage }
+})
+
+const { __private__: chatPoolPrivate } = await import('../chat-pool')
+const { __private__ } = await import('../chat')
+chatPoolPrivate.setStorageOverrideForTest(storageMock.storage as any)
+
+const { runSessionProviderChat } = __private__
+
+const baseURL = 'https://portal.example.com'
+
+const providerConfig: SessionProviderConfig = {
+  id: 'session-test',
+  name: 'Session Test',
+  enabled: true,
+  provider: 'genai',
+  baseURL,
+  description: 'test',
+  cookieBridge: {
+    enabled: false,
+    port: GENAI_COOKIE_BRIDGE_DEFAULT_PORT,
+    pairingToken: '',
+  },
+  models: {
+    read: { model: 'GPT-OSS', isCustomModel: false, customModel: null },
+    translate: { model: 'GPT-OSS', isCustomModel: false, customModel: null },
+  },
+}
+
+function createFakeAdapter(overrides: Partial<SessionProviderAdapter> = {}): SessionProviderAdapter {
+  let chatCount = 0
+  let messageCount = 0
+  return {
+    provider: 'genai',
+    displayName: 'Fake Portal',
+    defaultBaseURL: baseURL,
+    checkSession: vi.fn(async () => true),
+    createChat: vi.fn(async () => `chat-${++chatCount}`),
+    listChats: vi.fn(async () => []),
+    deleteChats: vi.fn(async () => {}),
+    sendMessage: vi.fn(async () => `message-${++messageCount}`),
+    streamResponse: vi.fn(async (_baseURL, { messageId }) => ({ responseId: `response-${messageId}`, fallbackContent: null })),
+    cancelResponse: vi.fn(async () => {}),
+    waitForMessageCompletion: vi.fn(async () => {}),
+    fetchResponseContent: vi.fn(async () => ({ content: 'answer', completed: true })),
+    shouldInvalidateChat: vi.fn(() => false),
+    logReliabilityEvent: vi.fn(async () => {}),
+    ...overrides,
+  }
+}
+
+describe('runSessionProviderChat', () => {
+  afterEach(async () => {
+    await chatPoolPrivate.clearPoolsForTest()
+    Object.keys(storageMock.state).forEach(key => delete storageMock.state[key])
+  })
+
+  it('strips reasoning from the stored response and threads the next message after it', async () => {
+    const adapter = createFakeAdapter({
+      fetchResponseContent: vi.fn(async () => ({ content: '<think>hmm</think>\n  Bonjour ', completed: true })),
+    })
+
+    await expect(runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'Hello' })).resolves.toBe('Bonjour')
+    await runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'Again' })
+
+    expect(adapter.createChat).toHaveBeenCalledTimes(1)
+    expect(adapter.sendMessage).toHaveBeenLastCalledWith(baseURL, expect.objectContaining({
+      chatId: 'chat-1',
+      content: 'Again',
+      parentMessageId: 'response-message-1',
+    }))
+  })
+
+  it('passes the configured model and the text listener to the stream', async () => {
+    const onText = vi.fn()
+    const adapter = createFakeAdapter()
+
+    await runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'read', content: 'Hello', onText })
+
+    expect(adapter.streamResponse).toHaveBeenCalledWith(baseURL, expect.objectContaining({ model: 'GPT-OSS', onText }))
+  })
+
+  it('waits for a busy parent message and resends on the same chat', async () => {
+    const sendMessage = vi.fn<SessionProviderAdapter['sendMessage']>()
+      .mockResolvedValueOnce('message-1')
+      .mockRejectedValueOnce(new SessionChatBusyError('busy'))
+      .mockResolvedValueOnce('message-2')
+    const adapter = createFakeAdapter({ sendMessage })
+
+    await runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'First' })
+    await expect(runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'Second' })).resolves.toBe('answer')
+
+    expect(adapter.waitForMessageCompletion).toHaveBeenCalledWith(baseURL, 'response-message-1', expect.anything())
+    expect(sendMessage).toHaveBeenCalledTimes(3)
+    expect(adapter.createChat).toHaveBeenCalledTimes(1)
+  })
+
+  it('deletes a chat that stays busy and retries on a fresh one', async () => {
+    const sendMessage = vi.fn<SessionProviderAdapter['sendMessage']>()
+      .mockRejectedValueOnce(new SessionChatBusyError('busy'))
+      .mockResolvedValueOnce('message-1')
+    const adapter = createFakeAdapter({ sendMessage })
+
+    await expect(runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'Hello' })).resolves.toBe('answer')
+
+    expect(adapter.deleteChats).toHaveBeenCalledWith(baseURL, ['chat-1'])
+    expect(sendMessage).toHaveBeenLastCalledWith(baseURL, expect.objectContaining({ chatId: 'chat-2' }))
+  })
+
+  it('cancels the response stream when it fails', async () => {
+    const adapter = createFakeAdapter({
+      streamResponse: vi.fn(async () => {
+        throw new Error('stream broke')
+      }),
+    })
+
+    await expect(runSessionProviderChat(adapter, providerConfig, baseURL, { purpose: 'translate', content: 'Hello' })).rejects.toThrow('stream broke')
+    expect(adapter.cancelResponse).toHaveBeenCalledWith(baseURL, 'message-1')
+    expect(adapter.logReliabilityEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'messages-response-cancel',
+      providerId: 'session-test',
+      modelType: 'translate',
+      model: 'GPT-OSS',
+      success: true,
+    }))
+  })
+})
@@ -1,13 +1,14 @@
-import type { GenAIProviderConfig } from '@/types/config/provider'
+import type { SessionProviderConfig } from '@/types/config/provider'
 import { storage } from '#imports'
 import { logger } from '@/utils/logger'
-import { GENAI_CHAT_IDLE_TTL_MS, GENAI_CHAT_MAX_SLOTS_PER_KEY } from './constants'
+import { SESSION_CHAT_IDLE_TTL_MS, SESSION_CHAT_MAX_SLOTS_PER_KEY } from './constants'
 
-export type GenAIChatPurpose = 'translate' | 'read'
+export type SessionChatPurpose = 'translate' | 'read'
 
 interface ChatSlot {
   slotId: string
   chatGuid: string
+  createdAt: number
   lastUsed: number
   parentMessageGuid: string | null
   pendingMessageGuid: string | null
@@ -49,6 +50,7 @@ interface PersistedChatSlot {
   slotId: string
   chatGuid: string
   lastMessageGuid: string | null
+  createdAt?: number
   lastUsed: number
   pendingMessageGuid: string | null
   pendingSince: number | null
@@ -60,6 +62,7 @@ interface PersistedPoolEntry {
 
 type StorageApi = typeof storage
 
+// Named from when the pool only served GenAI, renaming it would drop the persisted slots
 const CHAT_POOL_STORAGE_KEY = 'genai_chat_pool'
 
 const chatPool = new Map<string, ChatPoolEntry>()
@@ -74,7 +77,7 @@ function getStorageApi(): StorageApi {
   return storageOverride ?? storage
 }
 
-function getPoolKey(providerConfig: GenAIProviderConfig, purpose: GenAIChatPurpose, baseURL: string) {
+function getPoolKey(providerConfig: SessionProviderConfig, purpose: SessionChatPurpose, baseURL: string) {
   return `${providerConfig.id}:${purpose}:${baseURL}`
 }
 
@@ -116,11 +119,12 @@ async function loadPersistedSnapshot(): Promise<Record<string, PersistedPoolEntr
           for (const slot of entry.slots ?? []) {
             if (!slot.chatGuid)
               continue
-            if (now - (slot.lastUsed ?? 0) > GENAI_CHAT_IDLE_TTL_MS)
+            if (now - (slot.lastUsed ?? 0) > SESSION_CHAT_IDLE_TTL_MS)
               continue
             hydratedSlots.push({
               slotId: slot.slotId ?? crypto.randomUUID(),
               chatGuid: slot.chatGuid,
+              createdAt: slot.createdAt ?? slot.lastUsed ?? now,
               lastUsed: slot.lastUsed ?? now,
               parentMessageGuid: slot.lastMessageGuid ?? null,
               pendingMessageGuid: slot.pendingMessageGuid ?? null,
@@ -149,7 +153,7 @@ async function loadPersistedSnapshot(): Promise<Record<string, PersistedPoolEntr
       }
       catch (error) {
         persistedSnapshot = {}
-        logger.warn('[GenAI] Failed to hydrate GenAI chat pool from storage', error)
+        logger.warn('[SessionChatPool] Failed to hydrate chat pool from storage', error)
       }
       finally {
         hydrationCompleted = true
@@ -169,7 +173,7 @@ function scheduleSnapshotSave() {
       await getStorageApi().setItem(`local:${CHAT_POOL_STORAGE_KEY}`, persistedSnapshot)
     }
     catch (error) {
-      logger.warn('[GenAI] Failed to persist GenAI chat pool state', error)
+      logger.warn('[SessionChatPool] Failed to persist chat pool state', error)
     }
   })
 }
@@ -191,6 +195,7 @@ function serializeEntry(entry: ChatPoolEntry): PersistedPoolEntry | null {
       slotId: slot.slotId,
       chatGuid: slot.chatGuid,
       lastMessageGuid: slot.parentMessageGuid,
+      createdAt: slot.createdAt,
       lastUsed: slot.lastUsed,
       pendingMessageGuid: slot.pendingMessageGuid,
       pendingSince: slot.pendingSince,
@@ -240,10 +245,10 @@ function pruneExpiredEntries(now: number) {
 
   for (const [key, entry] of chatPool.entries()) {
     const originalLength = entry.slots.length
-    entry.slots = entry.slots.filter(slot => slot.busy || now - slot.lastUsed <= GENAI_CHAT_IDLE_TTL_MS)
+    entry.slots = entry.slots.filter(slot => slot.busy || now - slot.lastUsed <= SESSION_CHAT_IDLE_TTL_MS)
 
     if (entry.slots.length !== originalLength)
-      logger.info('[GenAI] Evicted stale chat slots', { key, removed: originalLength - entry.slots.length })
+      logger.info('[SessionChatPool] Evicted stale chat slots', { key, removed: originalLength - entry.slots.length })
 
     if (entry.slots.length === 0 && entry.waiters.length === 0 && entry.pendingProvisionCount === 0) {
       chatPool.delete(key)
@@ -274,6 +279,7 @@ function createSlot(chatGuid: string, now: number): ChatSlot {
   return {
     slotId: crypto.randomUUID(),
     chatGuid,
+    createdAt: now,
     lastUsed: now,
     parentMessageGuid: null,
     pendingMessageGuid: null,
@@ -333,13 +339,13 @@ async function fulfillWaiterWithNewSlot(
   let slot: ChatSlot | null = null
   try {
     slot = await provisionSlot(key, entry, mutex, createChat, { markBusy: true })
-    logger.info('[GenAI] Provisioned replacement chat slot for waiter', { key, chatGuid: slot.chatGuid })
+    logger.info('[SessionChatPool] Provisioned replacement chat slot for waiter', { key, chatGuid: slot.chatGuid })
   }
   catch (error) {
     await mutex.acquire()
     entry.waiters.unshift(waiter)
     mutex.release()
-    logger.warn('[GenAI] Failed to provision chat slot for waiter', { key, error })
+    logger.warn('[SessionChatPool] Failed to provision chat slot for waiter', { key, error })
     return
   }
 
@@ -364,16 +370,16 @@ async function reserveSlot(
       return available
     }
 
-    const canProvision = (entry.slots.length + entry.pendingProvisionCount) < GENAI_CHAT_MAX_SLOTS_PER_KEY
+    const canProvision = (entry.slots.length + entry.pendingProvisionCount) < SESSION_CHAT_MAX_SLOTS_PER_KEY
     if (canProvision) {
       mutex.release()
       try {
         const slot = await provisionSlot(key, entry, mutex, createChat, { markBusy: true })
-        logger.info('[GenAI] Created new pooled chat slot', { key, chatGuid: slot.chatGuid, slotCount: entry.slots.length })
+        logger.info('[SessionChatPool] Created new pooled chat slot', { key, chatGuid: slot.chatGuid, slotCount: entry.slots.length })
         return slot
       }
       catch (error) {
-        logger.warn('[GenAI] Failed to provision chat slot', { key, error })
+        logger.warn('[SessionChatPool] Failed to provision chat slot', { key, error })
         continue
       }
     }
@@ -398,6 +404,9 @@ async function handleRelease(
   try {
     slot.busy = false
     slot.lastUsed = Date.now()
+    // The slot may have been dropped from the pool (e.g. via the inspector) while it was leased
+    if (!entry.slots.includes(slot))
+      return
     if (entry.waiters.length > 0) {
       waiter = entry.waiters.shift()
       slot.busy = true
@@ -450,7 +459,7 @@ async function handleInvalidate(
     await fulfillWaiterWithNewSlot(key, entry, mutex, createChat, waiter)
 }
 
-export interface GenAIChatLease {
+export interface SessionChatLease {
   chatGuid: string
   parentMessageGuid: string | null
   pendingMessageGuid: string | null
@@ -460,12 +469,12 @@ export interface GenAIChatLease {
   invalidate: () => Promise<void>
 }
 
-export async function acquireGenAIChat(
-  providerConfig: GenAIProviderConfig,
+export async function acquireSessionChat(
+  providerConfig: SessionProviderConfig,
   baseURL: string,
-  purpose: GenAIChatPurpose,
+  purpose: SessionChatPurpose,
   createChat: () => Promise<string>,
-): Promise<GenAIChatLease> {
+): Promise<SessionChatLease> {
   await ensureHydrated()
   const key = getPoolKey(providerConfig, purpose, baseURL)
   pruneExpiredEntries(Date.now())
@@ -520,10 +529,10 @@ export async function acquireGenAIChat(
   }
 }
 
-export async function scaleGenAIChatPool(
-  providerConfig: GenAIProviderConfig,
+export async function scaleSessionChatPool(
+  providerConfig: SessionProviderConfig,
   baseURL: string,
-  purpose: GenAIChatPurpose,
+  purpose: SessionChatPurpose,
   desiredSlots: number,
   createChat: () => Promise<string>,
 ): Promise<void> {
@@ -538,7 +547,7 @@ export async function scaleGenAIChatPool(
 
   await mutex.acquire()
   entry.createChatFactory = createChat
-  const normalizedDesired = Math.min(desiredSlots, GENAI_CHAT_MAX_SLOTS_PER_KEY)
+  const normalizedDesired = Math.min(desiredSlots, SESSION_CHAT_MAX_SLOTS_PER_KEY)
   const existingCount = entry.slots.length + entry.pendingProvisionCount
   const needed = Math.max(normalizedDesired - existingCount, 0)
   mutex.release()
@@ -549,15 +558,128 @@ export async function scaleGenAIChatPool(
   for (let i = 0; i < needed; i++) {
     try {
       const slot = await provisionSlot(key, entry, mutex, createChat)
-      logger.info('[GenAI] Warmed idle chat slot', { key, chatGuid: slot.chatGuid, desiredSlots: normalizedDesired, slotCount: entry.slots.length })
+      logger.info('[SessionChatPool] Warmed idle chat slot', { key, chatGuid: slot.chatGuid, desiredSlots: normalizedDesired, slotCount: entry.slots.length })
     }
     catch (error) {
-      logger.warn('[GenAI] Failed to warm chat slot', { key, error })
+      logger.warn('[SessionChatPool] Failed to warm chat slot', { key, error })
       break
     }
   }
 }
 
+export interface SessionChatSlotInspection {
+  slotId: string
+  chatGuid: string
+  busy: boolean
+  ageMs: number
+  idleMs: number
+  parentMessageGuid: string | null
+  pendingMessageGuid: string | null
+  pendingSince: number | null
+}
+
+export interface SessionChatPoolInspection {
+  key: string
+  providerId: string
+  purpose: SessionChatPurpose
+  baseURL: string
+  slots: SessionChatSlotInspection[]
+  waiterCount: number
+  pendingProvisionCount: number
+}
+
+export function parseSessionChatPoolKey(key: string): { providerId: string, purpose: SessionChatPurpose, baseURL: string } {
+  const [providerId = '', purpose = 'translate', ...rest] = key.split(':')
+  return { providerId, purpose: purpose as SessionChatPurpose, baseURL: rest.join(':') }
+}
+
+export async function inspectSessionChatPool(): Promise<SessionChatPoolInspection[]> {
+  await ensureHydrated()
+  const now = Date.now()
+  pruneExpiredEntries(now)
+
+  return Array.from(chatPool.entries(), ([key, entry]) => ({
+    key,
+    ...parseSessionChatPoolKey(key),
+    slots: entry.slots.map(slot => ({
+      slotId: slot.slotId,
+      chatGuid: slot.chatGuid,
+      busy: slot.busy,
+      ageMs: now - slot.createdAt,
+      idleMs: slot.busy ? 0 : now - slot.lastUsed,
+      parentMessageGuid: slot.parentMessageGuid,
+      pendingMessageGuid: slot.pendingMessageGuid,
+      pendingSince: slot.pendingSince,
+    })),
+    waiterCount: entry.waiters.length,
+    pendingProvisionCount: entry.pendingProvisionCount,
+  }))
+}
+
+/**
+ * Drop a slot from the pool so its chat is never handed out again. A lease that still
+ * holds the slot keeps working until it is released, after which the slot is discarded.
+ * Returns the removed chat with the base URL it lives on, or null when the slot no longer exists.
+ */
+export async function invalidateSessionChatSlot(key: string, slotId: string): Promise<{ chatGuid: string, baseURL: string } | null> {
+  await ensureHydrated()
+  const entry = chatPool.get(key)
+  const slot = entry?.slots.find(candidate => candidate.slotId === slotId)
+  if (!entry || !slot)
+    return null
+
+  if (entry.createChatFactory) {
+    await handleInvalidate(key, entry, getMutex(key), slot, entry.createChatFactory)
+  }
+  else {
+    // Hydrated pools have no factory until the next acquire, and therefore no waiters either
+    const mutex = getMutex(key)
+    await mutex.acquire()
+    entry.slots = entry.slots.filter(candidate => candidate.slotId !== slotId)
+    if (entry.slots.length === 0 && entry.waiters.length === 0 && entry.pendingProvisionCount === 0) {
+      chatPool.delete(key)
+      scheduleDeleteEntries([key])
+    }
+    else {
+      schedulePersistEntry(key, entry)
+    }
+    mutex.release()
+  }
+
+  logger.info('[SessionChatPool] Invalidated chat slot from inspector', { key, chatGuid: slot.chatGuid })
+  return { chatGuid: slot.chatGuid, baseURL: parseSessionChatPoolKey(key).baseURL }
+}
+
+/**
+ * Forget every pooled slot of a provider, e.g. after its remote chats were deleted.
+ * Returns the chat guids that were tracked locally.
+ */
+export async function clearSessionChatPool(providerId: string): Promise<string[]> {
+  await ensureHydrated()
+  const chatGuids: string[] = []
+  const clearedKeys: string[] = []
+
+  for (const [key, entry] of chatPool.entries()) {
+    if (parseSessionChatPoolKey(key).providerId !== providerId)
+      continue
+    const mutex = getMutex(key)
+    await mutex.acquire()
+    chatGuids.push(...entry.slots.map(slot => slot.chatGuid))
+    entry.slots = []
+    if (entry.waiters.length === 0 && entry.pendingProvisionCount === 0) {
+      chatPool.delete(key)
+      clearedKeys.push(key)
+    }
+    else {
+      schedulePersistEntry(key, entry)
+    }
+    mutex.release()
+  }
+
+  scheduleDeleteEntries(clearedKeys)
+  return chatGuids
+}
+
 async function clearPoolsForTest() {
   await flushPersistenceQueue()
   chatPool.clear()
@@ -0,0 +1,442 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { SessionProviderAdapter, SessionTextListener } from './types'
+import type { SessionProviderConfig } from '@/types/config/provider'
+import type { ArticleContent } from '@/types/content'
+import type { TranslationChunkMetadata } from '@/types/translation-chunk'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+import type { SessionChatLease, SessionChatPurpose } from '@/utils/session-provider/chat-pool'
+import { logger } from '@/utils/logger'
+import { getTranslatePrompt } from '@/utils/prompts/translate'
+import { getBatchFormat } from '@/utils/request/batch-format'
+import { acquireSessionChat, clearSessionChatPool, invalidateSessionChatSlot, scaleSessionChatPool } from '@/utils/session-provider/chat-pool'
+import { registerActiveSessionRequest } from '@/utils/session-provider/request-registry'
+import { createAbortError, isAbortError, SessionChatBusyError, throwIfAborted } from './errors'
+import { getSessionProviderAdapter } from './registry'
+import { normalizeAssistantResponse } from './response'
+import { ensureProviderSession } from './session'
+
+const CHAT_MAX_RECOVERY_ATTEMPTS = 3
+
+export function getSessionProviderBaseURL(adapter: SessionProviderAdapter, providerConfig: SessionProviderConfig): string {
+  const configured = providerConfig.baseURL?.trim()
+  return configured ? configured.replace(/\/$/, '') : adapter.defaultBaseURL
+}
+
+export function resolveSessionModelName(providerConfig: SessionProviderConfig, purpose: SessionChatPurpose): string | null {
+  const modelConfig = providerConfig.models[purpose]
+  const value = modelConfig.isCustomModel ? modelConfig.customModel : modelConfig.model
+  return value ?? null
+}
+
+/**
+ * Signs in if needed and runs the adapter's preparation step. Resolves to the portal base URL.
+ */
+export async function ensureSessionProviderReady(adapter: SessionProviderAdapter, providerConfig: SessionProviderConfig): Promise<string> {
+  const baseURL = await ensureProviderSession(adapter, getSessionProviderBaseURL(adapter, providerConfig))
+  await adapter.prepare?.(baseURL)
+  return baseURL
+}
+
+function forwardAbortSignal(source: AbortSignal | null | undefined, targetController: AbortController): () => void {
+  if (!source)
+    return () => {}
+
+  const listener = () => {
+    if (targetController.signal.aborted)
+      return
+    targetController.abort(source.reason ?? createAbortError('Session provider request aborted by linked signal'))
+  }
+
+  source.addEventListener('abort', listener)
+  return () => source.removeEventListener('abort', listener)
+}
+
+function createResponseCanceler(
+  adapter: SessionProviderAdapter,
+  baseURL: string,
+  messageId: string,
+  providerConfig: SessionProviderConfig,
+  purpose: SessionChatPurpose,
+) {
+  let invoked = false
+  return async (reason?: string) => {
+    if (invoked)
+      return
+    invoked = true
+
+    let success = true
+
+    try {
+      await adapter.cancelResponse(baseURL, messageId)
+      logger.info(`[${adapter.displayName}] Cancelled response stream`, { messageId, reason })
+    }
+    catch (error) {
+      success = false
+      logger.warn(`[${adapter.displayName}] Failed to cancel response stream`, { messageId, reason, error })
+    }
+    finally {
+      void adapter.logReliabilityEvent?.({
+        type: 'messages-response-cancel',
+        providerId: providerConfig.id,
+        modelType: purpose,
+        model: resolveSessionModelName(providerConfig, purpose),
+        reason,
+        metadata: {
+          messageGuid: messageId,
+          success,
+        },
+        success,
+      })
+    }
+  }
+}
+
+async function invalidateChatWithRemoteDelete(adapter: SessionProviderAdapter, baseURL: string, chatLease: SessionChatLease, reason: string) {
+  try {
+    await adapter.deleteChats(baseURL, [chatLease.chatGuid])
+    logger.info(`[${adapter.displayName}] Deleted chat conversation before retry`, {
+      chatGuid: chatLease.chatGuid,
+      reason,
+    })
+  }
+  catch (error) {
+    logger.warn(`[${adapter.displayName}] Failed to delete chat conversation`, {
+      chatGuid: chatLease.chatGuid,
+      reason,
+      error,
+    })
+  }
+  finally {
+    await chatLease.invalidate()
+  }
+}
+
+async function settlePendingMessageIfNeeded(adapter: SessionProviderAdapter, baseURL: string, chatLease: SessionChatLease, signal?: AbortSignal): Promise<boolean> {
+  if (!chatLease.pendingMessageGuid)
+    return true
+
+  try {
+    await adapter.waitForMessageCompletion(baseURL, chatLease.pendingMessageGuid, { signal })
+    chatLease.setPendingMessageGuid(null)
+    return true
+  }
+  catch (error) {
+    if (isAbortError(error))
+      throw error
+    logger.warn(`[${adapter.displayName}] Pending user message did not complete`, {
+      chatGuid: chatLease.chatGuid,
+      pendingMessageGuid: chatLease.pendingMessageGuid,
+      error,
+    })
+    return false
+  }
+}
+
+interface SessionChatRequest {
+  purpose: SessionChatPurpose
+  content: string
+  clientRequestId?: string
+  onText?: SessionTextListener
+}
+
+/**
+ * Sends `content` through a pooled chat of the portal and resolves to the assistant's answer.
+ * Busy chats wait for their previous message, and chats left in an unknown state are deleted
+ * remotely and replaced, up to a few times, before the request gives up.
+ */
+async function runSessionProviderChat(
+  adapter: SessionProviderAdapter,
+  providerConfig: SessionProviderConfig,
+  baseURL: string,
+  request: SessionChatRequest,
+): Promise<string> {
+  const { purpose, content, clientRequestId, onText } = request
+  const tag = `[${adapter.displayName}]`
+
+  const abortController = new AbortController()
+  const unregister = clientRequestId
+    ? registerActiveSessionRequest(clientRequestId, (reason?: unknown) => {
+        if (abortController.signal.aborted)
+          return
+        const fallbackReason = purpose === 'translate' ? 'Tab closed during translation' : 'Session provider request aborted'
+        const abortReason = reason instanceof Error ? reason : createAbortError(typeof reason === 'string' ? reason : fallbackReason)
+        abortController.abort(abortReason)
+      })
+    : null
+
+  try {
+    for (let attempt = 0; attempt < CHAT_MAX_RECOVERY_ATTEMPTS; attempt++) {
+      const chatLease = await acquireSessionChat(providerConfig, baseURL, purpose, () => adapter.createChat(baseURL))
+      let shouldResetChat = false
+      let resetReason: string | null = null
+      let pendingSet = false
+      let pendingMessageSettled = false
+
+      try {
+        if (chatLease.pendingMessageGuid) {
+          const settled = await settlePendingMessageIfNeeded(adapter, baseURL, chatLease, abortController.signal)
+          if (!settled) {
+            shouldResetChat = true
+            resetReason = 'stale-pending-message'
+            continue
+          }
+        }
+
+        let parentCompletionWaitAttempted = false
+
+        while (true) {
+          throwIfAborted(abortController.signal)
+
+          const parentMessageId = chatLease.parentMessageGuid ?? undefined
+          let messageId: string
+          let messageResponseCompleted = false
+          try {
+            messageId = await adapter.sendMessage(baseURL, {
+              chatId: chatLease.chatGuid,
+              content,
+              parentMessageId,
+              signal: abortController.signal,
+            })
+          }
+          catch (error) {
+            if (error instanceof SessionChatBusyError && parentMessageId && !parentCompletionWaitAttempted) {
+              parentCompletionWaitAttempted = true
+              try {
+                await adapter.waitForMessageCompletion(baseURL, parentMessageId, { signal: abortController.signal })
+                continue
+              }
+              catch (completionError) {
+                logger.warn(`${tag} Parent message did not complete before retrying`, {
+                  chatGuid: chatLease.chatGuid,
+                  parentGuid: parentMessageId,
+                  error: completionError,
+                })
+                shouldResetChat = true
+                resetReason = 'parent-still-processing'
+                break
+              }
+            }
+
+            if (error instanceof SessionChatBusyError) {
+              shouldResetChat = true
+              resetReason = 'chat-busy'
+              break
+            }
+
+            throw error
+          }
+
+          chatLease.setPendingMessageGuid(messageId)
+          pendingSet = true
+          const cancelResponse = createResponseCanceler(adapter, baseURL, messageId, providerConfig, purpose)
+
+          // Watch the user message while the answer streams, so a failed message stops the stream
+          let messageFailureError: Error | null = null
+          const streamAbortController = new AbortController()
+          const unlinkStreamAbort = forwardAbortSignal(abortController.signal, streamAbortController)
+          const completionAbortController = new AbortController()
+          const unlinkCompletionAbort = forwardAbortSignal(abortController.signal, completionAbortController)
+
+          const completionMonitor = (async () => {
+            try {
+              await adapter.waitForMessageCompletion(baseURL, messageId, { signal: completionAbortController.signal })
+            }
+            catch (error) {
+              if (isAbortError(error))
+                return
+              const normalizedError = error instanceof Error ? error : new Error(String(error))
+              messageFailureError = normalizedError
+              if (!streamAbortController.signal.aborted)
+                streamAbortController.abort(normalizedError)
+            }
+          })()
+
+          try {
+            const { responseId, fallbackContent } = await adapter.streamResponse(baseURL, {
+              chatId: chatLease.chatGuid,
+              messageId,
+              model: resolveSessionModelName(providerConfig, purpose),
+              signal: streamAbortController.signal,
+              onText,
+            })
+            messageResponseCompleted = true
+
+            completionAbortController.abort()
+            await completionMonitor
+
+            const result = await adapter.fetchResponseContent(baseURL, responseId, {
+              fallbackContent,
+              onInvalidateChat: chatLease.invalidate,
+              signal: abortController.signal,
+            })
+
+            pendingMessageSettled = result.completed
+
+            if (result.completed) {
+              chatLease.setParentMessageGuid(responseId)
+            }
+            else {
+              shouldResetChat = true
+              resetReason = 'response-incomplete'
+            }
+
+            return normalizeAssistantResponse(result.content)
+          }
+          catch (error) {
+            completionAbortController.abort()
+            await completionMonitor
+
+            if (!messageResponseCompleted)
+              void cancelResponse(isAbortError(error) ? 'request-aborted' : 'messages-response-error')
+
+            if (messageFailureError && isAbortError(error))
+              throw messageFailureError
+
+            throw error
+          }
+          finally {
+            streamAbortController.abort()
+            completionAbortController.abort()
+            unlinkStreamAbort()
+            unlinkCompletionAbort()
+          }
+        }
+
+        if (shouldResetChat)
+          continue
+      }
+      catch (error) {
+        if (adapter.shouldInvalidateChat(error))
+          await chatLease.invalidate()
+        if (isAbortError(error)) {
+          shouldResetChat = true
+          resetReason = resetReason ?? 'request-aborted'
+        }
+        throw error
+      }
+      finally {
+        if (pendingSet && pendingMessageSettled)
+          chatLease.setPendingMessageGuid(null)
+
+        if (shouldResetChat)
+          await invalidateChatWithRemoteDelete(adapter, baseURL, chatLease, resetReason ?? 'pending-message')
+        else
+          await chatLease.release()
+      }
+    }
+
+    throw new Error(`${tag} Unable to obtain an available chat conversation`)
+  }
+  finally {
+    unregister?.()
+  }
+}
+
+export interface SessionTranslateOptions {
+  isBatch?: boolean
+  content?: ArticleContent
+  chunkMetadata?: TranslationChunkMetadata
+  chunkMetadataList?: Array<TranslationChunkMetadata | undefined>
+  promptId?: string | null
+  references?: TranslationMemoryReference[]
+  clientRequestId?: string
+  onText?: SessionTextListener
+}
+
+export async function sessionProviderTranslate(
+  text: string,
+  targetCode: LangCodeISO6393,
+  providerConfig: SessionProviderConfig,
+  options?: SessionTranslateOptions,
+): Promise<string> {
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const baseURL = await ensureSessionProviderReady(adapter, providerConfig)
+
+  const { systemPrompt, prompt } = await getTranslatePrompt(targetCode, text, { ...options, batchFormat: getBatchFormat(providerConfig) })
+  const content = [systemPrompt, prompt].filter(Boolean).join('\n\n')
+  if (!content.trim())
+    return ''
+
+  return await runSessionProviderChat(adapter, providerConfig, baseURL, {
+    purpose: 'translate',
+    content,
+    clientRequestId: options?.clientRequestId,
+    onText: options?.onText,
+  })
+}
+
+export interface SessionGenerateOptions {
+  system?: string
+  modelType?: SessionChatPurpose
+  clientRequestId?: string
+  onText?: SessionTextListener
+}
+
+export async function sessionProviderGenerateText(
+  prompt: string,
+  providerConfig: SessionProviderConfig,
+  options?: SessionGenerateOptions,
+): Promise<string> {
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const baseURL = await ensureSessionProviderReady(adapter, providerConfig)
+
+  const content = [options?.system ?? '', prompt].filter(Boolean).join('\n\n')
+  if (!content.trim())
+    return ''
+
+  return await runSessionProviderChat(adapter, providerConfig, baseURL, {
+    purpose: options?.modelType ?? 'translate',
+    content,
+    clientRequestId: options?.clientRequestId,
+    onText: options?.onText,
+  })
+}
+
+export async function warmSessionProviderChatPool(
+  providerConfig: SessionProviderConfig,
+  purpose: SessionChatPurpose,
+  desiredSlots: number,
+): Promise<void> {
+  if (desiredSlots <= 0)
+    return
+
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const baseURL = await ensureProviderSession(adapter, getSessionProviderBaseURL(adapter, providerConfig))
+  await scaleSessionChatPool(providerConfig, baseURL, purpose, desiredSlots, () => adapter.createChat(baseURL))
+}
+
+export async function invalidatePooledSessionProviderChat(providerConfig: SessionProviderConfig, key: string, slotId: string): Promise<boolean> {
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const removed = await invalidateSessionChatSlot(key, slotId)
+  if (!removed)
+    return false
+
+  const { chatGuid, baseURL } = removed
+  try {
+    await adapter.deleteChats(baseURL, [chatGuid])
+  }
+  catch (error) {
+    logger.warn(`[${adapter.displayName}] Failed to delete invalidated chat conversation`, { chatGuid, error })
+  }
+  return true
+}
+
+/**
+ * Delete every remote chat of the signed-in account, including ones the pool never tracked,
+ * and drop the local pool for the provider. Returns the number of chats deleted.
+ */
+export async function deleteAllSessionProviderChats(providerConfig: SessionProviderConfig): Promise<number> {
+  const adapter = getSessionProviderAdapter(providerConfig)
+  const baseURL = await ensureProviderSession(adapter, getSessionProviderBaseURL(adapter, providerConfig))
+  const pooledChatGuids = await clearSessionChatPool(providerConfig.id)
+  const remoteChatGuids = await adapter.listChats(baseURL)
+  const chatIds = Array.from(new Set([...remoteChatGuids, ...pooledChatGuids]))
+
+  await adapter.deleteChats(baseURL, chatIds)
+  logger.info(`[${adapter.displayName}] Deleted all chat conversations`, { providerId: providerConfig.id, count: chatIds.length })
+  return chatIds.length
+}
+
+export const __private__ = {
+  runSessionProviderChat,
+}
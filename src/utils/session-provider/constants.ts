@@ -0,0 +1,2 @@
+export const SESSION_CHAT_IDLE_TTL_MS = 120_000
+export const SESSION_CHAT_MAX_SLOTS_PER_KEY = 6
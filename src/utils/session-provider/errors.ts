@@ -0,0 +1,36 @@
+/**
+ * Thrown by an adapter's `sendMessage` when the portal refuses a new message because the chat is
+ * still answering the previous one.
+ */
+export class SessionChatBusyError extends Error {
+  code: string | null | undefined
+
+  constructor(message: string, code?: string | null) {
+    super(message)
+    this.name = 'SessionChatBusyError'
+    this.code = code
+  }
+}
+
+export function createAbortError(message: string): Error {
+  if (typeof DOMException !== 'undefined')
+    return new DOMException(message, 'AbortError')
+  const error = new Error(message)
+  error.name = 'AbortError'
+  return error
+}
+
+export function isAbortError(error: unknown): error is DOMException | Error {
+  if (!error)
+    return false
+  if (error instanceof DOMException)
+    return error.name === 'AbortError'
+  if (error instanceof Error)
+    return error.name === 'AbortError'
+  return false
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted)
+    throw (signal.reason instanceof Error ? signal.reason : createAbortError('Session provider request aborted'))
+}
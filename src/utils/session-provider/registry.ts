@@ -0,0 +1,11 @@
+import type { SessionProviderAdapter } from './types'
+import type { SessionProviderConfig, SessionProviderTypes } from '@/types/config/provider'
+import { genaiSessionAdapter } from '@/utils/genai/client'
+
+export const SESSION_PROVIDER_ADAPTERS: Record<SessionProviderTypes, SessionProviderAdapter> = {
+  genai: genaiSessionAdapter,
+}
+
+export function getSessionProviderAdapter(providerConfig: SessionProviderConfig): SessionProviderAdapter {
+  return SESSION_PROVIDER_ADAPTERS[providerConfig.provider]
+}
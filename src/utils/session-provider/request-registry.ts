@@ -0,0 +1,43 @@
+import { logger } from '@/utils/logger'
+
+export type SessionCancelHandler = (reason?: unknown) => Promise<void> | void
+
+const activeSessionRequests = new Map<string, SessionCancelHandler>()
+
+export function registerActiveSessionRequest(clientRequestId: string, handler: SessionCancelHandler): () => void {
+  if (!clientRequestId)
+    return () => {}
+
+  activeSessionRequests.set(clientRequestId, handler)
+
+  return () => {
+    const current = activeSessionRequests.get(clientRequestId)
+    if (current === handler)
+      activeSessionRequests.delete(clientRequestId)
+  }
+}
+
+export async function cancelActiveSessionRequest(clientRequestId: string, reason?: string): Promise<boolean> {
+  const handler = activeSessionRequests.get(clientRequestId)
+  if (!handler)
+    return false
+
+  activeSessionRequests.delete(clientRequestId)
+
+  try {
+    await handler(reason)
+    return true
+  }
+  catch (error) {
+    logger.warn('[SessionProvider] Failed to cancel active request', {
+      clientRequestId,
+      reason,
+      error,
+    })
+    throw error
+  }
+}
+
+export function clearActiveSessionRequestsForTest() {
+  activeSessionRequests.clear()
+}
@@ -0,0 +1,14 @@
+export function normalizeAssistantResponse(text: string): string {
+  const [, content = text] = text.match(/<\/think>([\s\S]*)/) || []
+  return content.trim()
+}
+
+/**
+ * Visible part of a response that is still streaming. Nothing is shown while the model is inside
+ * an unclosed `<think>` block, so reasoning never flashes up before the answer.
+ */
+export function normalizePartialAssistantResponse(text: string): string {
+  if (text.includes('<think>') && !text.includes('</think>'))
+    return ''
+  return normalizeAssistantResponse(text)
+}
@@ -0,0 +1,119 @@
+import type { SessionProviderAdapter } from './types'
+import { browser } from '#imports'
+import { logger } from '@/utils/logger'
+import { sendMessage } from '@/utils/message'
+
+export const SESSION_LOGIN_TIMEOUT_MS = 2 * 60 * 1000
+export const SESSION_RETRY_INTERVAL_MS = 10000
+
+type BrowserAPI = typeof browser
+type SessionCheck = Pick<SessionProviderAdapter, 'displayName' | 'checkSession'>
+
+function getBrowserApi(): BrowserAPI {
+  const globalBrowser = (globalThis as typeof globalThis & { browser?: BrowserAPI }).browser
+  return globalBrowser ?? browser
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function waitForSession(adapter: SessionCheck, baseURL: string): Promise<void> {
+  const start = Date.now()
+  while (Date.now() - start < SESSION_LOGIN_TIMEOUT_MS) {
+    try {
+      const ready = await adapter.checkSession(baseURL)
+      if (ready)
+        return
+    }
+    catch (error) {
+      logger.warn(`[${adapter.displayName}] Session check failed during wait`, error)
+    }
+    await delay(SESSION_RETRY_INTERVAL_MS)
+  }
+  throw new Error(`Timed out waiting for ${adapter.displayName} login to complete`)
+}
+
+async function openInteractiveLoginTab(adapter: SessionCheck, baseURL: string): Promise<number | undefined> {
+  const browserApi = getBrowserApi()
+  try {
+    if (browserApi.tabs?.create) {
+      const tab = await browserApi.tabs.create({ url: baseURL, active: true })
+      return tab.id ?? undefined
+    }
+
+    logger.info(`[${adapter.displayName}] Delegating login tab creation to background context`)
+    return await sendMessage('openExtensionTab', { url: baseURL, active: true })
+  }
+  catch (error) {
+    logger.error(`[${adapter.displayName}] Failed to open login tab`, error)
+    throw error
+  }
+}
+
+async function closeTab(adapter: SessionCheck, tabId?: number) {
+  if (tabId === undefined)
+    return
+  const browserApi = getBrowserApi()
+  try {
+    if (browserApi.tabs?.remove) {
+      await browserApi.tabs.remove(tabId)
+      return
+    }
+
+    logger.info(`[${adapter.displayName}] Delegating login tab close to background context`, { tabId })
+    await sendMessage('closeExtensionTab', { tabId })
+  }
+  catch (error) {
+    logger.warn(`[${adapter.displayName}] Failed to close login tab`, error)
+  }
+}
+
+// One login tab per portal at a time, however many requests are waiting on it
+const interactiveLoginPromises = new Map<string, Promise<void>>()
+
+async function runInteractiveLogin(adapter: SessionCheck, baseURL: string): Promise<void> {
+  const tabId = await openInteractiveLoginTab(adapter, baseURL)
+  try {
+    await waitForSession(adapter, baseURL)
+  }
+  finally {
+    await closeTab(adapter, tabId)
+  }
+}
+
+/**
+ * Makes sure the browser is signed into the portal at `baseURL`. When it isn't, the portal is
+ * opened in a tab so the user can go through SSO, and the call resolves once the session appears.
+ */
+export async function ensureProviderSession(adapter: SessionCheck, baseURL: string): Promise<string> {
+  let hasActiveSession = false
+  try {
+    hasActiveSession = await adapter.checkSession(baseURL)
+  }
+  catch (error) {
+    logger.warn(`[${adapter.displayName}] Session check failed before interactive login`, error)
+    hasActiveSession = false
+  }
+
+  if (hasActiveSession) {
+    logger.info(`[${adapter.displayName}] Session already active`)
+    return baseURL
+  }
+
+  let interactiveLoginPromise = interactiveLoginPromises.get(baseURL)
+  if (!interactiveLoginPromise) {
+    interactiveLoginPromise = runInteractiveLogin(adapter, baseURL)
+      .catch((error) => {
+        logger.error(`[${adapter.displayName}] Interactive login failed`, error)
+        throw error
+      })
+      .finally(() => {
+        interactiveLoginPromises.delete(baseURL)
+      })
+    interactiveLoginPromises.set(baseURL, interactiveLoginPromise)
+  }
+
+  await interactiveLoginPromise
+  return baseURL
+}
@@ -0,0 +1,86 @@
+import type { SessionChatPurpose } from './chat-pool'
+import type { SessionProviderTypes } from '@/types/config/provider'
+
+/**
+ * Receives the normalized response text accumulated so far, each time the stream grows.
+ */
+export type SessionTextListener = (text: string) => void
+
+export interface SessionSendMessageRequest {
+  chatId: string
+  content: string
+  // Last assistant message of the chat, so the portal threads the new message after it
+  parentMessageId?: string | null
+  signal?: AbortSignal
+}
+
+export interface SessionStreamRequest {
+  chatId: string
+  messageId: string
+  // Model title or id from the provider config, resolved by the adapter
+  model: string | null | undefined
+  signal?: AbortSignal
+  onText?: SessionTextListener
+}
+
+export interface SessionStreamResult {
+  responseId: string
+  // Text collected from the stream, used when the stored message can't be fetched
+  fallbackContent: string | null
+}
+
+export interface SessionResponseContentOptions {
+  fallbackContent?: string | null
+  onInvalidateChat?: () => Promise<void> | void
+  signal?: AbortSignal
+}
+
+export interface SessionResponseContent {
+  content: string
+  // False when the portal never confirmed the response, so the chat must not be reused
+  completed: boolean
+}
+
+/**
+ * Outcome of cancelling a response stream, recorded by adapters that keep a reliability log.
+ */
+export interface SessionReliabilityEvent {
+  type: 'messages-response-cancel'
+  providerId: string
+  modelType: SessionChatPurpose
+  model: string | null
+  reason?: string | null
+  metadata?: Record<string, unknown> | null
+  success: boolean
+}
+
+/**
+ * Everything the extension needs to know about a chat portal that has no API and is signed into
+ * through SSO cookies. The login tab, chat pool, request cancellation and retry logic are shared;
+ * an adapter only speaks the portal's HTTP dialect.
+ */
+export interface SessionProviderAdapter {
+  provider: SessionProviderTypes
+  displayName: string
+  defaultBaseURL: string
+  // Whether the browser holds a signed-in session for `baseURL`
+  checkSession: (baseURL: string) => Promise<boolean>
+  // Runs once the session is ready, before any chat request (e.g. refreshing the model list)
+  prepare?: (baseURL: string) => Promise<void>
+  // Titles of the models the portal offers, used to check the configured models exist
+  listModels?: (baseURL: string) => Promise<string[]>
+  createChat: (baseURL: string) => Promise<string>
+  listChats: (baseURL: string) => Promise<string[]>
+  deleteChats: (baseURL: string, chatIds: string[]) => Promise<void>
+  // Resolves to the id of the stored user message; throws `SessionChatBusyError` if the chat is busy
+  sendMessage: (baseURL: string, request: SessionSendMessageRequest) => Promise<string>
+  streamResponse: (baseURL: string, request: SessionStreamRequest) => Promise<SessionStreamResult>
+  cancelResponse: (baseURL: string, messageId: string) => Promise<void>
+  // Resolves once the portal has finished processing `messageId`, rejects if it failed
+  waitForMessageCompletion: (baseURL: string, messageId: string, options?: { signal?: AbortSignal }) => Promise<void>
+  fetchResponseContent: (baseURL: string, responseId: string, options?: SessionResponseContentOptions) => Promise<SessionResponseContent>
+  // HTTP failures after which the pooled chat can't be trusted anymore
+  shouldInvalidateChat: (error: unknown) => boolean
+  // Stores reliability events of the shared chat logic, e.g. for the provider's reliability report
+  logReliabilityEvent?: (event: SessionReliabilityEvent) => Promise<void>
+}
@@ -0,0 +1,40 @@
+// Modifier names as recorded by `ShortcutKeyRecorder`, which uses hotkeys-js key names
+const MODIFIER_PROPERTIES = {
+  alt: 'altKey',
+  ctrl: 'ctrlKey',
+  shift: 'shiftKey',
+  command: 'metaKey',
+} as const satisfies Record<string, keyof KeyboardEvent>
+
+type Modifier = keyof typeof MODIFIER_PROPERTIES
+
+function isModifier(key: string): key is Modifier {
+  return key in MODIFIER_PROPERTIES
+}
+
+// Letters and digits are compared by physical key, since Option on macOS changes `event.key`
+function matchesKey(event: Pick<KeyboardEvent, 'key' | 'code'>, key: string): boolean {
+  if (/^[a-z]$/.test(key))
+    return event.code === `Key${key.toUpperCase()}`
+  if (/^\d$/.test(key))
+    return event.code === `Digit${key}`
+  return event.key.toLowerCase() === key
+}
+
+/**
+ * Whether a keyboard event presses exactly the recorded shortcut, e.g. `['alt', 'r']`. Shortcuts
+ * bound with hotkeys-js don't fire inside editable fields, this checks events from anywhere.
+ */
+export function matchesShortcut(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'altKey' | 'ctrlKey' | 'shiftKey' | 'metaKey'>,
+  shortcut: string[],
+): boolean {
+  const modifiers = shortcut.filter(isModifier)
+  const keys = shortcut.filter(key => !isModifier(key))
+  if (keys.length !== 1)
+    return false
+
+  const modifiersMatch = (Object.keys(MODIFIER_PROPERTIES) as Modifier[])
+    .every(modifier => event[MODIFIER_PROPERTIES[modifier]] === modifiers.includes(modifier))
+  return modifiersMatch && matchesKey(event, keys[0])
+}
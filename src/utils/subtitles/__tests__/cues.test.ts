@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { getCueText, joinSubtitleCueTexts, selectCuesAhead, splitSubtitleCueTranslation } from '../cues'
+
+function cue(startTime: number, endTime: number) {
+  return { startTime, endTime }
+}
+
+describe('getCueText', () => {
+  it('should read the text of WebVTT cues without markup', () => {
+    const vttCue = {
+      text: '<v Alice>Hello\n<i>world</i>',
+      getCueAsHTML: () => ({ textContent: 'Hello\nworld' }),
+    } as unknown as TextTrackCue
+
+    expect(getCueText(vttCue)).toBe('Hello world')
+  })
+
+  it('should fall back to the raw text of other cues', () => {
+    expect(getCueText({ text: '  Hello  ' } as unknown as TextTrackCue)).toBe('Hello')
+    expect(getCueText({} as TextTrackCue)).toBe('')
+  })
+})
+
+describe('selectCuesAhead', () => {
+  it('should select cues on screen and those starting within the lookahead', () => {
+    const cues = [cue(0, 5), cue(8, 12), cue(12, 20), cue(40, 45), cue(100, 105)]
+
+    expect(selectCuesAhead(cues, 10, 30)).toEqual([cue(8, 12), cue(12, 20), cue(40, 45)])
+  })
+
+  it('should return nothing past the last cue', () => {
+    expect(selectCuesAhead([cue(0, 5)], 10, 30)).toEqual([])
+  })
+})
+
+describe('subtitle cue batches', () => {
+  it('should round-trip cue texts through a batch', () => {
+    const texts = ['Hello there.', 'How are you?', 'Fine.']
+    const joined = joinSubtitleCueTexts(texts)
+
+    expect(splitSubtitleCueTranslation(joined, texts.length)).toEqual(texts)
+  })
+
+  it('should tolerate whitespace changes around separators', () => {
+    expect(splitSubtitleCueTranslation('你好。%%你好吗？ %%  很好。', 3)).toEqual(['你好。', '你好吗？', '很好。'])
+  })
+
+  it('should throw when the translation merged or dropped cues', () => {
+    expect(() => splitSubtitleCueTranslation('你好。你好吗？ %% 很好。', 3)).toThrow()
+    expect(() => splitSubtitleCueTranslation('你好。 %%  %% 很好。', 3)).toThrow()
+  })
+})
@@ -0,0 +1,44 @@
+import { BATCH_SEPARATOR } from '@/utils/constants/prompt'
+
+interface TimedCue {
+  startTime: number
+  endTime: number
+}
+
+/**
+ * Plain text of a cue. WebVTT cues can hold markup like `<v Speaker>` or `<i>`, which
+ * `getCueAsHTML` resolves; other cue types only expose their raw text.
+ */
+export function getCueText(cue: TextTrackCue): string {
+  const text = 'getCueAsHTML' in cue && typeof cue.getCueAsHTML === 'function'
+    ? (cue as VTTCue).getCueAsHTML().textContent
+    : (cue as TextTrackCue & { text?: string }).text
+  return text?.replace(/\s+/g, ' ').trim() ?? ''
+}
+
+/**
+ * Cues that are on screen now or start within the next `lookaheadSeconds`, in track order
+ */
+export function selectCuesAhead<T extends TimedCue>(cues: ArrayLike<T>, currentTime: number, lookaheadSeconds: number): T[] {
+  const horizon = currentTime + lookaheadSeconds
+  return Array.from(cues).filter(cue => cue.endTime >= currentTime && cue.startTime <= horizon)
+}
+
+/**
+ * Join cue texts into one text for a single translation request. Line breaks don't survive the
+ * text normalization before translation, so cues are separated like batched paragraphs.
+ */
+export function joinSubtitleCueTexts(texts: string[]): string {
+  return texts.join(` ${BATCH_SEPARATOR} `)
+}
+
+/**
+ * Split the translation of `joinSubtitleCueTexts` back into one text per cue. Throws when the
+ * translation merged or split cues, so the caller can translate them one by one instead.
+ */
+export function splitSubtitleCueTranslation(translation: string, count: number): string[] {
+  const parts = translation.split(BATCH_SEPARATOR).map(part => part.trim())
+  if (parts.length !== count || parts.some(part => !part))
+    throw new Error(`Subtitle batch result count mismatch: expected ${count}, got ${parts.length}`)
+  return parts
+}
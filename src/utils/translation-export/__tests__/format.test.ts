@@ -0,0 +1,66 @@
+import type { TranslationExportDocument } from '../format'
+import { describe, expect, it } from 'vitest'
+import { buildTranslationEpub, formatTranslationHtml, formatTranslationMarkdown, getTranslationExportFileName } from '../format'
+
+const exportDocument: TranslationExportDocument = {
+  title: 'A <long> read',
+  url: 'https://example.com/article',
+  sourceLang: 'en',
+  targetLang: 'zh',
+  exportedAt: new Date('2025-01-02T03:04:05.678Z'),
+  pairs: [
+    { original: 'Intro', translation: '引言', headingLevel: null },
+    { original: 'Part one', translation: '第一部分', headingLevel: 2 },
+    { original: 'Tom & Jerry', translation: '猫和老鼠', headingLevel: null },
+  ],
+}
+
+function findEntry(zip: Uint8Array, name: string): string | undefined {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  const decoder = new TextDecoder()
+  let offset = 0
+  while (view.getUint32(offset, true) === 0x04034B50) {
+    const size = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    const dataOffset = offset + 30 + nameLength
+    if (decoder.decode(zip.subarray(offset + 30, dataOffset)) === name)
+      return decoder.decode(zip.subarray(dataOffset, dataOffset + size))
+    offset = dataOffset + size
+  }
+  return undefined
+}
+
+describe('translation export', () => {
+  it('should alternate original and translated paragraphs in Markdown', () => {
+    expect(formatTranslationMarkdown(exportDocument)).toBe(
+      '# A <long> read\n\n<https://example.com/article>\n\nIntro\n\n引言\n\n## Part one\n\n## 第一部分\n\nTom & Jerry\n\n猫和老鼠\n',
+    )
+  })
+
+  it('should inline the styles and escape the text in HTML', () => {
+    const html = formatTranslationHtml(exportDocument, {
+      css: '.read-frog-translated-block-content { color: red; }',
+      translationNodeStyle: { preset: 'blur', isCustom: false, customCSS: null },
+    })
+
+    expect(html).toContain('.read-frog-translated-block-content { color: red; }')
+    expect(html).toContain('<title>A &lt;long&gt; read</title>')
+    expect(html).toContain('<p>Tom &amp; Jerry<span class="read-frog-translated-content-wrapper" lang="zh"><br><span class="read-frog-translated-block-content" read-frog-custom-translation-style="blur">猫和老鼠</span></span></p>')
+  })
+
+  it('should split the EPUB into chapters at top level headings', () => {
+    const epub = buildTranslationEpub(exportDocument)
+
+    expect(findEntry(epub, 'mimetype')).toBe('application/epub+zip')
+    expect(findEntry(epub, 'OEBPS/content.opf')).toContain('<meta property="dcterms:modified">2025-01-02T03:04:05Z</meta>')
+    const nav = findEntry(epub, 'OEBPS/nav.xhtml')
+    expect(nav).toContain('<a href="chapter-1.xhtml">A &lt;long&gt; read</a>')
+    expect(nav).toContain('<a href="chapter-2.xhtml">')
+    expect(nav).not.toContain('chapter-3.xhtml')
+    expect(findEntry(epub, 'OEBPS/chapter-2.xhtml')).toContain('<p class="original" lang="en" xml:lang="en">Tom &amp; Jerry</p>')
+  })
+
+  it('should build a file name the file system accepts', () => {
+    expect(getTranslationExportFileName('Q&A: what/why?', 'epub')).toBe('Q&A_ what_why_.epub')
+  })
+})
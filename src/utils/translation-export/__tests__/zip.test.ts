@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { createStoredZip } from '../zip'
+
+function readEntryNames(zip: Uint8Array): string[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  const decoder = new TextDecoder()
+  const names: string[] = []
+  let offset = 0
+  while (view.getUint32(offset, true) === 0x04034B50) {
+    const size = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    names.push(decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength)))
+    offset += 30 + nameLength + size
+  }
+  return names
+}
+
+describe('createStoredZip', () => {
+  it('should store entries in order with their CRC-32', () => {
+    const zip = createStoredZip([
+      { name: 'mimetype', data: 'application/epub+zip' },
+      { name: 'hello.txt', data: 'hello' },
+    ])
+    const view = new DataView(zip.buffer)
+
+    expect(readEntryNames(zip)).toEqual(['mimetype', 'hello.txt'])
+    // The first entry is stored uncompressed with its content right after the header
+    expect(view.getUint16(8, true)).toBe(0)
+    expect(new TextDecoder().decode(zip.subarray(38, 58))).toBe('application/epub+zip')
+
+    const secondEntryOffset = 30 + 'mimetype'.length + 'application/epub+zip'.length
+    expect(view.getUint32(secondEntryOffset + 14, true)).toBe(0x3610A686)
+  })
+
+  it('should end with a directory that lists every entry', () => {
+    const zip = createStoredZip([{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: new Uint8Array([1, 2, 3]) }])
+    const view = new DataView(zip.buffer)
+    const endOffset = zip.length - 22
+
+    expect(view.getUint32(endOffset, true)).toBe(0x06054B50)
+    expect(view.getUint16(endOffset + 10, true)).toBe(2)
+    const centralOffset = view.getUint32(endOffset + 16, true)
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014B50)
+    expect(centralOffset + view.getUint32(endOffset + 12, true)).toBe(endOffset)
+  })
+})
@@ -0,0 +1,231 @@
+import type { TranslationNodeStyleConfig } from '@/types/config/translate'
+import { BLOCK_CONTENT_CLASS, CONTENT_WRAPPER_CLASS } from '@/utils/constants/dom-labels'
+import { CUSTOM_TRANSLATION_NODE_ATTRIBUTE } from '@/utils/constants/translation-node-style'
+import { createStoredZip } from './zip'
+
+export const TRANSLATION_EXPORT_FORMATS = ['html', 'markdown', 'epub'] as const
+export type TranslationExportFormat = typeof TRANSLATION_EXPORT_FORMATS[number]
+
+export const TRANSLATION_EXPORT_FILE_TYPES: Record<TranslationExportFormat, { extension: string, mimeType: string }> = {
+  html: { extension: 'html', mimeType: 'text/html' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  epub: { extension: 'epub', mimeType: 'application/epub+zip' },
+}
+
+export interface TranslationPair {
+  original: string
+  translation: string
+  // Level of the heading the paragraph belongs to, null for body text
+  headingLevel: number | null
+}
+
+export interface TranslationExportDocument {
+  title: string
+  url: string
+  // BCP 47 language tags
+  sourceLang: string
+  targetLang: string
+  pairs: TranslationPair[]
+  exportedAt: Date
+}
+
+export interface TranslationHtmlOptions {
+  // Translation styles of the page, inlined so the file renders the same anywhere
+  css: string
+  translationNodeStyle: TranslationNodeStyleConfig
+}
+
+// A new EPUB chapter starts at every heading up to this level
+const EPUB_CHAPTER_HEADING_LEVEL = 2
+
+const EPUB_CSS = `body { font-family: serif; line-height: 1.6; }
+.translation { margin-top: 0.25em; color: #555; }
+`
+
+const EXPORT_PAGE_CSS = `body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; }
+.read-frog-export-source { color: #6b7280; font-size: 0.875rem; word-break: break-all; }
+`
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export function getTranslationExportFileName(title: string, format: TranslationExportFormat): string {
+  const baseName = title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'translation'
+  return `${baseName}.${TRANSLATION_EXPORT_FILE_TYPES[format].extension}`
+}
+
+function toSingleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Markdown with each original paragraph followed by its translation
+ */
+export function formatTranslationMarkdown({ title, url, pairs }: TranslationExportDocument): string {
+  const paragraphs = pairs.flatMap(({ original, translation, headingLevel }) => {
+    if (!headingLevel)
+      return [original, translation]
+    const marker = '#'.repeat(headingLevel)
+    return [`${marker} ${toSingleLine(original)}`, `${marker} ${toSingleLine(translation)}`]
+  })
+
+  return `${[`# ${toSingleLine(title)}`, `<${url}>`, ...paragraphs].join('\n\n')}\n`
+}
+
+/**
+ * A standalone HTML page laid out like the bilingual translation of the page, with the translation
+ * styles inlined
+ */
+export function formatTranslationHtml(exportDocument: TranslationExportDocument, { css, translationNodeStyle }: TranslationHtmlOptions): string {
+  const { title, url, sourceLang, targetLang, pairs } = exportDocument
+  const styleName = translationNodeStyle.isCustom ? 'custom' : translationNodeStyle.preset
+  const customCSS = translationNodeStyle.isCustom ? translationNodeStyle.customCSS ?? '' : ''
+
+  const body = pairs.map(({ original, translation, headingLevel }) => {
+    const tag = headingLevel ? `h${headingLevel}` : 'p'
+    const translatedNode = `<span class="${CONTENT_WRAPPER_CLASS}" lang="${escapeXml(targetLang)}"><br><span class="${BLOCK_CONTENT_CLASS}" ${CUSTOM_TRANSLATION_NODE_ATTRIBUTE}="${escapeXml(styleName)}">${escapeXml(translation)}</span></span>`
+    return `<${tag}>${escapeXml(original)}${translatedNode}</${tag}>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(sourceLang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+${EXPORT_PAGE_CSS}${css}
+${customCSS}
+</style>
+</head>
+<body>
+<article>
+<h1>${escapeXml(title)}</h1>
+<p class="read-frog-export-source"><a href="${escapeXml(url)}">${escapeXml(url)}</a></p>
+${body.join('\n')}
+</article>
+</body>
+</html>
+`
+}
+
+interface EpubChapter {
+  title: string
+  pairs: TranslationPair[]
+}
+
+function splitIntoChapters(title: string, pairs: TranslationPair[]): EpubChapter[] {
+  const chapters: EpubChapter[] = []
+  let current: EpubChapter = { title, pairs: [] }
+
+  for (const pair of pairs) {
+    const startsChapter = pair.headingLevel !== null && pair.headingLevel <= EPUB_CHAPTER_HEADING_LEVEL
+    if (startsChapter) {
+      if (current.pairs.length > 0)
+        chapters.push(current)
+      current = { title: toSingleLine(pair.translation), pairs: [] }
+    }
+    current.pairs.push(pair)
+  }
+  if (current.pairs.length > 0 || chapters.length === 0)
+    chapters.push(current)
+
+  return chapters
+}
+
+function renderEpubChapter(chapter: EpubChapter, { sourceLang, targetLang }: TranslationExportDocument): string {
+  const body = chapter.pairs.flatMap(({ original, translation, headingLevel }) => {
+    const tag = headingLevel ? `h${headingLevel}` : 'p'
+    return [
+      `<${tag} class="original" lang="${escapeXml(sourceLang)}" xml:lang="${escapeXml(sourceLang)}">${escapeXml(original)}</${tag}>`,
+      `<${tag} class="translation">${escapeXml(translation)}</${tag}>`,
+    ]
+  })
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" lang="${escapeXml(targetLang)}" xml:lang="${escapeXml(targetLang)}">
+<head>
+<title>${escapeXml(chapter.title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * An EPUB 3 book, split into chapters at the top level headings so long articles are easy to
+ * navigate on e-readers
+ */
+export function buildTranslationEpub(exportDocument: TranslationExportDocument): Uint8Array<ArrayBuffer> {
+  const { title, url, targetLang, exportedAt } = exportDocument
+  const chapters = splitIntoChapters(title, exportDocument.pairs)
+  const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`
+  const modified = exportedAt.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+  const containerXml = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`
+
+  const contentOpf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(url)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>${escapeXml(targetLang)}</dc:language>
+<dc:source>${escapeXml(url)}</dc:source>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${chapters.map((_, index) => `<item id="chapter-${index + 1}" href="${chapterFile(index)}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine>
+${chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`).join('\n')}
+</spine>
+</package>
+`
+
+  const navXhtml = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(targetLang)}" xml:lang="${escapeXml(targetLang)}">
+<head>
+<title>${escapeXml(title)}</title>
+</head>
+<body>
+<nav epub:type="toc">
+<ol>
+${chapters.map((chapter, index) => `<li><a href="${chapterFile(index)}">${escapeXml(chapter.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`
+
+  return createStoredZip([
+    // Must come first and stay uncompressed, readers sniff the file type from it
+    { name: 'mimetype', data: TRANSLATION_EXPORT_FILE_TYPES.epub.mimeType },
+    { name: 'META-INF/container.xml', data: containerXml },
+    { name: 'OEBPS/content.opf', data: contentOpf },
+    { name: 'OEBPS/nav.xhtml', data: navXhtml },
+    { name: 'OEBPS/style.css', data: EPUB_CSS },
+    ...chapters.map((chapter, index) => ({
+      name: `OEBPS/${chapterFile(index)}`,
+      data: renderEpubChapter(chapter, exportDocument),
+    })),
+  ])
+}
@@ -0,0 +1,72 @@
+import type { Config } from '@/types/config/config'
+import type { ProviderConfig } from '@/types/config/provider'
+import type TranslationMemory from '@/utils/db/dexie/tables/translation-memory'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_CONFIG } from '@/utils/constants/config'
+import { DEFAULT_PROVIDER_CONFIG } from '@/utils/constants/providers'
+
+const entries = vi.hoisted(() => new Map<string, TranslationMemory>())
+
+// Just the queries the memory runs, over a map instead of IndexedDB
+vi.mock('@/utils/db/dexie/db', () => ({
+  db: {
+    translationMemory: {
+      get: vi.fn(async (key: string) => entries.get(key)),
+      put: vi.fn(async (entry: TranslationMemory) => {
+        entries.set(entry.key, entry)
+      }),
+      update: vi.fn(),
+      where: vi.fn(() => ({
+        between: ([targetCode, minLength]: [string, number], [, maxLength]: [string, number]) => ({
+          limit: () => ({
+            toArray: async () => [...entries.values()].filter(entry =>
+              entry.targetCode === targetCode && entry.length >= minLength && entry.length <= maxLength),
+          }),
+        }),
+      })),
+    },
+  },
+}))
+
+const MEMORY_CONFIG: Config = {
+  ...DEFAULT_CONFIG,
+  translate: {
+    ...DEFAULT_CONFIG.translate,
+    translationMemory: { ...DEFAULT_CONFIG.translate.translationMemory, enabled: true },
+  },
+}
+
+vi.mock('@/utils/config/config', () => ({
+  getConfigFromStorage: vi.fn(async () => MEMORY_CONFIG),
+}))
+
+const { lookupTranslationMemory, putTranslationMemory } = await import('../memory')
+
+const TEXT = 'Release notes for the new version of the reader'
+const openaiConfig = DEFAULT_PROVIDER_CONFIG.openai as ProviderConfig
+const deepseekConfig = DEFAULT_PROVIDER_CONFIG.deepseek as ProviderConfig
+const langConfig = DEFAULT_CONFIG.language
+
+describe('translation memory', () => {
+  beforeEach(() => {
+    entries.clear()
+  })
+
+  it('reuses a translation for the same provider and prompt', async () => {
+    await putTranslationMemory(TEXT, '阅读器新版本的发行说明', { langConfig, providerConfig: openaiConfig, promptId: null })
+
+    const lookup = await lookupTranslationMemory(TEXT, { langConfig, providerConfig: openaiConfig, promptId: null })
+    expect(lookup.reuse).toBe('阅读器新版本的发行说明')
+  })
+
+  it('only offers translations by another provider or prompt as references', async () => {
+    await putTranslationMemory(TEXT, '阅读器新版本的发行说明', { langConfig, providerConfig: openaiConfig, promptId: null })
+
+    const otherProvider = await lookupTranslationMemory(TEXT, { langConfig, providerConfig: deepseekConfig, promptId: null })
+    const otherPrompt = await lookupTranslationMemory(TEXT, { langConfig, providerConfig: openaiConfig, promptId: 'formal' })
+    for (const lookup of [otherProvider, otherPrompt]) {
+      expect(lookup.reuse).toBeNull()
+      expect(lookup.references).toEqual([{ source: TEXT, translation: '阅读器新版本的发行说明' }])
+    }
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { buildTranslationMemoryPrompt, MAX_PROMPT_REFERENCES, mergeTranslationMemoryReferences } from '../prompt'
+import { adaptTranslationNumbers, getSimilarLengthRange, getTextSimilarity, maskNumbers, normalizeMemoryText } from '../similarity'
+
+describe('normalizeMemoryText', () => {
+  it('collapses whitespace and trims', () => {
+    expect(normalizeMemoryText('  Hello \n\t world  ')).toBe('Hello world')
+  })
+})
+
+describe('maskNumbers', () => {
+  it('masks integers, decimals and times as one placeholder each', () => {
+    expect(maskNumbers('Updated 12:45 on 2024, version 1.2.3')).toBe('Updated # on #, version #')
+  })
+})
+
+describe('getTextSimilarity', () => {
+  it('treats texts that only differ in numbers or case as identical', () => {
+    expect(getTextSimilarity('Posted 3 hours ago', 'posted 15 hours ago')).toBe(1)
+  })
+
+  it('scores small edits high and unrelated texts low', () => {
+    const base = 'The quick brown fox jumps over the lazy dog near the river bank.'
+    expect(getTextSimilarity(base, 'The quick brown fox jumped over the lazy dog near the river bank.')).toBeGreaterThan(0.85)
+    expect(getTextSimilarity(base, 'Completely different sentence about databases and indexes.')).toBeLessThan(0.3)
+  })
+
+  it('works on CJK text without spaces', () => {
+    expect(getTextSimilarity('今天的天气非常好，我们去公园散步吧。', '今天的天气非常好，我们去公园跑步吧。')).toBeGreaterThan(0.7)
+  })
+})
+
+describe('getSimilarLengthRange', () => {
+  it('contains every length that can still reach the threshold', () => {
+    const [min, max] = getSimilarLengthRange(100, 0.8)
+    expect(min).toBe(66)
+    expect(max).toBe(150)
+  })
+})
+
+describe('adaptTranslationNumbers', () => {
+  it('carries changed numbers over into the translation', () => {
+    expect(adaptTranslationNumbers('Updated 3 hours ago', '3 小时前更新', 'Updated 15 hours ago')).toBe('15 小时前更新')
+  })
+
+  it('swaps numbers in one pass', () => {
+    expect(adaptTranslationNumbers('From 1 to 2', '从 1 到 2', 'From 2 to 3')).toBe('从 2 到 3')
+  })
+
+  it('rejects numbers that cannot be mapped safely', () => {
+    expect(adaptTranslationNumbers('3 items', '3 项', '3 or 4 items')).toBeNull()
+    expect(adaptTranslationNumbers('3 of 3 done', '已完成 3/3', '4 of 3 done')).toBeNull()
+    expect(adaptTranslationNumbers('Page 2', '第二页', 'Page 5')).toBeNull()
+  })
+
+  it('returns the translation unchanged when the numbers match', () => {
+    expect(adaptTranslationNumbers('Page 2', '第二页', 'Page  2')).toBe('第二页')
+  })
+})
+
+describe('translation memory prompt', () => {
+  it('merges references without duplicates and caps them', () => {
+    const references = Array.from({ length: MAX_PROMPT_REFERENCES + 2 }, (_, index) => ({ source: `Source ${index}`, translation: `Target ${index}` }))
+    const merged = mergeTranslationMemoryReferences([references.slice(0, 3), undefined, references])
+    expect(merged.map(reference => reference.source)).toEqual(references.slice(0, MAX_PROMPT_REFERENCES).map(reference => reference.source))
+  })
+
+  it('lists references in the prompt', () => {
+    expect(buildTranslationMemoryPrompt([])).toBeNull()
+    const prompt = buildTranslationMemoryPrompt([{ source: 'Hello world', translation: '你好，世界' }])
+    expect(prompt).toContain('1. Source: Hello world')
+    expect(prompt).toContain('Translation: 你好，世界')
+  })
+})
@@ -0,0 +1,183 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { Config } from '@/types/config/config'
+import type { ProviderConfig } from '@/types/config/provider'
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+import type TranslationMemory from '@/utils/db/dexie/tables/translation-memory'
+import { isLLMTranslateProviderConfig } from '@/types/config/provider'
+import { getConfigFromStorage } from '@/utils/config/config'
+import { getFinalSourceCode } from '@/utils/config/languages'
+import { db } from '@/utils/db/dexie/db'
+import { enforceGlossary } from '@/utils/glossary/enforce'
+import { Sha256Hex } from '@/utils/hash'
+import { getProviderCacheIdentity } from '@/utils/host/translate/cache-key'
+import { logger } from '@/utils/logger'
+import { adaptTranslationNumbers, getSimilarLengthRange, getTextSimilarity, maskNumbers, normalizeMemoryText } from './similarity'
+
+// Short strings such as buttons and labels look alike by trigrams without meaning the same
+const MIN_FUZZY_LOOKUP_LENGTH = 20
+const MAX_FUZZY_CANDIDATES = 200
+const MAX_REFERENCES = 3
+
+export interface TranslationMemoryLookup {
+  // Remembered translation to return as is, with the numbers of the new text carried over
+  reuse: string | null
+  // Translations of similar paragraphs to show an LLM provider, best match first
+  references: TranslationMemoryReference[]
+}
+
+// The request a translation is looked up or stored for
+export interface TranslationMemoryRequest {
+  langConfig: Config['language']
+  providerConfig: ProviderConfig
+  // Resolved on the content side, `null` for the default prompt
+  promptId: string | null
+}
+
+const EMPTY_LOOKUP: TranslationMemoryLookup = { reuse: null, references: [] }
+
+/**
+ * What else than the text shapes a translation, like the parts of the cache key. Only entries of
+ * the same output are reused; the others still make good references for an LLM provider.
+ */
+function getTranslationMemoryOutputId({ langConfig, providerConfig, promptId }: TranslationMemoryRequest) {
+  return Sha256Hex(
+    getFinalSourceCode(langConfig.sourceCode, langConfig.detectedCode),
+    getProviderCacheIdentity(providerConfig),
+    isLLMTranslateProviderConfig(providerConfig) ? `prompt:${promptId ?? ''}` : 'prompt:',
+  )
+}
+
+function getTranslationMemoryKey(sourceText: string, targetCode: LangCodeISO6393, outputId: string) {
+  return Sha256Hex(targetCode, outputId, maskNumbers(sourceText))
+}
+
+async function reuseEntry(entry: TranslationMemory, translation: string, sourceText: string) {
+  await db.translationMemory.update(entry.key, { lastUsedAt: new Date() })
+  // The glossary may have changed since the entry was stored
+  return await enforceGlossary(sourceText, translation, entry.targetCode)
+}
+
+/**
+ * Looks for earlier translations of `text` for the same request. A paragraph that only differs in
+ * whitespace or numbers is always reused; a similar one is reused or returned as a reference
+ * depending on the configured thresholds. Translations by another provider or prompt are only
+ * returned as references. Lookup failures never block a translation.
+ */
+export async function lookupTranslationMemory(text: string, request: TranslationMemoryRequest): Promise<TranslationMemoryLookup> {
+  const config = (await getConfigFromStorage())?.translate.translationMemory
+  const sourceText = normalizeMemoryText(text)
+  if (!config?.enabled || !sourceText)
+    return EMPTY_LOOKUP
+
+  try {
+    const { targetCode } = request.langConfig
+    const outputId = getTranslationMemoryOutputId(request)
+    const key = getTranslationMemoryKey(sourceText, targetCode, outputId)
+    const exactEntry = await db.translationMemory.get(key)
+    if (exactEntry) {
+      const adapted = adaptTranslationNumbers(exactEntry.sourceText, exactEntry.translation, sourceText)
+      if (adapted !== null)
+        return { reuse: await reuseEntry(exactEntry, adapted, sourceText), references: [] }
+    }
+
+    const maskedLength = maskNumbers(sourceText).length
+    if (maskedLength < MIN_FUZZY_LOOKUP_LENGTH)
+      return exactEntry ? { reuse: null, references: [{ source: exactEntry.sourceText, translation: exactEntry.translation }] } : EMPTY_LOOKUP
+
+    const [minLength, maxLength] = getSimilarLengthRange(maskedLength, config.referenceThreshold)
+    const candidates = await db.translationMemory
+      .where('[targetCode+length]')
+      .between([targetCode, minLength], [targetCode, maxLength], true, true)
+      .limit(MAX_FUZZY_CANDIDATES)
+      .toArray()
+
+    const matches = candidates
+      .map(entry => ({ entry, similarity: entry.key === key ? 1 : getTextSimilarity(sourceText, entry.sourceText) }))
+      .filter(({ similarity }) => similarity >= config.referenceThreshold)
+      .sort((a, b) => b.similarity - a.similarity)
+
+    // At a threshold of 1 only the exact lookup above may reuse an entry
+    const best = matches.find(({ entry }) => entry.outputId === outputId)
+    if (best && best.entry.key !== key && config.reuseThreshold < 1 && best.similarity >= config.reuseThreshold) {
+      const adapted = adaptTranslationNumbers(best.entry.sourceText, best.entry.translation, sourceText)
+      if (adapted !== null)
+        return { reuse: await reuseEntry(best.entry, adapted, sourceText), references: [] }
+    }
+
+    return {
+      reuse: null,
+      references: matches.slice(0, MAX_REFERENCES).map(({ entry }) => ({ source: entry.sourceText, translation: entry.translation })),
+    }
+  }
+  catch (error) {
+    logger.warn('Failed to look up translation memory', error)
+    return EMPTY_LOOKUP
+  }
+}
+
+export async function putTranslationMemory(
+  text: string,
+  translation: string,
+  request: TranslationMemoryRequest,
+) {
+  const sourceText = normalizeMemoryText(text)
+  const trimmedTranslation = translation.trim()
+  if (!sourceText || !trimmedTranslation)
+    return
+
+  const config = (await getConfigFromStorage())?.translate.translationMemory
+  if (!config?.enabled)
+    return
+
+  try {
+    const { targetCode } = request.langConfig
+    const outputId = getTranslationMemoryOutputId(request)
+    const now = new Date()
+    await db.translationMemory.put({
+      key: getTranslationMemoryKey(sourceText, targetCode, outputId),
+      sourceText,
+      translation: trimmedTranslation,
+      targetCode,
+      length: maskNumbers(sourceText).length,
+      outputId,
+      providerId: request.providerConfig.id,
+      createdAt: now,
+      lastUsedAt: now,
+    })
+  }
+  catch (error) {
+    logger.warn('Failed to store translation memory', error)
+  }
+}
+
+// The entries of `sourceText` by every provider and prompt
+function whereSameSource(sourceText: string, targetCode: LangCodeISO6393) {
+  const maskedText = maskNumbers(sourceText)
+  return db.translationMemory
+    .where('[targetCode+length]')
+    .equals([targetCode, maskedText.length])
+    .filter(entry => maskNumbers(entry.sourceText) === maskedText)
+}
+
+/**
+ * Replaces the remembered translations of `text` with a manual correction. The cache entry that
+ * was corrected doesn't know its prompt, so only existing entries are updated.
+ */
+export async function correctTranslationMemory(text: string, translation: string, targetCode: LangCodeISO6393) {
+  const sourceText = normalizeMemoryText(text)
+  const trimmedTranslation = translation.trim()
+  if (!sourceText || !trimmedTranslation)
+    return
+  await whereSameSource(sourceText, targetCode).modify({ sourceText, translation: trimmedTranslation, lastUsedAt: new Date() })
+}
+
+/**
+ * Forgets the remembered translations of `text` by every provider and prompt, so none of them is
+ * reused or shown as a reference
+ */
+export async function deleteTranslationMemory(text: string, targetCode: LangCodeISO6393) {
+  const sourceText = normalizeMemoryText(text)
+  if (!sourceText)
+    return
+  await whereSameSource(sourceText, targetCode).delete()
+}
@@ -0,0 +1,27 @@
+import type { TranslationMemoryReference } from '@/types/translation-memory'
+
+export const MAX_PROMPT_REFERENCES = 5
+
+/**
+ * Combines the references of several paragraphs for one batched request, dropping duplicates.
+ */
+export function mergeTranslationMemoryReferences(referenceLists: Array<TranslationMemoryReference[] | undefined>): TranslationMemoryReference[] {
+  const seenSources = new Set<string>()
+  const merged: TranslationMemoryReference[] = []
+  for (const reference of referenceLists.flatMap(references => references ?? [])) {
+    if (seenSources.has(reference.source))
+      continue
+    seenSources.add(reference.source)
+    merged.push(reference)
+  }
+  return merged.slice(0, MAX_PROMPT_REFERENCES)
+}
+
+export function buildTranslationMemoryPrompt(references: TranslationMemoryReference[] | undefined): string | null {
+  if (!references?.length)
+    return null
+
+  const pairs = references.slice(0, MAX_PROMPT_REFERENCES)
+    .map((reference, index) => `${index + 1}. Source: ${reference.source}\n   Translation: ${reference.translation}`)
+  return `Reference translations of similar passages translated earlier. Keep their wording and terminology where the input says the same thing, but translate only the input and never copy parts that differ:\n${pairs.join('\n')}`
+}
@@ -0,0 +1,80 @@
+const NUMBER_PATTERN = /\d+(?:[.,:]\d+)*/g
+const NUMBER_MASK = '#'
+
+export function normalizeMemoryText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Replaces every number with the same placeholder, so paragraphs that only differ in a date,
+ * version or counter share one memory entry.
+ */
+export function maskNumbers(text: string): string {
+  return text.replace(NUMBER_PATTERN, NUMBER_MASK)
+}
+
+function getTrigramCounts(text: string): Map<string, number> {
+  const padded = ` ${maskNumbers(text).toLowerCase()} `
+  const counts = new Map<string, number>()
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    const trigram = padded.slice(i, i + 3)
+    counts.set(trigram, (counts.get(trigram) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Dice coefficient over character trigrams, between 0 and 1. Character n-grams work the same for
+ * spaced and CJK text and tolerate small edits anywhere in the paragraph.
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  const trigramsA = getTrigramCounts(a)
+  const trigramsB = getTrigramCounts(b)
+  let sizeA = 0
+  let sizeB = 0
+  let shared = 0
+  for (const count of trigramsA.values())
+    sizeA += count
+  for (const [trigram, count] of trigramsB) {
+    sizeB += count
+    shared += Math.min(count, trigramsA.get(trigram) ?? 0)
+  }
+  return sizeA + sizeB === 0 ? 1 : (2 * shared) / (sizeA + sizeB)
+}
+
+/**
+ * Length range a text can have and still reach `threshold` against a text of `length` characters.
+ */
+export function getSimilarLengthRange(length: number, threshold: number): [number, number] {
+  return [Math.floor(length * threshold / (2 - threshold)), Math.ceil(length * (2 - threshold) / threshold)]
+}
+
+/**
+ * Carries the numbers of `source` over into a remembered translation of `memorySource`. Returns
+ * null when the numbers can't be mapped safely: a different count, or a changed number that is
+ * repeated in the source or does not appear exactly once in the translation.
+ */
+export function adaptTranslationNumbers(memorySource: string, memoryTranslation: string, source: string): string | null {
+  const oldNumbers = memorySource.match(NUMBER_PATTERN) ?? []
+  const newNumbers = source.match(NUMBER_PATTERN) ?? []
+  if (oldNumbers.length !== newNumbers.length)
+    return null
+
+  const translatedNumbers = memoryTranslation.match(NUMBER_PATTERN) ?? []
+  const replacements = new Map<string, string>()
+  for (const [index, oldNumber] of oldNumbers.entries()) {
+    const newNumber = newNumbers[index]
+    if (oldNumber === newNumber)
+      continue
+    const isUnique = oldNumbers.filter(n => n === oldNumber).length === 1
+      && translatedNumbers.filter(n => n === oldNumber).length === 1
+    if (!isUnique)
+      return null
+    replacements.set(oldNumber, newNumber)
+  }
+
+  if (replacements.size === 0)
+    return memoryTranslation
+  // One pass, so a number that is swapped for another changed number is not replaced twice
+  return memoryTranslation.replace(NUMBER_PATTERN, number => replacements.get(number) ?? number)
+}
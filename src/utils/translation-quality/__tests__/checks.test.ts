@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  combineQualityResult,
+  detectTranslationIssues,
+  getBackTranslationScore,
+  needsAdequacyCheck,
+  parseQualityJudgeResponse,
+} from '../checks'
+
+const SOURCE = 'The committee approved the new budget after a long debate on Tuesday.'
+const GERMAN = 'Der Ausschuss hat den neuen Haushalt am Dienstag nach einer langen Debatte genehmigt.'
+
+describe('detectTranslationIssues', () => {
+  it('finds nothing wrong with a faithful translation', () => {
+    expect(detectTranslationIssues(SOURCE, GERMAN, 'deu')).toEqual([])
+  })
+
+  it('flags a translation that repeats the source', () => {
+    expect(detectTranslationIssues(SOURCE, ` ${SOURCE}`, 'deu')).toEqual(['untranslated'])
+  })
+
+  it('flags a translation in another language than the target', () => {
+    const french = 'Le comite a approuve le nouveau budget apres un long debat mardi dernier.'
+    expect(detectTranslationIssues(SOURCE, french, 'deu')).toEqual(['wrongLanguage'])
+  })
+
+  it('compares the base language of script variants', () => {
+    expect(detectTranslationIssues(SOURCE, '中文'.repeat(25), 'cmn-Hant')).toEqual([])
+  })
+
+  it('flags a translation that is much shorter than the source', () => {
+    expect(detectTranslationIssues(SOURCE, 'Der Ausschuss hat', 'deu')).toEqual(['truncated'])
+  })
+
+  it('flags a translation that stops mid-sentence', () => {
+    expect(detectTranslationIssues(SOURCE, 'Der Ausschuss hat den neuen Haushalt genehmigt,', 'deu')).toContain('truncated')
+  })
+
+  it('weighs ideographs more than letters', () => {
+    expect(detectTranslationIssues(SOURCE, '中'.repeat(20), 'cmn')).toEqual([])
+  })
+
+  it('flags text the model added around the translation', () => {
+    expect(detectTranslationIssues(GERMAN, `Here is the translation: ${SOURCE}`, 'eng')).toEqual(['addition'])
+    expect(detectTranslationIssues('Kurz.', `Short. ${SOURCE} ${SOURCE}`, 'eng')).toEqual([])
+    expect(detectTranslationIssues(GERMAN, `${SOURCE} ${SOURCE} ${SOURCE} ${SOURCE}`, 'eng')).toContain('addition')
+  })
+})
+
+describe('needsAdequacyCheck', () => {
+  it('skips the model when the translation is unusable anyway', () => {
+    expect(needsAdequacyCheck(['truncated'])).toBe(true)
+    expect(needsAdequacyCheck(['wrongLanguage'])).toBe(false)
+    expect(needsAdequacyCheck(['untranslated'])).toBe(false)
+  })
+})
+
+describe('getBackTranslationScore', () => {
+  it('scores back-translations by their similarity to the source', () => {
+    const paraphrase = 'After a lengthy debate on Tuesday, the committee approved the new budget.'
+    const unrelated = 'Cats like to sleep in warm places during the winter months.'
+    expect(getBackTranslationScore(SOURCE, SOURCE)).toBe(100)
+    expect(getBackTranslationScore(SOURCE, paraphrase)).toBe(100)
+    expect(getBackTranslationScore(SOURCE, unrelated)).toBe(0)
+  })
+
+  it('gives partial scores to loose paraphrases', () => {
+    const score = getBackTranslationScore(
+      'Researchers found that regular exercise improves memory in older adults.',
+      'Researchers discovered that regular physical activity improves the memory of elderly people.',
+    )
+    expect(score).toBeGreaterThan(50)
+    expect(score).toBeLessThan(100)
+  })
+})
+
+describe('parseQualityJudgeResponse', () => {
+  it('reads the verdict out of a fenced reply', () => {
+    const response = 'Sure.\n```json\n{"score": 72.4, "issues": ["truncated", "typo"]}\n```'
+    expect(parseQualityJudgeResponse(response)).toEqual({ score: 72, issues: ['truncated'] })
+  })
+
+  it('clamps the score and defaults the issues', () => {
+    expect(parseQualityJudgeResponse('{"score": 140}')).toEqual({ score: 100, issues: [] })
+  })
+
+  it('returns null without a usable score', () => {
+    expect(parseQualityJudgeResponse('Looks good to me')).toBeNull()
+    expect(parseQualityJudgeResponse('{"score": "high"}')).toBeNull()
+    expect(parseQualityJudgeResponse('{score: 80')).toBeNull()
+  })
+})
+
+describe('combineQualityResult', () => {
+  it('marks low adequacy as inadequate', () => {
+    expect(combineQualityResult(45, [], 60)).toEqual({ score: 45, issues: ['inadequate'] })
+    expect(combineQualityResult(80, [], 60)).toEqual({ score: 80, issues: [] })
+  })
+
+  it('caps the score for detected issues', () => {
+    expect(combineQualityResult(95, ['truncated'], 60)).toEqual({ score: 40, issues: ['truncated'] })
+    expect(combineQualityResult(undefined, ['wrongLanguage', 'wrongLanguage'], 60)).toEqual({ score: 0, issues: ['wrongLanguage'] })
+  })
+})
@@ -0,0 +1,138 @@
+import type { LangCodeISO6393 } from '@read-frog/definitions'
+import type { TranslationQuality, TranslationQualityIssue } from '@/types/translation-quality'
+import { franc } from 'franc-min'
+import { TRANSLATION_QUALITY_ISSUES } from '@/types/translation-quality'
+import { QUALITY_CHECK_MAX_SCORE } from '@/utils/constants/translate'
+import { getTextSimilarity, normalizeMemoryText } from '@/utils/translation-memory/similarity'
+
+// franc can't tell languages apart on shorter texts
+const MIN_LENGTH_FOR_LANG_DETECTION = 50
+const MIN_LENGTH_FOR_UNTRANSLATED_CHECK = 20
+const UNTRANSLATED_SIMILARITY = 0.9
+// Length ratios only say something about paragraphs of a few words
+const MIN_WEIGHT_FOR_LENGTH_CHECK = 40
+const MIN_LENGTH_RATIO = 0.35
+const MAX_LENGTH_RATIO = 3
+// Back-translations are paraphrases of the source, so their similarity to it is scaled between these
+const UNRELATED_BACK_TRANSLATION_SIMILARITY = 0.1
+const ADEQUATE_BACK_TRANSLATION_SIMILARITY = 0.6
+
+// An ideograph or kana carries about as much as three Latin letters, a Hangul syllable about two
+const IDEOGRAPH_OR_KANA_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu
+const HANGUL_PATTERN = /\p{Script=Hangul}/gu
+const SENTENCE_END_PATTERN = /[.!?。！？…]["'”’)\]]*$/
+const CLAUSE_END_PATTERN = /[,;:、，；：\-–—]$/
+// Models sometimes talk to the user before the translation
+const PREAMBLE_PATTERN = /^(?:here(?:'s| is) (?:the |your )?translation|sure[,!]|translation:|以下是|译文[:：])/i
+
+// Issues that make the translation useless whatever its adequacy, the score drops to the cap
+const ISSUE_SCORE_CAPS: Record<Exclude<TranslationQualityIssue, 'inadequate'>, number> = {
+  untranslated: 0,
+  wrongLanguage: 0,
+  truncated: 40,
+  addition: 50,
+}
+
+function getTextWeight(text: string): number {
+  const visibleLength = text.replace(/\s+/g, '').length
+  const wideCount = text.match(IDEOGRAPH_OR_KANA_PATTERN)?.length ?? 0
+  const hangulCount = text.match(HANGUL_PATTERN)?.length ?? 0
+  return visibleLength + wideCount * 2 + hangulCount
+}
+
+/**
+ * Problems that show without a model: a translation that repeats the source, is in another
+ * language than the target, stops mid-sentence or is padded with text that isn't in the source.
+ */
+export function detectTranslationIssues(sourceText: string, translation: string, targetCode: LangCodeISO6393): TranslationQualityIssue[] {
+  const source = normalizeMemoryText(sourceText)
+  const target = normalizeMemoryText(translation)
+
+  if (source.length >= MIN_LENGTH_FOR_UNTRANSLATED_CHECK && getTextSimilarity(source, target) >= UNTRANSLATED_SIMILARITY)
+    return ['untranslated']
+
+  const issues: TranslationQualityIssue[] = []
+
+  if (target.length >= MIN_LENGTH_FOR_LANG_DETECTION) {
+    const detectedCode = franc(target)
+    // franc has no script variants, `cmn-Hant` is detected as `cmn`
+    if (detectedCode !== 'und' && detectedCode !== targetCode.split('-')[0])
+      issues.push('wrongLanguage')
+  }
+
+  const sourceWeight = getTextWeight(source)
+  const lengthRatio = sourceWeight >= MIN_WEIGHT_FOR_LENGTH_CHECK ? getTextWeight(target) / sourceWeight : 1
+  if (lengthRatio < MIN_LENGTH_RATIO || (SENTENCE_END_PATTERN.test(source) && CLAUSE_END_PATTERN.test(target)))
+    issues.push('truncated')
+  if (lengthRatio > MAX_LENGTH_RATIO || (PREAMBLE_PATTERN.test(target) && !PREAMBLE_PATTERN.test(source)))
+    issues.push('addition')
+
+  return issues
+}
+
+/**
+ * The LLM check can't change the outcome for a translation that repeats the source or is in the
+ * wrong language
+ */
+export function needsAdequacyCheck(issues: TranslationQualityIssue[]): boolean {
+  return !issues.includes('untranslated') && !issues.includes('wrongLanguage')
+}
+
+/**
+ * Adequacy score of a translation from how close its back-translation comes to the source
+ */
+export function getBackTranslationScore(sourceText: string, backTranslation: string): number {
+  const similarity = getTextSimilarity(normalizeMemoryText(sourceText), normalizeMemoryText(backTranslation))
+  const scaled = (similarity - UNRELATED_BACK_TRANSLATION_SIMILARITY) / (ADEQUATE_BACK_TRANSLATION_SIMILARITY - UNRELATED_BACK_TRANSLATION_SIMILARITY)
+  return Math.round(Math.min(Math.max(scaled, 0), 1) * QUALITY_CHECK_MAX_SCORE)
+}
+
+/**
+ * Reads the JSON verdict of the judge, tolerating code fences and text around it. Returns null when
+ * the reply has no usable score.
+ */
+export function parseQualityJudgeResponse(response: string): { score: number, issues: TranslationQualityIssue[] } | null {
+  const json = response.match(/\{[\s\S]*\}/)?.[0]
+  if (!json)
+    return null
+
+  let verdict: unknown
+  try {
+    verdict = JSON.parse(json)
+  }
+  catch {
+    return null
+  }
+
+  if (typeof verdict !== 'object' || verdict === null)
+    return null
+  const { score, issues } = verdict as { score?: unknown, issues?: unknown }
+  if (typeof score !== 'number' || !Number.isFinite(score))
+    return null
+
+  return {
+    score: Math.round(Math.min(Math.max(score, 0), QUALITY_CHECK_MAX_SCORE)),
+    issues: Array.isArray(issues)
+      ? issues.filter((issue): issue is TranslationQualityIssue => (TRANSLATION_QUALITY_ISSUES as readonly unknown[]).includes(issue))
+      : [],
+  }
+}
+
+/**
+ * Final score and issues of a paragraph. `adequacy` is undefined when only the heuristics ran.
+ */
+export function combineQualityResult(
+  adequacy: number | undefined,
+  issues: TranslationQualityIssue[],
+  threshold: number,
+): Pick<TranslationQuality, 'score' | 'issues'> {
+  const uniqueIssues = [...new Set(issues)]
+  if (adequacy !== undefined && adequacy < threshold && !uniqueIssues.includes('inadequate'))
+    uniqueIssues.push('inadequate')
+
+  const caps = uniqueIssues.map(issue => issue === 'inadequate' ? QUALITY_CHECK_MAX_SCORE : ISSUE_SCORE_CAPS[issue])
+  return {
+    score: Math.min(adequacy ?? QUALITY_CHECK_MAX_SCORE, ...caps),
+    issues: uniqueIssues,
+  }
+}
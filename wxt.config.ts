@@ -1,6 +1,7 @@
 import path from 'node:path'
 import process from 'node:process'
 import { defineConfig } from 'wxt'
+import { EXTENSION_COMMANDS } from './src/utils/constants/commands'
 
 // See https://wxt.dev/api/config.html
 export default defineConfig({
@@ -19,7 +20,7 @@ export default defineConfig({
     name: '__MSG_extName__',
     description: '__MSG_extDescription__',
     default_locale: 'en',
-    permissions: ['storage', 'tabs', 'alarms', 'cookies'],
+    permissions: ['storage', 'tabs', 'alarms', 'cookies', 'contextMenus', 'clipboardRead'],
     host_permissions:
       mode === 'development'
         ? [
@@ -36,6 +37,28 @@ export default defineConfig({
             'https://readfrog.app/*', // Include both www and non-www versions
             'https://genai.sec.samsung.net/*',
           ],
+    // Requested when PDF navigations are intercepted, the viewer loads PDFs from any site
+    optional_host_permissions: ['<all_urls>'],
+    // Descriptions are looked up by the browser, nested locale keys are joined with underscores
+    commands: {
+      [EXTENSION_COMMANDS.togglePageTranslation]: {
+        suggested_key: { default: 'Alt+Shift+T' },
+        description: '__MSG_commands_togglePageTranslation__',
+      },
+      [EXTENSION_COMMANDS.cycleTranslationMode]: {
+        description: '__MSG_commands_cycleTranslationMode__',
+      },
+      [EXTENSION_COMMANDS.openReadMode]: {
+        suggested_key: { default: 'Alt+Shift+R' },
+        description: '__MSG_commands_openReadMode__',
+      },
+      [EXTENSION_COMMANDS.translateClipboard]: {
+        description: '__MSG_commands_translateClipboard__',
+      },
+      [EXTENSION_COMMANDS.nextTranslateProvider]: {
+        description: '__MSG_commands_nextTranslateProvider__',
+      },
+    },
     // Firefox-specific settings for MV3
     ...(browser === 'firefox' && {
       browser_specific_settings: {